@@ -11,10 +11,13 @@ import AppShell from './layouts/AppShell'
 import HomePage from './pages/Home'
 import CollectionsPage from './pages/Collections'
 import ProductsPage from './pages/Products'
+import AssembliesPage from './pages/Assemblies'
 import MaterialsPage from './pages/Materials'
 import PriceListPage from './pages/PriceList'
+import MarginsPage from './pages/Margins'
 import SettingsPage from './pages/Settings'
 import JournalPage from './pages/Journal'
+import TrashPage from './pages/Trash'
 import SupabaseDebugPage from './pages/SupabaseDebug' // Новая страница отладки Supabase
 
 // Инициализация i18n (однократно)
@@ -26,6 +29,12 @@ import './theme'
 import QuickPrefsDock from './components/common/QuickPrefsDock'
 // Глобальный тост‑провайдер
 import ToasterProvider from './components/common/ToasterProvider'
+// Уведомления об ошибках сохранения данных
+import StorageErrorNotifier from './components/common/StorageErrorNotifier'
+// Конфликты версий при синхронизации
+import SyncConflictNotifier from './components/common/SyncConflictNotifier'
+// Отмена/повтор изменений каталога
+import HistoryHotkeys from './components/common/HistoryHotkeys'
 
 /**
  * App — корневой компонент с layout-маршрутом
@@ -39,10 +48,13 @@ export default function App(): React.ReactElement {
           <Route index element={<HomePage />} />
           <Route path="collections" element={<CollectionsPage />} />
           <Route path="products" element={<ProductsPage />} />
+          <Route path="assemblies" element={<AssembliesPage />} />
           <Route path="materials" element={<MaterialsPage />} />
           <Route path="pricelist" element={<PriceListPage />} />
+          <Route path="margins" element={<MarginsPage />} />
           <Route path="settings" element={<SettingsPage />} />
           <Route path="journal" element={<JournalPage />} />
+          <Route path="trash" element={<TrashPage />} />
           {/* Новое: отладочная страница Supabase */}
           <Route path="dev" element={<SupabaseDebugPage />} />
           {/* Fallback внутрь layout */}
@@ -53,6 +65,9 @@ export default function App(): React.ReactElement {
       {/* Глобальная панель пользовательских предпочтений и тосты */}
       <QuickPrefsDock />
       <ToasterProvider />
+      <StorageErrorNotifier />
+      <SyncConflictNotifier />
+      <HistoryHotkeys />
     </HashRouter>
   )
 }
@@ -0,0 +1,69 @@
+/**
+ * HistoryHotkeys — горячие клавиши отмены/повтора (Ctrl+Z / Ctrl+Shift+Z, Ctrl+Y)
+ * и уведомления с кнопкой «Отменить» для изменений каталога.
+ */
+
+import { useEffect } from 'react'
+import { toast } from 'sonner'
+import { HistoryService, type HistoryCommand } from '../../services/history'
+
+/**
+ * Уведомление о выполненном изменении с кнопкой отмены
+ */
+export function toastUndoable(cmd: HistoryCommand | null): void {
+  if (!cmd) return
+  toast.success(cmd.label, {
+    id: `history:${cmd.id}`,
+    action: {
+      label: 'Отменить',
+      onClick: () => {
+        if (HistoryService.undo(cmd.id)) toastUndone(cmd)
+        else toast.info('Сначала отмените более поздние изменения (Ctrl+Z)')
+      },
+    },
+  })
+}
+
+/** Уведомление об отмене с кнопкой повтора */
+function toastUndone(cmd: HistoryCommand): void {
+  toast(`Отменено: ${cmd.label}`, {
+    id: 'history:undo',
+    action: { label: 'Вернуть', onClick: () => HistoryService.redo() },
+  })
+}
+
+/** Фокус в поле ввода — там работает собственная отмена браузера */
+function isEditable(target: EventTarget | null): boolean {
+  const el = target as HTMLElement | null
+  if (!el) return false
+  return el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName)
+}
+
+/**
+ * Компонент без разметки; монтируется один раз в App
+ */
+export default function HistoryHotkeys(): null {
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditable(e.target)) return
+      const key = e.key.toLowerCase()
+      // Ctrl+Z в русской раскладке — «я»
+      const isZ = key === 'z' || key === 'я' || e.code === 'KeyZ'
+      const isY = key === 'y' || e.code === 'KeyY'
+      if (isZ && !e.shiftKey) {
+        e.preventDefault()
+        const cmd = HistoryService.undo()
+        if (cmd) toastUndone(cmd)
+        else toast.info('Нечего отменять', { id: 'history:undo' })
+      } else if ((isZ && e.shiftKey) || isY) {
+        e.preventDefault()
+        const cmd = HistoryService.redo()
+        if (cmd) toast(`Повторено: ${cmd.label}`, { id: 'history:undo' })
+        else toast.info('Нечего повторять', { id: 'history:undo' })
+      }
+    }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [])
+  return null
+}
@@ -0,0 +1,29 @@
+/**
+ * StorageErrorNotifier — показывает тост, если данные не удалось сохранить
+ * Подписывается на ошибки записи StorageService (переполнение квоты, недоступное хранилище).
+ */
+
+import { useEffect } from 'react'
+import { toast } from 'sonner'
+import { StorageService } from '../../services/storage'
+
+/**
+ * Компонент без разметки; монтируется рядом с ToasterProvider
+ */
+export default function StorageErrorNotifier(): null {
+  useEffect(
+    () =>
+      StorageService.onWriteError((err) => {
+        // Один тост на ключ: повторные ошибки обновляют существующее уведомление
+        toast.error(err.quota ? 'Хранилище переполнено — изменения не сохранены' : 'Не удалось сохранить изменения', {
+          id: `storage-error:${err.key}`,
+          description: err.quota
+            ? 'Освободите место: удалите лишние изображения или старые записи журнала. Несохранённые данные пропадут после перезагрузки.'
+            : 'Данные останутся только до перезагрузки страницы.',
+          duration: 10000,
+        })
+      }),
+    [],
+  )
+  return null
+}
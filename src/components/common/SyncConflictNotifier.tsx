@@ -0,0 +1,41 @@
+/**
+ * SyncConflictNotifier — уведомляет о конфликтах версий при синхронизации и открывает диалог слияния
+ */
+
+import React, { useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { SyncService, type SyncConflict } from '../../services/sync'
+import ConflictMergeDialog, { conflictTitle } from '../sync/ConflictMergeDialog'
+
+/**
+ * Компонент монтируется рядом с ToasterProvider
+ */
+export default function SyncConflictNotifier(): React.ReactElement | null {
+  const [active, setActive] = useState<SyncConflict | null>(null)
+  const lastCount = useRef(0)
+
+  useEffect(
+    () =>
+      SyncService.subscribe((status) => {
+        if (status.conflicts > lastCount.current) {
+          const list = SyncService.getConflicts()
+          toast.warning(list.length === 1 ? 'Конфликт версий' : `Конфликтов версий: ${list.length}`, {
+            id: 'sync-conflict',
+            description: `${conflictTitle(list[list.length - 1])} — изменено на сервере другим пользователем.`,
+            duration: 15000,
+            action: { label: 'Разрешить', onClick: () => setActive(SyncService.getConflicts()[0] ?? null) },
+          })
+        }
+        lastCount.current = status.conflicts
+      }),
+    [],
+  )
+
+  return (
+    <ConflictMergeDialog
+      conflict={active}
+      onClose={() => setActive(null)}
+      onResolved={() => setActive(SyncService.getConflicts()[0] ?? null)}
+    />
+  )
+}
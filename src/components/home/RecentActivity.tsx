@@ -1,23 +1,16 @@
 /**
  * RecentActivity — последние изменения из журнала
- * Берёт данные из localStorage (ключ: wasser_change_log) и показывает список событий.
+ * Берёт данные журнала через StorageService и показывает список событий.
  */
 
 import React, { memo, useMemo } from 'react'
 import { Archive, ArchiveRestore, Edit2, Plus, Layers, Package, Grid2X2, GripVertical, Trash2, Clock, BookOpenCheck } from 'lucide-react'
+import { StorageService, type AuditEvent } from '../../services/storage'
 
 /**
- * AuditEvent — тип записи журнала
+ * AuditEvent — тип записи журнала (реэкспорт из StorageService)
  */
-export interface AuditEvent {
-  id: string
-  at: number
-  action: string
-  entity: 'collection' | 'product' | 'system' | string
-  entityId?: string
-  details?: any
-  version?: string
-}
+export type { AuditEvent }
 
 /**
  * Пропсы RecentActivity
@@ -27,18 +20,6 @@ export interface RecentActivityProps {
   limit?: number
 }
 
-/**
- * Безопасное чтение из localStorage
- */
-function readLS<T>(key: string, fallback: T): T {
-  try {
-    const raw = localStorage.getItem(key)
-    return raw ? (JSON.parse(raw) as T) : fallback
-  } catch {
-    return fallback
-  }
-}
-
 /**
  * Форматирование даты-времени
  */
@@ -78,8 +59,7 @@ function getIcon(ev: AuditEvent): React.ReactNode {
  */
 const RecentActivity = memo(function RecentActivity({ limit = 6 }: RecentActivityProps): React.ReactElement {
   const items = useMemo(() => {
-    const list = readLS<AuditEvent[]>('wasser_change_log', [])
-    return list.slice(0, limit)
+    return StorageService.getAudit().slice(0, limit)
   }, [limit])
 
   return (
@@ -108,7 +88,7 @@ const RecentActivity = memo(function RecentActivity({ limit = 6 }: RecentActivit
                   <span className="font-medium">{ev.entity}</span> — {ev.action}
                 </div>
                 <div className="text-xs text-gray-500 truncate">
-                  {ev.details?.name ? ev.details.name : ev.entityId || '—'} • {shortDateTime(ev.at)}
+                  {ev.entityName || (typeof ev.details?.name === 'string' ? ev.details.name : ev.entityId) || '—'} • {shortDateTime(ev.at)}
                 </div>
               </div>
             </li>
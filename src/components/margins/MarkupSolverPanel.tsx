@@ -0,0 +1,251 @@
+/**
+ * MarkupSolverPanel — подбор наценки типа изделия под целевую маржу или целевую цену изделия.
+ * Показывает, как изменятся цены и маржа всех изделий типа; наценка сохраняется в настройки только по кнопке.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react'
+import { AlertTriangle, Check, Target } from 'lucide-react'
+import type { PriceSettings, Product } from '../../types/models'
+import { useLocaleFormat } from '../../hooks/useLocaleFormat'
+import { useCurrencyConfig } from '../../services/currency'
+import {
+  markupForMargin,
+  solveTypeMarkup,
+  type MarkupTarget,
+  type PricingComponents,
+  type PricingMaterial,
+  type PricingSettings,
+} from '../../lib/pricing'
+
+/** Предел наценки в настройках (как в строке типа изделия) */
+const MAX_MARKUP = 500
+
+/**
+ * Пропсы панели
+ */
+export interface MarkupSolverPanelProps {
+  products: Product[]
+  materials: PricingMaterial[]
+  /** Настройки цен с курсами валют */
+  settings: PriceSettings & Pick<PricingSettings, 'currency'>
+  /** Изделия и сборки, на которые ссылаются техкарты */
+  components?: PricingComponents
+  /** Сохранить наценку типа; affected — число изделий, у которых изменится цена */
+  onApply: (typeId: string, markup: number, target: MarkupTarget, affected: number) => void
+}
+
+/** Процент с одним знаком */
+const pct = (v: number) => `${v.toFixed(1)}%`
+
+/** Маржа по набору цен: (Σ цен без налога − Σ себестоимости) / Σ цен без налога */
+function marginOf(rows: Array<{ basePrice: number; priceNet: number }>): number {
+  const cost = rows.reduce((s, r) => s + r.basePrice, 0)
+  const net = rows.reduce((s, r) => s + r.priceNet, 0)
+  return net > 0 ? ((net - cost) / net) * 100 : 0
+}
+
+/**
+ * Компонент панели
+ */
+export default function MarkupSolverPanel({
+  products,
+  materials,
+  settings,
+  components,
+  onApply,
+}: MarkupSolverPanelProps): React.ReactElement {
+  const { formatCurrency } = useLocaleFormat(useCurrencyConfig().base)
+  const [typeId, setTypeId] = useState(() => settings.productTypes[0]?.id ?? '')
+  const [kind, setKind] = useState<MarkupTarget['kind']>('margin')
+  const [draft, setDraft] = useState('')
+  const [productId, setProductId] = useState('')
+
+  // Тип удалён в настройках (в т.ч. из другой вкладки) — берём первый
+  useEffect(() => {
+    if (!settings.productTypes.some((t) => t.id === typeId)) setTypeId(settings.productTypes[0]?.id ?? '')
+  }, [settings.productTypes, typeId])
+
+  const type = settings.productTypes.find((t) => t.id === typeId) ?? null
+  const typeProducts = useMemo(() => products.filter((p) => p.product_type_id === typeId), [products, typeId])
+
+  // Изделие для цели «цена» — из выбранного типа
+  useEffect(() => {
+    if (!typeProducts.some((p) => p.id === productId)) setProductId(typeProducts[0]?.id ?? '')
+  }, [typeProducts, productId])
+
+  const value = Number(draft.replace(',', '.'))
+  const target = useMemo<MarkupTarget | null>(() => {
+    if (draft.trim() === '' || !Number.isFinite(value)) return null
+    if (kind === 'margin') return { kind, margin: value }
+    return productId && value > 0 ? { kind, productId, price: value } : null
+  }, [kind, draft, value, productId])
+
+  const solution = useMemo(
+    () => (type && target ? solveTypeMarkup(typeProducts, materials, settings, type.id, target, components) : null),
+    [type, typeProducts, materials, settings, target, components],
+  )
+
+  const current = Number(type?.markup) || 0
+  const markup = solution?.markup ?? null
+  const valid = markup !== null && markup >= 0 && markup <= MAX_MARKUP
+  const changed = (solution?.preview || []).filter((r) => Math.abs(r.after.finalPrice - r.before.finalPrice) >= 0.005)
+  const marginBefore = marginOf((solution?.preview || []).map((r) => r.before))
+  const marginAfter = marginOf((solution?.preview || []).map((r) => r.after))
+  const totalMarkup = kind === 'margin' && target ? markupForMargin(value) : null
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-5 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 inline-flex items-center gap-2">
+          <Target size={18} />
+          Подбор наценки
+        </h2>
+        <p className="text-sm text-gray-600">
+          Задайте маржу для типа изделия или цену одного изделия — наценка типа будет рассчитана обратно. Наценка
+          отделки и округление учитываются; налог в марже не участвует.
+        </p>
+      </div>
+
+      {settings.productTypes.length === 0 ? (
+        <p className="text-sm text-gray-500">Нет типов изделий: добавьте их в настройках ценообразования.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <label className="text-sm text-gray-700 space-y-1">
+            <span>Тип изделия</span>
+            <select
+              value={typeId}
+              onChange={(e) => setTypeId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 bg-white"
+            >
+              {settings.productTypes.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name} ({t.markup}%)
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700 space-y-1">
+            <span>Цель</span>
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as MarkupTarget['kind'])}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 bg-white"
+            >
+              <option value="margin">Маржа по типу, %</option>
+              <option value="price">Цена изделия</option>
+            </select>
+          </label>
+          {kind === 'price' && (
+            <label className="text-sm text-gray-700 space-y-1">
+              <span>Изделие</span>
+              <select
+                value={productId}
+                onChange={(e) => setProductId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 bg-white"
+              >
+                {typeProducts.length === 0 && <option value="">Нет изделий</option>}
+                {typeProducts.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                    {p.article ? ` · ${p.article}` : ''}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="text-sm text-gray-700 space-y-1">
+            <span>{kind === 'margin' ? 'Маржа, %' : 'Итоговая цена (с налогом)'}</span>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder={kind === 'margin' ? 'Напр., 35' : 'Напр., 24990'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+        </div>
+      )}
+
+      {solution && (
+        <div className="space-y-3">
+          {markup === null ? (
+            <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 text-amber-800 text-sm inline-flex items-start gap-2">
+              <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+              {solution.preview.length === 0
+                ? 'У изделий этого типа нет себестоимости (техкарт) — подбирать наценку не по чему.'
+                : 'Цель недостижима: маржа должна быть меньше 100%, цена — больше нуля.'}
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="text-sm text-gray-700 space-y-0.5">
+                <div>
+                  Наценка типа: <span className="text-gray-500">{pct(current)}</span> →{' '}
+                  <span className="font-semibold text-gray-900">{pct(markup)}</span>
+                </div>
+                <div>
+                  Маржа по типу: <span className="text-gray-500">{pct(marginBefore)}</span> →{' '}
+                  <span className="font-semibold text-gray-900">{pct(marginAfter)}</span>
+                  {totalMarkup !== null && (
+                    <span className="text-gray-500"> · маржа {pct(value)} — это общая наценка {pct(totalMarkup)}</span>
+                  )}
+                </div>
+                {!valid && (
+                  <div className="text-amber-700">
+                    {markup < 0
+                      ? 'Цель ниже себестоимости с наценкой отделки: наценка типа получилась отрицательной.'
+                      : `Наценка больше ${MAX_MARKUP}% — предела настроек.`}
+                  </div>
+                )}
+              </div>
+              <button
+                type="button"
+                disabled={!valid || !type || markup === current}
+                onClick={() => type && target && markup !== null && onApply(type.id, markup, target, changed.length)}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Check size={16} />
+                Применить наценку
+              </button>
+            </div>
+          )}
+
+          {solution.preview.length > 0 && (
+            <div className="max-h-80 overflow-auto border border-gray-200 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                  <tr>
+                    <th className="text-left px-3 py-2 font-medium">Изделие</th>
+                    <th className="text-right px-3 py-2 font-medium">Себестоимость</th>
+                    <th className="text-right px-3 py-2 font-medium">Цена было</th>
+                    <th className="text-right px-3 py-2 font-medium">Цена станет</th>
+                    <th className="text-right px-3 py-2 font-medium">Маржа</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {solution.preview.map((r) => (
+                    <tr key={r.product.id} className={kind === 'price' && r.product.id === productId ? 'bg-blue-50' : undefined}>
+                      <td className="px-3 py-2">
+                        <div className="text-gray-900">{r.product.name}</div>
+                        <div className="text-xs text-gray-500">
+                          <span className="font-mono">{r.product.article || '—'}</span>
+                          {r.before.finishType && ` · ${r.before.finishType.name}`}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-700">{formatCurrency(r.before.basePrice)}</td>
+                      <td className="px-3 py-2 text-right text-gray-700">{formatCurrency(r.before.finalPrice)}</td>
+                      <td className="px-3 py-2 text-right text-gray-900 font-medium">{formatCurrency(r.after.finalPrice)}</td>
+                      <td className="px-3 py-2 text-right text-gray-700 whitespace-nowrap">
+                        {pct(r.before.marginPercent)} → {pct(r.after.marginPercent)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
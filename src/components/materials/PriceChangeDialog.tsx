@@ -0,0 +1,181 @@
+/**
+ * PriceChangeDialog — изменение цены материала с анализом влияния на цены изделий.
+ * До сохранения показывает изделия, в техкарте которых есть материал: прежняя и новая итоговая цена, разница.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react'
+import { TrendingDown, TrendingUp } from 'lucide-react'
+import Modal from '../common/Modal'
+import type { Material, Product } from '../../types/models'
+import { useLocaleFormat } from '../../hooks/useLocaleFormat'
+import { StorageService, withoutDeleted } from '../../services/storage'
+import { materialPriceImpact, purchaseCurrencyOf } from '../../lib/pricing'
+import { pricingCurrency, readCurrencyConfig, useCurrencyConfig } from '../../services/currency'
+
+/**
+ * Пропсы диалога
+ */
+export interface PriceChangeDialogProps {
+  /** Материал (null — диалог закрыт) */
+  material: Material | null
+  /** Справочник материалов (для расчёта цен изделий) */
+  materials: Material[]
+  onClose: () => void
+  /** Сохранить новую цену; note — комментарий для журнала изменений */
+  onSave: (price: number, note: string, affected: number) => void
+}
+
+/** Знак разницы: +12, −3 */
+function signed(value: number, format: (v: number) => string): string {
+  if (Math.abs(value) < 0.005) return '0'
+  return `${value > 0 ? '+' : '−'}${format(Math.abs(value))}`
+}
+
+/**
+ * Компонент диалога
+ */
+export default function PriceChangeDialog({ material, materials, onClose, onSave }: PriceChangeDialogProps): React.ReactElement {
+  const currencyCfg = useCurrencyConfig()
+  const { formatCurrency } = useLocaleFormat(currencyCfg.base)
+  const [draft, setDraft] = useState('')
+  const [note, setNote] = useState('')
+
+  // Новое открытие — с текущей ценой и пустым комментарием
+  useEffect(() => {
+    setDraft(material ? String(material.price ?? 0) : '')
+    setNote('')
+  }, [material?.id])
+
+  const price = Math.max(0, Number(draft.replace(',', '.')) || 0)
+  const changed = !!material && price !== (Number(material.price) || 0)
+
+  // Изделия, сборки и настройки цен читаются при открытии: страница материалов их не держит
+  const context = useMemo(() => {
+    if (!material) return null
+    const products = withoutDeleted(StorageService.getProducts<Product>())
+    return {
+      products,
+      components: { products, assemblies: withoutDeleted(StorageService.getAssemblies()) },
+      settings: { ...StorageService.getPriceSettings(), currency: pricingCurrency(readCurrencyConfig()) },
+    }
+  }, [material?.id])
+
+  // Цена вводится в валюте закупки материала
+  const purchaseCurrency = (material && purchaseCurrencyOf(material, context?.settings.currency)) || currencyCfg.base
+
+  const impact = useMemo(
+    () =>
+      material && context
+        ? materialPriceImpact(context.products, materials, context.settings, material.id, price, context.components)
+        : [],
+    [material, materials, context, price],
+  )
+
+  const totals = useMemo(() => {
+    const before = impact.reduce((s, r) => s + r.before, 0)
+    const after = impact.reduce((s, r) => s + r.after, 0)
+    return { before, after, delta: after - before, percent: before > 0 ? ((after - before) / before) * 100 : 0 }
+  }, [impact])
+
+  return (
+    <Modal open={!!material} title={material ? `Цена материала «${material.name}»` : undefined} onClose={onClose}>
+      {material && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="text-sm text-gray-700 space-y-1">
+              <span>
+                Новая цена за {material.unit || 'шт'} (сейчас {formatCurrency(material.price, purchaseCurrency)})
+              </span>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={draft}
+                autoFocus
+                onChange={(e) => setDraft(e.target.value)}
+                className="w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="text-sm text-gray-700 space-y-1">
+              <span>Комментарий для журнала</span>
+              <input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Напр., новый прайс поставщика"
+                className="w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between gap-3 mb-2">
+              <h4 className="text-sm font-semibold text-gray-900">Затронутые изделия: {impact.length}</h4>
+              {changed && impact.length > 0 && (
+                <span className={`inline-flex items-center gap-1 text-sm ${totals.delta > 0 ? 'text-red-700' : 'text-green-700'}`}>
+                  {totals.delta > 0 ? <TrendingUp size={14} /> : <TrendingDown size={14} />}
+                  {signed(totals.delta, formatCurrency)} ({signed(totals.percent, (v) => `${v.toFixed(1)}%`)})
+                </span>
+              )}
+            </div>
+            {impact.length === 0 ? (
+              <p className="text-sm text-gray-500">Материал не используется в техкартах изделий.</p>
+            ) : (
+              <div className="max-h-72 overflow-auto border border-gray-200 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                    <tr>
+                      <th className="text-left px-3 py-2 font-medium">Изделие</th>
+                      <th className="text-right px-3 py-2 font-medium">Расход</th>
+                      <th className="text-right px-3 py-2 font-medium">Было</th>
+                      <th className="text-right px-3 py-2 font-medium">Станет</th>
+                      <th className="text-right px-3 py-2 font-medium">Разница</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {impact.map((r) => (
+                      <tr key={r.product.id}>
+                        <td className="px-3 py-2">
+                          <div className="text-gray-900">{r.product.name}</div>
+                          <div className="text-xs text-gray-500 font-mono">{r.product.article || '—'}</div>
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-700">
+                          {r.quantity} {material.unit || 'шт'}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-700">{formatCurrency(r.before)}</td>
+                        <td className="px-3 py-2 text-right text-gray-900 font-medium">{formatCurrency(r.after)}</td>
+                        <td
+                          className={`px-3 py-2 text-right ${r.delta > 0 ? 'text-red-700' : r.delta < 0 ? 'text-green-700' : 'text-gray-500'}`}
+                        >
+                          {signed(r.delta, formatCurrency)}
+                          <div className="text-xs">{signed(r.deltaPercent, (v) => `${v.toFixed(1)}%`)}</div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-3 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 text-gray-700"
+            >
+              Отмена
+            </button>
+            <button
+              type="button"
+              disabled={!changed}
+              onClick={() => onSave(price, note.trim(), impact.length)}
+              className="px-3 py-2 rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              Сохранить цену
+            </button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  )
+}
@@ -0,0 +1,194 @@
+/**
+ * VariantMatrixDialog — генерация вариантов изделия: размеры × типы отделки от базового изделия.
+ * До создания показывает план с артикулами и названиями; уже созданные варианты обновляются по базовому.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react'
+import { Layers, RefreshCw } from 'lucide-react'
+import Modal from '../common/Modal'
+import type { FinishType, Product } from '../../types/models'
+import { formatSize, parseVariantSizes, planVariants, sizeOf, variantsOf, type VariantPlanRow } from '../../services/variants'
+
+/**
+ * Пропсы диалога
+ */
+export interface VariantMatrixDialogProps {
+  /** Базовое изделие (null — диалог закрыт) */
+  base: Product | null
+  products: Product[]
+  finishTypes: FinishType[]
+  onClose: () => void
+  /** Создать варианты по плану; inCollections — добавить их в коллекции базового изделия */
+  onGenerate: (base: Product, rows: VariantPlanRow[], inCollections: boolean) => void
+  /** Обновить существующие варианты по базовому */
+  onSync: (base: Product) => void
+}
+
+/**
+ * Компонент диалога
+ */
+export default function VariantMatrixDialog({
+  base,
+  products,
+  finishTypes,
+  onClose,
+  onGenerate,
+  onSync,
+}: VariantMatrixDialogProps): React.ReactElement {
+  const [sizesText, setSizesText] = useState('')
+  const [finishIds, setFinishIds] = useState<string[]>([])
+  const [inCollections, setInCollections] = useState(true)
+
+  // Новое базовое изделие — пустая матрица
+  useEffect(() => {
+    setSizesText('')
+    setFinishIds([])
+    setInCollections(true)
+  }, [base?.id])
+
+  const parsed = useMemo(() => (base ? parseVariantSizes(sizesText, base) : { sizes: [], error: null }), [base, sizesText])
+  const rows = useMemo(
+    () =>
+      base && !parsed.error && (parsed.sizes.length > 0 || finishIds.length > 0)
+        ? planVariants(base, parsed.sizes, finishIds, products, finishTypes)
+        : [],
+    [base, parsed, finishIds, products, finishTypes],
+  )
+  const existing = useMemo(() => (base ? variantsOf(base.id, products) : []), [base, products])
+
+  const created = rows.filter((r) => !r.isBase && !r.existing).length
+  const updated = rows.filter((r) => !r.isBase && r.existing).length
+  const finishName = (id: string | null) => finishTypes.find((f) => f.id === id)?.name ?? 'Без отделки'
+
+  const toggleFinish = (id: string) =>
+    setFinishIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]))
+
+  return (
+    <Modal open={!!base} title={base ? `Варианты: ${base.name}` : 'Варианты'} onClose={onClose}>
+      {!base ? null : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Каждое сочетание размера и отделки станет отдельным изделием со своим артикулом. Техкарта копируется из
+            базового: строки с формулами считаются по габаритам варианта, остальные масштабируются (м² — по площади,
+            пог. м — по периметру, штуки — без изменений).
+          </p>
+
+          {existing.length > 0 && (
+            <div className="flex flex-wrap items-center justify-between gap-3 p-3 rounded-lg border border-gray-200 bg-gray-50">
+              <span className="text-sm text-gray-700">
+                Создано вариантов: <span className="font-medium text-gray-900">{existing.length}</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => onSync(base)}
+                className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 text-sm"
+              >
+                <RefreshCw size={14} />
+                Обновить по базовому
+              </button>
+            </div>
+          )}
+
+          <label className="block text-sm text-gray-700 space-y-1">
+            <span>Размеры, мм (ширина или Ш×В×Г через запятую)</span>
+            <input
+              value={sizesText}
+              onChange={(e) => setSizesText(e.target.value)}
+              placeholder={base.width_mm ? `Напр., ${base.width_mm}, 800, 1000` : 'Напр., 600, 800, 1000x720x450'}
+              className="w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500"
+            />
+            {parsed.error ? (
+              <span className="block text-xs text-red-600">{parsed.error}</span>
+            ) : (
+              <span className="block text-xs text-gray-500">
+                Габариты базового: {formatSize(sizeOf(base)) || 'не заданы'}.
+                Пусто — размер базового.
+              </span>
+            )}
+          </label>
+
+          <div className="space-y-1">
+            <div className="text-sm text-gray-700">Типы отделки (не выбраны — отделка базового)</div>
+            {finishTypes.length === 0 ? (
+              <p className="text-xs text-gray-500">Типы отделки не заданы в настройках ценообразования.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {finishTypes.map((f) => (
+                  <label
+                    key={f.id}
+                    className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm cursor-pointer ${
+                      finishIds.includes(f.id) ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700'
+                    }`}
+                  >
+                    <input type="checkbox" checked={finishIds.includes(f.id)} onChange={() => toggleFinish(f.id)} />
+                    {f.name}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={inCollections} onChange={(e) => setInCollections(e.target.checked)} />
+            Добавить варианты в коллекции базового изделия
+          </label>
+
+          {rows.length > 0 && (
+            <div className="max-h-72 overflow-auto border border-gray-200 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                  <tr>
+                    <th className="text-left px-3 py-2 font-medium">Изделие</th>
+                    <th className="text-left px-3 py-2 font-medium">Габариты</th>
+                    <th className="text-left px-3 py-2 font-medium">Отделка</th>
+                    <th className="text-left px-3 py-2 font-medium">Статус</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rows.map((r) => (
+                    <tr key={`${formatSize(r.size)}:${r.finishTypeId}`} className={r.isBase ? 'text-gray-400' : undefined}>
+                      <td className="px-3 py-2">
+                        <div className={r.isBase ? undefined : 'text-gray-900'}>{r.name}</div>
+                        <div className="text-xs font-mono">{r.article}</div>
+                      </td>
+                      <td className="px-3 py-2">{formatSize(r.size) || '—'}</td>
+                      <td className="px-3 py-2">{finishName(r.finishTypeId)}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {r.isBase ? 'Базовое изделие' : r.existing ? 'Есть — обновится' : 'Новый'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            {rows.length > 0 && (
+              <span className="mr-auto text-sm text-gray-600">
+                Новых: {created}
+                {updated > 0 && ` · обновятся: ${updated}`}
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-3 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 text-gray-700"
+            >
+              Отмена
+            </button>
+            <button
+              type="button"
+              disabled={created + updated === 0}
+              onClick={() => onGenerate(base, rows, inCollections)}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Layers size={16} />
+              Создать варианты
+            </button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  )
+}
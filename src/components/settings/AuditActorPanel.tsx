@@ -0,0 +1,54 @@
+/**
+ * AuditActorPanel — имя пользователя, которым подписываются изменения в журнале
+ */
+
+import React, { useCallback, useState } from 'react'
+import { Save, UserRound } from 'lucide-react'
+import { toast } from 'sonner'
+import { AuditService, DEFAULT_ACTOR } from '../../services/audit'
+
+/**
+ * Компонент панели
+ */
+export default function AuditActorPanel(): React.ReactElement {
+  const [name, setName] = useState(() => {
+    const current = AuditService.getActor()
+    return current === DEFAULT_ACTOR ? '' : current
+  })
+
+  /** Сохранить имя */
+  const save = useCallback(async () => {
+    if (await AuditService.setActor(name)) toast.success('Имя для журнала сохранено')
+  }, [name])
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-5 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 inline-flex items-center gap-2">
+          <UserRound size={18} />
+          Журнал изменений
+        </h2>
+        <p className="text-sm text-gray-600">
+          Этим именем подписываются изменения, сделанные в этом браузере. Без имени — «{DEFAULT_ACTOR}».
+        </p>
+      </div>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+          placeholder="Например: Айгуль, технолог"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="button"
+          onClick={save}
+          className="inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50"
+        >
+          <Save size={16} />
+          Сохранить
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,206 @@
+/**
+ * AuditRetentionPanel — срок хранения журнала изменений и архив по месяцам
+ */
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { Archive, Download, Play, Trash2, UploadCloud } from 'lucide-react'
+import { toast } from 'sonner'
+import { isSupabaseEnabled } from '../../services/supabase'
+import { LS_KEYS, StorageService } from '../../services/storage'
+import { AuditRetention, type AuditArchiveMonth, type AuditRetentionSettings } from '../../services/auditRetention'
+
+/** Подпись месяца: 2024-03 → «март 2024» */
+function monthLabel(month: string): string {
+  const [y, m] = month.split('-').map(Number)
+  return new Date(y, m - 1, 1).toLocaleDateString('ru-RU', { month: 'long', year: 'numeric' })
+}
+
+/**
+ * Компонент панели
+ */
+export default function AuditRetentionPanel(): React.ReactElement {
+  const [settings, setSettings] = useState<AuditRetentionSettings>(() => AuditRetention.getSettings())
+  const [months, setMonths] = useState<AuditArchiveMonth[]>(() => AuditRetention.getArchiveMonths())
+  const [busy, setBusy] = useState(false)
+  const supabase = isSupabaseEnabled()
+
+  // Архив меняется при применении правил (в т.ч. автоматически при переполнении журнала)
+  useEffect(
+    () =>
+      StorageService.onChange((key) => {
+        if (key === LS_KEYS.auditArchive) setMonths(AuditRetention.getArchiveMonths())
+      }),
+    [],
+  )
+
+  /** Изменить настройку (сохраняется сразу) */
+  const update = useCallback(<K extends keyof AuditRetentionSettings>(key: K, value: AuditRetentionSettings[K]) => {
+    setSettings((prev) => {
+      const next = { ...prev, [key]: value }
+      AuditRetention.saveSettings(next)
+      return next
+    })
+  }, [])
+
+  /** Применить правила сейчас */
+  const applyNow = useCallback(async () => {
+    setBusy(true)
+    try {
+      const r = await AuditRetention.apply(AuditRetention.getSettings())
+      if (r.error) toast.error(`Выгрузка в Supabase не удалась, события сохранены в локальном архиве: ${r.error}`)
+      toast.success(
+        `В журнале: ${r.kept}. Склеено: ${r.compacted}, в архив: ${r.archived}` + (r.uploaded ? `, в Supabase: ${r.uploaded}` : ''),
+      )
+    } catch (e: any) {
+      toast.error(`Не удалось применить правила: ${e?.message || e}`)
+    } finally {
+      setBusy(false)
+    }
+  }, [])
+
+  /** Выгрузить локальный архив в Supabase */
+  const uploadArchive = useCallback(async () => {
+    setBusy(true)
+    try {
+      const n = await AuditRetention.uploadArchive()
+      toast.success(`Выгружено в Supabase: ${n}`)
+    } catch (e: any) {
+      toast.error(`Не удалось выгрузить архив: ${e?.message || e}`)
+    } finally {
+      setBusy(false)
+    }
+  }, [])
+
+  /** Удалить месяц из архива */
+  const clearMonth = useCallback(async (m: AuditArchiveMonth) => {
+    if (!window.confirm(`Удалить из архива ${monthLabel(m.month)} (${m.count} событий)? Сначала скачайте файл.`)) return
+    await AuditRetention.clearMonth(m.month)
+  }, [])
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-5 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 inline-flex items-center gap-2">
+          <Archive size={18} />
+          Хранение журнала
+        </h2>
+        <p className="text-sm text-gray-600">
+          Старые события уходят из журнала в архив при запуске приложения и при переполнении. Повторные правки одной
+          записи одним автором подряд склеиваются в одно событие.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        <label className="text-sm text-gray-700 space-y-1">
+          <span>Хранить, дней (0 — без срока)</span>
+          <input
+            type="number"
+            min={0}
+            value={settings.maxAgeDays}
+            onChange={(e) => update('maxAgeDays', Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <label className="text-sm text-gray-700 space-y-1">
+          <span>Не больше событий (0 — без лимита)</span>
+          <input
+            type="number"
+            min={0}
+            step={100}
+            value={settings.maxCount}
+            onChange={(e) => update('maxCount', Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <label className="text-sm text-gray-700 space-y-1">
+          <span>Окно склейки, мин</span>
+          <input
+            type="number"
+            min={1}
+            value={settings.compactWindowMin}
+            disabled={!settings.compact}
+            onChange={(e) => update('compactWindowMin', Math.max(1, Number(e.target.value) || 1))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+          />
+        </label>
+        <label className="text-sm text-gray-700 space-y-1">
+          <span>Архив</span>
+          <select
+            value={settings.archiveTarget}
+            onChange={(e) => update('archiveTarget', e.target.value as AuditRetentionSettings['archiveTarget'])}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="file">Файлы по месяцам</option>
+            <option value="supabase" disabled={!supabase}>
+              Supabase (audit_log){supabase ? '' : ' — не настроен'}
+            </option>
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={settings.compact} onChange={(e) => update('compact', e.target.checked)} />
+          Склеивать повторные правки
+        </label>
+        <button
+          type="button"
+          disabled={busy}
+          onClick={applyNow}
+          className="inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Play size={16} />
+          Применить сейчас
+        </button>
+      </div>
+
+      <div className="border-t border-gray-100 pt-4 space-y-2">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="text-sm font-semibold text-gray-900">Локальный архив</h3>
+          {supabase && months.length > 0 && (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={uploadArchive}
+              className="inline-flex items-center gap-1 text-sm text-blue-700 hover:underline disabled:opacity-50"
+            >
+              <UploadCloud size={14} />
+              Выгрузить в Supabase
+            </button>
+          )}
+        </div>
+        {months.length === 0 ? (
+          <p className="text-sm text-gray-500">Архив пуст.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {months.map((m) => (
+              <li key={m.month} className="flex items-center justify-between py-2 text-sm">
+                <span className="text-gray-800">
+                  {monthLabel(m.month)} <span className="text-gray-500">· {m.count}</span>
+                </span>
+                <span className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => AuditRetention.downloadMonth(m.month)}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded border border-gray-300 hover:bg-gray-50"
+                  >
+                    <Download size={14} />
+                    Скачать
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => clearMonth(m)}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded border border-red-200 text-red-700 hover:bg-red-50"
+                  >
+                    <Trash2 size={14} />
+                    Удалить
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+/**
+ * BackupPanel — резервное копирование и восстановление рабочего пространства
+ * Экспорт одного JSON-файла; при импорте — проверка, сводка отличий по разделам и выбор: слияние или замена.
+ */
+
+import React, { useCallback, useRef, useState } from 'react'
+import { Archive, Download, Upload, X } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  applyBackup,
+  diffBackup,
+  downloadBackup,
+  parseBackup,
+  type BackupBundle,
+  type BackupSectionDiff,
+  type RestoreMode,
+} from '../../services/backup'
+
+/**
+ * Ожидающий применения импорт
+ */
+interface PendingRestore {
+  fileName: string
+  bundle: BackupBundle
+  diff: BackupSectionDiff[]
+}
+
+/**
+ * Ячейка счётчика отличий
+ */
+function DiffCell({ value, tone }: { value: number; tone: 'green' | 'amber' | 'red' }): React.ReactElement {
+  const colors = { green: 'text-green-700', amber: 'text-amber-700', red: 'text-red-700' }
+  return <td className={`px-3 py-2 text-right tabular-nums ${value > 0 ? colors[tone] : 'text-gray-400'}`}>{value}</td>
+}
+
+/**
+ * Компонент панели резервного копирования
+ */
+export default function BackupPanel(): React.ReactElement {
+  const fileRef = useRef<HTMLInputElement | null>(null)
+  const [pending, setPending] = useState<PendingRestore | null>(null)
+  const [mode, setMode] = useState<RestoreMode>('merge')
+  const [applying, setApplying] = useState(false)
+
+  /** Экспорт */
+  const exportBackup = useCallback(() => {
+    try {
+      downloadBackup()
+      toast.success('Резервная копия сохранена')
+    } catch {
+      toast.error('Не удалось создать резервную копию')
+    }
+  }, [])
+
+  /** Чтение и проверка файла */
+  const onFile = useCallback(async (file: File) => {
+    try {
+      const bundle = parseBackup(await file.text())
+      setPending({ fileName: file.name, bundle, diff: await diffBackup(bundle) })
+      setMode('merge')
+    } catch (e: any) {
+      toast.error(`Ошибка импорта: ${e?.message || 'неизвестно'}`)
+    }
+  }, [])
+
+  /** Применить импорт */
+  const apply = useCallback(async () => {
+    if (!pending) return
+    if (mode === 'replace' && !window.confirm('Заменить все локальные данные содержимым резервной копии?')) return
+    setApplying(true)
+    try {
+      await applyBackup(pending.bundle, mode)
+      toast.success('Данные восстановлены — страница будет перезагружена')
+      // Страницы читают данные при монтировании — перезагрузка гарантирует актуальное состояние
+      window.setTimeout(() => window.location.reload(), 800)
+    } catch (e: any) {
+      toast.error(`Не удалось восстановить данные: ${e?.message || 'неизвестно'}`)
+      setApplying(false)
+    }
+  }, [pending, mode])
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-5 space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 inline-flex items-center gap-2">
+            <Archive size={18} />
+            Резервная копия
+          </h2>
+          <p className="text-sm text-gray-600">
+            Коллекции, изделия, материалы, настройки цен и валют, журнал и настройки прайс-листа — одним файлом.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => fileRef.current?.click()}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50"
+            title="Восстановить из файла"
+          >
+            <Upload size={16} />
+            Восстановить
+          </button>
+          <button
+            type="button"
+            onClick={exportBackup}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white"
+            title="Скачать резервную копию"
+          >
+            <Download size={16} />
+            Скачать копию
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const f = e.target.files?.[0]
+              if (f) onFile(f)
+              e.currentTarget.value = ''
+            }}
+          />
+        </div>
+      </div>
+
+      {pending && (
+        <div className="border border-blue-200 bg-blue-50/40 rounded-lg p-4 space-y-3">
+          <div className="flex items-start justify-between gap-3">
+            <div className="text-sm text-gray-700">
+              <div className="font-medium text-gray-900">{pending.fileName}</div>
+              <div>
+                Создана {pending.bundle.created_at ? new Date(pending.bundle.created_at).toLocaleString('ru-RU') : '—'} · схема v
+                {pending.bundle.schemaVersion}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => setPending(null)}
+              className="p-1 rounded hover:bg-gray-100 text-gray-500"
+              title="Отменить"
+              disabled={applying}
+            >
+              <X size={16} />
+            </button>
+          </div>
+
+          <div className="overflow-x-auto bg-white border border-gray-200 rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-gray-500 uppercase">Раздел</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold text-gray-500 uppercase">Новые</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold text-gray-500 uppercase">Изменённые</th>
+                  <th className="px-3 py-2 text-right text-xs font-semibold text-gray-500 uppercase">
+                    {mode === 'replace' ? 'Удалятся' : 'Только локально'}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {pending.diff.map((d) => (
+                  <tr key={d.section} className="border-t border-gray-100">
+                    <td className="px-3 py-2 text-gray-900">{d.label}</td>
+                    <DiffCell value={d.added} tone="green" />
+                    <DiffCell value={d.changed} tone="amber" />
+                    <DiffCell value={d.removed} tone={mode === 'replace' ? 'red' : 'green'} />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+            <div className="flex flex-col gap-1 text-sm text-gray-700">
+              <label className="inline-flex items-center gap-2">
+                <input type="radio" name="restore-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                Слияние — добавить и обновить записи, локальные сохранить
+              </label>
+              <label className="inline-flex items-center gap-2">
+                <input type="radio" name="restore-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                Замена — локальные данные заменяются содержимым файла
+              </label>
+            </div>
+            <button
+              type="button"
+              onClick={apply}
+              disabled={applying}
+              className={`inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-white disabled:opacity-50 ${
+                mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {applying ? 'Применение…' : mode === 'replace' ? 'Заменить данные' : 'Объединить'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+/**
+ * CurrencyPanel — курсы валют: пересчёт закупочных цен материалов и дублирование цен в других валютах
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { AlertTriangle, Coins, Plus, Save } from 'lucide-react'
+import { toast } from 'sonner'
+import type { Material } from '../../types/models'
+import { LS_KEYS, StorageService, withoutDeleted } from '../../services/storage'
+import { useRepository } from '../../hooks/useRepository'
+import { missingRates, updateCurrencyConfig, useCurrencyConfig, type CurrencyConfig } from '../../services/currency'
+
+/** Курс в поле ввода: сколько базовой валюты за 1 единицу (в настройках хранится обратная величина) */
+function toInput(rate: number | undefined): string {
+  const r = Number(rate) || 0
+  return r > 0 ? String(Math.round((1 / r) * 10000) / 10000) : ''
+}
+
+/**
+ * Компонент панели
+ */
+export default function CurrencyPanel(): React.ReactElement {
+  const cfg = useCurrencyConfig()
+  const [materials] = useRepository<Material[]>(LS_KEYS.materials, () => StorageService.getMaterials())
+  const [draft, setDraft] = useState<Record<string, string>>({})
+  const [newCode, setNewCode] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  // Черновик курсов пересобирается при изменении настроек (в т.ч. из другой вкладки)
+  useEffect(() => {
+    setDraft(Object.fromEntries(Object.keys(cfg.rates || {}).map((code) => [code, toInput(cfg.rates[code])])))
+  }, [cfg])
+
+  /** Валюты закупки, которые используются материалами, с числом материалов */
+  const used = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const m of withoutDeleted(materials)) {
+      const code = String(m.currency || '').toUpperCase()
+      if (code && code !== cfg.base) counts.set(code, (counts.get(code) || 0) + 1)
+    }
+    return counts
+  }, [materials, cfg.base])
+
+  const codes = useMemo(
+    () => Array.from(new Set([...cfg.extras, ...Object.keys(draft), ...used.keys()])).filter((c) => c !== cfg.base).sort(),
+    [cfg.extras, cfg.base, draft, used],
+  )
+
+  /** Настройки из черновика */
+  const nextConfig = useCallback((): CurrencyConfig => {
+    const rates: Record<string, number> = {}
+    for (const code of codes) {
+      const perUnit = Number(String(draft[code] ?? '').replace(',', '.')) || 0
+      rates[code] = perUnit > 0 ? 1 / perUnit : 0
+    }
+    return { ...cfg, rates }
+  }, [cfg, codes, draft])
+
+  const missing = useMemo(() => missingRates(withoutDeleted(materials), nextConfig()), [materials, nextConfig])
+
+  /** Добавить валюту */
+  const addCode = useCallback(() => {
+    const code = newCode.trim().toUpperCase()
+    if (!/^[A-Z]{3}$/.test(code)) {
+      toast.error('Код валюты — три латинские буквы, например CNY')
+      return
+    }
+    setDraft((prev) => (code in prev ? prev : { ...prev, [code]: '' }))
+    setNewCode('')
+  }, [newCode])
+
+  /** Сохранить курсы с пересчётом цен изделий */
+  const save = useCallback(async () => {
+    setBusy(true)
+    try {
+      const r = await updateCurrencyConfig(nextConfig())
+      toast.success(r.affected > 0 ? `Курсы сохранены. Изменились цены изделий: ${r.affected}` : 'Курсы сохранены')
+      if (r.missing.length > 0) toast.warning(`Нет курса для ${r.missing.join(', ')}: такие материалы считаются по нулевой цене`)
+    } catch (e: any) {
+      toast.error(e?.message || 'Не удалось сохранить курсы')
+    } finally {
+      setBusy(false)
+    }
+  }, [nextConfig])
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-5 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 inline-flex items-center gap-2">
+          <Coins size={18} />
+          Курсы валют
+        </h2>
+        <p className="text-sm text-gray-600">
+          Цены материалов, закупаемых в других валютах, пересчитываются в {cfg.base} по этим курсам. После сохранения
+          изменившиеся цены изделий записываются в журнал.
+        </p>
+      </div>
+
+      {missing.length > 0 && (
+        <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 text-amber-800 text-sm inline-flex items-start gap-2">
+          <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+          Нет курса для {missing.join(', ')}: материалы в этих валютах считаются по нулевой цене.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {codes.map((code) => (
+          <label key={code} className="text-sm text-gray-700 space-y-1">
+            <span>
+              1 {code} = … {cfg.base}
+              {used.has(code) && <span className="text-gray-500"> · материалов: {used.get(code)}</span>}
+            </span>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={draft[code] ?? ''}
+              onChange={(e) => setDraft((prev) => ({ ...prev, [code]: e.target.value }))}
+              placeholder="нет курса"
+              className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 ${
+                missing.includes(code) ? 'border-amber-400' : 'border-gray-300'
+              }`}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex gap-2">
+          <input
+            value={newCode}
+            onChange={(e) => setNewCode(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addCode()}
+            placeholder="Код, напр. CNY"
+            maxLength={3}
+            className="w-36 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 uppercase"
+          />
+          <button
+            type="button"
+            onClick={addCode}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50"
+          >
+            <Plus size={16} />
+            Валюта
+          </button>
+        </div>
+        <button
+          type="button"
+          disabled={busy}
+          onClick={save}
+          className="inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Save size={16} />
+          Сохранить курсы
+        </button>
+      </div>
+    </div>
+  )
+}
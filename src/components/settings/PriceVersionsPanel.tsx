@@ -0,0 +1,112 @@
+/**
+ * PriceVersionsPanel — опубликованные версии настроек цен
+ * Статус каждой версии на текущий момент; любую версию можно взять в черновик и опубликовать заново.
+ */
+
+import React, { useMemo } from 'react'
+import { FileClock, Pencil } from 'lucide-react'
+import type { PriceSettings, PriceSettingsVersion } from '../../types/models'
+import { LS_KEYS } from '../../services/storage'
+import { PriceVersions } from '../../services/priceVersions'
+import { useRepository } from '../../hooks/useRepository'
+
+/**
+ * Пропсы панели
+ */
+export interface PriceVersionsPanelProps {
+  /** Загрузить настройки версии в черновик */
+  onLoad: (settings: PriceSettings) => void
+}
+
+/** Статус версии относительно действующей */
+type VersionStatus = 'active' | 'scheduled' | 'archived'
+
+const STATUS_LABELS: Record<VersionStatus, { label: string; className: string }> = {
+  active: { label: 'Действует', className: 'bg-green-50 text-green-700 border-green-200' },
+  scheduled: { label: 'Запланирована', className: 'bg-blue-50 text-blue-700 border-blue-200' },
+  archived: { label: 'Архив', className: 'bg-gray-50 text-gray-600 border-gray-200' },
+}
+
+/** Дата и время публикации/начала действия */
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString('ru-RU', { dateStyle: 'short', timeStyle: 'short' })
+}
+
+/**
+ * Компонент панели
+ */
+export default function PriceVersionsPanel({ onLoad }: PriceVersionsPanelProps): React.ReactElement {
+  const [versions] = useRepository<PriceSettingsVersion[]>(LS_KEYS.priceVersions, () => PriceVersions.getAll())
+
+  // Новые сверху; статус — на момент открытия страницы
+  const rows = useMemo(() => {
+    const now = Date.now()
+    const active = PriceVersions.versionAsOf(new Date(now), versions)
+    return versions
+      .slice()
+      .reverse()
+      .map((v) => {
+        const status: VersionStatus = v.id === active?.id ? 'active' : Date.parse(v.effective_at) > now ? 'scheduled' : 'archived'
+        return { version: v, status }
+      })
+  }, [versions])
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-5 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 inline-flex items-center gap-2">
+          <FileClock size={18} />
+          Версии настроек цен
+        </h2>
+        <p className="text-sm text-gray-600">
+          Каждая публикация сохраняется: прайс‑лист на прошедшую дату считается с настройками, действовавшими в тот день.
+        </p>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">Версий ещё нет — первая появится при публикации настроек.</p>
+      ) : (
+        <div className="overflow-auto border border-gray-200 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="text-left px-3 py-2 font-medium">Действует с</th>
+                <th className="text-left px-3 py-2 font-medium">Опубликована</th>
+                <th className="text-left px-3 py-2 font-medium">Комментарий</th>
+                <th className="text-left px-3 py-2 font-medium">Статус</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(({ version, status }) => (
+                <tr key={version.id}>
+                  <td className="px-3 py-2 text-gray-900 whitespace-nowrap">
+                    {version.source === 'baseline' ? 'Исходные настройки' : formatDateTime(version.effective_at)}
+                  </td>
+                  <td className="px-3 py-2 text-gray-700 whitespace-nowrap">{formatDateTime(version.published_at)}</td>
+                  <td className="px-3 py-2 text-gray-700">{version.note || '—'}</td>
+                  <td className="px-3 py-2">
+                    <span className={`inline-block px-2 py-0.5 rounded border text-xs ${STATUS_LABELS[status].className}`}>
+                      {STATUS_LABELS[status].label}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => onLoad(version.settings)}
+                      className="inline-flex items-center gap-1 px-2 py-1 rounded border border-gray-300 bg-white hover:bg-gray-50 text-gray-700 text-xs"
+                      title="Загрузить настройки версии в черновик"
+                    >
+                      <Pencil size={12} />
+                      В черновик
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,218 @@
+/**
+ * PublishPriceSettingsDialog — публикация черновика настроек цен.
+ * До публикации показывает прежнюю и новую итоговую цену каждого изделия с разницей;
+ * публикуемая версия действует с выбранной даты (сегодня — сразу).
+ */
+
+import React, { useEffect, useMemo, useState } from 'react'
+import { TrendingDown, TrendingUp } from 'lucide-react'
+import { toast } from 'sonner'
+import Modal from '../common/Modal'
+import type { Material, PriceSettings, Product } from '../../types/models'
+import { useLocaleFormat } from '../../hooks/useLocaleFormat'
+import { StorageService, withoutDeleted } from '../../services/storage'
+import { PriceVersions } from '../../services/priceVersions'
+import { startOfDay } from '../../services/priceHistory'
+import { pricingCurrency, readCurrencyConfig, useCurrencyConfig } from '../../services/currency'
+import { createPriceCalculator } from '../../lib/pricing'
+
+/**
+ * Пропсы диалога
+ */
+export interface PublishPriceSettingsDialogProps {
+  open: boolean
+  /** Публикуемый черновик */
+  draft: PriceSettings
+  onClose: () => void
+  onPublished: () => void
+}
+
+/** Сегодня в формате <input type="date"> (локальная дата) */
+function todayValue(): string {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+/** Знак разницы: +12, −3 */
+function signed(value: number, format: (v: number) => string): string {
+  if (Math.abs(value) < 0.005) return '0'
+  return `${value > 0 ? '+' : '−'}${format(Math.abs(value))}`
+}
+
+/**
+ * Компонент диалога
+ */
+export default function PublishPriceSettingsDialog({
+  open,
+  draft,
+  onClose,
+  onPublished,
+}: PublishPriceSettingsDialogProps): React.ReactElement {
+  const { formatCurrency } = useLocaleFormat(useCurrencyConfig().base)
+  const [day, setDay] = useState(todayValue)
+  const [note, setNote] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  // Новое открытие — с сегодняшней датой и пустым комментарием
+  useEffect(() => {
+    if (!open) return
+    setDay(todayValue())
+    setNote('')
+  }, [open])
+
+  // Изделия, материалы и текущие настройки читаются при открытии
+  const context = useMemo(
+    () =>
+      open
+        ? {
+            products: withoutDeleted(StorageService.getProducts<Product>()),
+            assemblies: withoutDeleted(StorageService.getAssemblies()),
+            materials: StorageService.getMaterials() as Material[],
+            current: StorageService.getPriceSettings(),
+            currency: pricingCurrency(readCurrencyConfig()),
+          }
+        : null,
+    [open],
+  )
+
+  /** Цены всех изделий до и после; сначала самые большие изменения */
+  const rows = useMemo(() => {
+    if (!context) return []
+    const components = { products: context.products, assemblies: context.assemblies }
+    const before = createPriceCalculator(context.materials, { ...context.current, currency: context.currency }, components)
+    const after = createPriceCalculator(context.materials, { ...draft, currency: context.currency }, components)
+    return context.products
+      .map((product) => {
+        const from = before(product).finalPrice
+        const to = after(product).finalPrice
+        return { product, from, to, delta: to - from, percent: from > 0 ? ((to - from) / from) * 100 : 0 }
+      })
+      .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+  }, [context, draft])
+
+  const changed = rows.filter((r) => Math.abs(r.delta) >= 0.005).length
+  const totals = useMemo(() => {
+    const from = rows.reduce((s, r) => s + r.from, 0)
+    const to = rows.reduce((s, r) => s + r.to, 0)
+    return { delta: to - from, percent: from > 0 ? ((to - from) / from) * 100 : 0 }
+  }, [rows])
+
+  const future = day > todayValue()
+
+  /** Опубликовать: сегодня — с текущего момента, другая дата — с начала дня */
+  const publish = async () => {
+    setBusy(true)
+    try {
+      const effectiveAt = day === todayValue() ? new Date() : startOfDay(day) ?? new Date()
+      await PriceVersions.publish(draft, { effectiveAt, note: note.trim(), details: { affectedProducts: changed } })
+      toast.success(
+        future
+          ? `Версия опубликована и начнёт действовать ${effectiveAt.toLocaleDateString('ru-RU')}`
+          : `Настройки цен опубликованы. Изменились цены изделий: ${changed}`,
+      )
+      onPublished()
+    } catch (e: any) {
+      toast.error(e?.message || 'Не удалось опубликовать настройки')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Modal open={open} title="Публикация настроек цен" onClose={onClose}>
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className="text-sm text-gray-700 space-y-1">
+            <span>Действует с</span>
+            <input
+              type="date"
+              value={day}
+              onChange={(e) => setDay(e.target.value || todayValue())}
+              className="w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+          <label className="text-sm text-gray-700 space-y-1">
+            <span>Комментарий</span>
+            <input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Напр., новые наценки с марта"
+              className="w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+        </div>
+        {future && (
+          <p className="text-sm text-gray-600">
+            До этой даты действуют текущие настройки; версия применится при первом запуске приложения после её наступления.
+          </p>
+        )}
+
+        <div>
+          <div className="flex items-center justify-between gap-3 mb-2">
+            <h4 className="text-sm font-semibold text-gray-900">
+              Изменятся цены: {changed} из {rows.length}
+            </h4>
+            {changed > 0 && (
+              <span className={`inline-flex items-center gap-1 text-sm ${totals.delta > 0 ? 'text-red-700' : 'text-green-700'}`}>
+                {totals.delta > 0 ? <TrendingUp size={14} /> : <TrendingDown size={14} />}
+                {signed(totals.delta, formatCurrency)} ({signed(totals.percent, (v) => `${v.toFixed(1)}%`)})
+              </span>
+            )}
+          </div>
+          {rows.length === 0 ? (
+            <p className="text-sm text-gray-500">Изделий нет.</p>
+          ) : (
+            <div className="max-h-72 overflow-auto border border-gray-200 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                  <tr>
+                    <th className="text-left px-3 py-2 font-medium">Изделие</th>
+                    <th className="text-right px-3 py-2 font-medium">Было</th>
+                    <th className="text-right px-3 py-2 font-medium">Станет</th>
+                    <th className="text-right px-3 py-2 font-medium">Разница</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rows.map((r) => (
+                    <tr key={r.product.id}>
+                      <td className="px-3 py-2">
+                        <div className="text-gray-900">{r.product.name}</div>
+                        <div className="text-xs text-gray-500 font-mono">{r.product.article || '—'}</div>
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-700">{formatCurrency(r.from)}</td>
+                      <td className="px-3 py-2 text-right text-gray-900 font-medium">{formatCurrency(r.to)}</td>
+                      <td
+                        className={`px-3 py-2 text-right ${r.delta > 0 ? 'text-red-700' : r.delta < 0 ? 'text-green-700' : 'text-gray-500'}`}
+                      >
+                        {signed(r.delta, formatCurrency)}
+                        <div className="text-xs">{signed(r.percent, (v) => `${v.toFixed(1)}%`)}</div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-3 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 text-gray-700"
+          >
+            Отмена
+          </button>
+          <button
+            type="button"
+            disabled={busy}
+            onClick={publish}
+            className="px-3 py-2 rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            Опубликовать
+          </button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
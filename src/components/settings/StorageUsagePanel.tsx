@@ -0,0 +1,151 @@
+/**
+ * StorageUsagePanel — сведения о хранилище данных
+ * Драйвер (IndexedDB/localStorage), занятое место и квота браузера, размер данных по разделам.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { Database, RefreshCw, ShieldCheck } from 'lucide-react'
+import { toast } from 'sonner'
+import { LS_KEYS, StorageService, type StorageInfo } from '../../services/storage'
+import { requestPersistentStorage } from '../../services/storageDrivers'
+
+/**
+ * Подписи разделов по ключам хранилища
+ */
+const KEY_LABELS: Record<string, string> = {
+  [LS_KEYS.materials]: 'Материалы',
+  [LS_KEYS.products]: 'Изделия',
+  [LS_KEYS.assemblies]: 'Сборки',
+  [LS_KEYS.collections]: 'Коллекции',
+  [LS_KEYS.priceSettings]: 'Настройки цен',
+  [LS_KEYS.priceSettingsDraft]: 'Черновик настроек цен',
+  [LS_KEYS.priceVersions]: 'Версии настроек цен',
+  [LS_KEYS.currency]: 'Валюты',
+  [LS_KEYS.audit]: 'Журнал изменений',
+  [LS_KEYS.pdfPrefs]: 'Настройки прайс-листа',
+  [LS_KEYS.syncOutbox]: 'Очередь синхронизации',
+  [LS_KEYS.syncState]: 'Состояние синхронизации',
+  [LS_KEYS.syncConflicts]: 'Конфликты синхронизации',
+  [LS_KEYS.materialPrices]: 'История цен материалов',
+  [LS_KEYS.auditActor]: 'Имя в журнале',
+  [LS_KEYS.auditRetention]: 'Хранение журнала',
+  [LS_KEYS.auditArchive]: 'Архив журнала',
+  [LS_KEYS.schemaVersion]: 'Версия схемы',
+}
+
+/**
+ * Форматирование размера в байтах
+ */
+function formatBytes(n: number): string {
+  if (n < 1024) return `${n} Б`
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} КБ`
+  if (n < 1024 * 1024 * 1024) return `${(n / 1024 / 1024).toFixed(1)} МБ`
+  return `${(n / 1024 / 1024 / 1024).toFixed(2)} ГБ`
+}
+
+/**
+ * Компонент панели хранилища
+ */
+export default function StorageUsagePanel(): React.ReactElement {
+  const [info, setInfo] = useState<StorageInfo | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  /** Обновить сведения */
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    try {
+      setInfo(await StorageService.getStorageInfo())
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  /** Запросить постоянное хранилище */
+  const persist = useCallback(async () => {
+    const ok = await requestPersistentStorage()
+    if (ok) toast.success('Браузер сохранит данные при нехватке места')
+    else toast.warning('Браузер отклонил запрос постоянного хранилища')
+    refresh()
+  }, [refresh])
+
+  const estimate = info?.estimate
+  const percent = estimate && estimate.quota > 0 ? Math.min(100, (estimate.usage / estimate.quota) * 100) : null
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 inline-flex items-center gap-2">
+            <Database size={18} />
+            Хранилище данных
+          </h2>
+          <p className="text-sm text-gray-600">
+            {info?.driver === 'indexedDB'
+              ? 'Данные хранятся в IndexedDB браузера.'
+              : 'Данные хранятся в localStorage (лимит около 5 МБ) — IndexedDB недоступен.'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {estimate && !estimate.persisted && (
+            <button
+              type="button"
+              onClick={persist}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50"
+              title="Попросить браузер не очищать данные автоматически"
+            >
+              <ShieldCheck size={16} />
+              Закрепить
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={refresh}
+            disabled={loading}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50"
+            title="Обновить сведения"
+          >
+            <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+
+      {percent != null && estimate && (
+        <div className="space-y-1">
+          <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+            <div
+              className={`h-full ${percent > 90 ? 'bg-red-500' : percent > 70 ? 'bg-amber-500' : 'bg-blue-600'}`}
+              style={{ width: `${Math.max(percent, 1)}%` }}
+            />
+          </div>
+          <div className="text-xs text-gray-600">
+            Занято {formatBytes(estimate.usage)} из {formatBytes(estimate.quota)} ({percent.toFixed(1)}%)
+            {estimate.persisted ? ' · постоянное хранилище' : ''}
+          </div>
+        </div>
+      )}
+
+      {info && (
+        <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+          {info.entries.length === 0 ? (
+            <div className="p-3 text-sm text-gray-500">Данных пока нет.</div>
+          ) : (
+            info.entries.map((e) => (
+              <div key={e.key} className="flex items-center justify-between px-3 py-2 text-sm">
+                <span className="text-gray-700">{KEY_LABELS[e.key] || e.key}</span>
+                <span className="text-gray-500 tabular-nums">{formatBytes(e.bytes)}</span>
+              </div>
+            ))
+          )}
+          <div className="flex items-center justify-between px-3 py-2 text-sm font-medium bg-gray-50">
+            <span className="text-gray-900">Итого данных приложения</span>
+            <span className="text-gray-900 tabular-nums">{formatBytes(info.totalBytes)}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
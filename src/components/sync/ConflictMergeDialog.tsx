@@ -0,0 +1,240 @@
+/**
+ * ConflictMergeDialog — ручное слияние конфликта версий
+ * Поля локальной и серверной версии рядом; по каждому полю выбирается источник, итог отправляется поверх серверной версии.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react'
+import Modal from '../common/Modal'
+import Button from '../common/Button'
+import { SyncService, type SyncConflict } from '../../services/sync'
+import type { SyncRow, SyncTable } from '../../services/syncAdapters'
+
+/** Подписи сущностей */
+const TABLE_LABELS: Record<SyncTable, string> = {
+  product_types: 'Тип изделия',
+  finish_types: 'Тип отделки',
+  price_tiers: 'Уровень цен',
+  overhead_pools: 'Статья накладных',
+  tax_profiles: 'Налоговый профиль',
+  materials: 'Материал',
+  material_prices: 'Цена материала',
+  assemblies: 'Сборка',
+  collections: 'Коллекция',
+  products: 'Изделие',
+  tech_card_items: 'Позиция техкарты',
+}
+
+/** Подписи колонок */
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Название',
+  article: 'Артикул',
+  category: 'Категория',
+  unit: 'Ед. изм.',
+  price: 'Цена',
+  supplier: 'Поставщик',
+  description: 'Описание',
+  tags: 'Теги',
+  is_active: 'Активен',
+  markup: 'Наценка, %',
+  work_cost: 'Стоимость работ',
+  collection_id: 'Коллекция',
+  group_name: 'Группа',
+  is_archived: 'В архиве',
+  pinned: 'Закреплена',
+  product_order: 'Изделия',
+  product_type_id: 'Тип изделия',
+  finish_type_id: 'Тип отделки',
+  image_url: 'Изображение',
+  product_id: 'Изделие',
+  material_id: 'Материал',
+  component_product_id: 'Изделие в составе',
+  component_assembly_id: 'Сборка в составе',
+  tech_card: 'Состав',
+  quantity: 'Количество',
+  quantity_formula: 'Формула количества',
+  width_mm: 'Ширина, мм',
+  height_mm: 'Высота, мм',
+  depth_mm: 'Глубина, мм',
+  variant_of: 'Вариант изделия',
+  position: 'Позиция',
+  deleted_at: 'В корзине с',
+}
+
+/** Служебные колонки (не сливаются) */
+const SYSTEM_FIELDS = new Set(['id', 'version', 'created_at', 'updated_at', 'updated_by'])
+
+type Side = 'local' | 'remote'
+
+/** Значение для отображения */
+function formatValue(v: unknown): string {
+  if (v == null || v === '') return '—'
+  if (Array.isArray(v)) return v.length ? v.join(', ') : '—'
+  if (typeof v === 'boolean') return v ? 'Да' : 'Нет'
+  return String(v)
+}
+
+/** Совпадают ли значения */
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+/** Название записи для заголовка */
+export function conflictTitle(c: SyncConflict): string {
+  const row = c.local || c.remote
+  const name = row?.name || row?.article
+  return `${TABLE_LABELS[c.table]}: ${name ? String(name) : c.recordId.slice(0, 8)}`
+}
+
+/**
+ * Пропсы диалога
+ */
+export interface ConflictMergeDialogProps {
+  /** Конфликт (null — диалог закрыт) */
+  conflict: SyncConflict | null
+  /** Закрыть без решения */
+  onClose: () => void
+  /** Конфликт разрешён */
+  onResolved?: () => void
+}
+
+/**
+ * Диалог слияния
+ */
+export default function ConflictMergeDialog({ conflict, onClose, onResolved }: ConflictMergeDialogProps): React.ReactElement | null {
+  const [picks, setPicks] = useState<Record<string, Side>>({})
+
+  /** Поля с данными обеих версий */
+  const fields = useMemo(() => {
+    if (!conflict) return []
+    const keys = new Set([...Object.keys(conflict.local || {}), ...Object.keys(conflict.remote || {})])
+    return Array.from(keys).filter((k) => !SYSTEM_FIELDS.has(k))
+  }, [conflict])
+
+  // По умолчанию — серверные значения: чужие изменения не затираются без явного выбора
+  useEffect(() => {
+    setPicks({})
+  }, [conflict?.id])
+
+  if (!conflict) return null
+  const { local, remote } = conflict
+
+  /** Применить решение */
+  const resolve = (resolution: SyncRow | null) => {
+    SyncService.resolveConflict(conflict.id, resolution)
+    onResolved?.()
+  }
+
+  /** Итоговая строка из выбранных полей */
+  const merged = (): SyncRow => {
+    const row: SyncRow = { ...(remote as SyncRow) }
+    for (const f of fields) {
+      if (picks[f] === 'local') row[f] = local?.[f] ?? null
+    }
+    return row
+  }
+
+  const pickAll = (side: Side) => setPicks(Object.fromEntries(fields.map((f) => [f, side])))
+
+  return (
+    <Modal open title={`Конфликт версий — ${conflictTitle(conflict)}`} onClose={onClose} lockOverlay>
+      <div className="space-y-4">
+        {local && remote && (
+          <>
+            <p className="text-sm text-gray-600">
+              Запись изменена на сервере после того, как вы начали её редактировать
+              {conflict.baseVersion != null ? ` (ваша версия v${conflict.baseVersion}, на сервере v${remote.version ?? '?'})` : ''}.
+              Выберите значение для каждого поля — результат будет сохранён как новая версия.
+            </p>
+
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-500 uppercase">Поле</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-500 uppercase">Локально</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-500 uppercase">На сервере</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fields.map((f) => {
+                    const differs = !same(local[f], remote[f])
+                    const side = picks[f] || 'remote'
+                    return (
+                      <tr key={f} className={`border-t border-gray-100 ${differs ? 'bg-amber-50/60' : ''}`}>
+                        <td className="px-3 py-2 text-gray-700 whitespace-nowrap">{FIELD_LABELS[f] || f}</td>
+                        {(['local', 'remote'] as Side[]).map((s) => (
+                          <td key={s} className="px-3 py-2">
+                            {differs ? (
+                              <label className="inline-flex items-start gap-2 cursor-pointer">
+                                <input
+                                  type="radio"
+                                  name={`pick-${f}`}
+                                  checked={side === s}
+                                  onChange={() => setPicks((p) => ({ ...p, [f]: s }))}
+                                  className="mt-0.5"
+                                />
+                                <span className={side === s ? 'text-gray-900 font-medium' : 'text-gray-500'}>
+                                  {formatValue(s === 'local' ? local[f] : remote[f])}
+                                </span>
+                              </label>
+                            ) : (
+                              <span className="text-gray-400">{formatValue(local[f])}</span>
+                            )}
+                          </td>
+                        ))}
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => pickAll('local')}>
+                  Всё локальное
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => pickAll('remote')}>
+                  Всё с сервера
+                </Button>
+              </div>
+              <Button onClick={() => resolve(merged())}>Сохранить и отправить</Button>
+            </div>
+          </>
+        )}
+
+        {local && !remote && (
+          <>
+            <p className="text-sm text-gray-600">Запись удалена на сервере, а у вас есть неотправленные изменения.</p>
+            <div className="flex justify-end gap-2">
+              <Button variant="danger" onClick={() => resolve(null)}>
+                Принять удаление
+              </Button>
+              <Button onClick={() => resolve(local)}>Восстановить мою версию</Button>
+            </div>
+          </>
+        )}
+
+        {!local && remote && (
+          <>
+            <p className="text-sm text-gray-600">Вы удалили запись, но на сервере её успели изменить.</p>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => resolve(remote)}>
+                Оставить серверную версию
+              </Button>
+              <Button variant="danger" onClick={() => resolve(null)}>
+                Удалить всё равно
+              </Button>
+            </div>
+          </>
+        )}
+
+        {!local && !remote && (
+          <div className="flex justify-end">
+            <Button onClick={() => resolve(null)}>Закрыть конфликт</Button>
+          </div>
+        )}
+      </div>
+    </Modal>
+  )
+}
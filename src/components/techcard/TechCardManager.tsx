@@ -5,33 +5,257 @@
  * - Touch-friendly inputs
  * - Improved mobile UX
  * - Better overflow handling
+ * - Суммы и разбивка цены — из общего движка ценообразования (lib/pricing)
+ * - Отход по строке: пусто — отход материала по умолчанию
+ * - Строки-изделия и строки-сборки: состав раскрывается деревом, цикл (изделие внутри себя) не добавляется
+ * - Количество формулой от габаритов: «=(W*H*2 + W*D)/1e6», под полем — вычисленное значение или ошибка
  */
 
 import React, { memo, useState, useRef, useMemo, useCallback } from 'react'
-import { Upload, X, Edit3, Trash2 } from 'lucide-react'
+import { Upload, Edit3, Trash2, ChevronRight, ChevronDown, AlertTriangle } from 'lucide-react'
+import { toast } from 'sonner'
 import Card from '../common/Card'
 import Button from '../common/Button'
-import NumberInput from '../common/NumberInput'
 import { useIsMobile } from '../../hooks/use-mobile'
+import { StorageService } from '../../services/storage'
+import { useCurrencyConfig } from '../../services/currency'
+import { checkFormula, type FormulaVariables } from '../../lib/expr'
+import {
+  DIMENSION_VARIABLES,
+  FORMULA_VARIABLE_NAMES,
+  calculatePrice,
+  describeTax,
+  dimensionVariables,
+  itemQuantity,
+  techCardItemKey,
+  techCardItemKind,
+  wouldCreateCycle,
+  type ComponentKind,
+  type PriceLine,
+  type PricingComponents,
+  type PricingMaterial,
+  type PricingProduct,
+  type PricingSettings,
+} from '../../lib/pricing'
+import type { TechCardItem, TechCardItemKind } from '../../types/models'
 
 interface TechCardRow {
   _techCardId: string
+  /** Вид строки: материал, изделие, сборка */
+  kind: TechCardItemKind
   article: string
   name: string
+  /** Строка замыкает цикл и не считается */
+  cycle: boolean
+  /** Состав изделия/сборки (количества и суммы — на всё количество строки) */
+  children: TechCardRow[]
+  /** Работа изделия/сборки в сумме строки (без работы вложенных частей) */
+  ownWork: number
   quantity: number
+  /** Формула количества (null — количество задано числом) */
+  formula: string | null
+  /** Ошибка формулы (строка посчитана с нулевым количеством) */
+  formulaError: string | null
   unit: string
   price: number
+  /** Отход строки, % (null — как у материала) */
+  wasteOverride: number | null
+  /** Отход материала по умолчанию, % */
+  wasteDefault: number
+  /** Количество и стоимость отхода */
+  wasteQuantity: number
+  wasteCost: number
   total: number
 }
 
 interface TechCardManagerProps {
+  /** Материалы, доступные для добавления (и для цен строк) */
+  materials: PricingMaterial[]
+  /** Техкарта */
+  value: TechCardItem[]
+  /** Изменение техкарты */
+  onChange: (value: TechCardItem[]) => void
+  /** Изделие и настройки цен — для разбивки цены под таблицей (без них показываются только материалы) */
+  product?: PricingProduct
+  priceSettings?: PricingSettings
+  /** Изделия и сборки, которые можно добавить строкой техкарты (и для цен таких строк) */
+  components?: PricingComponents
+  /** Чья это техкарта: изделие или сборка (чтобы не добавить её саму в себя) */
+  owner?: { kind: ComponentKind; id: string }
+}
+
+/** Подписи видов строк */
+const KIND_LABELS: Record<TechCardItemKind, string> = {
+  material: 'Материал',
+  product: 'Изделие',
+  assembly: 'Сборка',
+}
+
+/**
+ * Строка таблицы из строки расчёта; factor — количество родителя (суммы вложенных строк — на всё изделие)
+ */
+function toRow(line: PriceLine, id: string, factor = 1): TechCardRow {
+  const kind = techCardItemKind(line.item)
+  const children = line.children.map((c, i) => toRow(c, `${id}/${i}`, factor * line.quantity))
+  const total = line.cost * factor
+  const name =
+    kind === 'material'
+      ? line.material?.name ?? `Материал не найден (${line.item.materialId})`
+      : line.component?.name ?? `${KIND_LABELS[kind]} не найдено (${line.item.refId || '—'})`
+  return {
+    _techCardId: id,
+    kind,
+    article: (kind === 'material' ? line.material?.article : line.component?.article) || (kind === 'material' ? '—' : KIND_LABELS[kind]),
+    name,
+    cycle: line.cycle,
+    children,
+    ownWork: kind === 'material' ? 0 : total - children.reduce((sum, c) => sum + c.total, 0),
+    quantity: line.quantity * factor,
+    formula: line.item.formula?.trim() || null,
+    formulaError: line.formulaError,
+    unit: kind === 'material' ? line.material?.unit ?? '' : 'шт',
+    price: line.unitPrice,
+    wasteOverride: line.item.wastePercent ?? null,
+    wasteDefault: Number(line.material?.waste_percent) || 0,
+    wasteQuantity: line.wasteQuantity * factor,
+    wasteCost: line.wasteCost * factor,
+    total,
+  }
+}
+
+/** Значение пункта выбора позиции: «material:<id>», «assembly:<id>», «product:<id>» */
+function parsePick(value: string): { kind: TechCardItemKind; id: string } | null {
+  const i = value.indexOf(':')
+  if (i < 0) return null
+  const kind = value.slice(0, i) as TechCardItemKind
+  return kind in KIND_LABELS ? { kind, id: value.slice(i + 1) } : null
+}
+
+/** Идентификатор строки (у старых позиций нет _techCardId) */
+function rowId(item: TechCardItem, index: number): string {
+  return item._techCardId || `row-${index}`
+}
+
+/** Черновик поля количества: число или «=формула» */
+function qtyValue(row: TechCardRow, draft: Record<string, string>): string {
+  return draft[row._techCardId] ?? (row.formula ? `=${row.formula}` : String(row.quantity))
+}
+
+/** Количество с единицей для подсказок */
+function formatQty(quantity: number, unit: string): string {
+  return `${Number(quantity.toFixed(3))} ${unit}`.trim()
+}
+
+/**
+ * Подсказка под полем количества: результат формулы (в т.ч. набираемой) или её ошибка
+ */
+function QtyHint({ row, draft, vars }: { row: TechCardRow; draft: Record<string, string>; vars: FormulaVariables }) {
+  const text = draft[row._techCardId]
+  if (text !== undefined && text.trim().startsWith('=')) {
+    const formula = text.trim().slice(1)
+    const error = checkFormula(formula, FORMULA_VARIABLE_NAMES)
+    if (error) return <div className="text-xs text-red-600 mt-1">{error.message}</div>
+    const result = itemQuantity({ quantity: 0, formula }, vars)
+    return result.formulaError ? (
+      <div className="text-xs text-amber-700 mt-1">{result.formulaError}</div>
+    ) : (
+      <div className="text-xs text-gray-500 mt-1">= {formatQty(result.quantity, row.unit)}</div>
+    )
+  }
+  if (!row.formula) return null
+  return row.formulaError ? (
+    <div className="text-xs text-red-600 mt-1">{row.formulaError}</div>
+  ) : (
+    <div className="text-xs text-gray-500 mt-1">= {formatQty(row.quantity, row.unit)}</div>
+  )
+}
+
+/** Черновик поля отхода: своё значение строки или пусто */
+function wasteValue(row: TechCardRow, draft: Record<string, string>): string {
+  return draft[row._techCardId] ?? (row.wasteOverride == null ? '' : String(row.wasteOverride))
+}
+
+/** Подсказка отхода: количество и стоимость */
+function wasteHint(row: TechCardRow, money: (amount: number) => string): string {
+  if (row.kind !== 'material') return row.wasteCost === 0 ? 'без отхода' : `отход состава ${money(row.wasteCost)}`
+  if (row.wasteQuantity === 0) return 'без отхода'
+  return `+${Number(row.wasteQuantity.toFixed(3))} ${row.unit} · ${money(row.wasteCost)}`
+}
+
+/** Название строки с пометкой вида и цикла */
+function RowName({ row }: { row: TechCardRow }) {
+  return (
+    <>
+      {row.kind !== 'material' && (
+        <span className="inline-block mr-1.5 px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-700 text-[11px] align-middle">
+          {KIND_LABELS[row.kind]}
+        </span>
+      )}
+      <span title={row.name}>{row.name}</span>
+      {row.cycle && (
+        <span className="ml-1.5 inline-flex items-center gap-1 text-xs text-red-600 align-middle">
+          <AlertTriangle size={12} />
+          цикл — не учитывается
+        </span>
+      )}
+    </>
+  )
+}
+
+/** Кнопка раскрытия состава */
+function ToggleButton({ open, onClick }: { open: boolean; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="inline-flex items-center justify-center w-6 h-6 mr-1 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded align-middle"
+      aria-label={open ? 'Свернуть состав' : 'Раскрыть состав'}
+      aria-expanded={open}
+    >
+      {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+    </button>
+  )
+}
+
+/**
+ * Состав изделия/сборки для мобильной карточки (только просмотр)
+ */
+function MobileNested({
+  rows,
+  expanded,
+  onToggle,
+}: {
   rows: TechCardRow[]
-  totalCost: number
-  onUpdateQuantity: (id: string, quantity: number) => void
-  onRemovePosition: (id: string) => void
-  onAddPosition: () => void
-  onImportExcel: (file: File) => void
-  importing?: boolean
+  expanded: Set<string>
+  onToggle: (id: string) => void
+}) {
+  const money = useMoney()
+  return (
+    <div className="pl-3 border-l-2 border-gray-100 space-y-2">
+      {rows.map((row) => (
+        <div key={row._techCardId} className="text-sm">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              {row.children.length > 0 && (
+                <ToggleButton open={expanded.has(row._techCardId)} onClick={() => onToggle(row._techCardId)} />
+              )}
+              <RowName row={row} />
+              <div className="text-xs text-gray-500">
+                {formatQty(row.quantity, row.unit)}
+                {row.formula && <span title={row.formula}> (по формуле)</span>} × {money(row.price)}
+              </div>
+            </div>
+            <div className="font-medium text-gray-900 whitespace-nowrap">{money(row.total)}</div>
+          </div>
+          {row.children.length > 0 && expanded.has(row._techCardId) && (
+            <div className="mt-2">
+              <MobileNested rows={row.children} expanded={expanded} onToggle={onToggle} />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
 }
 
 /**
@@ -40,23 +264,38 @@ interface TechCardManagerProps {
 const MobileCardRow = memo(function MobileCardRow({
   row,
   qtyDraft,
+  wasteDraft,
+  vars,
+  expanded,
+  onToggle,
   onQtyChange,
   onQtyCommit,
+  onWasteChange,
+  onWasteCommit,
   onRemove
 }: {
   row: TechCardRow
   qtyDraft: Record<string, string>
+  vars: FormulaVariables
+  wasteDraft: Record<string, string>
+  expanded: Set<string>
+  onToggle: (id: string) => void
   onQtyChange: (id: string, value: string) => void
   onQtyCommit: (id: string, value: string) => void
+  onWasteChange: (id: string, value: string) => void
+  onWasteCommit: (id: string, value: string) => void
   onRemove: (id: string) => void
 }) {
+  const money = useMoney()
   return (
     <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
       {/* Заголовок с артикулом */}
       <div className="flex items-start justify-between">
         <div className="min-w-0 flex-1">
           <div className="font-mono text-sm text-blue-600 font-medium">{row.article}</div>
-          <div className="text-sm text-gray-900 mt-1 line-clamp-2">{row.name}</div>
+          <div className="text-sm text-gray-900 mt-1 line-clamp-2">
+            <RowName row={row} />
+          </div>
         </div>
         <button
           onClick={() => onRemove(row._techCardId)}
@@ -70,11 +309,10 @@ const MobileCardRow = memo(function MobileCardRow({
       {/* Количество и единица измерения */}
       <div className="grid grid-cols-2 gap-3">
         <div>
-          <label className="block text-xs text-gray-600 mb-1">Количество</label>
+          <label className="block text-xs text-gray-600 mb-1">Количество или =формула</label>
           <input
             type="text"
-            inputMode="decimal"
-            value={qtyDraft[row._techCardId] ?? String(row.quantity)}
+            value={qtyValue(row, qtyDraft)}
             onChange={(e) => onQtyChange(row._techCardId, e.target.value)}
             onBlur={(e) => onQtyCommit(row._techCardId, e.target.value)}
             onKeyDown={(e) => {
@@ -86,6 +324,7 @@ const MobileCardRow = memo(function MobileCardRow({
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm min-h-[44px]"
             placeholder="0"
           />
+          <QtyHint row={row} draft={qtyDraft} vars={vars} />
         </div>
         <div>
           <label className="block text-xs text-gray-600 mb-1">Единица</label>
@@ -95,43 +334,167 @@ const MobileCardRow = memo(function MobileCardRow({
         </div>
       </div>
 
+      {/* Отход (у изделий и сборок — отход их материалов) */}
+      {row.kind !== 'material' ? (
+        <div className="text-xs text-gray-500">{wasteHint(row, money)}</div>
+      ) : (
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Отход, %</label>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={wasteValue(row, wasteDraft)}
+            onChange={(e) => onWasteChange(row._techCardId, e.target.value)}
+            onBlur={(e) => onWasteCommit(row._techCardId, e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                onWasteCommit(row._techCardId, (e.currentTarget as HTMLInputElement).value)
+              }
+            }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm min-h-[44px]"
+            placeholder={`${row.wasteDefault} (как у материала)`}
+          />
+          <div className="text-xs text-gray-500 mt-1">{wasteHint(row, money)}</div>
+        </div>
+      )}
+
       {/* Цена и сумма */}
       <div className="grid grid-cols-2 gap-3">
         <div>
           <label className="block text-xs text-gray-600 mb-1">Цена за ед.</label>
-          <div className="text-sm font-medium text-gray-900">{formatCurrency(row.price, 'KGS')}</div>
+          <div className="text-sm font-medium text-gray-900">{money(row.price)}</div>
         </div>
         <div>
           <label className="block text-xs text-gray-600 mb-1">Сумма</label>
-          <div className="text-sm font-semibold text-blue-600">{formatCurrency(row.total, 'KGS')}</div>
+          <div className="text-sm font-semibold text-blue-600">{money(row.total)}</div>
         </div>
       </div>
+
+      {/* Состав изделия/сборки */}
+      {row.children.length > 0 && (
+        <div>
+          <button
+            type="button"
+            onClick={() => onToggle(row._techCardId)}
+            className="inline-flex items-center gap-1 text-sm text-blue-600"
+            aria-expanded={expanded.has(row._techCardId)}
+          >
+            {expanded.has(row._techCardId) ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+            Состав ({row.children.length})
+          </button>
+          {expanded.has(row._techCardId) && (
+            <div className="mt-2">
+              <MobileNested rows={row.children} expanded={expanded} onToggle={onToggle} />
+              {row.ownWork > 0.005 && (
+                <div className="mt-2 flex justify-between text-sm text-gray-700">
+                  <span>Работа</span>
+                  <span>{money(row.ownWork)}</span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   )
 })
 
+/**
+ * Строки состава изделия/сборки в таблице (только просмотр, с отступом по глубине)
+ */
+function NestedRows({
+  parent,
+  depth,
+  expanded,
+  onToggle,
+}: {
+  parent: TechCardRow
+  depth: number
+  expanded: Set<string>
+  onToggle: (id: string) => void
+}) {
+  const money = useMoney()
+  const indent = { paddingLeft: `${1 + depth * 1.25}rem` }
+  return (
+    <>
+      {parent.children.map((row) => (
+        <React.Fragment key={row._techCardId}>
+          <tr className="bg-gray-50/60 text-gray-600">
+            <td className="px-4 py-2 text-xs font-mono">{row.article}</td>
+            <td className="py-2 pr-4 text-sm max-w-xs" style={indent}>
+              <div className="truncate">
+                {row.children.length > 0 && (
+                  <ToggleButton open={expanded.has(row._techCardId)} onClick={() => onToggle(row._techCardId)} />
+                )}
+                <RowName row={row} />
+              </div>
+            </td>
+            <td className={`px-4 py-2 text-sm ${row.formulaError ? 'text-red-600' : ''}`} title={row.formulaError || row.formula || undefined}>
+              {Number(row.quantity.toFixed(3))}
+              {row.formula && <span className="ml-1 text-xs text-gray-400">ƒ</span>}
+            </td>
+            <td className="px-4 py-2 text-sm whitespace-nowrap">{row.unit}</td>
+            <td className="px-4 py-2 text-xs whitespace-nowrap">{wasteHint(row, money)}</td>
+            <td className="px-4 py-2 text-sm whitespace-nowrap">{money(row.price)}</td>
+            <td className="px-4 py-2 text-sm whitespace-nowrap">{money(row.total)}</td>
+            <td />
+          </tr>
+          {row.children.length > 0 && expanded.has(row._techCardId) && (
+            <NestedRows parent={row} depth={depth + 1} expanded={expanded} onToggle={onToggle} />
+          )}
+        </React.Fragment>
+      ))}
+      {parent.ownWork > 0.005 && (
+        <tr className="bg-gray-50/60 text-gray-600">
+          <td />
+          <td className="py-2 pr-4 text-sm" style={indent}>
+            Работа: {parent.name}
+          </td>
+          <td colSpan={4} />
+          <td className="px-4 py-2 text-sm whitespace-nowrap">{money(parent.ownWork)}</td>
+          <td />
+        </tr>
+      )}
+    </>
+  )
+}
+
 /**
  * Desktop таблица (оригинальная логика, но с улучшениями)
  */
 const DesktopTable = memo(function DesktopTable({
   rows,
   qtyDraft,
+  wasteDraft,
+  vars,
+  expanded,
+  onToggle,
   onQtyChange,
   onQtyCommit,
+  onWasteChange,
+  onWasteCommit,
   onRemove
 }: {
   rows: TechCardRow[]
   qtyDraft: Record<string, string>
+  vars: FormulaVariables
+  wasteDraft: Record<string, string>
+  expanded: Set<string>
+  onToggle: (id: string) => void
   onQtyChange: (id: string, value: string) => void
   onQtyCommit: (id: string, value: string) => void
+  onWasteChange: (id: string, value: string) => void
+  onWasteCommit: (id: string, value: string) => void
   onRemove: (id: string) => void
 }) {
+  const money = useMoney()
   return (
     <div className="overflow-x-auto custom-scrollbar">
       <table className="min-w-full">
         <thead className="bg-gray-50">
           <tr>
-            {['Артикул', 'Наименование', 'Кол-во', 'Ед.', 'Цена', 'Сумма', ''].map((header) => (
+            {['Артикул', 'Наименование', 'Кол-во', 'Ед.', 'Отход, %', 'Цена', 'Сумма', ''].map((header) => (
               <th
                 key={header}
                 className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wide whitespace-nowrap"
@@ -144,48 +507,85 @@ const DesktopTable = memo(function DesktopTable({
         <tbody>
           {rows.length === 0 ? (
             <tr>
-              <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
-                Техкарта пуста. Добавьте материал вручную или импортируйте из Excel.
+              <td colSpan={8} className="px-4 py-8 text-center text-gray-500">
+                Техкарта пуста. Добавьте материал, сборку или изделие вручную или импортируйте материалы из Excel.
               </td>
             </tr>
           ) : (
             rows.map((row) => (
-              <tr key={row._techCardId} className="border-t border-gray-100 hover:bg-gray-50">
-                <td className="px-4 py-3 text-sm font-mono text-blue-600 font-medium">{row.article}</td>
-                <td className="px-4 py-3 text-sm text-gray-900 max-w-xs">
-                  <div className="truncate" title={row.name}>{row.name}</div>
-                </td>
-                <td className="px-4 py-3 text-sm">
-                  <input
-                    type="text"
-                    inputMode="decimal"
-                    value={qtyDraft[row._techCardId] ?? String(row.quantity)}
-                    onChange={(e) => onQtyChange(row._techCardId, e.target.value)}
-                    onBlur={(e) => onQtyCommit(row._techCardId, e.target.value)}
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter') {
-                        e.preventDefault()
-                        onQtyCommit(row._techCardId, (e.currentTarget as HTMLInputElement).value)
-                      }
-                    }}
-                    className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
-                    placeholder="0"
-                    aria-label="Количество"
-                  />
-                </td>
-                <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">{row.unit}</td>
-                <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">{formatCurrency(row.price, 'KGS')}</td>
-                <td className="px-4 py-3 text-sm font-semibold text-blue-600 whitespace-nowrap">{formatCurrency(row.total, 'KGS')}</td>
-                <td className="px-4 py-3 text-right">
-                  <button
-                    onClick={() => onRemove(row._techCardId)}
-                    className="inline-flex items-center justify-center w-8 h-8 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
-                    aria-label="Удалить позицию"
-                  >
-                    <Trash2 size={16} />
-                  </button>
-                </td>
-              </tr>
+              <React.Fragment key={row._techCardId}>
+                <tr className="border-t border-gray-100 hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm font-mono text-blue-600 font-medium">{row.article}</td>
+                  <td className="px-4 py-3 text-sm text-gray-900 max-w-xs">
+                    <div className="truncate">
+                      {row.children.length > 0 && (
+                        <ToggleButton open={expanded.has(row._techCardId)} onClick={() => onToggle(row._techCardId)} />
+                      )}
+                      <RowName row={row} />
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <input
+                      type="text"
+                      value={qtyValue(row, qtyDraft)}
+                      onChange={(e) => onQtyChange(row._techCardId, e.target.value)}
+                      onBlur={(e) => onQtyCommit(row._techCardId, e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault()
+                          onQtyCommit(row._techCardId, (e.currentTarget as HTMLInputElement).value)
+                        }
+                      }}
+                      className={`${row.formula || qtyDraft[row._techCardId]?.trim().startsWith('=') ? 'w-44 font-mono text-xs' : 'w-24'} px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500`}
+                      placeholder="0"
+                      title="Число или формула от габаритов: =(W*H*2 + W*D)/1e6"
+                      aria-label="Количество"
+                    />
+                    <QtyHint row={row} draft={qtyDraft} vars={vars} />
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">{row.unit}</td>
+                  <td className="px-4 py-3 text-sm">
+                    {row.kind !== 'material' ? (
+                      <div className="text-xs text-gray-500 whitespace-nowrap">{wasteHint(row, money)}</div>
+                    ) : (
+                      <>
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          value={wasteValue(row, wasteDraft)}
+                          onChange={(e) => onWasteChange(row._techCardId, e.target.value)}
+                          onBlur={(e) => onWasteCommit(row._techCardId, e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              e.preventDefault()
+                              onWasteCommit(row._techCardId, (e.currentTarget as HTMLInputElement).value)
+                            }
+                          }}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                          placeholder={String(row.wasteDefault)}
+                          title="Пусто — отход материала по умолчанию"
+                          aria-label="Отход, %"
+                        />
+                        <div className="text-xs text-gray-500 mt-1 whitespace-nowrap">{wasteHint(row, money)}</div>
+                      </>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">{money(row.price)}</td>
+                  <td className="px-4 py-3 text-sm font-semibold text-blue-600 whitespace-nowrap">{money(row.total)}</td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() => onRemove(row._techCardId)}
+                      className="inline-flex items-center justify-center w-8 h-8 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                      aria-label="Удалить позицию"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+                {row.children.length > 0 && expanded.has(row._techCardId) && (
+                  <NestedRows parent={row} depth={1} expanded={expanded} onToggle={onToggle} />
+                )}
+              </React.Fragment>
             ))
           )}
         </tbody>
@@ -198,46 +598,188 @@ const DesktopTable = memo(function DesktopTable({
  * Основной компонент TechCardManager
  */
 const TechCardManager = memo(function TechCardManager({
-  rows,
-  totalCost,
-  onUpdateQuantity,
-  onRemovePosition,
-  onAddPosition,
-  onImportExcel,
-  importing = false
+  materials,
+  value,
+  onChange,
+  product,
+  priceSettings,
+  components,
+  owner
 }: TechCardManagerProps) {
+  const money = useMoney()
   const isMobile = useIsMobile()
   const inputRef = useRef<HTMLInputElement>(null)
   const [qtyDraft, setQtyDraft] = useState<Record<string, string>>({})
+  const [wasteDraft, setWasteDraft] = useState<Record<string, string>>({})
+  const [pickId, setPickId] = useState('')
+  const [importing, setImporting] = useState(false)
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set())
+  // Габариты для проверки формул, когда техкарта не принадлежит изделию (сборка)
+  const [previewDims, setPreviewDims] = useState<Record<string, string>>({})
+
+  const dims = useMemo<PricingProduct>(() => {
+    if (product) return product
+    const parsed: PricingProduct = {}
+    for (const v of DIMENSION_VARIABLES) parsed[v.field] = parseFloat((previewDims[v.field] || '').replace(',', '.')) || null
+    return parsed
+  }, [product, previewDims])
+  const formulaVars = useMemo(() => dimensionVariables(dims), [dims])
+  const hasFormulas = value.some((it) => !!it.formula?.trim())
+
+  // Цены строк и итог — тем же расчётом, что и цена изделия в каталоге и прайсе
+  const breakdown = useMemo(
+    () =>
+      calculatePrice(
+        { ...dims, tech_card: value },
+        materials,
+        priceSettings ?? { productTypes: [], finishTypes: [] },
+        components,
+      ),
+    [dims, value, materials, priceSettings, components]
+  )
+
+  const rows = useMemo<TechCardRow[]>(
+    () => breakdown.lines.map((line, index) => toRow(line, rowId(line.item, index))),
+    [breakdown]
+  )
+
+  // Сумма строк техкарты (материалы, сборки и изделия вместе с их работой)
+  const cardTotal = useMemo(() => breakdown.lines.reduce((sum, l) => sum + l.cost, 0), [breakdown])
+  const nestedWork = useMemo(() => breakdown.lines.reduce((sum, l) => sum + l.workCost, 0), [breakdown])
+
+  // Изделия и сборки для выбора — без самой карточки
+  const pickProducts = useMemo(
+    () => (components?.products || []).filter((p) => !(owner?.kind === 'product' && p.id === owner.id)),
+    [components, owner]
+  )
+  const pickAssemblies = useMemo(
+    () => (components?.assemblies || []).filter((a) => !(owner?.kind === 'assembly' && a.id === owner.id)),
+    [components, owner]
+  )
+
+  const toggleExpanded = useCallback((id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }, [])
 
   // Обработчики изменения количества
   const handleQtyChange = useCallback((id: string, value: string) => {
     setQtyDraft(prev => ({ ...prev, [id]: value }))
   }, [])
 
-  const commitQty = useCallback((id: string, value: string) => {
-    const num = parseFloat(value.replace(',', '.')) || 0
-    onUpdateQuantity(id, num)
+  // «=…» — формула: с ошибкой не сохраняется (черновик остаётся с подсказкой), quantity хранит вычисленное значение
+  const commitQty = useCallback((id: string, raw: string) => {
+    const text = raw.trim()
+    let patch: Pick<TechCardItem, 'quantity' | 'formula'>
+    if (text.startsWith('=')) {
+      const formula = text.slice(1).trim()
+      const error = checkFormula(formula, FORMULA_VARIABLE_NAMES)
+      if (error) {
+        toast.error(`Формула: ${error.message}`)
+        return
+      }
+      const result = itemQuantity({ quantity: 0, formula }, formulaVars)
+      patch = { formula, quantity: result.formulaError ? 0 : result.quantity }
+    } else {
+      patch = { formula: null, quantity: parseFloat(text.replace(',', '.')) || 0 }
+    }
+    onChange(value.map((it, i) => (rowId(it, i) === id ? { ...it, ...patch } : it)))
     setQtyDraft(prev => {
       const { [id]: _, ...rest } = prev
       return rest
     })
-  }, [onUpdateQuantity])
+  }, [value, onChange, formulaVars])
 
-  const removePosition = useCallback((id: string) => {
-    onRemovePosition(id)
-    setQtyDraft(prev => {
+  // Отход строки: пусто — снова как у материала
+  const handleWasteChange = useCallback((id: string, value: string) => {
+    setWasteDraft(prev => ({ ...prev, [id]: value }))
+  }, [])
+
+  const commitWaste = useCallback((id: string, raw: string) => {
+    const trimmed = raw.trim()
+    const wastePercent = trimmed === '' ? null : Math.max(0, parseFloat(trimmed.replace(',', '.')) || 0)
+    onChange(value.map((it, i) => (rowId(it, i) === id ? { ...it, wastePercent } : it)))
+    setWasteDraft(prev => {
       const { [id]: _, ...rest } = prev
       return rest
     })
-  }, [onRemovePosition])
+  }, [value, onChange])
+
+  const removePosition = useCallback((id: string) => {
+    onChange(value.filter((it, i) => rowId(it, i) !== id))
+    setQtyDraft({})
+    setWasteDraft({})
+  }, [value, onChange])
+
+  // Добавление материала, сборки или изделия из справочника
+  const addPosition = useCallback(() => {
+    const pick = parsePick(pickId) ?? (materials[0] ? { kind: 'material' as const, id: materials[0].id } : null)
+    if (!pick) {
+      toast.error('Справочник материалов пуст')
+      return
+    }
+    const item: TechCardItem =
+      pick.kind === 'material'
+        ? { materialId: pick.id, quantity: 1, _techCardId: StorageService.id() }
+        : { materialId: '', kind: pick.kind, refId: pick.id, quantity: 1, _techCardId: StorageService.id() }
+    if (value.some((it) => techCardItemKey(it) === techCardItemKey(item))) {
+      toast.info(`${KIND_LABELS[pick.kind]} уже есть в техкарте — измените количество`)
+      return
+    }
+    if (pick.kind !== 'material' && owner && components && wouldCreateCycle(owner, { kind: pick.kind, id: pick.id }, components)) {
+      toast.error('Нельзя добавить: эта позиция сама содержит текущую техкарту (получится цикл)')
+      return
+    }
+    onChange([...value, item])
+  }, [pickId, materials, value, onChange, owner, components])
 
-  // Обработчик импорта Excel
-  const doImport = useCallback((file: File | null | undefined) => {
-    if (file) {
-      onImportExcel(file)
+  // Импорт Excel: колонка A — артикул, колонка B — количество, колонка C — отход, % (необязательно)
+  const doImport = useCallback(async (file: File | null | undefined) => {
+    if (!file) return
+    setImporting(true)
+    try {
+      const XLSX = await import('xlsx')
+      const wb = XLSX.read(await file.arrayBuffer(), { type: 'array' })
+      const sheet = wb.Sheets[wb.SheetNames[0]]
+      const data = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, blankrows: false })
+      const byArticle = new Map(materials.map((m) => [m.article.trim().toLowerCase(), m]))
+
+      const next = value.slice()
+      const unknown: string[] = []
+      for (const row of data) {
+        const article = String(row?.[0] ?? '').trim()
+        const quantity = parseFloat(String(row?.[1] ?? '').replace(',', '.'))
+        const waste = parseFloat(String(row?.[2] ?? '').replace(',', '.'))
+        const wastePercent = Number.isFinite(waste) ? Math.max(0, waste) : undefined
+        if (!article || !Number.isFinite(quantity)) continue // заголовок и пустые строки
+        const material = byArticle.get(article.toLowerCase())
+        if (!material) {
+          unknown.push(article)
+          continue
+        }
+        const idx = next.findIndex((it) => it.materialId === material.id)
+        const patch = wastePercent === undefined ? { quantity } : { quantity, wastePercent }
+        if (idx >= 0) next[idx] = { ...next[idx], ...patch }
+        else next.push({ materialId: material.id, ...patch, _techCardId: StorageService.id() })
+      }
+
+      onChange(next)
+      if (unknown.length > 0) {
+        toast.warning(`Не найдены артикулы: ${unknown.slice(0, 5).join(', ')}${unknown.length > 5 ? ` и ещё ${unknown.length - 5}` : ''}`)
+      } else {
+        toast.success('Техкарта импортирована')
+      }
+    } catch (e: any) {
+      toast.error(`Не удалось прочитать файл: ${e?.message || e}`)
+    } finally {
+      setImporting(false)
+      if (inputRef.current) inputRef.current.value = ''
     }
-  }, [onImportExcel])
+  }, [materials, value, onChange])
 
   return (
     <Card className="space-y-4">
@@ -246,7 +788,7 @@ const TechCardManager = memo(function TechCardManager({
         <div>
           <h3 className="text-lg font-semibold text-gray-900">Техническая карта</h3>
           <p className="text-sm text-gray-600 mt-1">
-            Состав материалов и расчет себестоимости
+            Материалы, сборки и изделия; расчет себестоимости
           </p>
         </div>
       </div>
@@ -255,16 +797,47 @@ const TechCardManager = memo(function TechCardManager({
       <div className={`flex ${isMobile ? 'flex-col gap-3' : 'items-center justify-between'}`}>
         <div className={`${isMobile ? 'order-2' : ''}`}>
           <div className="text-right">
-            <div className="text-sm text-gray-600">Итого материалы</div>
-            <div className="text-xl font-bold text-blue-600">{formatCurrency(totalCost, 'KGS')}</div>
+            <div className="text-sm text-gray-600">Итого по техкарте</div>
+            <div className="text-xl font-bold text-blue-600">{money(cardTotal)}</div>
           </div>
         </div>
         
-        <div className={`flex gap-2 ${isMobile ? 'order-1' : ''}`}>
+        <div className={`flex gap-2 ${isMobile ? 'order-1 flex-wrap' : ''}`}>
+          <select
+            value={pickId}
+            onChange={(e) => setPickId(e.target.value)}
+            className="min-h-[44px] max-w-xs px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 text-sm"
+            aria-label="Позиция"
+          >
+            <optgroup label="Материалы">
+              {materials.map((m) => (
+                <option key={m.id} value={`material:${m.id}`}>
+                  {m.article} — {m.name}
+                </option>
+              ))}
+            </optgroup>
+            {pickAssemblies.length > 0 && (
+              <optgroup label="Сборки">
+                {pickAssemblies.map((a) => (
+                  <option key={a.id} value={`assembly:${a.id}`}>
+                    {a.article ? `${a.article} — ` : ''}{a.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+            {pickProducts.length > 0 && (
+              <optgroup label="Изделия">
+                {pickProducts.map((p) => (
+                  <option key={p.id} value={`product:${p.id}`}>
+                    {p.article ? `${p.article} — ` : ''}{p.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
           <Button
-            onClick={onAddPosition}
+            onClick={addPosition}
             className="min-h-[44px]"
-            size={isMobile ? "default" : "default"}
           >
             Добавить
           </Button>
@@ -273,7 +846,6 @@ const TechCardManager = memo(function TechCardManager({
             onClick={() => inputRef.current?.click()}
             disabled={importing}
             className="min-h-[44px]"
-            size={isMobile ? "default" : "default"}
           >
             <Upload size={18} className="mr-2" />
             {importing ? 'Импорт...' : 'Excel'}
@@ -288,6 +860,26 @@ const TechCardManager = memo(function TechCardManager({
         </div>
       </div>
 
+      {/* Размеры для формул сборки: у сборки своих габаритов нет, в изделии берутся габариты изделия */}
+      {!product && hasFormulas && (
+        <div className="flex flex-wrap items-end gap-3 text-sm">
+          <span className="text-gray-600">Размеры для проверки формул, мм:</span>
+          {DIMENSION_VARIABLES.map((v) => (
+            <label key={v.name} className="inline-flex items-center gap-1 text-gray-700">
+              <span title={v.label}>{v.name}</span>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={previewDims[v.field] ?? ''}
+                onChange={(e) => setPreviewDims((prev) => ({ ...prev, [v.field]: e.target.value }))}
+                className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                placeholder={v.label}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
       {/* Responsive содержимое */}
       <div className="border border-gray-200 rounded-xl overflow-hidden">
         {isMobile ? (
@@ -310,8 +902,14 @@ const TechCardManager = memo(function TechCardManager({
                     <MobileCardRow
                       row={row}
                       qtyDraft={qtyDraft}
+                      wasteDraft={wasteDraft}
+                      vars={formulaVars}
+                      expanded={expanded}
+                      onToggle={toggleExpanded}
                       onQtyChange={handleQtyChange}
                       onQtyCommit={commitQty}
+                      onWasteChange={handleWasteChange}
+                      onWasteCommit={commitWaste}
                       onRemove={removePosition}
                     />
                   </div>
@@ -324,34 +922,122 @@ const TechCardManager = memo(function TechCardManager({
           <DesktopTable
             rows={rows}
             qtyDraft={qtyDraft}
+            wasteDraft={wasteDraft}
+            vars={formulaVars}
+            expanded={expanded}
+            onToggle={toggleExpanded}
             onQtyChange={handleQtyChange}
             onQtyCommit={commitQty}
+            onWasteChange={handleWasteChange}
+            onWasteCommit={commitWaste}
             onRemove={removePosition}
           />
         )}
       </div>
 
+      {breakdown.cycles.length > 0 && (
+        <div className="p-3 rounded-lg border border-red-200 bg-red-50 text-red-800 text-sm inline-flex items-start gap-2">
+          <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+          Изделие или сборка входит само в себя: такие строки не учитываются в себестоимости. Уберите цикл из техкарт.
+        </div>
+      )}
+
+      {breakdown.formulaErrors.length > 0 && (
+        <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 text-amber-800 text-sm inline-flex items-start gap-2">
+          <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+          Формулы количеств не вычислены ({breakdown.formulaErrors.length}): такие строки посчитаны с нулевым количеством.
+          {product ? ' Проверьте габариты изделия.' : ' Укажите размеры для проверки.'}
+        </div>
+      )}
+
+      {breakdown.missingRates.length > 0 && (
+        <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 text-amber-800 text-sm">
+          Нет курса для {breakdown.missingRates.join(', ')}: эти материалы посчитаны по нулевой цене.
+        </div>
+      )}
+
+      {/* Разбивка цены изделия */}
+      {priceSettings && product && rows.length > 0 && (
+        <div className="border border-gray-200 rounded-lg p-4 text-sm space-y-1">
+          <BreakdownLine label="Материалы" amount={breakdown.materialCost} />
+          {breakdown.wasteCost !== 0 && <BreakdownLine label="в т.ч. отход" amount={breakdown.wasteCost} />}
+          <BreakdownLine label={`Работа${breakdown.productType ? ` (${breakdown.productType.name})` : ''}`} amount={breakdown.workCost} />
+          {nestedWork !== 0 && <BreakdownLine label="в т.ч. работа сборок и изделий" amount={nestedWork} />}
+          {breakdown.overheadLines.map((l) => (
+            <BreakdownLine key={l.pool.id} label={`Накладные: ${l.pool.name}`} amount={l.amount} />
+          ))}
+          {breakdown.typeMarkup !== 0 && (
+            <BreakdownLine label={`Наценка типа, ${breakdown.productType?.markup ?? 0}%`} amount={breakdown.typeMarkup} />
+          )}
+          {breakdown.finishMarkup !== 0 && (
+            <BreakdownLine label={`Наценка отделки, ${breakdown.finishType?.markup ?? 0}%`} amount={breakdown.finishMarkup} />
+          )}
+          {breakdown.rounding !== 0 && <BreakdownLine label="Округление" amount={breakdown.rounding} />}
+          {breakdown.tax !== 0 && !breakdown.taxProfile?.inclusive && (
+            <BreakdownLine label={`Налог: ${describeTax(breakdown.taxProfile)}`} amount={breakdown.tax} />
+          )}
+          <div className="flex justify-between pt-1 border-t border-gray-100 font-semibold text-gray-900">
+            <span>Цена</span>
+            <span>{money(breakdown.finalPrice)}</span>
+          </div>
+          {breakdown.tax !== 0 && breakdown.taxProfile?.inclusive && (
+            <BreakdownLine label={`в т.ч. ${describeTax(breakdown.taxProfile)}`} amount={breakdown.tax} />
+          )}
+        </div>
+      )}
+
       {/* Справочная информация */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <div className="text-sm text-blue-800">
-          <strong>Формат Excel для импорта:</strong> колонка A — артикул материала, колонка B — количество. 
-          Первая строка может быть заголовком.
+          <strong>Формат Excel для импорта:</strong> колонка A — артикул материала, колонка B — количество,
+          колонка C — отход, % (необязательно). Первая строка может быть заголовком. Сборки и изделия добавляются
+          только из списка.
+        </div>
+        <div className="text-sm text-blue-800 mt-2">
+          <strong>Формулы:</strong> количество, начинающееся с «=», считается от габаритов изделия в мм — W (ширина),
+          H (высота), D (глубина). Например, «=(W*H*2 + W*D)/1e6» — м² на две боковины и дно; доступны + − * / ^,
+          скобки и min, max, round, ceil, floor, abs.
         </div>
       </div>
     </Card>
   )
 })
 
+/**
+ * Строка разбивки цены
+ */
+function BreakdownLine({ label, amount }: { label: string; amount: number }) {
+  const money = useMoney()
+  return (
+    <div className="flex justify-between text-gray-700">
+      <span>{label}</span>
+      <span>{money(amount)}</span>
+    </div>
+  )
+}
+
 /**
  * Utility function для форматирования валюты
  */
 function formatCurrency(amount: number, currency: string): string {
-  return new Intl.NumberFormat('ru-RU', {
-    style: 'currency',
-    currency: currency === 'KGS' ? 'KGS' : 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 2,
-  }).format(amount)
+  try {
+    return new Intl.NumberFormat('ru-RU', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(amount)
+  } catch {
+    return `${Number(amount.toFixed(2))} ${currency}`
+  }
+}
+
+/**
+ * Суммы техкарты — в базовой валюте из настроек валют (закупка в других валютах уже пересчитана движком)
+ */
+function useMoney(): (amount: number) => string {
+  const { base } = useCurrencyConfig()
+  return useCallback((amount: number) => formatCurrency(amount, base), [base])
 }
 
 export default TechCardManager
\ No newline at end of file
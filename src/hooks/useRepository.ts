@@ -0,0 +1,85 @@
+/**
+ * useRepository — состояние страницы, привязанное к ключу хранилища
+ * - изменения ключа (другая вкладка, синхронизация, другой компонент) перечитываются в состояние
+ * - изменения состояния сохраняются через save
+ * - изменение, сделанное поверх устаревших данных, не сохраняется: страница получает актуальную версию
+ */
+
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react'
+import { toast } from 'sonner'
+import { StorageService } from '../services/storage'
+
+/**
+ * Значение вместе с поколением данных, от которого оно получено
+ */
+interface Snapshot<T> {
+  value: T
+  /** Номер перечитывания из хранилища */
+  gen: number
+}
+
+/**
+ * Хук репозитория.
+ * @param key ключ хранилища, изменения которого отслеживаются
+ * @param load чтение данных (вызывается при монтировании и при каждом внешнем изменении)
+ * @param save сохранение; без него значение только читается
+ */
+export function useRepository<T>(
+  key: string,
+  load: () => T,
+  save?: (value: T) => Promise<boolean>,
+): [T, Dispatch<SetStateAction<T>>] {
+  const [state, setState] = useState<Snapshot<T>>(() => ({ value: load(), gen: 0 }))
+  const gen = useRef(0)
+  const writing = useRef(false)
+  const loadRef = useRef(load)
+  const saveRef = useRef(save)
+  loadRef.current = load
+  saveRef.current = save
+
+  // Внешние изменения ключа → новое поколение данных
+  useEffect(
+    () =>
+      StorageService.onChange((changed) => {
+        if (changed !== key || writing.current) return
+        gen.current += 1
+        setState({ value: loadRef.current(), gen: gen.current })
+      }),
+    [key],
+  )
+
+  // Сохранение изменений
+  useEffect(() => {
+    const persist = saveRef.current
+    if (!persist) return
+    if (state.gen !== gen.current) {
+      // Значение вычислено из данных, которые уже заменены более новыми, — не затираем их
+      toast.warning('Данные обновлены в другой вкладке', {
+        id: `stale-write:${key}`,
+        description: 'Последнее изменение не сохранено, чтобы не перезаписать более новые данные. Повторите его.',
+      })
+      setState({ value: loadRef.current(), gen: gen.current })
+      return
+    }
+    writing.current = true
+    try {
+      persist(state.value)
+    } finally {
+      writing.current = false
+    }
+  }, [key, state])
+
+  // Функциональное обновление применяется к актуальному значению; обычное — помечается поколением текущего рендера
+  const renderGen = state.gen
+  const setValue = useCallback<Dispatch<SetStateAction<T>>>(
+    (next) =>
+      setState((prev) =>
+        typeof next === 'function'
+          ? { value: (next as (p: T) => T)(prev.value), gen: prev.gen }
+          : { value: next, gen: renderGen },
+      ),
+    [renderGen],
+  )
+
+  return [state.value, setValue]
+}
@@ -3,8 +3,8 @@
  * Возвращает коллекции, товары, аудит, метрики и операции (seed/refresh).
  */
 
-import { useCallback, useMemo, useState } from 'react'
-import { StorageService, type AuditEvent, type SimpleCollection, type SimpleProduct } from '../services/storage'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { LS_KEYS, StorageService, withoutDeleted, type AuditEvent, type SimpleCollection, type SimpleProduct } from '../services/storage'
 import { AnalyticsService, type SystemMetrics } from '../services/analytics'
 import { seedDemoData } from '../services/seed'
 
@@ -27,9 +27,9 @@ export interface UseSystemDataResult {
 export function useSystemData(): UseSystemDataResult {
   const [tick, setTick] = useState(0)
 
-  // Чтение данных из LS
-  const products = useMemo(() => StorageService.getProducts(), [tick])
-  const collections = useMemo(() => StorageService.getCollections(), [tick])
+  // Чтение данных из LS (без корзины)
+  const products = useMemo(() => withoutDeleted(StorageService.getProducts()), [tick])
+  const collections = useMemo(() => withoutDeleted(StorageService.getCollections()), [tick])
   const auditLog = useMemo(() => StorageService.getAudit(), [tick])
 
   // Метрики
@@ -44,6 +44,15 @@ export function useSystemData(): UseSystemDataResult {
   /** Обновить (перечитать) данные */
   const refresh = useCallback(() => setTick((t) => t + 1), [])
 
+  // Изменения из других вкладок и синхронизации
+  useEffect(
+    () =>
+      StorageService.onChange((key) => {
+        if (key === LS_KEYS.products || key === LS_KEYS.collections || key === LS_KEYS.audit) refresh()
+      }),
+    [refresh],
+  )
+
   /** Загрузить демо-данные */
   const seed = useCallback(() => {
     seedDemoData()
@@ -26,10 +26,13 @@ import {
   Home as HomeIcon,
   Grid2X2,
   Package,
+  Boxes,
   Layers,
   FileSpreadsheet,
+  Percent,
   Settings,
   BookOpenCheck,
+  Trash2,
   Menu,
   X,
   SatelliteDish,
@@ -87,10 +90,13 @@ const BASE_NAV_ITEMS: readonly NavItem[] = [
   { to: '/', i18nKey: 'nav.home', icon: HomeIcon, ariaLabel: 'Главная страница' },
   { to: '/collections', i18nKey: 'nav.collections', icon: Grid2X2, ariaLabel: 'Управление коллекциями' },
   { to: '/products', i18nKey: 'nav.products', icon: Package, ariaLabel: 'Каталог продукции' },
+  { to: '/assemblies', i18nKey: 'nav.assemblies', icon: Boxes, ariaLabel: 'Сборки и общие узлы изделий' },
   { to: '/materials', i18nKey: 'nav.materials', icon: Layers, ariaLabel: 'База материалов' },
   { to: '/pricelist', i18nKey: 'nav.pricelist', icon: FileSpreadsheet, ariaLabel: 'Генерация прайс-листов' },
+  { to: '/margins', i18nKey: 'nav.margins', icon: Percent, ariaLabel: 'Маржа и подбор наценок' },
   { to: '/settings', i18nKey: 'nav.settings', icon: Settings, ariaLabel: 'Конфигурация системы' },
   { to: '/journal', i18nKey: 'nav.journal', icon: BookOpenCheck, ariaLabel: 'Журнал активности' },
+  { to: '/trash', i18nKey: 'nav.trash', icon: Trash2, ariaLabel: 'Корзина' },
 ] as const
 
 /**
@@ -125,10 +131,13 @@ function labelFallback(i18nKey: string, lang: string): string {
     'nav.home': ['Главная', 'Home', 'Башкы'],
     'nav.collections': ['Коллекции', 'Collections', 'Коллекциялар'],
     'nav.products': ['Изделия', 'Products', 'Буюмдар'],
+    'nav.assemblies': ['Сборки', 'Assemblies', 'Жыйнактар'],
     'nav.materials': ['Материалы', 'Materials', 'Материалдар'],
     'nav.pricelist': ['Прайс-лист', 'Price List', 'Баа тизмеси'],
+    'nav.margins': ['Маржа', 'Margins', 'Маржа'],
     'nav.settings': ['Настройки', 'Settings', 'Жөндөөлөр'],
     'nav.journal': ['Журнал', 'Journal', 'Журнал'],
+    'nav.trash': ['Корзина', 'Trash', 'Себет'],
     'nav.dev': ['Dev', 'Dev', 'Dev'],
   } as const
 
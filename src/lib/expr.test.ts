@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { checkFormula, evaluateFormula, parseFormula } from './expr'
+
+/** Значение формулы (падает, если формула не вычислилась) */
+function value(source: string, vars: Record<string, number> = {}): number {
+  const result = evaluateFormula(source, vars)
+  if (!result.ok) throw new Error(result.error.message)
+  return result.value
+}
+
+describe('evaluateFormula', () => {
+  it('соблюдает приоритет операций и скобки', () => {
+    expect(value('1 + 2 * 3')).toBe(7)
+    expect(value('(1 + 2) * 3')).toBe(9)
+    expect(value('10 / 4 - 1')).toBe(1.5)
+  })
+
+  it('степень правоассоциативна и сильнее унарного минуса', () => {
+    expect(value('2^3^2')).toBe(512)
+    expect(value('-2^2')).toBe(-4)
+    expect(value('2^-1')).toBe(0.5)
+  })
+
+  it('считает по габаритам без учёта регистра переменных', () => {
+    expect(value('(W*H*2 + w*d)/1e6', { W: 1000, H: 2000, D: 500 })).toBe(4.5)
+    expect(value('ceil(H/500)*2', { H: 2100 })).toBe(10)
+  })
+
+  it('понимает функции и типографские знаки', () => {
+    expect(value('min(3, 1, 2) + max(4, 5)')).toBe(6)
+    expect(value('round(2.5) + floor(1.9) + abs(-3)')).toBe(7)
+    expect(value('2 × 3 − 1')).toBe(5)
+    expect(value('.5 · 4')).toBe(2)
+  })
+
+  it('сообщает о незаданной переменной', () => {
+    const result = evaluateFormula('W + H', { W: 1 })
+    expect(result.ok).toBe(false)
+    if (!result.ok) expect(result.error.message).toContain('H')
+  })
+
+  it('не возвращает бесконечность при делении на ноль', () => {
+    const result = evaluateFormula('W / 0', { W: 1 })
+    expect(result.ok).toBe(false)
+  })
+})
+
+describe('parseFormula', () => {
+  it('собирает имена переменных заглавными', () => {
+    const parsed = parseFormula('w * h + W')
+    expect(parsed.ok && parsed.variables.sort()).toEqual(['H', 'W'])
+  })
+
+  it('указывает позицию синтаксической ошибки', () => {
+    const cases: [string, number][] = [
+      ['', 0],
+      ['2 $ 3', 2],
+      ['(1 + 2', 6],
+      ['1 + 2)', 5],
+      ['1 +', 3],
+      ['sqrt(4)', 0],
+      ['round(1, 2)', 0],
+    ]
+    for (const [source, position] of cases) {
+      const parsed = parseFormula(source)
+      expect(parsed.ok, source).toBe(false)
+      if (!parsed.ok) expect(parsed.error.position, source).toBe(position)
+    }
+  })
+
+  it('ограничивает длину и вложенность', () => {
+    expect(parseFormula('1+'.repeat(300) + '1').ok).toBe(false)
+    expect(parseFormula('('.repeat(60) + '1' + ')'.repeat(60)).ok).toBe(false)
+    expect(parseFormula('('.repeat(10) + '1' + ')'.repeat(10)).ok).toBe(true)
+  })
+})
+
+describe('checkFormula', () => {
+  it('пропускает разрешённые переменные', () => {
+    expect(checkFormula('W * H / 1e6', ['W', 'H', 'D'])).toBeNull()
+  })
+
+  it('находит неизвестную переменную и её позицию', () => {
+    const error = checkFormula('W * X', ['W', 'H', 'D'])
+    expect(error?.message).toContain('X')
+    expect(error?.position).toBe(4)
+  })
+})
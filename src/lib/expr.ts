@@ -0,0 +1,299 @@
+/**
+ * Формулы количеств техкарты: `(W*H*2 + W*D)/1e6`, `ceil(H/500)*2`
+ * Собственный разбор без eval/new Function: числа, переменные, + − * / ^, скобки и несколько функций.
+ * Разобранные формулы кэшируются — движок цен вычисляет одну формулу для многих изделий.
+ */
+
+/** Узел разобранной формулы */
+export type Expr =
+  | { type: 'num'; value: number }
+  | { type: 'var'; name: string }
+  | { type: 'neg'; arg: Expr }
+  | { type: 'bin'; op: '+' | '-' | '*' | '/' | '^'; left: Expr; right: Expr }
+  | { type: 'call'; fn: string; args: Expr[] }
+
+/** Ошибка в формуле; position — номер символа (с 0), к которому она относится */
+export interface FormulaError {
+  message: string
+  position: number
+}
+
+/** Результат разбора */
+export type ParseResult = { ok: true; expr: Expr; variables: string[] } | { ok: false; error: FormulaError }
+
+/** Результат вычисления */
+export type EvalResult = { ok: true; value: number } | { ok: false; error: FormulaError }
+
+/** Значения переменных (имена — заглавными) */
+export type FormulaVariables = Record<string, number>
+
+/** Допустимые функции: число аргументов и вычисление */
+const FUNCTIONS: Record<string, { min: number; max: number; apply: (args: number[]) => number }> = {
+  min: { min: 1, max: 16, apply: (a) => Math.min(...a) },
+  max: { min: 1, max: 16, apply: (a) => Math.max(...a) },
+  round: { min: 1, max: 1, apply: ([x]) => Math.round(x) },
+  ceil: { min: 1, max: 1, apply: ([x]) => Math.ceil(x) },
+  floor: { min: 1, max: 1, apply: ([x]) => Math.floor(x) },
+  abs: { min: 1, max: 1, apply: ([x]) => Math.abs(x) },
+}
+
+/** Имена функций для подсказок */
+export const FORMULA_FUNCTIONS = Object.keys(FUNCTIONS)
+
+/** Предел длины формулы и глубины вложенности (защита от зависания на мусорном вводе) */
+const MAX_LENGTH = 500
+const MAX_DEPTH = 50
+
+type Token =
+  | { kind: 'num'; value: number; pos: number }
+  | { kind: 'id'; name: string; pos: number }
+  | { kind: 'op'; op: string; pos: number }
+  | { kind: 'end'; pos: number }
+
+/** Исключение разбора (наружу не выходит: parseFormula возвращает его как FormulaError) */
+class ParseFailure extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message)
+  }
+}
+
+/** Разбить строку на лексемы */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < source.length) {
+    const ch = source[i]
+    if (/\s/.test(ch)) {
+      i++
+      continue
+    }
+    const num = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(i))
+    if (num) {
+      tokens.push({ kind: 'num', value: Number(num[0]), pos: i })
+      i += num[0].length
+      continue
+    }
+    const id = /^[a-z_][a-z0-9_]*/i.exec(source.slice(i))
+    if (id) {
+      tokens.push({ kind: 'id', name: id[0], pos: i })
+      i += id[0].length
+      continue
+    }
+    if ('+-*/^(),'.includes(ch)) {
+      tokens.push({ kind: 'op', op: ch, pos: i })
+      i++
+      continue
+    }
+    if (ch === '×' || ch === '·') {
+      tokens.push({ kind: 'op', op: '*', pos: i })
+      i++
+      continue
+    }
+    if (ch === '−') {
+      tokens.push({ kind: 'op', op: '-', pos: i })
+      i++
+      continue
+    }
+    throw new ParseFailure(`Недопустимый символ «${ch}»`, i)
+  }
+  tokens.push({ kind: 'end', pos: source.length })
+  return tokens
+}
+
+/**
+ * Разбор с приоритетами: сумма → произведение → унарный минус → степень (правоассоциативная) → атом.
+ * Как в математике, -2^2 = -4, а показатель степени может быть отрицательным: 2^-1 = 0.5
+ */
+class Parser {
+  private index = 0
+  private depth = 0
+  readonly variables = new Set<string>()
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Expr {
+    const expr = this.sum()
+    const t = this.peek()
+    if (t.kind !== 'end') throw new ParseFailure(t.kind === 'op' && t.op === ')' ? 'Лишняя закрывающая скобка' : 'Ожидается оператор', t.pos)
+    return expr
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private isOp(op: string): boolean {
+    const t = this.peek()
+    return t.kind === 'op' && t.op === op
+  }
+
+  private sum(): Expr {
+    let left = this.product()
+    while (this.isOp('+') || this.isOp('-')) {
+      const op = (this.tokens[this.index++] as { op: '+' | '-' }).op
+      left = { type: 'bin', op, left, right: this.product() }
+    }
+    return left
+  }
+
+  private product(): Expr {
+    let left = this.unary()
+    while (this.isOp('*') || this.isOp('/')) {
+      const op = (this.tokens[this.index++] as { op: '*' | '/' }).op
+      left = { type: 'bin', op, left, right: this.unary() }
+    }
+    return left
+  }
+
+  private unary(): Expr {
+    if (this.isOp('+')) {
+      this.index++
+      return this.unary()
+    }
+    if (this.isOp('-')) {
+      this.index++
+      return { type: 'neg', arg: this.unary() }
+    }
+    return this.power()
+  }
+
+  private power(): Expr {
+    const base = this.atom()
+    if (!this.isOp('^')) return base
+    this.index++
+    return { type: 'bin', op: '^', left: base, right: this.unary() }
+  }
+
+  private atom(): Expr {
+    if (++this.depth > MAX_DEPTH) throw new ParseFailure('Слишком глубокая вложенность', this.peek().pos)
+    try {
+      const t = this.tokens[this.index++]
+      if (t.kind === 'num') return { type: 'num', value: t.value }
+      if (t.kind === 'id') return this.isOp('(') ? this.call(t.name, t.pos) : this.variable(t.name)
+      if (t.kind === 'op' && t.op === '(') {
+        const inner = this.sum()
+        if (!this.isOp(')')) throw new ParseFailure('Не закрыта скобка', this.peek().pos)
+        this.index++
+        return inner
+      }
+      throw new ParseFailure(t.kind === 'end' ? 'Формула обрывается' : 'Ожидается число, размер или скобка', t.pos)
+    } finally {
+      this.depth--
+    }
+  }
+
+  private variable(name: string): Expr {
+    const upper = name.toUpperCase()
+    this.variables.add(upper)
+    return { type: 'var', name: upper }
+  }
+
+  private call(name: string, pos: number): Expr {
+    const fn = name.toLowerCase()
+    const def = FUNCTIONS[fn]
+    if (!def) throw new ParseFailure(`Неизвестная функция «${name}»`, pos)
+    this.index++ // (
+    const args: Expr[] = []
+    if (!this.isOp(')')) {
+      args.push(this.sum())
+      while (this.isOp(',')) {
+        this.index++
+        args.push(this.sum())
+      }
+    }
+    if (!this.isOp(')')) throw new ParseFailure('Не закрыта скобка функции', this.peek().pos)
+    this.index++
+    if (args.length < def.min || args.length > def.max) {
+      const expected = def.min === def.max ? `${def.min}` : `от ${def.min} до ${def.max}`
+      throw new ParseFailure(`${fn}: ожидается аргументов — ${expected}`, pos)
+    }
+    return { type: 'call', fn, args }
+  }
+}
+
+const cache = new Map<string, ParseResult>()
+
+/**
+ * Разобрать формулу. Переменные — латинские имена (регистр не важен), функции — FORMULA_FUNCTIONS.
+ * Десятичный разделитель — точка; запятая разделяет аргументы функций.
+ */
+export function parseFormula(source: string): ParseResult {
+  const cached = cache.get(source)
+  if (cached) return cached
+  let result: ParseResult
+  if (!source.trim()) {
+    result = { ok: false, error: { message: 'Формула пуста', position: 0 } }
+  } else if (source.length > MAX_LENGTH) {
+    result = { ok: false, error: { message: `Формула длиннее ${MAX_LENGTH} символов`, position: MAX_LENGTH } }
+  } else {
+    try {
+      const parser = new Parser(tokenize(source))
+      const expr = parser.parse()
+      result = { ok: true, expr, variables: Array.from(parser.variables) }
+    } catch (e) {
+      if (!(e instanceof ParseFailure)) throw e
+      result = { ok: false, error: { message: e.message, position: e.position } }
+    }
+  }
+  // Кэш ограничен: формулы набираются посимвольно, промежуточные варианты не должны копиться
+  if (cache.size > 1000) cache.clear()
+  cache.set(source, result)
+  return result
+}
+
+/** Вычислить разобранную формулу; переменные, которых нет в vars, дописываются в missing (результат — NaN) */
+function evaluate(expr: Expr, vars: FormulaVariables, missing: string[]): number {
+  switch (expr.type) {
+    case 'num':
+      return expr.value
+    case 'var': {
+      const v = vars[expr.name]
+      if (v === undefined || !Number.isFinite(v)) {
+        missing.push(expr.name)
+        return NaN
+      }
+      return v
+    }
+    case 'neg':
+      return -evaluate(expr.arg, vars, missing)
+    case 'call':
+      return FUNCTIONS[expr.fn].apply(expr.args.map((a) => evaluate(a, vars, missing)))
+    case 'bin': {
+      const l = evaluate(expr.left, vars, missing)
+      const r = evaluate(expr.right, vars, missing)
+      if (expr.op === '+') return l + r
+      if (expr.op === '-') return l - r
+      if (expr.op === '*') return l * r
+      if (expr.op === '/') return l / r
+      return Math.pow(l, r)
+    }
+  }
+}
+
+/**
+ * Проверить формулу: синтаксис и то, что используются только разрешённые переменные (null — ошибок нет)
+ */
+export function checkFormula(source: string, allowed: readonly string[]): FormulaError | null {
+  const parsed = parseFormula(source)
+  if (!parsed.ok) return parsed.error
+  const unknown = parsed.variables.filter((v) => !allowed.includes(v))
+  if (unknown.length === 0) return null
+  const position = Math.max(0, source.toUpperCase().search(new RegExp(`\\b${unknown[0]}\\b`)))
+  return { message: `Неизвестная переменная «${unknown[0]}» (доступны: ${allowed.join(', ')})`, position }
+}
+
+/**
+ * Вычислить формулу. Ошибка — при синтаксической ошибке, незаданной переменной,
+ * делении на ноль и других нечисловых результатах.
+ */
+export function evaluateFormula(source: string, vars: FormulaVariables): EvalResult {
+  const parsed = parseFormula(source)
+  if (!parsed.ok) return parsed
+  const missing: string[] = []
+  const value = evaluate(parsed.expr, vars, missing)
+  if (missing.length > 0) {
+    return { ok: false, error: { message: `Не задано значение ${Array.from(new Set(missing)).join(', ')}`, position: 0 } }
+  }
+  if (!Number.isFinite(value)) return { ok: false, error: { message: 'Результат не число (деление на ноль?)', position: 0 } }
+  return { ok: true, value }
+}
@@ -5,6 +5,7 @@
 
 import { jsPDF } from 'jspdf'
 import autoTable, { RowInput } from 'jspdf-autotable'
+import { createPriceCalculator, type PriceBreakdown, type PricingAssembly } from '../pricing'
 
 /**
  * Интерфейс опций генерации прайса
@@ -27,9 +28,17 @@ export interface PriceListOptions {
     finish: boolean
     materialCost: boolean
     workCost: boolean
+    /** Накладные расходы (необязательная колонка) */
+    overhead?: boolean
     price: boolean
     markup: boolean
   }
+  /** Цены: с налогом (по умолчанию), без налога или обе колонки */
+  taxMode?: 'gross' | 'net' | 'both'
+  /** Итоги по группе (с суммой налога) */
+  showGroupTotals?: boolean
+  /** Общий итог по всем изделиям (с суммой налога) */
+  showGrandTotal?: boolean
   currency: string
   decimals: number
 }
@@ -43,6 +52,8 @@ export interface Material {
   article: string
   unit: string
   price: number
+  /** Валюта закупки (не задана — базовая) */
+  currency?: string
   created_at: string
   updated_at: string
 }
@@ -76,8 +87,12 @@ export interface Collection {
 }
 
 export interface PriceSettings {
-  productTypes: { id: string; name: string; markup: number; workCost: number }[]
+  productTypes: { id: string; name: string; markup: number; workCost: number; taxProfileId?: string | null }[]
   finishTypes: { id: string; name: string; markup: number; workCost: number }[]
+  /** Налоговые профили типов изделий */
+  taxProfiles?: { id: string; name: string; rate: number; inclusive: boolean }[]
+  /** Курсы для пересчёта закупочных цен материалов */
+  currency?: { base: string; rates: Record<string, number> }
 }
 
 /**
@@ -132,42 +147,6 @@ function formatCurrency(amount: number, currency: string, decimals: number) {
   }
 }
 
-/**
- * Расчет цены изделия согласно текущим настройкам
- */
-function calculateProductPrice(
-  product: Product,
-  materials: Material[],
-  priceSettings: PriceSettings,
-) {
-  // Нормализация техкарты к массиву
-  const tcRaw: any = (product as any)?.tech_card
-  const techCardArr: any[] = Array.isArray(tcRaw)
-    ? tcRaw
-    : tcRaw && typeof tcRaw === 'object'
-      ? Object.values(tcRaw)
-      : []
-
-  if (techCardArr.length === 0) {
-    return { materialCost: 0, workCost: 0, basePrice: 0, finalPrice: 0, markup: 0 }
-  }
-
-  const materialCost = techCardArr.reduce((sum: number, it: any) => {
-    const mat = materials.find((m) => m.id === it.materialId)
-    return sum + (Number(it.quantity) || 0) * (mat?.price || 0)
-  }, 0)
-
-  const pt = priceSettings.productTypes.find((p) => p.id === product.product_type_id)
-  const workCost = pt?.workCost || 0
-  const basePrice = materialCost + workCost
-  const priceWithType = basePrice * (1 + (pt?.markup || 0) / 100)
-  const ft = priceSettings.finishTypes.find((f) => f.id === product.finish_type_id)
-  const finalPrice = priceWithType * (1 + (ft?.markup || 0) / 100)
-  const markup = basePrice > 0 ? ((finalPrice - basePrice) / basePrice) * 100 : 0
-
-  return { materialCost, workCost, basePrice, finalPrice, markup }
-}
-
 /**
  * Генерация PDF прайс-листа
  */
@@ -177,8 +156,10 @@ export async function generatePriceListPDF(params: {
   collections: Collection[]
   priceSettings: PriceSettings
   options: PriceListOptions
+  /** Сборки, на которые ссылаются техкарты изделий */
+  assemblies?: PricingAssembly[]
 }): Promise<void> {
-  const { products, materials, collections, priceSettings, options } = params
+  const { products, materials, collections, priceSettings, options, assemblies = [] } = params
   const brand = options.brandColor || '#2563eb'
   const doc = new jsPDF({ unit: 'pt', format: 'a4', orientation: options.pageOrientation || 'p' })
 
@@ -277,18 +258,43 @@ export async function generatePriceListPDF(params: {
   if (options.columns.finish) headRow.push('Отделка')
   if (options.columns.materialCost) headRow.push('Материалы')
   if (options.columns.workCost) headRow.push('Работа')
-  if (options.columns.price) headRow.push('Цена')
+  if (options.columns.overhead) headRow.push('Накладные')
+  const taxMode = options.taxMode ?? 'gross'
+  if (options.columns.price) {
+    if (taxMode === 'net') headRow.push('Цена без налога')
+    else if (taxMode === 'both') headRow.push('Без налога', 'С налогом')
+    else headRow.push('Цена')
+  }
+  // Итоги печатаются под последней колонкой цены, подпись — перед колонками цен
+  const priceIdx = options.columns.price ? headRow.length - 1 : -1
+  const labelIdx = Math.max(0, headRow.length - (taxMode === 'both' ? 3 : 2))
   if (options.columns.markup) headRow.push('Наценка')
 
+  /** Цена в колонке итогов: без налога только в режиме net */
+  const totalOf = (pricing: PriceBreakdown) => (taxMode === 'net' ? pricing.priceNet : pricing.finalPrice)
+  /** Строки итогов: сумма и, если есть, налог (в цене с налогом — «в т.ч.») */
+  const totalsRows = (label: string, total: number, tax: number): RowInput[] => {
+    const row = (l: string, amount: number) =>
+      headRow.map((_h, i) => (i === labelIdx ? l : i === priceIdx ? formatCurrency(amount, options.currency, options.decimals) : ''))
+    return Math.abs(tax) >= 0.005 ? [row(label, total), row(taxMode === 'net' ? 'Налог' : 'в т.ч. налог', tax)] : [row(label, total)]
+  }
+  let grandTotal = 0
+  let grandTax = 0
+
   // Рендер групп
+  const priceOf = createPriceCalculator(materials, priceSettings, { products, assemblies })
   const groupNames = Object.keys(groups)
   groupNames.forEach((gName, idx) => {
     const rows: RowInput[] = []
     const list = groups[gName]
+    let groupTotal = 0
+    let groupTax = 0
 
     list.forEach((p) => {
-      const pricing = calculateProductPrice(p, materials, priceSettings)
+      const pricing = priceOf(p)
       const row: (string | number)[] = []
+      groupTotal += totalOf(pricing)
+      groupTax += pricing.tax
 
       if (options.columns.article) row.push(p.article)
       if (options.columns.name) row.push(p.name)
@@ -297,8 +303,12 @@ export async function generatePriceListPDF(params: {
       if (options.columns.finish) row.push(p.finish_type_id ? finishMap.get(p.finish_type_id) || '—' : '—')
       if (options.columns.materialCost) row.push(formatCurrency(pricing.materialCost, options.currency, options.decimals))
       if (options.columns.workCost) row.push(formatCurrency(pricing.workCost, options.currency, options.decimals))
-      if (options.columns.price) row.push(formatCurrency(pricing.finalPrice, options.currency, options.decimals))
-      if (options.columns.markup) row.push(`${pricing.markup.toFixed(1)}%`)
+      if (options.columns.overhead) row.push(formatCurrency(pricing.overhead, options.currency, options.decimals))
+      if (options.columns.price) {
+        if (taxMode !== 'gross') row.push(formatCurrency(pricing.priceNet, options.currency, options.decimals))
+        if (taxMode !== 'net') row.push(formatCurrency(pricing.finalPrice, options.currency, options.decimals))
+      }
+      if (options.columns.markup) row.push(`${pricing.markupPercent.toFixed(1)}%`)
 
       rows.push(row as RowInput)
     })
@@ -309,9 +319,13 @@ export async function generatePriceListPDF(params: {
     doc.text(gName, 40, 72)
     doc.setTextColor(0)
 
+    grandTotal += groupTotal
+    grandTax += groupTax
+
     autoTable(doc, {
       head: [headRow],
       body: rows,
+      ...(options.showGroupTotals && priceIdx >= 0 ? { foot: totalsRows('Итого группы', groupTotal, groupTax) } : {}),
       startY: 82,
       styles: {
         font: doc.getFont().fontName,
@@ -325,6 +339,10 @@ export async function generatePriceListPDF(params: {
         textColor: 255,
         fontSize: 10.5,
       },
+      footStyles: {
+        fillColor: [241, 245, 249],
+        textColor: 30,
+      },
       alternateRowStyles: {
         fillColor: [247, 249, 252],
       },
@@ -332,6 +350,9 @@ export async function generatePriceListPDF(params: {
         header()
         footer()
       },
+      didParseCell: (data: any) => {
+        if (data.section === 'foot' && data.column.index === priceIdx) data.cell.styles.halign = 'right'
+      },
       margin: { left: 40, right: 40, top: 60, bottom: 40 },
       theme: 'striped',
       columnStyles: {
@@ -346,6 +367,30 @@ export async function generatePriceListPDF(params: {
     }
   })
 
+  // Общий итог по всем изделиям — после последней группы
+  if (options.showGrandTotal && priceIdx >= 0 && groupNames.length > 0) {
+    autoTable(doc, {
+      body: totalsRows('Итого по всем изделиям', grandTotal, grandTax),
+      startY: ((doc as any).lastAutoTable?.finalY ?? 82) + 20,
+      styles: {
+        font: doc.getFont().fontName,
+        fontStyle: 'normal',
+        fontSize: 10.5,
+        textColor: 30,
+        cellPadding: 6,
+      },
+      didDrawPage: () => {
+        header()
+        footer()
+      },
+      didParseCell: (data: any) => {
+        if (data.column.index === priceIdx) data.cell.styles.halign = 'right'
+      },
+      margin: { left: 40, right: 40, top: 60, bottom: 40 },
+      theme: 'plain',
+    })
+  }
+
   // Примечание внизу последней страницы
   if (options.footerNote) {
     const lastPage = doc.getCurrentPageInfo().pageNumber
@@ -6,10 +6,12 @@
  * - Лого в футере каждой страницы (если задано)
  * - Итоги по серии (опционально)
  * - Общий итог по всем сериям (опционально)
+ * - Цены с налогом, без налога или в двух колонках; сумма налога в итогах (taxMode)
  * - Примечание внизу последней страницы (footerNote)
  */
 
 import { ensureJsPdf, getJsPdfCtor } from './loader'
+import { taxIncluded } from '../pricing'
 
 /**
  * Тип шаблона PDF
@@ -68,6 +70,8 @@ export interface DocumentData {
   showGroupTotals?: boolean
   /** Показать общий итог по всем сериям */
   showGrandTotal?: boolean
+  /** Цены: с налогом (по умолчанию), без налога или обе колонки */
+  taxMode?: 'gross' | 'net' | 'both'
   /** Текст‑примечание внизу последней страницы */
   footerNote?: string
 }
@@ -82,7 +86,10 @@ export interface SeriesItem {
   dimensions?: string
   material?: string
   color?: string
+  /** Цена с налогом */
   price: number
+  /** Ставка налога, входящего в цену, % (нет — цена без налога) */
+  taxRate?: number
   imageUrl?: string
 }
 
@@ -363,14 +370,34 @@ export class WasserPDFGenerator {
     const text = toRGB(theme.text, [17, 17, 17])
     const brand = toRGB(theme.brand, [37, 99, 235])
 
-    const cols = ['Артикул', 'Наименование', 'Вид', 'Габариты', 'Материал', 'Цвет', `Цена (${currency})`]
+    // Цены: без налога и/или с налогом; итоги — по последней колонке цены
+    const taxMode = input.documentData.taxMode ?? 'gross'
+    const priceHeaders =
+      taxMode === 'net'
+        ? [`Цена без налога (${currency})`]
+        : taxMode === 'both'
+          ? [`Без налога (${currency})`, `С налогом (${currency})`]
+          : [`Цена (${currency})`]
+    const cols = ['Артикул', 'Наименование', 'Вид', 'Габариты', 'Материал', 'Цвет', ...priceHeaders]
     const priceColIdx = cols.length - 1
+    const netColIdx = taxMode === 'both' ? priceColIdx - 1 : -1
+    const labelIdx = Math.max(0, cols.length - priceHeaders.length - 1)
+    const taxLabel = taxMode === 'net' ? 'Налог' : 'в т.ч. налог'
+
+    /** Строка итогов: подпись перед колонками цен, сумма — в последней */
+    const totalsRow = (label: string, amount: number) =>
+      cols.map((_c, i) => {
+        if (i === labelIdx) return label
+        if (i === priceColIdx) return formatCurrency(amount, currency, locale)
+        return ''
+      })
 
     // Начальная позиция
     let nextStartY = 60
 
     // Итог для всех серий
     let grandTotal = 0
+    let grandTax = 0
 
     input.products.forEach((series, _seriesIdx) => {
       // Заголовок группы
@@ -392,38 +419,41 @@ export class WasserPDFGenerator {
       doc.setTextColor(text[0], text[1], text[2])
 
       // Данные таблицы
-      const body = series.items.map((it) => [
-        it.article || '',
-        it.name || '',
-        it.type || '',
-        it.dimensions || '',
-        it.material || '',
-        it.color || '',
-        formatCurrency(it.price, currency, locale),
-      ])
-
-      // Подсчет итогов серии и накопление общего итога
-      const seriesTotal = series.items.reduce((sum, it) => sum + (Number(it.price) || 0), 0)
+      const body = series.items.map((it) => {
+        const gross = Number(it.price) || 0
+        const net = gross - taxIncluded(gross, Number(it.taxRate) || 0)
+        const prices = taxMode === 'net' ? [net] : taxMode === 'both' ? [net, gross] : [gross]
+        return [
+          it.article || '',
+          it.name || '',
+          it.type || '',
+          it.dimensions || '',
+          it.material || '',
+          it.color || '',
+          ...prices.map((v) => formatCurrency(v, currency, locale)),
+        ]
+      })
+
+      // Подсчет итогов серии и накопление общего итога (в режиме «без налога» итог — без налога)
+      const seriesTax = series.items.reduce((sum, it) => sum + taxIncluded(Number(it.price) || 0, Number(it.taxRate) || 0), 0)
+      const seriesGross = series.items.reduce((sum, it) => sum + (Number(it.price) || 0), 0)
+      const seriesTotal = taxMode === 'net' ? seriesGross - seriesTax : seriesGross
       grandTotal += seriesTotal
+      grandTax += seriesTax
 
       // Плотность и стили
       const cellPadding = 6
 
       // Итоговая строка для серии (опционально)
-      const footRow =
-        input.documentData.showGroupTotals
-          ? cols.map((_c, i) => {
-              if (i === Math.max(0, priceColIdx - 1)) return 'Итого серии'
-              if (i === priceColIdx) return formatCurrency(seriesTotal, currency, locale)
-              return ''
-            })
-          : undefined
+      const footRows = input.documentData.showGroupTotals
+        ? [totalsRow('Итого серии', seriesTotal), ...(Math.abs(seriesTax) >= 0.005 ? [totalsRow(taxLabel, seriesTax)] : [])]
+        : undefined
 
       autoTable({
         startY: headerY + (series.seriesDesc ? 12 : 0),
         head: [cols],
         body,
-        ...(footRow ? { foot: [footRow] } : {}),
+        ...(footRows ? { foot: footRows } : {}),
         margin,
         theme: theme.tableTheme,
         styles: {
@@ -470,6 +500,10 @@ export class WasserPDFGenerator {
             data.cell.styles.fontStyle = 'bold'
             data.cell.styles.halign = 'right'
           }
+          // Цена без налога рядом с ценой с налогом — без подсветки
+          if (data.section === 'body' && data.column.index === netColIdx) {
+            data.cell.styles.halign = 'right'
+          }
           // Выравнивание итогов серии
           if (data.section === 'foot' && data.column.index === priceColIdx) {
             data.cell.styles.halign = 'right'
@@ -488,16 +522,15 @@ export class WasserPDFGenerator {
       const lastY = (doc as any).lastAutoTable?.finalY
       const startY = lastY ? lastY + 24 : 60
 
-      const summaryRow = cols.map((_c, i) => {
-        if (i === Math.max(0, priceColIdx - 1)) return 'Итого по всем сериям'
-        if (i === priceColIdx) return formatCurrency(grandTotal, currency, locale)
-        return ''
-      })
+      const summaryRows = [
+        totalsRow('Итого по всем сериям', grandTotal),
+        ...(Math.abs(grandTax) >= 0.005 ? [totalsRow(taxLabel, grandTax)] : []),
+      ]
 
       autoTable({
         startY,
         head: undefined,
-        body: [summaryRow],
+        body: summaryRows,
         margin,
         theme: 'plain',
         styles: {
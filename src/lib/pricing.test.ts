@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest'
+import type { PriceType, RoundingRule, TaxProfile } from '../types/models'
+import {
+  applyRounding,
+  calculatePrice,
+  markupForMargin,
+  solveTypeMarkup,
+  tierPrice,
+  type PricingMaterial,
+  type PricingSettings,
+} from './pricing'
+
+const materials: PricingMaterial[] = [{ id: 'm1', name: 'ЛДСП', article: 'L-1', unit: 'м²', price: 100, waste_percent: 10 }]
+
+const vat: TaxProfile = { id: 'vat', name: 'НДС', rate: 12, inclusive: true }
+const salesTax: TaxProfile = { id: 'sales', name: 'Налог с продаж', rate: 12, inclusive: false }
+
+/** Настройки с одним типом изделия (работа 200, наценка 50%) */
+function settings(type: Partial<PriceType> = {}, rounding?: RoundingRule): PricingSettings {
+  return {
+    productTypes: [{ id: 't1', name: 'Тумбы', markup: 50, workCost: 200, ...type }],
+    finishTypes: [{ id: 'f1', name: 'Шпон', markup: 10 }],
+    taxProfiles: [vat, salesTax],
+    rounding,
+  }
+}
+
+/** Изделие: 2 м² ЛДСП (себестоимость 2 × 1,1 × 100 + 200 = 420) */
+function product(id: string, extra: { finish_type_id?: string; tech_card?: unknown } = {}) {
+  return { id, product_type_id: 't1', tech_card: [{ materialId: 'm1', quantity: 2 }], ...extra }
+}
+
+describe('applyRounding', () => {
+  it('округляет до ближайшего шага', () => {
+    expect(applyRounding(14320, { mode: 'nearest', step: 50 })).toBe(14300)
+    expect(applyRounding(14330, { mode: 'nearest', step: 50 })).toBe(14350)
+  })
+
+  it('не переносит на следующий шаг погрешность процентов', () => {
+    expect(applyRounding(14300.0000001, { mode: 'up', step: 100 })).toBe(14300)
+    expect(applyRounding(14301, { mode: 'up', step: 100 })).toBe(14400)
+  })
+
+  it('вниз — не ниже одного шага', () => {
+    expect(applyRounding(14399, { mode: 'down', step: 100 })).toBe(14300)
+    expect(applyRounding(40, { mode: 'down', step: 100 })).toBe(100)
+  })
+
+  it('подбирает цену с заданным окончанием', () => {
+    expect(applyRounding(14320, { mode: 'ending', step: 100, ending: 90 })).toBe(14390)
+    expect(applyRounding(14390, { mode: 'ending', step: 100, ending: 90 })).toBe(14390)
+    expect(applyRounding(14395, { mode: 'ending', step: 100, ending: 90 })).toBe(14490)
+  })
+
+  it('не трогает неположительную цену и пустое правило', () => {
+    expect(applyRounding(-5, { mode: 'up', step: 100 })).toBe(-5)
+    expect(applyRounding(123, { mode: 'none', step: 100 })).toBe(123)
+    expect(applyRounding(123, null)).toBe(123)
+  })
+})
+
+describe('calculatePrice', () => {
+  it('складывает материалы с отходом, работу и наценки', () => {
+    const b = calculatePrice(product('p1', { finish_type_id: 'f1' }), materials, settings())
+    expect(b.materialCost).toBeCloseTo(220)
+    expect(b.wasteCost).toBeCloseTo(20)
+    expect(b.workCost).toBe(200)
+    expect(b.basePrice).toBeCloseTo(420)
+    expect(b.typeMarkup).toBeCloseTo(210)
+    expect(b.finishMarkup).toBeCloseTo(63)
+    expect(b.finalPrice).toBeCloseTo(693)
+  })
+
+  it('округляет по правилу типа, а не общему', () => {
+    const b = calculatePrice(product('p1'), materials, settings({ rounding: { mode: 'up', step: 100 } }, { mode: 'nearest', step: 10 }))
+    expect(b.finalPrice).toBe(700)
+    expect(b.rounding).toBeCloseTo(70)
+  })
+
+  it('изделие без техкарты не оценивается', () => {
+    const b = calculatePrice(product('p1', { tech_card: [] }), materials, settings())
+    expect(b.finalPrice).toBe(0)
+  })
+})
+
+describe('tierPrice', () => {
+  it('применяет поправку уровня и то же округление', () => {
+    const b = calculatePrice(product('p1'), materials, settings({}, { mode: 'nearest', step: 10 }))
+    expect(b.finalPrice).toBe(630)
+    expect(tierPrice(b, { adjustment: -15 })).toBe(540)
+    expect(tierPrice(b, { adjustment: 0 })).toBe(630)
+  })
+
+  it('налог сверху начисляет после округления цены уровня', () => {
+    const b = calculatePrice(product('p1'), materials, settings({ taxProfileId: 'sales' }, { mode: 'nearest', step: 10 }))
+    expect(b.finalPrice).toBeCloseTo(705.6)
+    expect(tierPrice(b, { adjustment: -15 })).toBeCloseTo(604.8)
+  })
+})
+
+describe('markupForMargin', () => {
+  it('переводит маржу в наценку', () => {
+    expect(markupForMargin(40)).toBeCloseTo(66.67, 2)
+    expect(markupForMargin(0)).toBe(0)
+    expect(markupForMargin(100)).toBeNull()
+  })
+})
+
+describe('solveTypeMarkup', () => {
+  const products = [product('p1'), product('p2', { tech_card: [] })]
+
+  it('подбирает наценку под маржу типа', () => {
+    const solution = solveTypeMarkup(products, materials, settings(), 't1', { kind: 'margin', margin: 40 })
+    expect(solution.markup).toBe(66.67)
+    // Изделие без себестоимости на наценку не влияет и в предпросмотр не входит
+    expect(solution.preview.map((r) => r.product.id)).toEqual(['p1'])
+    expect(solution.preview[0].after.marginPercent).toBeCloseTo(40, 2)
+  })
+
+  it('маржу считает от цены без налога, включённого в цену', () => {
+    const solution = solveTypeMarkup(products, materials, settings({ taxProfileId: 'vat' }), 't1', { kind: 'margin', margin: 40 })
+    expect(solution.markup).toBe(86.67)
+    expect(solution.preview[0].after.marginPercent).toBeCloseTo(40, 2)
+  })
+
+  it('подбирает наценку под итоговую цену изделия с налогом сверху', () => {
+    const target = { kind: 'price', productId: 'p1', price: 1120 } as const
+    const solution = solveTypeMarkup(products, materials, settings({ taxProfileId: 'sales' }), 't1', target)
+    expect(solution.markup).toBe(138.1)
+    expect(solution.preview[0].after.finalPrice).toBeCloseTo(1120, 0)
+  })
+
+  it('недостижимая цель не меняет цены', () => {
+    const solution = solveTypeMarkup(products, materials, settings(), 't1', { kind: 'margin', margin: 100 })
+    expect(solution.markup).toBeNull()
+    expect(solution.preview[0].after).toBe(solution.preview[0].before)
+  })
+})
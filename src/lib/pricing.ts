@@ -0,0 +1,860 @@
+/**
+ * Движок ценообразования — единый расчёт цены изделия
+ * Используется страницами (Изделия, Прайс-лист), генераторами PDF и редактором техкарты,
+ * поэтому цена изделия везде одинакова. Модуль чистый: только входные данные → разбивка цены.
+ *
+ * Порядок расчёта:
+ *   материалы (техкарта × (1 + отход) × цена в базовой валюте) + работа (тип изделия) + накладные (статьи из настроек) = себестоимость
+ *   → наценка типа изделия → наценка отделки → округление (правило типа или общее) → налог = цена
+ * Налог берётся из профиля типа изделия: включённый в цену выделяется из неё, начисляемый сверху — добавляется
+ * к округлённой цене (поэтому цена с налогом сверху может быть некруглой).
+ * Строка техкарты может ссылаться на другое изделие или сборку: их материалы и работа (без накладных и наценок)
+ * раскрываются рекурсивно и входят в материалы и работу изделия. Строка, замыкающая цикл, не считается.
+ * Количество строки может задаваться формулой от габаритов изделия (W, H, D, мм): вложенное изделие считается
+ * по своим габаритам (если они заданы), сборка — по габаритам изделия, в которое входит.
+ */
+
+import type {
+  Assembly,
+  FinishType,
+  Material,
+  OverheadPool,
+  PriceSettings,
+  PriceTier,
+  PriceType,
+  Product,
+  RoundingRule,
+  TaxProfile,
+  TechCardItem,
+  TechCardItemKind,
+} from '../types/models'
+import { evaluateFormula, type FormulaVariables } from './expr'
+
+/** Материал, достаточный для расчёта */
+export type PricingMaterial = Pick<Material, 'id' | 'name' | 'article' | 'unit' | 'price' | 'waste_percent' | 'currency'>
+
+/** Изделие, достаточное для расчёта */
+export type PricingProduct = Pick<Product, 'product_type_id' | 'finish_type_id' | 'width_mm' | 'height_mm' | 'depth_mm'> & {
+  /** ID (нужен, чтобы найти изделие, входящее само в себя через другие изделия) */
+  id?: string
+  /** Техкарта (старые записи могут хранить её объектом) */
+  tech_card?: unknown
+}
+
+/** Изделие, на которое может ссылаться строка техкарты */
+export type PricingComponentProduct = PricingProduct & Pick<Product, 'id' | 'name' | 'article'>
+
+/** Сборка, достаточная для расчёта */
+export type PricingAssembly = Pick<Assembly, 'id' | 'name' | 'article' | 'work_cost'> & {
+  tech_card?: unknown
+}
+
+/**
+ * Изделия и сборки, на которые ссылаются строки техкарт (без них такие строки считаются ненайденными)
+ */
+export interface PricingComponents {
+  products?: PricingComponentProduct[]
+  assemblies?: PricingAssembly[]
+}
+
+/** Вид составной части: изделие или сборка */
+export type ComponentKind = Exclude<TechCardItemKind, 'material'>
+
+/**
+ * Изделие или сборка в строке техкарты
+ */
+export interface PricingComponentRef {
+  kind: ComponentKind
+  id: string
+  name: string
+  article: string
+}
+
+/**
+ * Курсы для пересчёта закупочных цен: 1 base = rates[CODE] CODE (как в настройках валют)
+ */
+export interface PricingCurrency {
+  base: string
+  rates: Record<string, number>
+}
+
+/** Настройки, достаточные для расчёта (без currency цены материалов считаются в базовой валюте) */
+export type PricingSettings = Pick<PriceSettings, 'productTypes' | 'finishTypes' | 'rounding' | 'overheadPools' | 'taxProfiles'> & {
+  currency?: PricingCurrency
+}
+
+/**
+ * Строка техкарты с ценой
+ */
+export interface PriceLine {
+  /** Позиция техкарты как есть */
+  item: TechCardItem
+  /** Материал (null — строка-изделие/сборка или материала нет в справочнике) */
+  material: PricingMaterial | null
+  /** Изделие или сборка (null — строка-материал или позиция не найдена) */
+  component: PricingComponentRef | null
+  /** Состав изделия/сборки на одну штуку (у материалов — пусто) */
+  children: PriceLine[]
+  /** Строка замыкает цикл (изделие или сборка входит сама в себя) и не считается */
+  cycle: boolean
+  /** Количество (чистый расход; у строки с формулой — вычисленное) */
+  quantity: number
+  /** Ошибка формулы количества (строка считается с нулевым количеством) */
+  formulaError: string | null
+  /** Отход, % (строки техкарты или материала) */
+  wastePercent: number
+  /** Количество отхода */
+  wasteQuantity: number
+  /** Закупочная цена за единицу в валюте закупки */
+  purchasePrice: number
+  /** Валюта закупки (null — базовая валюта) */
+  purchaseCurrency: string | null
+  /** Курса валюты закупки нет: цена за единицу считается нулевой */
+  rateMissing: boolean
+  /** Цена за единицу в базовой валюте */
+  unitPrice: number
+  /** Стоимость отхода */
+  wasteCost: number
+  /** Работа изделий/сборок в сумме строки (у материалов — 0) */
+  workCost: number
+  /** Сумма строки с отходом */
+  cost: number
+}
+
+/**
+ * Доля статьи накладных в цене изделия
+ */
+export interface OverheadLine {
+  pool: OverheadPool
+  amount: number
+}
+
+/**
+ * Разбивка цены изделия
+ */
+export interface PriceBreakdown {
+  /** Строки техкарты */
+  lines: PriceLine[]
+  /** Позиции, материала (изделия, сборки) которых нет в справочнике (считаются по нулевой цене), в т.ч. вложенные */
+  missing: TechCardItem[]
+  /** Позиции, замыкающие цикл (не считаются), в т.ч. вложенные */
+  cycles: TechCardItem[]
+  /** Позиции с ошибкой в формуле количества (считаются с нулевым количеством), в т.ч. вложенные */
+  formulaErrors: TechCardItem[]
+  /** Валюты закупки без курса (такие материалы считаются по нулевой цене) */
+  missingRates: string[]
+  /** Стоимость материалов (с отходом), в т.ч. материалы изделий и сборок из техкарты */
+  materialCost: number
+  /** В том числе отход */
+  wasteCost: number
+  /** Стоимость работ: тип изделия + работа изделий и сборок из техкарты */
+  workCost: number
+  /** Накладные по статьям (статьи с нулевой долей не входят) */
+  overheadLines: OverheadLine[]
+  /** Накладные, сумма */
+  overhead: number
+  /** Себестоимость: материалы + работа + накладные */
+  basePrice: number
+  /** Тип изделия (если найден) */
+  productType: PriceType | null
+  /** Тип отделки (если найден) */
+  finishType: FinishType | null
+  /** Наценка типа изделия, сумма */
+  typeMarkup: number
+  /** Наценка отделки, сумма */
+  finishMarkup: number
+  /** Цена до округления */
+  priceBeforeRounding: number
+  /** Поправка округления (0 — правило не задано или цена уже круглая) */
+  rounding: number
+  /** Применённое правило округления (null — без округления) */
+  roundingRule: RoundingRule | null
+  /** Налоговый профиль типа изделия (null — без налога) */
+  taxProfile: TaxProfile | null
+  /** Ставка налога, % (0 — без налога) */
+  taxRate: number
+  /** Налог, сумма (0 — налоги не заданы) */
+  tax: number
+  /** Цена без налога */
+  priceNet: number
+  /** Итоговая цена (с налогом) */
+  finalPrice: number
+  /** Итоговая наценка к себестоимости (по цене без налога), % */
+  markupPercent: number
+  /** Валовая маржа: доля прибыли в цене без налога, % */
+  marginPercent: number
+}
+
+/**
+ * Привести техкарту к массиву позиций (в старых данных встречается объект вместо массива)
+ */
+export function normalizeTechCard(raw: unknown): TechCardItem[] {
+  const list: unknown[] = Array.isArray(raw) ? raw : raw && typeof raw === 'object' ? Object.values(raw) : []
+  return list.filter((it): it is TechCardItem => !!it && typeof it === 'object' && ('materialId' in it || 'refId' in it))
+}
+
+/** Вид строки техкарты (старые строки — материалы) */
+export function techCardItemKind(item: Pick<TechCardItem, 'kind'>): TechCardItemKind {
+  return item.kind === 'product' || item.kind === 'assembly' ? item.kind : 'material'
+}
+
+/** Ключ составной части: «product:<id>», «assembly:<id>» */
+export function componentKey(kind: TechCardItemKind, id: string | null | undefined): string {
+  return `${kind}:${id ?? ''}`
+}
+
+/** Ключ позиции строки техкарты: материал, изделие или сборка (одна позиция — одна строка) */
+export function techCardItemKey(item: Pick<TechCardItem, 'kind' | 'materialId' | 'refId'>): string {
+  const kind = techCardItemKind(item)
+  return componentKey(kind, kind === 'material' ? item.materialId : item.refId)
+}
+
+/** Переменные формул: габариты изделия */
+export const DIMENSION_VARIABLES = [
+  { name: 'W', field: 'width_mm', label: 'Ширина' },
+  { name: 'H', field: 'height_mm', label: 'Высота' },
+  { name: 'D', field: 'depth_mm', label: 'Глубина' },
+] as const
+
+/** Имена переменных формул */
+export const FORMULA_VARIABLE_NAMES: readonly string[] = DIMENSION_VARIABLES.map((v) => v.name)
+
+/** Заданные (положительные) габариты изделия как переменные формул */
+export function dimensionVariables(product: Pick<PricingProduct, 'width_mm' | 'height_mm' | 'depth_mm'> | null | undefined): FormulaVariables {
+  const vars: FormulaVariables = {}
+  for (const v of DIMENSION_VARIABLES) {
+    const value = Number(product?.[v.field])
+    if (value > 0) vars[v.name] = value
+  }
+  return vars
+}
+
+/**
+ * Количество строки техкарты: по формуле, если она задана, иначе quantity.
+ * Ошибочная формула (или отрицательный результат) даёт нулевое количество и текст ошибки.
+ */
+export function itemQuantity(
+  item: Pick<TechCardItem, 'quantity' | 'formula'>,
+  vars: FormulaVariables,
+): { quantity: number; formulaError: string | null } {
+  const formula = String(item.formula ?? '').trim()
+  if (!formula) return { quantity: Number(item.quantity) || 0, formulaError: null }
+  const result = evaluateFormula(formula, vars)
+  if (!result.ok) return { quantity: 0, formulaError: result.error.message }
+  if (result.value < 0) return { quantity: 0, formulaError: 'Отрицательное количество' }
+  return { quantity: result.value, formulaError: null }
+}
+
+/**
+ * Пересчитать сохранённые количества строк с формулами по габаритам изделия (после изменения габаритов).
+ * Строки с ошибкой не меняются; если менять нечего, возвращается тот же массив.
+ */
+export function refreshFormulaQuantities(
+  techCard: TechCardItem[],
+  product: Pick<PricingProduct, 'width_mm' | 'height_mm' | 'depth_mm'>,
+): TechCardItem[] {
+  const vars = dimensionVariables(product)
+  let changed = false
+  const next = techCard.map((it) => {
+    if (!it.formula?.trim()) return it
+    const { quantity, formulaError } = itemQuantity(it, vars)
+    if (formulaError || quantity === it.quantity) return it
+    changed = true
+    return { ...it, quantity }
+  })
+  return changed ? next : techCard
+}
+
+/**
+ * Справочники для расчёта, проиндексированные по id
+ */
+interface PricingCatalog {
+  materials: Map<string, PricingMaterial>
+  products: Map<string, PricingComponentProduct>
+  assemblies: Map<string, PricingAssembly>
+}
+
+/** Проиндексировать материалы, изделия и сборки */
+function toCatalog(materials: PricingMaterial[] | Map<string, PricingMaterial>, components?: PricingComponents): PricingCatalog {
+  return {
+    materials: materials instanceof Map ? materials : new Map(materials.map((m) => [m.id, m])),
+    products: new Map((components?.products || []).map((p) => [p.id, p])),
+    assemblies: new Map((components?.assemblies || []).map((a) => [a.id, a])),
+  }
+}
+
+/** Техкарта изделия или сборки из справочника (null — не найдена) */
+function componentTechCard(catalog: PricingCatalog, kind: ComponentKind, id: string): unknown | null {
+  const source = kind === 'product' ? catalog.products.get(id) : catalog.assemblies.get(id)
+  return source ? source.tech_card : null
+}
+
+/**
+ * Появится ли цикл, если в техкарту owner добавить candidate:
+ * candidate — это сам owner или owner уже входит в состав candidate (на любой глубине).
+ */
+export function wouldCreateCycle(
+  owner: { kind: ComponentKind; id: string },
+  candidate: { kind: ComponentKind; id: string },
+  components: PricingComponents,
+): boolean {
+  const catalog = toCatalog([], components)
+  const target = componentKey(owner.kind, owner.id)
+  const seen = new Set<string>()
+  const stack = [candidate]
+  while (stack.length > 0) {
+    const { kind, id } = stack.pop()!
+    const key = componentKey(kind, id)
+    if (key === target) return true
+    if (seen.has(key)) continue
+    seen.add(key)
+    for (const item of normalizeTechCard(componentTechCard(catalog, kind, id))) {
+      const k = techCardItemKind(item)
+      if (k !== 'material' && item.refId) stack.push({ kind: k, id: item.refId })
+    }
+  }
+  return false
+}
+
+/**
+ * Отход строки техкарты, %: значение строки, иначе отход материала по умолчанию
+ */
+export function wastePercentOf(item: Pick<TechCardItem, 'wastePercent'>, material: PricingMaterial | null | undefined): number {
+  const raw = item.wastePercent ?? material?.waste_percent
+  return Math.max(0, Number(raw) || 0)
+}
+
+/**
+ * Валюта закупки материала: null — базовая (валюта не указана или совпадает с базовой)
+ */
+export function purchaseCurrencyOf(material: Pick<PricingMaterial, 'currency'> | null | undefined, currency?: PricingCurrency): string | null {
+  const code = String(material?.currency || '').trim().toUpperCase()
+  if (!code || code === (currency?.base || 'KGS').toUpperCase()) return null
+  return code
+}
+
+/**
+ * Пересчитать сумму из валюты закупки в базовую. null — курса нет или он нулевой.
+ */
+export function toBaseCurrency(amount: number, code: string | null, currency?: PricingCurrency): number | null {
+  if (!code) return amount
+  const rate = Number(currency?.rates?.[code]) || 0
+  return rate > 0 ? amount / rate : null
+}
+
+/**
+ * Строки техкарты с ценами материалов; изделия и сборки раскрываются рекурсивно.
+ * path — ключи составных частей выше по дереву: строка, ссылающаяся на одну из них, замыкает цикл.
+ * vars — габариты для формул количеств.
+ */
+function priceLines(
+  techCard: unknown,
+  catalog: PricingCatalog,
+  settings: PricingSettings,
+  path: string[],
+  vars: FormulaVariables,
+): PriceLine[] {
+  return normalizeTechCard(techCard).map((item): PriceLine => {
+    const kind = techCardItemKind(item)
+    const { quantity, formulaError } = itemQuantity(item, vars)
+    if (kind !== 'material') return priceComponentLine(item, kind, quantity, formulaError, catalog, settings, path, vars)
+
+    const material = catalog.materials.get(item.materialId) ?? null
+    const wastePercent = wastePercentOf(item, material)
+    const wasteQuantity = quantity * (wastePercent / 100)
+    const purchasePrice = Number(material?.price) || 0
+    const purchaseCurrency = purchaseCurrencyOf(material, settings.currency)
+    const converted = toBaseCurrency(purchasePrice, purchaseCurrency, settings.currency)
+    const unitPrice = converted ?? 0
+    const wasteCost = wasteQuantity * unitPrice
+    return {
+      item,
+      material,
+      component: null,
+      children: [],
+      cycle: false,
+      quantity,
+      formulaError,
+      wastePercent,
+      wasteQuantity,
+      purchasePrice,
+      purchaseCurrency,
+      rateMissing: converted == null,
+      unitPrice,
+      wasteCost,
+      workCost: 0,
+      cost: quantity * unitPrice + wasteCost,
+    }
+  })
+}
+
+/**
+ * Строка-изделие или строка-сборка: цена за штуку — материалы и работа её состава.
+ * Работа изделия — по его типу (как в calculatePrice), сборки — своя; накладные и наценки не входят.
+ * Формулы состава изделия считаются по его габаритам (не заданы — по габаритам родителя), сборки — по габаритам родителя.
+ */
+function priceComponentLine(
+  item: TechCardItem,
+  kind: ComponentKind,
+  quantity: number,
+  formulaError: string | null,
+  catalog: PricingCatalog,
+  settings: PricingSettings,
+  path: string[],
+  vars: FormulaVariables,
+): PriceLine {
+  const id = item.refId || ''
+  const key = componentKey(kind, id)
+  const product = kind === 'product' ? catalog.products.get(id) : undefined
+  const assembly = kind === 'assembly' ? catalog.assemblies.get(id) : undefined
+  const source = product ?? assembly
+  const cycle = path.includes(key)
+  const own = product ? dimensionVariables(product) : {}
+  const childVars = Object.keys(own).length > 0 ? own : vars
+  const children = source && !cycle ? priceLines(source.tech_card, catalog, settings, [...path, key], childVars) : []
+
+  let ownWork = 0
+  if (assembly && !cycle) ownWork = Number(assembly.work_cost) || 0
+  if (product && children.length > 0) {
+    ownWork = Number(settings.productTypes.find((t) => t.id === product.product_type_id)?.workCost) || 0
+  }
+  const unitWork = ownWork + children.reduce((sum, l) => sum + l.workCost, 0)
+  const unitPrice = ownWork + children.reduce((sum, l) => sum + l.cost, 0)
+
+  return {
+    item,
+    material: null,
+    component: source ? { kind, id, name: source.name, article: source.article || '' } : null,
+    children,
+    cycle,
+    quantity,
+    formulaError,
+    wastePercent: 0,
+    wasteQuantity: 0,
+    purchasePrice: unitPrice,
+    purchaseCurrency: null,
+    rateMissing: false,
+    unitPrice,
+    wasteCost: quantity * children.reduce((sum, l) => sum + l.wasteCost, 0),
+    workCost: quantity * unitWork,
+    cost: quantity * unitPrice,
+  }
+}
+
+/**
+ * Строки техкарты с ценами (изделия и сборки — с раскрытым составом); vars — габариты для формул
+ */
+export function priceTechCard(
+  techCard: unknown,
+  materials: PricingMaterial[] | Map<string, PricingMaterial>,
+  settings: PricingSettings,
+  components?: PricingComponents,
+  vars: FormulaVariables = {},
+): PriceLine[] {
+  return priceLines(techCard, toCatalog(materials, components), settings, [], vars)
+}
+
+/**
+ * Одна штука изделия или сборки как строка техкарты: материалы и работа состава (для карточек сборок).
+ * vars — габариты для формул состава сборки (у изделия — свои, если заданы).
+ */
+export function priceComponent(
+  kind: ComponentKind,
+  id: string,
+  materials: PricingMaterial[] | Map<string, PricingMaterial>,
+  settings: PricingSettings,
+  components?: PricingComponents,
+  vars: FormulaVariables = {},
+): PriceLine {
+  const item: TechCardItem = { materialId: '', kind, refId: id, quantity: 1 }
+  return priceComponentLine(item, kind, 1, null, toCatalog(materials, components), settings, [], vars)
+}
+
+/** Все строки дерева техкарты (вложенные — после родительской) */
+export function flattenLines(lines: PriceLine[]): PriceLine[] {
+  return lines.flatMap((l) => [l, ...flattenLines(l.children)])
+}
+
+/**
+ * Расход материала в техкарте с учётом вложенных изделий и сборок (null — материал не используется)
+ */
+export function materialQuantity(lines: PriceLine[], materialId: string): number | null {
+  let used = false
+  let total = 0
+  for (const l of lines) {
+    if (techCardItemKind(l.item) === 'material' && l.item.materialId === materialId) {
+      used = true
+      total += l.quantity
+    } else if (l.children.length > 0) {
+      const nested = materialQuantity(l.children, materialId)
+      if (nested !== null) {
+        used = true
+        total += l.quantity * nested
+      }
+    }
+  }
+  return used ? total : null
+}
+
+/**
+ * Ставка статьи накладных: доля базы (labor/material) или сумма на изделие (unit).
+ * Без объёма базы статья не распределяется.
+ */
+export function overheadRate(pool: Pick<OverheadPool, 'monthlyAmount' | 'monthlyBase'>): number {
+  const amount = Number(pool.monthlyAmount) || 0
+  const base = Number(pool.monthlyBase) || 0
+  return amount > 0 && base > 0 ? amount / base : 0
+}
+
+/**
+ * Доля статьи накладных для изделия
+ */
+export function allocateOverhead(pool: OverheadPool, cost: { materialCost: number; workCost: number }): number {
+  const rate = overheadRate(pool)
+  switch (pool.base) {
+    case 'labor':
+      return cost.workCost * rate
+    case 'material':
+      return cost.materialCost * rate
+    case 'unit':
+      return rate
+    default:
+      return 0
+  }
+}
+
+/**
+ * Подпись ставки: «12,5% от работ», «3,2% от материалов», «350 на изделие»
+ */
+export function describeOverhead(pool: OverheadPool): string {
+  const rate = overheadRate(pool)
+  if (rate === 0) return 'не распределяется'
+  const fmt = (v: number) => v.toLocaleString('ru-RU', { maximumFractionDigits: 2 })
+  if (pool.base === 'labor') return `${fmt(rate * 100)}% от работ`
+  if (pool.base === 'material') return `${fmt(rate * 100)}% от материалов`
+  return `${fmt(rate)} на изделие`
+}
+
+/**
+ * Округлить цену по правилу. Неположительная цена и пустое правило — без изменений.
+ */
+export function applyRounding(value: number, rule: RoundingRule | null | undefined): number {
+  const step = Number(rule?.step) || 0
+  if (!rule || rule.mode === 'none' || step <= 0 || !(value > 0)) return value
+  // Копейки от умножения на проценты не должны перетягивать цену на следующий шаг (14 300.0000001 → 14 400)
+  const v = Math.round(value * 100) / 100
+  switch (rule.mode) {
+    case 'nearest':
+      return Math.round(v / step) * step
+    case 'up':
+      return Math.ceil(v / step) * step
+    case 'down':
+      return Math.max(step, Math.floor(v / step) * step)
+    case 'ending': {
+      const ending = Math.min(Math.max(0, Number(rule.ending) || 0), step - 1)
+      return Math.ceil((v - ending) / step) * step + ending
+    }
+    default:
+      return value
+  }
+}
+
+/**
+ * Правило округления для типа изделия: своё правило типа, иначе общее
+ */
+export function roundingRuleFor(productType: PriceType | null | undefined, settings: PricingSettings): RoundingRule | null {
+  const rule = productType?.rounding ?? settings.rounding ?? null
+  return rule && rule.mode !== 'none' && Number(rule.step) > 0 ? rule : null
+}
+
+/**
+ * Подпись правила: «до 50», «вверх до 100», «окончание 90»
+ */
+export function describeRounding(rule: RoundingRule | null | undefined): string {
+  if (!rule || rule.mode === 'none' || !(Number(rule.step) > 0)) return 'без округления'
+  switch (rule.mode) {
+    case 'nearest':
+      return `до ${rule.step}`
+    case 'up':
+      return `вверх до ${rule.step}`
+    case 'down':
+      return `вниз до ${rule.step}`
+    case 'ending':
+      return `окончание ${String(rule.ending ?? 0).padStart(String(rule.step - 1).length, '0')}`
+    default:
+      return 'без округления'
+  }
+}
+
+/**
+ * Налоговый профиль типа изделия (нет профиля или он удалён — null)
+ */
+export function taxProfileFor(productType: PriceType | null | undefined, settings: PricingSettings): TaxProfile | null {
+  const id = productType?.taxProfileId
+  return id ? (settings.taxProfiles || []).find((p) => p.id === id) ?? null : null
+}
+
+/**
+ * Налог, входящий в цену с налогом: 1120 при 12% → 120
+ */
+export function taxIncluded(gross: number, rate: number): number {
+  const r = Number(rate) || 0
+  return r > 0 ? gross - gross / (1 + r / 100) : 0
+}
+
+/**
+ * Подпись профиля: «НДС 12%, в цене», «Налог с продаж 2%, сверху»
+ */
+export function describeTax(profile: TaxProfile | null | undefined): string {
+  if (!profile) return 'без налога'
+  return `${profile.name} ${Number(profile.rate) || 0}%, ${profile.inclusive ? 'в цене' : 'сверху'}`
+}
+
+/**
+ * Рассчитать цену изделия
+ */
+export function calculatePrice(
+  product: PricingProduct,
+  materials: PricingMaterial[] | Map<string, PricingMaterial>,
+  settings: PricingSettings,
+  components?: PricingComponents,
+): PriceBreakdown {
+  return priceWithCatalog(product, toCatalog(materials, components), settings)
+}
+
+/** Расчёт цены по готовым справочникам */
+function priceWithCatalog(product: PricingProduct, catalog: PricingCatalog, settings: PricingSettings): PriceBreakdown {
+  const path = product.id ? [componentKey('product', product.id)] : []
+  const lines = priceLines(product.tech_card, catalog, settings, path, dimensionVariables(product))
+  const all = flattenLines(lines)
+  const productType = settings.productTypes.find((t) => t.id === product.product_type_id) ?? null
+  const finishType = settings.finishTypes.find((t) => t.id === product.finish_type_id) ?? null
+
+  // Работа вложенных изделий и сборок — в работах изделия (база накладных «от работ»), остальное — материалы
+  const nestedWork = lines.reduce((sum, l) => sum + l.workCost, 0)
+  const materialCost = lines.reduce((sum, l) => sum + l.cost, 0) - nestedWork
+  const wasteCost = lines.reduce((sum, l) => sum + l.wasteCost, 0)
+  // Изделие без техкарты не оценивается: работа без материалов дала бы «цену» пустой карточки
+  const workCost = lines.length > 0 ? (Number(productType?.workCost) || 0) + nestedWork : 0
+  // Накладные, как и работа, распределяются только на изделия с техкартой
+  const overheadLines: OverheadLine[] =
+    lines.length > 0
+      ? (settings.overheadPools || [])
+          .map((pool) => ({ pool, amount: allocateOverhead(pool, { materialCost, workCost }) }))
+          .filter((l) => l.amount !== 0)
+      : []
+  const overhead = overheadLines.reduce((sum, l) => sum + l.amount, 0)
+  const basePrice = materialCost + workCost + overhead
+  const typeMarkup = basePrice * ((Number(productType?.markup) || 0) / 100)
+  const finishMarkup = (basePrice + typeMarkup) * ((Number(finishType?.markup) || 0) / 100)
+  const priceBeforeRounding = basePrice + typeMarkup + finishMarkup
+  const roundingRule = roundingRuleFor(productType, settings)
+  const rounding = applyRounding(priceBeforeRounding, roundingRule) - priceBeforeRounding
+  const taxProfile = taxProfileFor(productType, settings)
+  const taxRate = Number(taxProfile?.rate) || 0
+  const rounded = priceBeforeRounding + rounding
+  const finalPrice = taxProfile && !taxProfile.inclusive ? rounded * (1 + taxRate / 100) : rounded
+  const tax = taxIncluded(finalPrice, taxRate)
+  const priceNet = finalPrice - tax
+
+  return {
+    lines,
+    missing: all.filter((l) => !l.material && !l.component && !l.cycle).map((l) => l.item),
+    cycles: all.filter((l) => l.cycle).map((l) => l.item),
+    formulaErrors: all.filter((l) => l.formulaError).map((l) => l.item),
+    missingRates: Array.from(new Set(all.filter((l) => l.rateMissing).map((l) => l.purchaseCurrency as string))),
+    materialCost,
+    wasteCost,
+    workCost,
+    overheadLines,
+    overhead,
+    basePrice,
+    productType,
+    finishType,
+    typeMarkup,
+    finishMarkup,
+    priceBeforeRounding,
+    rounding,
+    roundingRule,
+    taxProfile,
+    taxRate,
+    tax,
+    priceNet,
+    finalPrice,
+    markupPercent: basePrice > 0 ? ((priceNet - basePrice) / basePrice) * 100 : 0,
+    marginPercent: priceNet > 0 ? ((priceNet - basePrice) / priceNet) * 100 : 0,
+  }
+}
+
+/**
+ * Цена уровня (дилер, опт…): поправка к итоговой цене, затем то же округление, что и у итоговой цены.
+ * Налог сверху начисляется после округления — как и у итоговой цены.
+ */
+export function tierPrice(breakdown: PriceBreakdown, tier: Pick<PriceTier, 'adjustment'>): number {
+  const k = 1 + (Number(tier.adjustment) || 0) / 100
+  if (breakdown.taxProfile && !breakdown.taxProfile.inclusive) {
+    return applyRounding(breakdown.priceNet * k, breakdown.roundingRule) * (1 + breakdown.taxRate / 100)
+  }
+  return applyRounding(breakdown.finalPrice * k, breakdown.roundingRule)
+}
+
+/**
+ * Подпись поправки уровня: «−15%», «+5%», «без поправки»
+ */
+export function describeTier(tier: Pick<PriceTier, 'adjustment'>): string {
+  const a = Number(tier.adjustment) || 0
+  if (a === 0) return 'без поправки'
+  return `${a > 0 ? '+' : '−'}${Math.abs(a)}%`
+}
+
+/**
+ * Калькулятор для списка изделий: справочники материалов, изделий и сборок индексируются один раз
+ */
+export function createPriceCalculator(
+  materials: PricingMaterial[],
+  settings: PricingSettings,
+  components?: PricingComponents,
+): (product: PricingProduct) => PriceBreakdown {
+  const catalog = toCatalog(materials, components)
+  return (product) => priceWithCatalog(product, catalog, settings)
+}
+
+/**
+ * Влияние изменения цены материала на цену изделия
+ */
+export interface PriceImpact<P extends PricingProduct = PricingProduct> {
+  product: P
+  /** Расход материала в техкарте (с вложенными изделиями и сборками) */
+  quantity: number
+  /** Итоговая цена до изменения */
+  before: number
+  /** Итоговая цена после изменения */
+  after: number
+  /** Разница, сумма */
+  delta: number
+  /** Разница, % (0 — прежняя цена нулевая) */
+  deltaPercent: number
+}
+
+/**
+ * Изделия, в техкарте которых есть материал (в т.ч. во вложенных изделиях и сборках),
+ * с ценой до и после изменения его цены. Сортировка — по убыванию абсолютной разницы.
+ */
+export function materialPriceImpact<P extends PricingProduct>(
+  products: P[],
+  materials: PricingMaterial[],
+  settings: PricingSettings,
+  materialId: string,
+  newPrice: number,
+  components?: PricingComponents,
+): PriceImpact<P>[] {
+  const priceBefore = createPriceCalculator(materials, settings, components)
+  const priceAfter = createPriceCalculator(
+    materials.map((m) => (m.id === materialId ? { ...m, price: newPrice } : m)),
+    settings,
+    components,
+  )
+  const out: PriceImpact<P>[] = []
+  for (const product of products) {
+    const breakdown = priceBefore(product)
+    const quantity = materialQuantity(breakdown.lines, materialId)
+    if (quantity === null) continue
+    const before = breakdown.finalPrice
+    const after = priceAfter(product).finalPrice
+    out.push({
+      product,
+      quantity,
+      before,
+      after,
+      delta: after - before,
+      deltaPercent: before > 0 ? ((after - before) / before) * 100 : 0,
+    })
+  }
+  return out.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+}
+
+/**
+ * Наценка, дающая заданную маржу: маржа 40% ↔ наценка 66,67%
+ */
+export function markupForMargin(marginPercent: number): number | null {
+  const m = (Number(marginPercent) || 0) / 100
+  return m < 1 ? (1 / (1 - m) - 1) * 100 : null
+}
+
+/**
+ * Цель подбора наценки типа изделия: маржа по типу в целом или итоговая цена одного изделия
+ */
+export type MarkupTarget = { kind: 'margin'; margin: number } | { kind: 'price'; productId: string; price: number }
+
+/**
+ * Изделие типа: цена до и после новой наценки
+ */
+export interface MarkupPreview<P extends PricingProduct = PricingProduct> {
+  product: P
+  before: PriceBreakdown
+  after: PriceBreakdown
+}
+
+/**
+ * Результат подбора наценки
+ */
+export interface MarkupSolution<P extends PricingProduct = PricingProduct> {
+  /** Наценка типа, % (null — цель недостижима: нет себестоимости или маржа ≥ 100%) */
+  markup: number | null
+  /** Изделия типа с себестоимостью (без техкарты тип на них не влияет) */
+  preview: MarkupPreview<P>[]
+}
+
+/**
+ * Подобрать наценку типа изделия под цель и показать цены всех изделий типа.
+ * Маржа — по типу в целом: сумма цен без налога относится к сумме себестоимостей так, как задано,
+ * поэтому у изделий с разной отделкой маржа отдельного изделия может отличаться от цели.
+ * Цена — итоговая цена выбранного изделия (с налогом, как в прайс-листе).
+ * Расчёт идёт до округления, поэтому после округления результат может немного отличаться от цели.
+ */
+export function solveTypeMarkup<P extends PricingProduct & { id: string }>(
+  products: P[],
+  materials: PricingMaterial[],
+  settings: PricingSettings,
+  typeId: string,
+  target: MarkupTarget,
+  components?: PricingComponents,
+): MarkupSolution<P> {
+  const priceBefore = createPriceCalculator(materials, settings, components)
+  const rows = products
+    .filter((p) => p.product_type_id === typeId)
+    .map((product) => ({ product, before: priceBefore(product) }))
+    .filter((r) => r.before.basePrice > 0)
+
+  // Себестоимость с наценкой отделки: цена до округления = она × (1 + наценка типа)
+  const withFinish = (b: PriceBreakdown) => b.basePrice * (1 + (Number(b.finishType?.markup) || 0) / 100)
+  // Доля цены без налога: налог в цене выделяется из неё, налог сверху на цену без налога не влияет
+  const netShare = (b: PriceBreakdown) => (b.taxProfile?.inclusive ? 1 / (1 + b.taxRate / 100) : 1)
+
+  let k: number | null = null
+  if (target.kind === 'margin') {
+    const m = (Number(target.margin) || 0) / 100
+    const cost = rows.reduce((sum, r) => sum + r.before.basePrice, 0)
+    // Маржа считается от цены без налога (priceNet): сумма её при k = 1
+    const base = rows.reduce((sum, r) => sum + withFinish(r.before) * netShare(r.before), 0)
+    if (m < 1 && base > 0) k = cost / ((1 - m) * base)
+  } else {
+    const row = rows.find((r) => r.product.id === target.productId)
+    if (row) {
+      const { taxProfile, taxRate } = row.before
+      // Налог сверху начисляется после округления: цель без налога
+      const net = taxProfile && !taxProfile.inclusive ? target.price / (1 + taxRate / 100) : target.price
+      k = net / withFinish(row.before)
+    }
+  }
+
+  const markup = k !== null && k > 0 ? Math.round((k - 1) * 10000) / 100 : null
+  if (markup === null) return { markup, preview: rows.map((r) => ({ ...r, after: r.before })) }
+
+  const priceAfter = createPriceCalculator(
+    materials,
+    { ...settings, productTypes: settings.productTypes.map((t) => (t.id === typeId ? { ...t, markup } : t)) },
+    components,
+  )
+  return { markup, preview: rows.map((r) => ({ ...r, after: priceAfter(r.product) })) }
+}
@@ -11,6 +11,11 @@ import { createRoot } from 'react-dom/client'
 import './shadcn.css'
 import App from './App'
 import { initializeEnhancements } from './utils/enhancements'
+import { runMigrations } from './services/migrations'
+import { StorageService } from './services/storage'
+import { AuditRetention } from './services/auditRetention'
+import { PriceVersions } from './services/priceVersions'
+import { SyncService } from './services/sync'
 
 // Отключаем EventSource в production
 if (typeof EventSource !== 'undefined' && location.hostname !== 'localhost') {
@@ -66,6 +71,51 @@ function initializeCriticalEnhancements(): void {
   }
 }
 
+/**
+ * Подключение хранилища (IndexedDB) и миграции локальных данных до первого чтения страницами
+ */
+async function initializeLocalData(): Promise<void> {
+  try {
+    const driver = await StorageService.init();
+    console.log(`✅ Storage driver: ${driver}`);
+  } catch (error) {
+    console.error('❌ Failed to initialize storage:', error);
+  }
+
+  try {
+    const { from, to, applied } = await runMigrations();
+    if (applied.length > 0) {
+      console.log(`✅ Local data migrated: v${from} → v${to}`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to migrate local data:', error);
+  }
+
+  // Версия настроек цен, дата начала которой наступила, становится текущими настройками (и дальше — по таймеру)
+  try {
+    const applied = await PriceVersions.applyDue();
+    if (applied) {
+      console.log(`✅ Price settings version applied: ${applied.effective_at}`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to apply price settings version:', error);
+  }
+  PriceVersions.start();
+
+  // Срок хранения и архив журнала изменений (не задерживает запуск: выгрузка в Supabase может быть долгой)
+  AuditRetention.apply()
+    .then(({ compacted, archived, uploaded, error }) => {
+      if (compacted + archived + uploaded > 0) {
+        console.log(`✅ Audit log: compacted ${compacted}, archived ${archived}, uploaded ${uploaded}`);
+      }
+      if (error) console.warn('⚠️ Audit archive upload failed:', error);
+    })
+    .catch((error) => console.error('❌ Failed to apply audit retention:', error));
+
+  // Фоновая синхронизация с Supabase (no-op, пока синхронизация не включена)
+  SyncService.start();
+}
+
 /**
  * Application Root Wrapper с Error Boundary
  */
@@ -80,7 +130,7 @@ function AppWithErrorBoundary() {
 /**
  * Основная функция инициализации приложения
  */
-function initializeApp(): void {
+async function initializeApp(): Promise<void> {
   const appElement = document.getElementById('app');
   
   if (!appElement) {
@@ -93,6 +143,9 @@ function initializeApp(): void {
   // Инициализируем критичные улучшения
   initializeCriticalEnhancements();
 
+  // Подключаем хранилище и приводим данные к актуальной версии схемы
+  await initializeLocalData();
+
   // Создаем и рендерим приложение
   const root = createRoot(appElement);
   root.render(<AppWithErrorBoundary />);
@@ -138,9 +191,7 @@ if ('serviceWorker' in navigator && process.env.NODE_ENV === 'production') {
 }
 
 // Инициализируем приложение
-try {
-  initializeApp();
-} catch (error) {
+initializeApp().catch((error) => {
   console.error('💥 Critical error during app initialization:', error);
   
   // Fallback UI при критической ошибке
@@ -185,7 +236,7 @@ try {
       </div>
     `;
   }
-}
+});
 
 /**
  * Development only: Hot reload support
@@ -0,0 +1,322 @@
+/**
+ * Страница "Сборки"
+ * Общие узлы изделий (каркас, комплект фасадов, ящик): свой состав и стоимость работ.
+ * Сборка добавляется строкой в техкарту изделия или другой сборки; её себестоимость входит в цену изделия.
+ */
+
+import React, { useCallback, useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import Card from '../components/common/Card'
+import Button from '../components/common/Button'
+import Modal from '../components/common/Modal'
+import TechCardManager from '../components/techcard/TechCardManager'
+import PriceMulti from '../components/common/PriceMulti'
+import type { Assembly, Material, PriceSettings, Product, TechCardItem } from '../types/models'
+import { LS_KEYS, StorageService, withoutDeleted } from '../services/storage'
+import { useRepository } from '../hooks/useRepository'
+import { HistoryService, diffList } from '../services/history'
+import { toastUndoable } from '../components/common/HistoryHotkeys'
+import { findComponentUsage, markDeleted, usageWarning } from '../services/trash'
+import { AuditService } from '../services/audit'
+import { priceComponent } from '../lib/pricing'
+import { pricingCurrency, useCurrencyConfig } from '../services/currency'
+
+/**
+ * Компонент страницы "Сборки"
+ */
+export default function AssembliesPage(): React.ReactElement {
+  const [materials] = useRepository<Material[]>(LS_KEYS.materials, () => StorageService.getMaterials())
+  const [products] = useRepository<Product[]>(LS_KEYS.products, () => StorageService.getProducts<Product>())
+  const [assemblies, setAssemblies] = useRepository<Assembly[]>(
+    LS_KEYS.assemblies,
+    () => StorageService.getAssemblies(),
+    (list) => StorageService.saveAssemblies(list),
+  )
+  const [priceSettings] = useRepository<PriceSettings>(LS_KEYS.priceSettings, () => StorageService.getPriceSettings())
+  const currencyCfg = useCurrencyConfig()
+  const price = useMemo(() => ({ ...priceSettings, currency: pricingCurrency(currencyCfg) }), [priceSettings, currencyCfg])
+  const components = useMemo(
+    () => ({ products: withoutDeleted(products), assemblies: withoutDeleted(assemblies) }),
+    [products, assemblies],
+  )
+
+  const [search, setSearch] = useState('')
+  const [editing, setEditing] = useState<Assembly | null>(null)
+  const [tab, setTab] = useState<'info' | 'tc'>('info')
+
+  // Для техкарты — материалы вне корзины и уже стоящие в составе редактируемой сборки
+  const techCardMaterials = useMemo(() => {
+    const used = new Set((editing?.tech_card || []).map((it) => it.materialId))
+    return materials.filter((m) => !m.deleted_at || used.has(m.id))
+  }, [materials, editing])
+
+  const view = useMemo(() => {
+    const active = withoutDeleted(assemblies)
+    const t = search.trim().toLowerCase()
+    if (!t) return active
+    return active.filter((a) => a.name.toLowerCase().includes(t) || (a.article || '').toLowerCase().includes(t))
+  }, [assemblies, search])
+
+  /** Сколько изделий и сборок ссылаются на сборку */
+  const usageOf = useCallback(
+    (id: string) => findComponentUsage('assembly', id, [...products, ...assemblies]),
+    [products, assemblies],
+  )
+
+  /**
+   * Создать сборку
+   */
+  const createAssembly = useCallback(() => {
+    const now = new Date().toISOString()
+    const a: Assembly = {
+      id: StorageService.id(),
+      name: 'Новая сборка',
+      article: `ASM-${Math.random().toString(36).slice(2, 7).toUpperCase()}`,
+      tech_card: [],
+      work_cost: 0,
+      created_at: now,
+      updated_at: now,
+    }
+    const next = [a, ...assemblies]
+    HistoryService.record('Создание сборки', diffList(LS_KEYS.assemblies, assemblies, next))
+    setAssemblies(next)
+    AuditService.log({ action: 'create', entity: 'assembly', entityId: a.id, entityName: a.name, source: 'ui' })
+    setEditing(a)
+    setTab('info')
+    toast.info('Создана новая сборка')
+  }, [assemblies, setAssemblies])
+
+  /**
+   * Сохранить сборку
+   */
+  const saveAssembly = useCallback(
+    (patch: Partial<Assembly>) => {
+      if (!editing) return
+      const next: Assembly = { ...editing, ...patch, updated_at: new Date().toISOString() }
+      const list = assemblies.map((x) => (x.id === next.id ? next : x))
+      const label = patch.tech_card ? `Изменение состава сборки «${next.name}»` : `Изменение сборки «${next.name}»`
+      HistoryService.record(label, diffList(LS_KEYS.assemblies, assemblies, list))
+      setAssemblies(list)
+      AuditService.log({
+        action: 'update',
+        entity: 'assembly',
+        entityId: next.id,
+        source: 'ui',
+        before: assemblies.find((x) => x.id === next.id),
+        after: next,
+      })
+      setEditing(next)
+      toast.success('Сборка сохранена')
+    },
+    [editing, assemblies, setAssemblies],
+  )
+
+  /**
+   * Удалить сборку в корзину (с предупреждением, если она указана в техкартах)
+   */
+  const deleteAssembly = useCallback(
+    (id: string) => {
+      const a = assemblies.find((x) => x.id === id)
+      if (!a) return
+      const warning = usageWarning(usageOf(id).map((x) => x.name), 'техкартах')
+      const question = warning
+        ? `${warning}.\nДо восстановления сборка в этих техкартах считается по нулевой стоимости. Переместить "${a.name}" в корзину?`
+        : `Переместить сборку "${a.name}" в корзину?`
+      if (!confirm(question)) return
+      const next = markDeleted(assemblies, id)
+      const cmd = HistoryService.record(`Удаление сборки «${a.name}»`, diffList(LS_KEYS.assemblies, assemblies, next))
+      setAssemblies(next)
+      AuditService.logList('assembly', assemblies, next, 'ui')
+      if (editing?.id === id) setEditing(null)
+      toastUndoable(cmd)
+    },
+    [assemblies, editing, setAssemblies, usageOf],
+  )
+
+  /**
+   * Обновить состав редактируемой сборки (сохраняется кнопкой)
+   */
+  const updateTechCard = useCallback(
+    (tc: TechCardItem[]) => {
+      if (!editing) return
+      setEditing({ ...editing, tech_card: tc })
+    },
+    [editing],
+  )
+
+  /**
+   * Применить изменения из формы "Инфо"
+   */
+  const applyInfo = useCallback(
+    (e: React.FormEvent<HTMLFormElement>) => {
+      e.preventDefault()
+      if (!editing) return
+      const form = new FormData(e.currentTarget)
+      const name = String(form.get('name') || '').trim()
+      const article = String(form.get('article') || '').trim()
+      const workCost = Number(String(form.get('work_cost') || '0').replace(',', '.'))
+      if (!name) {
+        toast.error('Укажите наименование')
+        return
+      }
+      if (!Number.isFinite(workCost) || workCost < 0) {
+        toast.error('Стоимость работ должна быть неотрицательным числом')
+        return
+      }
+      saveAssembly({ name, article, work_cost: workCost })
+    },
+    [editing, saveAssembly],
+  )
+
+  return (
+    <div className="max-w-6xl mx-auto px-6 py-8 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center gap-4 justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Сборки</h1>
+          <p className="text-gray-600 mt-1">
+            Общие узлы изделий: каркасы, комплекты фасадов, ящики. Добавляйте их строкой в техкарту изделия.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" className="bg-transparent" onClick={createAssembly}>
+            Добавить сборку
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <input
+          type="text"
+          placeholder="Поиск по названию или артикулу…"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="w-full pl-3 pr-3 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        />
+      </Card>
+
+      {view.length === 0 ? (
+        <Card>
+          <div className="text-gray-600">Сборки не найдены. Создайте первую сборку.</div>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {view.map((a) => {
+            const line = priceComponent('assembly', a.id, materials, price, components)
+            const used = usageOf(a.id).length
+            return (
+              <Card key={a.id} className="space-y-3">
+                <div>
+                  <div className="text-sm text-gray-500 font-mono">{a.article || '—'}</div>
+                  <div className="text-base font-semibold text-gray-900">{a.name}</div>
+                </div>
+                <div className="text-sm text-gray-600 space-y-0.5">
+                  <div>
+                    Позиций в составе: <span className="font-medium text-gray-900">{a.tech_card?.length || 0}</span>
+                  </div>
+                  <div>
+                    Используется в техкартах: <span className="font-medium text-gray-900">{used}</span>
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="text-sm">Себестоимость:</div>
+                  <PriceMulti amountBase={line.cost} />
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" className="bg-transparent" onClick={() => { setEditing(a); setTab('info') }}>
+                    Редактировать
+                  </Button>
+                  <Button variant="danger" onClick={() => deleteAssembly(a.id)}>
+                    Удалить
+                  </Button>
+                </div>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+
+      {/* Модалка редактирования сборки */}
+      <Modal open={!!editing} onClose={() => setEditing(null)} title={editing ? `Сборка: ${editing.name}` : 'Сборка'}>
+        {!editing ? null : (
+          <div className="space-y-6">
+            <div className="flex border-b border-gray-200">
+              <button
+                className={`px-4 py-2 -mb-px border-b-2 ${tab === 'info' ? 'border-blue-600 text-blue-600 font-medium' : 'border-transparent text-gray-600'}`}
+                onClick={() => setTab('info')}
+              >
+                Основная информация
+              </button>
+              <button
+                className={`px-4 py-2 -mb-px border-b-2 ${tab === 'tc' ? 'border-blue-600 text-blue-600 font-medium' : 'border-transparent text-gray-600'}`}
+                onClick={() => setTab('tc')}
+              >
+                Состав
+              </button>
+            </div>
+
+            {tab === 'info' ? (
+              <form className="space-y-4" onSubmit={applyInfo}>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Артикул (необязательно)</label>
+                    <input
+                      name="article"
+                      type="text"
+                      defaultValue={editing.article || ''}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      placeholder="ASM-001"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Стоимость работ на сборку, KGS</label>
+                    <input
+                      name="work_cost"
+                      type="text"
+                      inputMode="decimal"
+                      defaultValue={String(editing.work_cost ?? 0)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Наименование</label>
+                  <input
+                    name="name"
+                    type="text"
+                    defaultValue={editing.name}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    placeholder="Каркас 600"
+                  />
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button type="submit">Сохранить</Button>
+                </div>
+              </form>
+            ) : (
+              <div className="space-y-4">
+                <TechCardManager
+                  materials={techCardMaterials}
+                  value={editing.tech_card || []}
+                  onChange={updateTechCard}
+                  components={components}
+                  owner={{ kind: 'assembly', id: editing.id }}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    className="bg-transparent"
+                    onClick={() => saveAssembly({ tech_card: editing.tech_card })}
+                  >
+                    Сохранить состав
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </Modal>
+    </div>
+  )
+}
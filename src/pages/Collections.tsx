@@ -30,19 +30,14 @@ import ProgressiveImage from '../components/common/ProgressiveImage'
 import TechCardManager from '../components/techcard/TechCardManager'
 import type { Material, TechCardItem } from '../types/models'
 import { AiService, type MaterialsCatalogItem, type AiTechCardItem } from '../services/ai'
-
-/**
- * Тип события журнала
- */
-interface AuditEvent {
-  id: string
-  at: number
-  action: string
-  entity: 'collection' | 'product' | 'system' | string
-  entityId?: string
-  details?: any
-  version?: string
-}
+import { LS_KEYS, StorageService, withoutDeleted, type AuditAction, type AuditSource } from '../services/storage'
+import { useRepository } from '../hooks/useRepository'
+import { HistoryService, diffList } from '../services/history'
+import { toastUndoable } from '../components/common/HistoryHotkeys'
+import { findProductUsage, markDeleted, usageWarning } from '../services/trash'
+import { AuditService } from '../services/audit'
+import { DIMENSION_VARIABLES, FORMULA_VARIABLE_NAMES, dimensionVariables, refreshFormulaQuantities } from '../lib/pricing'
+import { checkFormula } from '../lib/expr'
 
 /**
  * Тип товара (дополнен: tech_card для редактирования ТД)
@@ -54,6 +49,12 @@ interface Product {
   imageKeyword?: string
   /** Техкарта (опционально для обратной совместимости) */
   tech_card?: TechCardItem[]
+  /** Габариты, мм (переменные формул техкарты) */
+  width_mm?: number | null
+  height_mm?: number | null
+  depth_mm?: number | null
+  /** Дата удаления в корзину */
+  deleted_at?: string | null
   created_at: string
   updated_at: string
 }
@@ -71,46 +72,21 @@ interface Collection {
   product_order: string[]
   /** URL обложки коллекции */
   cover_url?: string
+  /** Дата удаления в корзину */
+  deleted_at?: string | null
   created_at: string
   updated_at: string
 }
 
-/**
- * Локальные ключи хранилища
- */
-const LS_KEYS = {
-  collections: 'wasser_collections_data',
-  products: 'wasser_products_data',
-  audit: 'wasser_change_log',
-  materials: 'wasser_materials_data',
-}
-
 /**
  * Утилиты
  */
 const utils = {
   /** Генерация ID */
-  id: () => Date.now().toString(36) + Math.random().toString(36).slice(2),
+  id: () => StorageService.id(),
   /** Короткий формат даты */
   shortDate: (d: string | number | Date) =>
     new Date(d).toLocaleString('ru-RU', { dateStyle: 'medium', timeStyle: 'short' }),
-  /** Безопасное чтение из LS */
-  read<T>(key: string, fallback: T): T {
-    try {
-      const raw = localStorage.getItem(key)
-      return raw ? (JSON.parse(raw) as T) : fallback
-    } catch {
-      return fallback
-    }
-  },
-  /** Запись в LS */
-  write<T>(key: string, value: T) {
-    try {
-      localStorage.setItem(key, JSON.stringify(value))
-    } catch {
-      /* noop */
-    }
-  },
 }
 
 /**
@@ -129,20 +105,6 @@ function classifyProduct(p: { name: string; article?: string }): FurnitureKind {
   return 'other'
 }
 
-/**
- * Логирование событий в общий журнал
- */
-function logEvent(event: Omit<AuditEvent, 'id' | 'at' | 'version'>) {
-  const list = utils.read<AuditEvent[]>(LS_KEYS.audit, [])
-  const item: AuditEvent = {
-    id: utils.id(),
-    at: Date.now(),
-    version: 'v1',
-    ...event,
-  }
-  utils.write(LS_KEYS.audit, [item, ...list])
-}
-
 /**
  * Начальные тестовые продукты (если нет в LS)
  * Дополнено: добавляем пустую техкарту
@@ -197,21 +159,24 @@ function seedCollections(productIds: string[]): Collection[] {
  * Компонент "Коллекции"
  */
 export default function CollectionsPage(): React.ReactElement {
-  // Данные
-  const [products, setProducts] = useState<Product[]>(
-    () => utils.read<Product[]>(LS_KEYS.products, seedProducts()),
+  // Данные (сохраняются в репозиторий и обновляются при изменениях из других вкладок)
+  const [products, setProducts] = useRepository<Product[]>(
+    LS_KEYS.products,
+    () => (StorageService.has(LS_KEYS.products) ? StorageService.getProducts<Product>() : seedProducts()),
+    (list) => StorageService.saveProducts(list),
   )
-  const [collections, setCollections] = useState<Collection[]>(
+  const [collections, setCollections] = useRepository<Collection[]>(
+    LS_KEYS.collections,
     () =>
-      utils.read<Collection[]>(
-        LS_KEYS.collections,
-        seedCollections(utils.read<Product[]>(LS_KEYS.products, seedProducts()).map((p) => p.id)),
-      ),
+      StorageService.has(LS_KEYS.collections)
+        ? StorageService.getCollections<Collection>()
+        : seedCollections(products.map((p) => p.id)),
+    (list) => StorageService.saveCollections(list),
   )
 
-  // Сохранение в LS
-  useEffect(() => utils.write(LS_KEYS.products, products), [products])
-  useEffect(() => utils.write(LS_KEYS.collections, collections), [collections])
+  // Коллекции и изделия вне корзины
+  const activeCollections = useMemo(() => withoutDeleted(collections), [collections])
+  const activeProducts = useMemo(() => withoutDeleted(products), [products])
 
   // Фильтры
   const [search, setSearch] = useState('')
@@ -221,29 +186,29 @@ export default function CollectionsPage(): React.ReactElement {
   // Группы
   const groups = useMemo(() => {
     const s = new Set<string>()
-    collections.forEach((c) => c.group && s.add(c.group))
+    activeCollections.forEach((c) => c.group && s.add(c.group))
     return Array.from(s).sort((a, b) => a.localeCompare(b, 'ru'))
-  }, [collections])
+  }, [activeCollections])
+
+  // Словарь изделий (без корзины — удалённые изделия скрыты из коллекций до восстановления)
+  const productMap = useMemo(() => new Map(activeProducts.map((p) => [p.id, p])), [activeProducts])
 
   // Подсчёты для статистики
   const stats = useMemo(() => {
-    const archivedCount = collections.filter((c) => c.is_archived).length
+    const archivedCount = activeCollections.filter((c) => c.is_archived).length
     const productsUnique = new Set<string>()
-    collections.forEach((c) => c.product_order.forEach((id) => productsUnique.add(id)))
+    activeCollections.forEach((c) => c.product_order.forEach((id) => productMap.has(id) && productsUnique.add(id)))
     return {
-      collectionsCount: collections.length,
+      collectionsCount: activeCollections.length,
       productsCount: productsUnique.size,
       archivedCount,
     }
-  }, [collections])
-
-  // Словарь изделий
-  const productMap = useMemo(() => new Map(products.map((p) => [p.id, p])), [products])
+  }, [activeCollections, productMap])
 
   // Фильтрация и сортировка (закреплённые сверху)
   const filteredCollections = useMemo(() => {
     const term = search.trim().toLowerCase()
-    let list = collections
+    let list = activeCollections
       .filter((c) => (showArchived ? true : !c.is_archived))
       .filter((c) => (groupFilter === 'all' ? true : (c.group || '') === groupFilter))
       .filter((c) => {
@@ -261,7 +226,7 @@ export default function CollectionsPage(): React.ReactElement {
     // Закреплённые сначала
     list = list.slice().sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned))
     return list
-  }, [collections, productMap, search, groupFilter, showArchived])
+  }, [activeCollections, productMap, search, groupFilter, showArchived])
 
   // Модалки
   const [editingCollection, setEditingCollection] = useState<Collection | null>(null)
@@ -270,6 +235,23 @@ export default function CollectionsPage(): React.ReactElement {
   /** Какая вкладка в модалке товара открыта */
   const [productTab, setProductTab] = useState<'info' | 'tc'>('info')
 
+  /**
+   * Применить изменение коллекций/изделий с записью команды в историю (Ctrl+Z).
+   * Возвращает команду — для уведомления с кнопкой «Отменить».
+   */
+  const commit = useCallback(
+    (label: string, next: { collections?: Collection[]; products?: Product[] }) => {
+      const cmd = HistoryService.record(label, [
+        ...(next.collections ? diffList(LS_KEYS.collections, collections, next.collections) : []),
+        ...(next.products ? diffList(LS_KEYS.products, products, next.products) : []),
+      ])
+      if (next.collections) setCollections(next.collections)
+      if (next.products) setProducts(next.products)
+      return cmd
+    },
+    [collections, products, setCollections, setProducts],
+  )
+
   // CRUD: Коллекции
   const createCollection = useCallback(() => {
     const now = new Date().toISOString()
@@ -285,43 +267,61 @@ export default function CollectionsPage(): React.ReactElement {
       created_at: now,
       updated_at: now,
     }
-    setCollections((prev) => [c, ...prev])
-    logEvent({ action: 'create', entity: 'collection', entityId: c.id, details: { name: c.name } })
+    commit('Создание коллекции', { collections: [c, ...collections] })
+    AuditService.log({ action: 'create', entity: 'collection', entityId: c.id, entityName: c.name, source: 'ui' })
     setEditingCollection(c)
-  }, [groups])
-
-  const updateCollection = useCallback((id: string, patch: Partial<Collection>) => {
-    setCollections((prev) =>
-      prev.map((c) => (c.id === id ? { ...c, ...patch, updated_at: new Date().toISOString() } : c)),
-    )
-    logEvent({ action: 'update', entity: 'collection', entityId: id, details: patch })
-  }, [])
+  }, [groups, collections, commit])
+
+  const updateCollection = useCallback(
+    (
+      id: string,
+      patch: Partial<Collection>,
+      label = 'Изменение коллекции',
+      action: AuditAction = 'update',
+      source: AuditSource = 'ui',
+    ) => {
+      const next = collections.map((c) => (c.id === id ? { ...c, ...patch, updated_at: new Date().toISOString() } : c))
+      const cmd = commit(label, { collections: next })
+      AuditService.log({
+        action,
+        entity: 'collection',
+        entityId: id,
+        source,
+        before: collections.find((c) => c.id === id),
+        after: next.find((c) => c.id === id),
+      })
+      return cmd
+    },
+    [collections, commit],
+  )
 
   const deleteCollection = useCallback((id: string) => {
     const c = collections.find((x) => x.id === id)
     if (!c) return
-    if (!confirm(`Удалить коллекцию "${c.name}"? Товары будут помечены как неприкрепленные.`)) return
-    setCollections((prev) => prev.filter((x) => x.id !== id))
-    logEvent({ action: 'delete', entity: 'collection', entityId: id, details: { name: c.name } })
-  }, [collections])
+    if (!confirm(`Переместить коллекцию "${c.name}" в корзину? Изделия останутся в каталоге.`)) return
+    const next = markDeleted(collections, id)
+    toastUndoable(commit(`Удаление коллекции «${c.name}»`, { collections: next }))
+    AuditService.logList('collection', collections, next, 'ui')
+  }, [collections, commit])
 
   const toggleArchive = useCallback((id: string) => {
     const c = collections.find((x) => x.id === id)
     if (!c) return
     const next = !c.is_archived
-    updateCollection(id, { is_archived: next })
-    logEvent({
-      action: next ? 'archive' : 'unarchive',
-      entity: 'collection',
-      entityId: id,
-      details: { name: c.name },
-    })
+    toastUndoable(
+      updateCollection(
+        id,
+        { is_archived: next },
+        next ? `Архивирование «${c.name}»` : `Возврат из архива «${c.name}»`,
+        next ? 'archive' : 'unarchive',
+      ),
+    )
   }, [collections, updateCollection])
 
   const togglePin = useCallback((id: string) => {
     const c = collections.find((x) => x.id === id)
     if (!c) return
-    updateCollection(id, { pinned: !c.pinned })
+    updateCollection(id, { pinned: !c.pinned }, c.pinned ? `Открепление «${c.name}»` : `Закрепление «${c.name}»`)
   }, [collections, updateCollection])
 
   // CRUD: Продукты (минимально)
@@ -336,49 +336,62 @@ export default function CollectionsPage(): React.ReactElement {
       created_at: now,
       updated_at: now,
     }
-    setProducts((prev) => [p, ...prev])
-    logEvent({ action: 'create', entity: 'product', entityId: p.id, details: { name: p.name } })
+    commit('Создание изделия', { products: [p, ...products] })
+    AuditService.log({ action: 'create', entity: 'product', entityId: p.id, entityName: p.name, source: 'ui' })
     setEditingProduct(p)
     setProductTab('info')
-  }, [])
-
-  const updateProduct = useCallback((id: string, patch: Partial<Product>) => {
-    setProducts((prev) =>
-      prev.map((p) => (p.id === id ? { ...p, ...patch, updated_at: new Date().toISOString() } : p)),
-    )
-    logEvent({ action: 'update', entity: 'product', entityId: id, details: patch })
-  }, [])
+  }, [products, commit])
+
+  const updateProduct = useCallback(
+    (id: string, patch: Partial<Product>, label = 'Изменение изделия', source: AuditSource = 'ui') => {
+      const next = products.map((p) => (p.id === id ? { ...p, ...patch, updated_at: new Date().toISOString() } : p))
+      commit(label, { products: next })
+      AuditService.log({
+        action: 'update',
+        entity: 'product',
+        entityId: id,
+        source,
+        before: products.find((p) => p.id === id),
+        after: next.find((p) => p.id === id),
+      })
+    },
+    [products, commit],
+  )
 
   const deleteProduct = useCallback((id: string) => {
     const p = products.find((x) => x.id === id)
     if (!p) return
-    if (!confirm(`Удалить изделие "${p.name}"?`)) return
-    // Удаляем из порядков в коллекциях
-    setCollections((prev) =>
-      prev.map((c) => ({ ...c, product_order: c.product_order.filter((pid) => pid !== id) })),
-    )
-    setProducts((prev) => prev.filter((x) => x.id !== id))
-    logEvent({ action: 'delete', entity: 'product', entityId: id, details: { name: p.name } })
-  }, [products])
+    // Место в коллекциях сохраняется — восстановленное изделие вернётся на него
+    const warning = usageWarning(findProductUsage(id, collections).map((c) => c.name), 'коллекциях')
+    const question = warning
+      ? `${warning}.\nВ коллекциях изделие будет скрыто до восстановления. Переместить "${p.name}" в корзину?`
+      : `Переместить изделие "${p.name}" в корзину?`
+    if (!confirm(question)) return
+    const next = markDeleted(products, id)
+    toastUndoable(commit(`Удаление изделия «${p.name}»`, { products: next }))
+    AuditService.logList('product', products, next, 'ui')
+  }, [products, collections, commit])
 
   /**
    * Быстро добавить изделие в коллекцию (из выпадающего списка)
    */
   const quickAddProductToCollection = useCallback((collectionId: string, productId: string) => {
-    setCollections((prev) =>
-      prev.map((c) =>
-        c.id === collectionId && !c.product_order.includes(productId)
-          ? { ...c, product_order: [...c.product_order, productId], updated_at: new Date().toISOString() }
-          : c,
-      ),
+    const next = collections.map((c) =>
+      c.id === collectionId && !c.product_order.includes(productId)
+        ? { ...c, product_order: [...c.product_order, productId], updated_at: new Date().toISOString() }
+        : c,
     )
-    logEvent({
+    commit('Добавление изделия в коллекцию', { collections: next })
+    AuditService.log({
       action: 'add_product',
       entity: 'collection',
       entityId: collectionId,
+      source: 'ui',
+      before: collections.find((c) => c.id === collectionId),
+      after: next.find((c) => c.id === collectionId),
       details: { productId },
     })
-  }, [])
+  }, [collections, commit])
 
   return (
     <div className="max-w-6xl mx-auto px-6 py-8 space-y-6">
@@ -460,7 +473,7 @@ export default function CollectionsPage(): React.ReactElement {
               group: c.group,
               is_archived: c.is_archived,
               pinned: c.pinned,
-              product_order: c.product_order,
+              product_order: c.product_order.filter((id) => productMap.has(id)),
               cover_url: c.cover_url,
               updated_at: c.updated_at,
             }
@@ -473,10 +486,7 @@ export default function CollectionsPage(): React.ReactElement {
                 onEdit={(col) => setEditingCollection(c)}
                 onOpenEditor={(col) => setEditorCollection(c)}
                 onToggleArchive={(col) => toggleArchive(c.id)}
-                onDelete={(col) => {
-                  const ok = confirm(`Удалить коллекцию "${c.name}"?`)
-                  if (ok) deleteCollection(c.id)
-                }}
+                onDelete={(col) => deleteCollection(c.id)}
                 onTogglePin={(col) => togglePin(c.id)}
                 onQuickAddProduct={quickAddProductToCollection}
                 onOpenProduct={(productId) => {
@@ -499,14 +509,20 @@ export default function CollectionsPage(): React.ReactElement {
           /** Имена товаров коллекции — для AI описания */
           productNames={editingCollection.product_order.map((id) => productMap.get(id)?.name).filter(Boolean) as string[]}
           onClose={() => setEditingCollection(null)}
-          onSubmit={(val) => {
-            updateCollection(val.id, {
-              name: val.name,
-              description: val.description,
-              group: val.group,
-              cover_url: val.cover_url,
-              pinned: val.pinned,
-            })
+          onSubmit={(val, source) => {
+            updateCollection(
+              val.id,
+              {
+                name: val.name,
+                description: val.description,
+                group: val.group,
+                cover_url: val.cover_url,
+                pinned: val.pinned,
+              },
+              `Изменение коллекции «${val.name}»`,
+              'update',
+              source,
+            )
             setEditingCollection(null)
           }}
         />
@@ -517,21 +533,26 @@ export default function CollectionsPage(): React.ReactElement {
           value={editingProduct}
           initialTab={productTab}
           onClose={() => setEditingProduct(null)}
-          onSubmit={(val) => {
-            updateProduct(val.id, {
-              name: val.name,
-              article: val.article,
-              imageKeyword: val.imageKeyword,
-              tech_card: val.tech_card || [],
-            })
+          onSubmit={(val, source) => {
+            updateProduct(
+              val.id,
+              {
+                name: val.name,
+                article: val.article,
+                imageKeyword: val.imageKeyword,
+                tech_card: val.tech_card || [],
+              },
+              `Изменение изделия «${val.name}»`,
+              source,
+            )
             setEditingProduct(null)
           }}
           onDelete={() => {
             deleteProduct(editingProduct.id)
             setEditingProduct(null)
           }}
-          onApplyTechCard={(tc) => {
-            updateProduct(editingProduct.id, { tech_card: tc })
+          onApplyTechCard={(tc, source) => {
+            updateProduct(editingProduct.id, { tech_card: tc }, `Изменение техкарты «${editingProduct.name}»`, source)
           }}
         />
       )}
@@ -539,16 +560,17 @@ export default function CollectionsPage(): React.ReactElement {
       {editorCollection && (
         <DnDEditor
           collection={editorCollection}
-          products={products}
+          products={activeProducts}
           onClose={() => setEditorCollection(null)}
           onApply={(nextOrder) => {
-            updateCollection(editorCollection.id, { product_order: nextOrder })
-            logEvent({
-              action: 'reorder',
-              entity: 'collection',
-              entityId: editorCollection.id,
-              details: { order: nextOrder },
-            })
+            toastUndoable(
+              updateCollection(
+                editorCollection.id,
+                { product_order: nextOrder },
+                `Порядок изделий в «${editorCollection.name}»`,
+                'reorder',
+              ),
+            )
             setEditorCollection(null)
           }}
           onAddProduct={() =>
@@ -589,12 +611,14 @@ function CollectionModal({
   /** Для AI описания — список наименований изделий в коллекции */
   productNames: string[]
   onClose: () => void
-  onSubmit: (val: Collection) => void
+  /** source — 'ai', если описание сгенерировано AI */
+  onSubmit: (val: Collection, source: AuditSource) => void
 }) {
   const [form, setForm] = useState<Collection>(value)
   /** Состояния AI */
   const [aiLoading, setAiLoading] = useState(false)
   const [aiError, setAiError] = useState<string | null>(null)
+  const [aiApplied, setAiApplied] = useState(false)
 
   /** Вызов AI для генерации описания коллекции */
   const doGenerateDescription = useCallback(async () => {
@@ -607,6 +631,7 @@ function CollectionModal({
         productNames: productNames || [],
       })
       setForm((prev) => ({ ...prev, description: desc }))
+      setAiApplied(true)
     } catch (e: any) {
       setAiError(e?.message || 'Не удалось получить описание')
     } finally {
@@ -723,7 +748,7 @@ function CollectionModal({
           </button>
           <button
             className="px-4 py-2 rounded-lg font-medium bg-blue-600 hover:bg-blue-700 text-white"
-            onClick={() => onSubmit(form)}
+            onClick={() => onSubmit(form, aiApplied ? 'ai' : 'ui')}
           >
             Сохранить
           </button>
@@ -748,15 +773,30 @@ function ProductModal({
   value: Product
   initialTab?: 'info' | 'tc'
   onClose: () => void
-  onSubmit: (val: Product) => void
+  /** source — 'ai', если в форму применялись позиции AI-подсказки */
+  onSubmit: (val: Product, source: AuditSource) => void
   onDelete: () => void
-  onApplyTechCard: (tc: TechCardItem[]) => void
+  onApplyTechCard: (tc: TechCardItem[], source: AuditSource) => void
 }) {
   const [form, setForm] = useState<Product>(value)
   const [tab, setTab] = useState<'info' | 'tc'>(initialTab)
-
-  /** Материалы для ТД */
-  const materials = utils.read<Material[]>(LS_KEYS.materials, [])
+  /** Применялись ли позиции из AI-подсказки (для источника в журнале) */
+  const [aiApplied, setAiApplied] = useState(false)
+
+  /** Материалы для ТД (из корзины — только уже стоящие в техкарте) */
+  const materials = useMemo<Material[]>(() => {
+    const used = new Set((value.tech_card || []).map((it) => it.materialId))
+    return StorageService.getMaterials().filter((m) => !m.deleted_at || used.has(m.id))
+  }, [value])
+
+  /** Изделия и сборки для строк ТД */
+  const components = useMemo(
+    () => ({
+      products: withoutDeleted(StorageService.getProducts<Product>()),
+      assemblies: withoutDeleted(StorageService.getAssemblies()),
+    }),
+    [value],
+  )
 
   /** Состояния AI блока */
   const [aiBrief, setAiBrief] = useState<string>('')
@@ -791,9 +831,12 @@ function ProductModal({
       }
 
       if (matched) {
+        // Формула из подсказки принимается, только если она корректна и от габаритов W/H/D
+        const formula = it.formula && !checkFormula(it.formula, FORMULA_VARIABLE_NAMES) ? it.formula : undefined
         resolved.push({
           materialId: matched.id,
           quantity: Number(it.quantity) || 0,
+          ...(formula ? { formula } : {}),
           _techCardId: utils.id(),
         })
       } else {
@@ -816,9 +859,11 @@ function ProductModal({
         price: m.price,
       }))
 
+      const { W, H, D } = dimensionVariables(form)
       const items = await AiService.suggestTechCard({
         productName: form.name || '',
         brief: aiBrief || '',
+        dimensions: W && H && D ? { width: W, height: H, depth: D } : undefined,
         typeName: '', // в этой модалке нет справочника типов — оставим пусто
         finishName: '', // аналогично
         materialsCatalog: catalog,
@@ -834,7 +879,7 @@ function ProductModal({
     } finally {
       setAiLoading(false)
     }
-  }, [materials, form.name, aiBrief, resolveAiItemsToTechCard])
+  }, [materials, form, aiBrief, resolveAiItemsToTechCard])
 
   /** Применить найденные позиции в текущую форму */
   const applyResolvedToForm = useCallback(() => {
@@ -845,7 +890,10 @@ function ProductModal({
     for (const it of base) map.set(it.materialId, it)
     for (const it of aiResolved) {
       const exist = map.get(it.materialId)
-      if (exist) {
+      if (exist?.formula || it.formula) {
+        // Формулы не складываются: количество по формуле подсказки заменяет прежнее
+        map.set(it.materialId, exist ? { ...exist, quantity: it.quantity, formula: it.formula ?? null } : it)
+      } else if (exist) {
         map.set(it.materialId, { ...exist, quantity: (Number(exist.quantity) || 0) + (Number(it.quantity) || 0) })
       } else {
         map.set(it.materialId, it)
@@ -853,6 +901,7 @@ function ProductModal({
     }
     const next = Array.from(map.values())
     setForm({ ...form, tech_card: next })
+    setAiApplied(true)
     // Очистим результаты AI, чтобы не дублировать повторно
     setAiResolved([])
     setAiUnresolved([])
@@ -897,7 +946,7 @@ function ProductModal({
                 e.preventDefault()
                 if (!form.name.trim()) return alert('Укажите наименование')
                 if (!form.article.trim()) return alert('Укажите артикул')
-                onSubmit(form)
+                onSubmit(form, aiApplied ? 'ai' : 'ui')
               }}
             >
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -937,6 +986,28 @@ function ProductModal({
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Габариты, мм (для формул техкарты)</label>
+                <div className="grid grid-cols-3 gap-4">
+                  {DIMENSION_VARIABLES.map((v) => (
+                    <input
+                      key={v.field}
+                      type="text"
+                      inputMode="decimal"
+                      value={form[v.field] ?? ''}
+                      onChange={(e) => {
+                        const n = Number(e.target.value.replace(',', '.'))
+                        const next = { ...form, [v.field]: e.target.value.trim() && n > 0 ? n : null }
+                        setForm({ ...next, tech_card: refreshFormulaQuantities(next.tech_card || [], next) })
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      placeholder={`${v.label} (${v.name})`}
+                      aria-label={`${v.label}, мм`}
+                    />
+                  ))}
+                </div>
+              </div>
+
               <div className="flex justify-between gap-2 pt-2">
                 <button
                   type="button"
@@ -1046,11 +1117,14 @@ function ProductModal({
                 materials={materials}
                 value={form.tech_card || []}
                 onChange={(tc) => setForm({ ...form, tech_card: tc })}
+                product={form}
+                components={components}
+                owner={{ kind: 'product', id: form.id }}
               />
               <div className="flex justify-end gap-2">
                 <button
                   className="px-4 py-2 rounded-lg font-medium bg-white border border-gray-300 hover:bg-gray-50 text-gray-700"
-                  onClick={() => onApplyTechCard(form.tech_card || [])}
+                  onClick={() => onApplyTechCard(form.tech_card || [], aiApplied ? 'ai' : 'ui')}
                 >
                   Сохранить ТД
                 </button>
@@ -1,77 +1,384 @@
 /**
  * Страница "Журнал изменений"
- * Чтение событий из localStorage (wasser_change_log). Если нет событий — показываем подсказку.
+ * Просмотр журнала: фильтры по сущности, действию, источнику и периоду, поиск по названиям и значениям,
+ * постраничный вывод, история отдельной записи и выгрузка отобранных событий в CSV/JSON.
+ * Для событий с отличиями показываются изменённые поля «было → стало».
  */
-import React, { useMemo } from 'react'
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { ChevronLeft, ChevronRight, Download, History, Search, X } from 'lucide-react'
+import Modal from '../components/common/Modal'
+import {
+  LS_KEYS,
+  StorageService,
+  type AuditAction,
+  type AuditEntity,
+  type AuditEvent,
+  type AuditSource,
+} from '../services/storage'
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  AUDIT_SOURCE_LABELS,
+  auditEventsToCsv,
+  entityTimeline,
+  filterAuditEvents,
+  formatAuditValue,
+  type AuditFilter,
+} from '../services/audit'
+
+/** Событий на странице */
+const PAGE_SIZE = 50
+
+/** Пустой фильтр */
+const EMPTY_FILTER: AuditFilter = { entity: '', action: '', source: '', from: '', to: '', text: '' }
+
+/** Выбранная запись для истории */
+interface TimelineTarget {
+  entity: AuditEntity
+  entityId: string
+  name: string
+}
 
 /**
- * Тип события журнала
+ * Скачать текст файлом
  */
-interface AuditEvent {
-  id: string
-  at: number
-  action: string
-  entity: 'material' | 'product' | 'collection' | 'system' | string
-  entityId?: string
-  details?: any
-  version?: string
+function downloadText(text: string, filename: string, type: string): void {
+  const blob = new Blob([text], { type })
+  const url = URL.createObjectURL(blob)
+
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+/** Подпись с запасным значением для записей старого формата */
+function labelOf<K extends string>(labels: Record<K, string>, key: string): string {
+  return (labels as Record<string, string>)[key] || key
 }
 
 /**
- * Безопасное чтение журнала из localStorage
+ * Изменения события (или доп. данные для событий без отличий)
  */
-function readLog(): AuditEvent[] {
-  try {
-    const raw = localStorage.getItem('wasser_change_log')
-    const data = raw ? JSON.parse(raw) : []
-    return Array.isArray(data) ? data : []
-  } catch {
-    return []
+function EventChanges({ event }: { event: AuditEvent }): React.ReactElement {
+  if (event.changes && event.changes.length > 0) {
+    return (
+      <ul className="space-y-0.5 text-xs">
+        {event.changes.map((c) => (
+          <li key={c.field}>
+            <span className="text-gray-600">{c.label}:</span>{' '}
+            <span className="text-red-600 line-through">{formatAuditValue(c.from)}</span>
+            {' → '}
+            <span className="text-green-700">{formatAuditValue(c.to)}</span>
+          </li>
+        ))}
+      </ul>
+    )
   }
+  if (!event.details) return <span>—</span>
+  return <pre className="whitespace-pre-wrap break-words text-xs">{JSON.stringify(event.details, null, 2)}</pre>
+}
+
+/**
+ * Панель фильтров
+ */
+function FiltersBar({
+  value,
+  onChange,
+  total,
+  found,
+  onExportCsv,
+  onExportJson,
+}: {
+  value: AuditFilter
+  onChange: (next: AuditFilter) => void
+  total: number
+  found: number
+  onExportCsv: () => void
+  onExportJson: () => void
+}): React.ReactElement {
+  const set = (patch: Partial<AuditFilter>) => onChange({ ...value, ...patch })
+  const selectClass = 'px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm'
+  const dirty = Object.values(value).some(Boolean)
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4 space-y-3">
+      <div className="relative">
+        <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+        <input
+          value={value.text}
+          onChange={(e) => set({ text: e.target.value })}
+          placeholder="Поиск: название, автор, поле, значение («ЛДСП 1450»)"
+          className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={value.entity} onChange={(e) => set({ entity: e.target.value as AuditEntity | '' })} className={selectClass}>
+          <option value="">Все сущности</option>
+          {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntity[]).map((k) => (
+            <option key={k} value={k}>
+              {AUDIT_ENTITY_LABELS[k]}
+            </option>
+          ))}
+        </select>
+        <select value={value.action} onChange={(e) => set({ action: e.target.value as AuditAction | '' })} className={selectClass}>
+          <option value="">Все действия</option>
+          {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map((k) => (
+            <option key={k} value={k}>
+              {AUDIT_ACTION_LABELS[k]}
+            </option>
+          ))}
+        </select>
+        <select value={value.source} onChange={(e) => set({ source: e.target.value as AuditSource | '' })} className={selectClass}>
+          <option value="">Все источники</option>
+          {(Object.keys(AUDIT_SOURCE_LABELS) as AuditSource[]).map((k) => (
+            <option key={k} value={k}>
+              {AUDIT_SOURCE_LABELS[k]}
+            </option>
+          ))}
+        </select>
+        <label className="inline-flex items-center gap-1 text-sm text-gray-600">
+          с
+          <input type="date" value={value.from} onChange={(e) => set({ from: e.target.value })} className={selectClass} />
+        </label>
+        <label className="inline-flex items-center gap-1 text-sm text-gray-600">
+          по
+          <input type="date" value={value.to} onChange={(e) => set({ to: e.target.value })} className={selectClass} />
+        </label>
+        {dirty && (
+          <button
+            type="button"
+            onClick={() => onChange(EMPTY_FILTER)}
+            className="inline-flex items-center gap-1 px-3 py-2 rounded-lg text-sm text-gray-600 hover:bg-gray-50"
+          >
+            <X size={14} />
+            Сбросить
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-gray-600">
+          Найдено: <span className="font-semibold text-gray-900">{found}</span> из {total}
+        </div>
+        <div className="flex items-center gap-2">
+          {[
+            { label: 'CSV', onClick: onExportCsv },
+            { label: 'JSON', onClick: onExportJson },
+          ].map((b) => (
+            <button
+              key={b.label}
+              type="button"
+              onClick={b.onClick}
+              disabled={found === 0}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 text-sm text-gray-800 disabled:opacity-50"
+            >
+              <Download size={14} />
+              {b.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Строка события
+ */
+function EventRow({
+  event,
+  onOpenTimeline,
+}: {
+  event: AuditEvent
+  onOpenTimeline: (target: TimelineTarget) => void
+}): React.ReactElement {
+  const e = event
+  return (
+    <tr className="border-t border-gray-100 hover:bg-gray-50 align-top">
+      <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">{new Date(e.at).toLocaleString('ru-RU')}</td>
+      <td className="px-4 py-3 text-sm text-gray-700">
+        <div>{e.actor || '—'}</div>
+        {e.source && <div className="text-xs text-gray-500">{labelOf(AUDIT_SOURCE_LABELS, e.source)}</div>}
+      </td>
+      <td className="px-4 py-3 text-sm text-gray-700">
+        <div>{labelOf(AUDIT_ENTITY_LABELS, e.entity)}</div>
+        {e.entityId ? (
+          <button
+            type="button"
+            onClick={() => onOpenTimeline({ entity: e.entity, entityId: e.entityId!, name: e.entityName || e.entityId! })}
+            className="text-xs text-blue-600 hover:underline text-left"
+            title="История записи"
+          >
+            {e.entityName || e.entityId.slice(0, 8)}
+          </button>
+        ) : (
+          e.entityName && <div className="text-xs text-gray-500">{e.entityName}</div>
+        )}
+      </td>
+      <td className="px-4 py-3 text-sm text-gray-700">{labelOf(AUDIT_ACTION_LABELS, e.action)}</td>
+      <td className="px-4 py-3 text-sm text-gray-500">
+        <EventChanges event={e} />
+      </td>
+    </tr>
+  )
+}
+
+/**
+ * История записи
+ */
+function TimelineModal({
+  target,
+  events,
+  onClose,
+}: {
+  target: TimelineTarget | null
+  events: AuditEvent[]
+  onClose: () => void
+}): React.ReactElement | null {
+  const list = useMemo(
+    () => (target ? entityTimeline(events, target.entity, target.entityId) : []),
+    [events, target],
+  )
+  if (!target) return null
+  return (
+    <Modal open title={`История: ${target.name}`} onClose={onClose}>
+      {list.length === 0 ? (
+        <div className="text-sm text-gray-600">Событий по записи нет.</div>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-4 max-h-[60vh] overflow-y-auto pr-2">
+          {list.map((e) => (
+            <li key={e.id} className="ml-4">
+              <div className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-blue-600 border-2 border-white" />
+              <div className="text-xs text-gray-500">
+                {new Date(e.at).toLocaleString('ru-RU')} · {e.actor || '—'}
+                {e.source ? ` · ${labelOf(AUDIT_SOURCE_LABELS, e.source)}` : ''}
+              </div>
+              <div className="text-sm font-medium text-gray-900">{labelOf(AUDIT_ACTION_LABELS, e.action)}</div>
+              <div className="mt-1 text-gray-500">
+                <EventChanges event={e} />
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </Modal>
+  )
 }
 
 /**
  * JournalPage — страница журнала изменений
  */
 export default function JournalPage(): React.ReactElement {
-  const events = useMemo(() => readLog(), [])
+  const [events, setEvents] = useState<AuditEvent[]>(() => StorageService.getAudit())
+  const [filter, setFilter] = useState<AuditFilter>(EMPTY_FILTER)
+  const [page, setPage] = useState(0)
+  const [timeline, setTimeline] = useState<TimelineTarget | null>(null)
+
+  // Новые события (в т.ч. из других вкладок) появляются без перезагрузки
+  useEffect(
+    () =>
+      StorageService.onChange((key) => {
+        if (key === LS_KEYS.audit) setEvents(StorageService.getAudit())
+      }),
+    [],
+  )
+
+  const filtered = useMemo(() => filterAuditEvents(events, filter), [events, filter])
+  const pages = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE))
+  const current = Math.min(page, pages - 1)
+  const visible = filtered.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE)
+
+  const changeFilter = useCallback((next: AuditFilter) => {
+    setFilter(next)
+    setPage(0)
+  }, [])
+
+  const stamp = () => new Date().toISOString().slice(0, 10)
+  const exportCsv = useCallback(() => {
+    downloadText('\uFEFF' + auditEventsToCsv(filtered), `journal_${stamp()}.csv`, 'text/csv;charset=utf-8;')
+  }, [filtered])
+  const exportJson = useCallback(() => {
+    downloadText(JSON.stringify(filtered, null, 2), `journal_${stamp()}.json`, 'application/json;charset=utf-8')
+  }, [filtered])
+
   return (
-    <div className="max-w-6xl mx-auto px-6 py-8">
-      <h1 className="text-2xl font-bold text-gray-900">Журнал изменений</h1>
+    <div className="max-w-6xl mx-auto px-6 py-8 space-y-4">
+      <h1 className="text-2xl font-bold text-gray-900 inline-flex items-center gap-2">
+        <History size={22} />
+        Журнал изменений
+      </h1>
       {events.length === 0 ? (
-        <div className="mt-4 bg-white border border-gray-200 rounded-xl p-5 text-gray-600">
+        <div className="bg-white border border-gray-200 rounded-xl p-5 text-gray-600">
           Журнал пуст. Операции (создание/редактирование/архив/перетаскивание) будут фиксироваться здесь.
         </div>
       ) : (
-        <div className="mt-4 bg-white border border-gray-200 rounded-xl p-0 overflow-hidden">
-          <table className="min-w-full">
-            <thead className="bg-gray-50">
-              <tr>
-                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Время</th>
-                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Сущность</th>
-                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Действие</th>
-                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Детали</th>
-              </tr>
-            </thead>
-            <tbody>
-              {events.map((e) => (
-                <tr key={e.id} className="border-t border-gray-100 hover:bg-gray-50">
-                  <td className="px-4 py-3 text-sm text-gray-900">
-                    {new Date(e.at).toLocaleString('ru-RU')}
-                  </td>
-                  <td className="px-4 py-3 text-sm text-gray-700">{e.entity}</td>
-                  <td className="px-4 py-3 text-sm text-gray-700">{e.action}</td>
-                  <td className="px-4 py-3 text-sm text-gray-500">
-                    <pre className="whitespace-pre-wrap break-words text-xs">
-                      {JSON.stringify(e.details ?? {}, null, 2)}
-                    </pre>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
+        <>
+          <FiltersBar
+            value={filter}
+            onChange={changeFilter}
+            total={events.length}
+            found={filtered.length}
+            onExportCsv={exportCsv}
+            onExportJson={exportJson}
+          />
+
+          {filtered.length === 0 ? (
+            <div className="bg-white border border-gray-200 rounded-xl p-5 text-gray-600">
+              Нет событий, подходящих под фильтр.
+            </div>
+          ) : (
+            <div className="bg-white border border-gray-200 rounded-xl p-0 overflow-x-auto">
+              <table className="min-w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Время</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Кто</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Сущность</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Действие</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Изменения</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.map((e) => (
+                    <EventRow key={e.id} event={e} onOpenTimeline={setTimeline} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {pages > 1 && (
+            <div className="flex items-center justify-center gap-3 text-sm text-gray-700">
+              <button
+                type="button"
+                onClick={() => setPage(current - 1)}
+                disabled={current === 0}
+                className="p-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50"
+                aria-label="Предыдущая страница"
+              >
+                <ChevronLeft size={16} />
+              </button>
+              <span>
+                Страница {current + 1} из {pages}
+              </span>
+              <button
+                type="button"
+                onClick={() => setPage(current + 1)}
+                disabled={current >= pages - 1}
+                className="p-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50"
+                aria-label="Следующая страница"
+              >
+                <ChevronRight size={16} />
+              </button>
+            </div>
+          )}
+        </>
       )}
+
+      <TimelineModal target={timeline} events={events} onClose={() => setTimeline(null)} />
     </div>
   )
 }
@@ -0,0 +1,198 @@
+/**
+ * Страница "Маржа"
+ * Отчёт по изделиям: себестоимость, цена без налога, наценка и валовая маржа.
+ * Подбор наценки типа изделия под целевую маржу или целевую цену (MarkupSolverPanel).
+ */
+
+import React, { useCallback, useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import type { Assembly, Material, PriceSettings, Product } from '../types/models'
+import { LS_KEYS, StorageService, withoutDeleted } from '../services/storage'
+import { PriceVersions } from '../services/priceVersions'
+import { useRepository } from '../hooks/useRepository'
+import { useLocaleFormat } from '../hooks/useLocaleFormat'
+import { pricingCurrency, useCurrencyConfig } from '../services/currency'
+import { createPriceCalculator, type MarkupTarget, type PriceBreakdown } from '../lib/pricing'
+import MarkupSolverPanel from '../components/margins/MarkupSolverPanel'
+
+/** Сортировка отчёта */
+type SortKey = 'name' | 'marginAsc' | 'marginDesc'
+
+/** Строка отчёта */
+interface MarginRow {
+  product: Product
+  prices: PriceBreakdown
+}
+
+/** Процент с одним знаком */
+const pct = (v: number) => `${v.toFixed(1)}%`
+
+/**
+ * Компонент страницы
+ */
+export default function MarginsPage(): React.ReactElement {
+  const currencyCfg = useCurrencyConfig()
+  const { formatCurrency } = useLocaleFormat(currencyCfg.base)
+  const [materials] = useRepository<Material[]>(LS_KEYS.materials, () => StorageService.getMaterials())
+  const [products] = useRepository<Product[]>(LS_KEYS.products, () => withoutDeleted(StorageService.getProducts<Product>()))
+  const [assemblies] = useRepository<Assembly[]>(LS_KEYS.assemblies, () => withoutDeleted(StorageService.getAssemblies()))
+  const components = useMemo(() => ({ products, assemblies }), [products, assemblies])
+  const [priceSettings] = useRepository<PriceSettings>(LS_KEYS.priceSettings, () => StorageService.getPriceSettings())
+  const settings = useMemo(() => ({ ...priceSettings, currency: pricingCurrency(currencyCfg) }), [priceSettings, currencyCfg])
+
+  const [typeFilter, setTypeFilter] = useState('')
+  const [sort, setSort] = useState<SortKey>('marginAsc')
+
+  // Изделия без себестоимости (без техкарты) в отчёт не входят: маржа у них не определена
+  const rows = useMemo(() => {
+    const priceOf = createPriceCalculator(materials, settings, components)
+    return products.map((product): MarginRow => ({ product, prices: priceOf(product) })).filter((r) => r.prices.basePrice > 0)
+  }, [products, materials, settings, components])
+
+  const view = useMemo(() => {
+    const list = typeFilter ? rows.filter((r) => r.product.product_type_id === typeFilter) : rows.slice()
+    if (sort === 'name') return list.sort((a, b) => a.product.name.localeCompare(b.product.name, 'ru'))
+    const dir = sort === 'marginAsc' ? 1 : -1
+    return list.sort((a, b) => dir * (a.prices.marginPercent - b.prices.marginPercent))
+  }, [rows, typeFilter, sort])
+
+  const totals = useMemo(() => {
+    const cost = view.reduce((s, r) => s + r.prices.basePrice, 0)
+    const net = view.reduce((s, r) => s + r.prices.priceNet, 0)
+    return {
+      cost,
+      net,
+      markup: cost > 0 ? ((net - cost) / cost) * 100 : 0,
+      margin: net > 0 ? ((net - cost) / net) * 100 : 0,
+    }
+  }, [view])
+
+  const unpriced = products.length - rows.length
+
+  /** Опубликовать подобранную наценку типа: новая версия настроек цен, действует сразу */
+  const applyMarkup = useCallback(async (typeId: string, markup: number, target: MarkupTarget, affected: number) => {
+    const before = StorageService.getPriceSettings()
+    const type = before.productTypes.find((t) => t.id === typeId)
+    if (!type) return
+    const after: PriceSettings = {
+      ...before,
+      productTypes: before.productTypes.map((t) => (t.id === typeId ? { ...t, markup } : t)),
+    }
+    try {
+      await PriceVersions.publish(after, {
+        note: `Подбор наценки «${type.name}»`,
+        details: { target, affectedProducts: affected },
+      })
+    } catch (e: any) {
+      toast.error(e?.message || 'Не удалось сохранить наценку')
+      return
+    }
+    toast.success(`Наценка «${type.name}»: ${markup}%. Изменились цены изделий: ${affected}`)
+  }, [])
+
+  return (
+    <div className="max-w-6xl mx-auto px-6 py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Маржа</h1>
+        <p className="text-gray-600 mt-1">
+          Наценка считается к себестоимости, маржа — от цены без налога: наценка 50% даёт маржу 33,3%.
+        </p>
+      </div>
+
+      <MarkupSolverPanel
+        products={products}
+        materials={materials}
+        settings={settings}
+        components={components}
+        onApply={applyMarkup}
+      />
+
+      <div className="bg-white border border-gray-200 rounded-xl p-5 space-y-4">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Отчёт по изделиям</h2>
+            <p className="text-sm text-gray-600">
+              Изделий: {view.length}
+              {unpriced > 0 && <span className="text-gray-500"> · без техкарты (не входят в отчёт): {unpriced}</span>}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm"
+              aria-label="Тип изделия"
+            >
+              <option value="">Все типы</option>
+              {priceSettings.productTypes.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as SortKey)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 bg-white text-sm"
+              aria-label="Сортировка"
+            >
+              <option value="marginAsc">Сначала низкая маржа</option>
+              <option value="marginDesc">Сначала высокая маржа</option>
+              <option value="name">По названию</option>
+            </select>
+          </div>
+        </div>
+
+        {view.length === 0 ? (
+          <p className="text-sm text-gray-500">Нет изделий с себестоимостью.</p>
+        ) : (
+          <div className="overflow-auto border border-gray-200 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  <th className="text-left px-3 py-2 font-medium">Изделие</th>
+                  <th className="text-left px-3 py-2 font-medium">Тип / отделка</th>
+                  <th className="text-right px-3 py-2 font-medium">Себестоимость</th>
+                  <th className="text-right px-3 py-2 font-medium">Цена без налога</th>
+                  <th className="text-right px-3 py-2 font-medium">Наценка</th>
+                  <th className="text-right px-3 py-2 font-medium">Маржа</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {view.map(({ product, prices }) => (
+                  <tr key={product.id} className="hover:bg-gray-50">
+                    <td className="px-3 py-2">
+                      <div className="text-gray-900">{product.name}</div>
+                      <div className="text-xs text-gray-500 font-mono">{product.article || '—'}</div>
+                    </td>
+                    <td className="px-3 py-2 text-gray-700">
+                      {prices.productType?.name || 'Без типа'}
+                      {prices.finishType && <span className="text-gray-500"> / {prices.finishType.name}</span>}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-700">{formatCurrency(prices.basePrice)}</td>
+                    <td className="px-3 py-2 text-right text-gray-900">{formatCurrency(prices.priceNet)}</td>
+                    <td className="px-3 py-2 text-right text-gray-700">{pct(prices.markupPercent)}</td>
+                    <td className={`px-3 py-2 text-right font-medium ${prices.marginPercent < 0 ? 'text-red-700' : 'text-gray-900'}`}>
+                      {pct(prices.marginPercent)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50 font-semibold text-gray-900">
+                <tr>
+                  <td className="px-3 py-2" colSpan={2}>
+                    Итого
+                  </td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(totals.cost)}</td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(totals.net)}</td>
+                  <td className="px-3 py-2 text-right">{pct(totals.markup)}</td>
+                  <td className="px-3 py-2 text-right">{pct(totals.margin)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,73 +3,33 @@
  * Функции:
  * - Просмотр, поиск, добавление, удаление материалов
  * - Импорт/экспорт CSV (UTF-8 с BOM)
- * - KGS как базовая валюта, форматирование через useLocaleFormat
+ * - Базовая валюта из настроек валют, форматирование через useLocaleFormat
  * - Тост‑уведомления на все ключевые действия
+ * - История цен: спарклайн на карточке материала
+ * - Изменение цены с анализом влияния на цены изделий
+ * - Отход при раскрое по умолчанию (% к расходу в техкартах)
+ * - Валюта закупки: цена в валюте поставщика, пересчёт в базовую по курсам из настроек
  */
 
 import React, { memo, useCallback, useMemo, useState } from 'react'
 import { Layers, Plus, Upload, Download, Search } from 'lucide-react'
-import type { Material } from '../types/models'
+import type { Material, MaterialPricePoint, Product } from '../types/models'
 import { useLocaleFormat } from '../hooks/useLocaleFormat'
 import { toast } from 'sonner'
-
-/**
- * Поддерживаемые ключи localStorage для чтения (совместимость со старыми версиями)
- */
-const LS_READ_KEYS = ['wasser_materials', 'wasser_materials_data'] as const
-/**
- * Ключ для записи материалов
- */
-const LS_WRITE_KEY = 'wasser_materials'
-
-/**
- * Безопасное чтение массива из localStorage
- */
-function readArrayFromLS<T = unknown>(keys: readonly string[], fallback: T[]): T[] {
-  for (const key of keys) {
-    try {
-      const raw = localStorage.getItem(key)
-      if (raw) {
-        const parsed = JSON.parse(raw) as T[]
-        if (Array.isArray(parsed)) return parsed
-      }
-    } catch {
-      // ignore
-    }
-  }
-  return fallback
-}
-
-/**
- * Безопасная запись массива в localStorage
- */
-function writeArrayToLS<T = unknown>(key: string, value: T[]): void {
-  try {
-    localStorage.setItem(key, JSON.stringify(value))
-  } catch {
-    // ignore
-  }
-}
-
-/**
- * Преобразование произвольной записи к Material (минимальная нормализация)
- */
-function coerceMaterial(x: any): Material | null {
-  if (!x || typeof x !== 'object') return null
-  const id = String(x.id ?? (typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : Date.now().toString(36)))
-  const name = String(x.name ?? '').trim()
-  const article = String(x.article ?? '').trim()
-  const unit = String(x.unit ?? 'шт')
-  const price = Number(x.price ?? 0)
-  const created_at = String(x.created_at ?? new Date().toISOString())
-  const updated_at = String(x.updated_at ?? new Date().toISOString())
-  if (!name) return null
-  return { id, name, article, unit, price, created_at, updated_at }
-}
+import { LS_KEYS, StorageService, normalizeMaterial, withoutDeleted } from '../services/storage'
+import { useRepository } from '../hooks/useRepository'
+import { HistoryService, diffList } from '../services/history'
+import { toastUndoable } from '../components/common/HistoryHotkeys'
+import { findMaterialUsage, markDeleted, usageWarning } from '../services/trash'
+import { AuditService } from '../services/audit'
+import { PriceHistory } from '../services/priceHistory'
+import PriceChangeDialog from '../components/materials/PriceChangeDialog'
+import { pricingCurrency, useCurrencyConfig, type CurrencyConfig } from '../services/currency'
+import { purchaseCurrencyOf, toBaseCurrency } from '../lib/pricing'
 
 /**
  * Парсинг CSV -> массив Material
- * Формат колонок: name,article,unit,price (простая CSV-логика с учётом кавычек)
+ * Формат колонок: name,article,unit,price[,waste_percent[,currency]] (простая CSV-логика с учётом кавычек)
  */
 function parseCsvToMaterials(csv: string): Material[] {
   const lines = csv
@@ -91,12 +51,15 @@ function parseCsvToMaterials(csv: string): Material[] {
       continue
     }
 
-    const mat = coerceMaterial({
+    const mat = normalizeMaterial({
       name: cols[0] ?? '',
       article: cols[1] ?? '',
       unit: cols[2] ?? 'шт',
       price: cols[3] ?? 0,
     })
+    // Пустая колонка отхода не затирает отход существующего материала при слиянии
+    if (mat && cols[4]) mat.waste_percent = Math.max(0, Number(cols[4].replace(',', '.')) || 0)
+    if (mat && cols[5]) mat.currency = cols[5].toUpperCase()
     if (mat) out.push(mat)
   }
   return out
@@ -106,8 +69,8 @@ function parseCsvToMaterials(csv: string): Material[] {
  * Экспорт массива Material в CSV (UTF-8 с BOM для кириллицы)
  */
 function exportMaterialsCsv(items: Material[]): void {
-  const header = ['name', 'article', 'unit', 'price']
-  const rows = items.map((m) => [m.name, m.article, m.unit, String(m.price)])
+  const header = ['name', 'article', 'unit', 'price', 'waste_percent', 'currency']
+  const rows = items.map((m) => [m.name, m.article, m.unit, String(m.price), String(m.waste_percent ?? 0), m.currency ?? ''])
   const csv = [header, ...rows]
     .map((r) => r.map((c) => `"${String(c).replace(/"/g, '""')}"`).join(','))
     .join('\n')
@@ -217,17 +180,91 @@ function ActionsBar({
   )
 }
 
+/**
+ * Спарклайн истории цены (по точкам истории, равномерно по шкале времени)
+ */
+function PriceSparkline({ history, currency }: { history: MaterialPricePoint[]; currency: string }): React.ReactElement | null {
+  const { formatCurrency } = useLocaleFormat(currency)
+  if (history.length < 2) return null
+  const W = 96
+  const H = 24
+  const times = history.map((p) => Date.parse(p.effective_at) || 0)
+  const prices = history.map((p) => Number(p.price) || 0)
+  const t0 = Math.min(...times)
+  const t1 = Math.max(...times)
+  const lo = Math.min(...prices)
+  const hi = Math.max(...prices)
+  const x = (t: number) => (t1 > t0 ? ((t - t0) / (t1 - t0)) * (W - 2) + 1 : W / 2)
+  const y = (v: number) => (hi > lo ? H - 2 - ((v - lo) / (hi - lo)) * (H - 4) : H / 2)
+  const first = prices[0]
+  const last = prices[prices.length - 1]
+  const change = first > 0 ? ((last - first) / first) * 100 : 0
+  const color = last > first ? '#dc2626' : last < first ? '#16a34a' : '#6b7280'
+  const title = [
+    ...history.map((p) => `${new Date(p.effective_at).toLocaleDateString('ru-RU')}: ${formatCurrency(Number(p.price) || 0, p.currency || currency)}`),
+    `Изменение: ${change > 0 ? '+' : ''}${change.toFixed(1)}%`,
+  ].join('\n')
+
+  return (
+    <span className="inline-flex items-center gap-1" title={title}>
+      <svg width={W} height={H} viewBox={`0 0 ${W} ${H}`} aria-label="История цены">
+        <polyline
+          fill="none"
+          stroke={color}
+          strokeWidth={1.5}
+          points={history.map((_, i) => `${x(times[i]).toFixed(1)},${y(prices[i]).toFixed(1)}`).join(' ')}
+        />
+      </svg>
+      <span className="text-[11px]" style={{ color }}>
+        {change > 0 ? '+' : ''}
+        {change.toFixed(1)}%
+      </span>
+    </span>
+  )
+}
+
+/**
+ * Валюты для выбора валюты закупки: базовая, дополнительные, с курсами и текущая валюта материала
+ */
+function currencyCodes(cfg: CurrencyConfig, current?: string): string[] {
+  const rest = new Set([...cfg.extras, ...Object.keys(cfg.rates || {}), ...(current ? [current] : [])])
+  rest.delete(cfg.base)
+  return [cfg.base, ...Array.from(rest).sort()]
+}
+
 /**
  * Карточка материала
  */
 const MaterialCard = memo(function MaterialCard({
   item,
+  history,
+  currencyCfg,
+  onEditPrice,
+  onPatch,
   onDelete,
 }: {
   item: Material
+  history: MaterialPricePoint[]
+  currencyCfg: CurrencyConfig
+  onEditPrice: (id: string) => void
+  onPatch: (id: string, patch: Partial<Material>) => void
   onDelete: (id: string) => void
 }): React.ReactElement {
-  const { formatCurrency } = useLocaleFormat('KGS')
+  const { formatCurrency } = useLocaleFormat(currencyCfg.base)
+  const currency = pricingCurrency(currencyCfg)
+  const code = purchaseCurrencyOf(item, currency)
+  const inBase = code ? toBaseCurrency(Number(item.price) || 0, code, currency) : null
+  const codes = currencyCodes(currencyCfg, item.currency)
+  const waste = Number(item.waste_percent) || 0
+  const [wasteDraft, setWasteDraft] = useState<string | null>(null)
+
+  /** Сохранить отход (blur/Enter) */
+  const commitWaste = (raw: string) => {
+    setWasteDraft(null)
+    const next = Math.max(0, Number(raw.replace(',', '.')) || 0)
+    if (next !== waste) onPatch(item.id, { waste_percent: next })
+  }
+
   return (
     <div className="p-4 rounded-xl border border-gray-200 bg-white hover:shadow-sm transition-all">
       <div className="flex items-start justify-between gap-3">
@@ -236,21 +273,71 @@ const MaterialCard = memo(function MaterialCard({
           <div className="text-xs text-gray-500 font-mono">{item.article || '—'}</div>
         </div>
         <div className="text-right">
-          <div className="text-sm font-bold text-blue-600">{formatCurrency(item.price)}</div>
+          <div className="text-sm font-bold text-blue-600">{formatCurrency(item.price, code ?? currencyCfg.base)}</div>
+          {code &&
+            (inBase == null ? (
+              <div className="text-[11px] text-amber-700" title="Укажите курс в Настройках">
+                нет курса {code}
+              </div>
+            ) : (
+              <div className="text-[11px] text-gray-500">≈ {formatCurrency(inBase)}</div>
+            ))}
           <div className="text-[11px] text-gray-400">{item.unit || 'шт'}</div>
         </div>
       </div>
+      <div className="mt-2 flex items-center justify-between gap-2">
+        <label className="inline-flex items-center gap-1 text-xs text-gray-600" title="Отход при раскрое, % к расходу в техкартах">
+          Отход, %
+          <input
+            type="text"
+            inputMode="decimal"
+            value={wasteDraft ?? String(waste)}
+            onChange={(e) => setWasteDraft(e.target.value)}
+            onBlur={(e) => commitWaste(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitWaste((e.currentTarget as HTMLInputElement).value)
+            }}
+            className="w-14 px-1.5 py-0.5 rounded border border-gray-300 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            aria-label="Отход, %"
+          />
+        </label>
+        <select
+          value={code ?? currencyCfg.base}
+          onChange={(e) => onPatch(item.id, { currency: e.target.value === currencyCfg.base ? undefined : e.target.value })}
+          className="px-1.5 py-0.5 rounded border border-gray-300 text-xs bg-white"
+          title="Валюта закупки"
+          aria-label="Валюта закупки"
+        >
+          {codes.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        {history.length > 1 && <PriceSparkline history={history} currency={code ?? currencyCfg.base} />}
+      </div>
       <div className="mt-3 text-xs text-gray-500 flex items-center justify-between">
         <span>Создано: {new Date(item.created_at).toLocaleDateString('ru-RU')}</span>
-        <button
-          type="button"
-          onClick={() => onDelete(item.id)}
-          className="px-2 py-1 rounded-md border border-gray-300 bg-white hover:bg-gray-50 text-gray-700"
-          title="Удалить материал"
-          aria-label="Удалить материал"
-        >
-          Удалить
-        </button>
+        <span className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => onEditPrice(item.id)}
+            className="px-2 py-1 rounded-md border border-gray-300 bg-white hover:bg-gray-50 text-gray-700"
+            title="Изменить цену"
+            aria-label="Изменить цену"
+          >
+            Цена
+          </button>
+          <button
+            type="button"
+            onClick={() => onDelete(item.id)}
+            className="px-2 py-1 rounded-md border border-gray-300 bg-white hover:bg-gray-50 text-gray-700"
+            title="Удалить материал"
+            aria-label="Удалить материал"
+          >
+            Удалить
+          </button>
+        </span>
       </div>
     </div>
   )
@@ -260,9 +347,11 @@ const MaterialCard = memo(function MaterialCard({
  * Форма добавления материала (инлайн)
  */
 function AddMaterialForm({
+  currencyCfg,
   onSubmit,
   onCancel,
 }: {
+  currencyCfg: CurrencyConfig
   onSubmit: (payload: Omit<Material, 'id' | 'created_at' | 'updated_at'>) => void
   onCancel: () => void
 }): React.ReactElement {
@@ -270,6 +359,8 @@ function AddMaterialForm({
   const [article, setArticle] = useState('')
   const [unit, setUnit] = useState('шт')
   const [price, setPrice] = useState<number>(0)
+  const [waste, setWaste] = useState<number>(0)
+  const [currency, setCurrency] = useState(currencyCfg.base)
 
   /** Отправка формы добавления нового материала */
   const submit = useCallback(() => {
@@ -282,12 +373,14 @@ function AddMaterialForm({
       article: article.trim(),
       unit: unit.trim() || 'шт',
       price: Number(price) || 0,
+      waste_percent: Math.max(0, Number(waste) || 0),
+      currency: currency === currencyCfg.base ? undefined : currency,
     } as any)
-  }, [name, article, unit, price, onSubmit])
+  }, [name, article, unit, price, waste, currency, currencyCfg.base, onSubmit])
 
   return (
     <div className="rounded-xl border border-dashed border-gray-300 bg-white p-4">
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-3">
         <div>
           <label className="block text-xs text-gray-600 mb-1">Название</label>
           <input
@@ -316,7 +409,7 @@ function AddMaterialForm({
           />
         </div>
         <div>
-          <label className="block text-xs text-gray-600 mb-1">Цена (KGS)</label>
+          <label className="block text-xs text-gray-600 mb-1">Цена закупки</label>
           <input
             type="number"
             step="0.01"
@@ -326,6 +419,32 @@ function AddMaterialForm({
             placeholder="0"
           />
         </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Валюта</label>
+          <select
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+            className="w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 bg-white"
+          >
+            {currencyCodes(currencyCfg).map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Отход, %</label>
+          <input
+            type="number"
+            min={0}
+            step="0.5"
+            value={Number.isFinite(waste) ? waste : 0}
+            onChange={(e) => setWaste(parseFloat(e.target.value || '0'))}
+            className="w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500"
+            placeholder="0"
+          />
+        </div>
       </div>
       <div className="mt-3 flex items-center gap-2">
         <button
@@ -347,70 +466,126 @@ function AddMaterialForm({
   )
 }
 
+/** Пустая история (одна ссылка — не сбивает memo карточек) */
+const NO_HISTORY: MaterialPricePoint[] = []
+
 /**
  * MaterialsPage — основной компонент страницы
  */
 export default function MaterialsPage(): React.ReactElement {
   const [search, setSearch] = useState('')
   const [adding, setAdding] = useState(false)
+  const [pricingId, setPricingId] = useState<string | null>(null)
+  const currencyCfg = useCurrencyConfig()
+
+  /** Материалы из репозитория: изменения сохраняются, правки из других вкладок подхватываются */
+  const [items, setItems] = useRepository<Material[]>(
+    LS_KEYS.materials,
+    () => StorageService.getMaterials(),
+    (list) => StorageService.saveMaterials(list),
+  )
+
+  /** История цен по материалам */
+  const [pricePoints] = useRepository<MaterialPricePoint[]>(LS_KEYS.materialPrices, () => PriceHistory.getAll())
+  const historyById = useMemo(() => {
+    const map = new Map<string, MaterialPricePoint[]>()
+    for (const p of pricePoints) {
+      const list = map.get(p.material_id)
+      if (list) list.push(p)
+      else map.set(p.material_id, [p])
+    }
+    map.forEach((list) => list.sort((a, b) => a.effective_at.localeCompare(b.effective_at)))
+    return map
+  }, [pricePoints])
 
-  /** Начальная загрузка из localStorage с поддержкой нескольких ключей */
-  const [items, setItems] = useState<Material[]>(() => {
-    const raw = readArrayFromLS<any>(LS_READ_KEYS as unknown as string[], [])
-    const normalized = raw.map(coerceMaterial).filter(Boolean) as Material[]
-    return normalized
-  })
+  /** Материалы вне корзины */
+  const active = useMemo(() => withoutDeleted(items), [items])
 
   /** Отфильтрованный список материалов */
   const filtered = useMemo(() => {
     const t = search.trim().toLowerCase()
-    if (!t) return items
-    return items.filter((m) => m.name.toLowerCase().includes(t) || m.article.toLowerCase().includes(t))
-  }, [items, search])
-
-  /** Сохранить текущее состояние в localStorage */
-  const persist = useCallback(
-    (next: Material[]) => {
-      writeArrayToLS(LS_WRITE_KEY, next)
-    },
-    [],
-  )
+    if (!t) return active
+    return active.filter((m) => m.name.toLowerCase().includes(t) || m.article.toLowerCase().includes(t))
+  }, [active, search])
 
   /** Добавление нового материала */
   const addMaterial = useCallback(
     (payload: Omit<Material, 'id' | 'created_at' | 'updated_at'>) => {
       const now = new Date().toISOString()
-      const id = (typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : Date.now().toString(36))
       const m: Material = {
-        id,
+        id: StorageService.id(),
         name: payload.name,
         article: payload.article,
         unit: payload.unit || 'шт',
         price: Number(payload.price) || 0,
+        ...(Number(payload.waste_percent) > 0 ? { waste_percent: Number(payload.waste_percent) } : {}),
+        ...(payload.currency ? { currency: payload.currency } : {}),
         created_at: now,
         updated_at: now,
       }
       const next = [m, ...items]
+      HistoryService.record(`Добавление материала «${m.name}»`, [
+        ...diffList(LS_KEYS.materials, items, next),
+        ...PriceHistory.track(items, next, 'ui'),
+      ])
       setItems(next)
-      persist(next)
+      AuditService.log({ action: 'create', entity: 'material', entityId: m.id, entityName: m.name, source: 'ui' })
       setAdding(false)
       toast.success('Материал добавлен')
     },
-    [items, persist],
+    [items, setItems],
+  )
+
+  /** Новая цена материала (из диалога влияния); комментарий и число затронутых изделий — в журнал */
+  const savePrice = useCallback(
+    (price: number, note: string, affected: number) => {
+      const target = items.find((x) => x.id === pricingId)
+      if (!target) return
+      const next = items.map((m) => (m.id === target.id ? { ...m, price, updated_at: new Date().toISOString() } : m))
+      const cmd = HistoryService.record(`Цена материала «${target.name}»`, [
+        ...diffList(LS_KEYS.materials, items, next),
+        ...PriceHistory.track(items, next, 'ui'),
+      ])
+      setItems(next)
+      AuditService.logList('material', items, next, 'ui', { ...(note ? { note } : {}), affectedProducts: affected })
+      setPricingId(null)
+      toastUndoable(cmd)
+    },
+    [items, setItems, pricingId],
   )
 
-  /** Удаление материала */
+  /** Правка полей материала на карточке (отход, валюта закупки) */
+  const patchMaterial = useCallback(
+    (id: string, patch: Partial<Material>) => {
+      const target = items.find((x) => x.id === id)
+      if (!target) return
+      const next = items.map((m) => (m.id === id ? { ...m, ...patch, updated_at: new Date().toISOString() } : m))
+      toastUndoable(HistoryService.record(`Изменение материала «${target.name}»`, diffList(LS_KEYS.materials, items, next)))
+      setItems(next)
+      AuditService.logList('material', items, next, 'ui')
+    },
+    [items, setItems],
+  )
+
+  /** Удаление материала в корзину (с предупреждением, если он есть в техкартах) */
   const removeMaterial = useCallback(
     (id: string) => {
       const target = items.find((x) => x.id === id)
       if (!target) return
-      if (!window.confirm(`Удалить материал "${target.name}"?`)) return
-      const next = items.filter((x) => x.id !== id)
+      const warning = usageWarning(
+        findMaterialUsage(id, [...StorageService.getProducts<Product>(), ...StorageService.getAssemblies()]).map((p) => p.name),
+        'техкартах изделий и сборок',
+      )
+      const question = warning
+        ? `${warning}.\nПозиции техкарт сохранятся до окончательного удаления из корзины. Переместить "${target.name}" в корзину?`
+        : `Переместить материал "${target.name}" в корзину?`
+      if (!window.confirm(question)) return
+      const next = markDeleted(items, id)
+      toastUndoable(HistoryService.record(`Удаление материала «${target.name}»`, diffList(LS_KEYS.materials, items, next)))
       setItems(next)
-      persist(next)
-      toast.success('Материал удалён')
+      AuditService.logList('material', items, next, 'ui')
     },
-    [items, persist],
+    [items, setItems],
   )
 
   /** Импорт CSV */
@@ -423,9 +598,9 @@ export default function MaterialsPage(): React.ReactElement {
           toast.warning('Не найдено валидных строк в CSV')
           return
         }
-        // Мерж по артикулу: если есть совпадение — обновляем цену/единицу/название
-        const mapByArticle = new Map(items.map((m) => [String(m.article || '').trim().toLowerCase(), m]))
-        const merged: Material[] = [...items]
+        // Мерж по артикулу: если есть совпадение — обновляем цену/единицу/название (копией — для истории отмены)
+        const merged: Material[] = items.map((m) => ({ ...m }))
+        const mapByArticle = new Map(merged.map((m) => [String(m.article || '').trim().toLowerCase(), m]))
         let added = 0
         let updated = 0
 
@@ -436,13 +611,17 @@ export default function MaterialsPage(): React.ReactElement {
             existing.name = it.name || existing.name
             existing.unit = it.unit || existing.unit
             existing.price = Number(it.price) || existing.price
+            if (it.waste_percent != null) existing.waste_percent = it.waste_percent
+            if (it.currency) existing.currency = it.currency
             existing.updated_at = new Date().toISOString()
+            // Материал из корзины, снова пришедший в прайсе, восстанавливается
+            existing.deleted_at = null
             updated += 1
           } else {
             const now = new Date().toISOString()
             merged.unshift({
               ...it,
-              id: (typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : Date.now().toString(36) + Math.random().toString(36).slice(2)),
+              id: StorageService.id(),
               created_at: now,
               updated_at: now,
             })
@@ -450,25 +629,33 @@ export default function MaterialsPage(): React.ReactElement {
           }
         }
 
+        const cmd = HistoryService.record(`Импорт CSV: добавлено ${added}, обновлено ${updated}`, [
+          ...diffList(LS_KEYS.materials, items, merged),
+          ...PriceHistory.track(items, merged, 'import'),
+        ])
+        if (!cmd) {
+          toast.info('Импорт завершён: изменений нет')
+          return
+        }
         setItems(merged)
-        persist(merged)
-        toast.success(`Импорт завершён: добавлено ${added}, обновлено ${updated}`)
+        AuditService.logList('material', items, merged, 'import', { file: file.name })
+        toastUndoable(cmd)
       } catch (e: any) {
         toast.error(`Ошибка импорта: ${e?.message || 'неизвестно'}`)
       }
     },
-    [items, persist],
+    [items, setItems],
   )
 
   /** Экспорт CSV */
   const exportCsv = useCallback(() => {
     try {
-      exportMaterialsCsv(items)
+      exportMaterialsCsv(active)
       toast.success('Экспортирован CSV-файл')
     } catch {
       toast.error('Не удалось экспортировать CSV')
     }
-  }, [items])
+  }, [active])
 
   return (
     <div className="max-w-6xl mx-auto px-6 py-8 space-y-6">
@@ -489,6 +676,7 @@ export default function MaterialsPage(): React.ReactElement {
       {/* Форма добавления */}
       {adding && (
         <AddMaterialForm
+          currencyCfg={currencyCfg}
           onSubmit={addMaterial}
           onCancel={() => setAdding(false)}
         />
@@ -501,9 +689,27 @@ export default function MaterialsPage(): React.ReactElement {
             Материалы не найдены. Добавьте материал вручную или импортируйте CSV.
           </div>
         ) : (
-          filtered.map((m) => <MaterialCard key={m.id} item={m} onDelete={removeMaterial} />)
+          filtered.map((m) => (
+            <MaterialCard
+              key={m.id}
+              item={m}
+              history={historyById.get(m.id) || NO_HISTORY}
+              currencyCfg={currencyCfg}
+              onEditPrice={setPricingId}
+              onPatch={patchMaterial}
+              onDelete={removeMaterial}
+            />
+          ))
         )}
       </div>
+
+      {/* Изменение цены с анализом влияния */}
+      <PriceChangeDialog
+        material={items.find((m) => m.id === pricingId) ?? null}
+        materials={items}
+        onClose={() => setPricingId(null)}
+        onSave={savePrice}
+      />
     </div>
   )
 }
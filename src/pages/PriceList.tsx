@@ -6,6 +6,7 @@
  * - Разрыв между группами (PDF)
  * - Диагностика PDF окружения (jsPDF, autoTable, шрифт) + тестовый PDF
  * - Общий итог по всем товарам (PDF/HTML)
+ * - Цены с налогом, без налога или в двух колонках; сумма налога в итогах
  * - Логотип в футере каждой PDF-страницы
  * - Миниатюры в HTML печати
  */
@@ -13,9 +14,16 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react'
 import { ensureJsPdf, getJsPdfCtor } from '../lib/pdf/loader'
 import { generateNordicSamplePdf } from '../lib/pdf/examples/nordicExample'
+import { LS_KEYS, StorageService, withoutDeleted } from '../services/storage'
+import { AuditService } from '../services/audit'
+import { PriceHistory, endOfDay } from '../services/priceHistory'
+import { PriceVersions } from '../services/priceVersions'
+import { missingRates, pricingCurrency, useCurrencyConfig } from '../services/currency'
+import { useRepository } from '../hooks/useRepository'
+import { createPriceCalculator, describeTier, taxIncluded, tierPrice, type PricingAssembly } from '../lib/pricing'
 
 /**
- * Интерфейсы данных (моки из localStorage)
+ * Интерфейсы данных (из StorageService)
  */
 interface Material {
   id: string
@@ -23,11 +31,14 @@ interface Material {
   article: string
   unit: string
   price: number
+  currency?: string
   created_at: string
   updated_at: string
 }
 interface TechCardItem {
   materialId: string
+  kind?: 'material' | 'product' | 'assembly'
+  refId?: string | null
   quantity: number
   _techCardId: string
 }
@@ -40,6 +51,7 @@ interface Product {
   product_type_id?: string
   finish_type_id?: string
   image_url?: string | null
+  deleted_at?: string | null
   created_at: string
   updated_at: string
 }
@@ -48,6 +60,7 @@ interface PriceType {
   name: string
   markup: number
   workCost: number
+  taxProfileId?: string | null
 }
 interface FinishType {
   id: string
@@ -55,9 +68,22 @@ interface FinishType {
   markup: number
   workCost?: number
 }
+interface PriceTier {
+  id: string
+  name: string
+  adjustment: number
+}
+interface TaxProfile {
+  id: string
+  name: string
+  rate: number
+  inclusive: boolean
+}
 interface PriceSettings {
   productTypes: PriceType[]
   finishTypes: FinishType[]
+  priceTiers?: PriceTier[]
+  taxProfiles?: TaxProfile[]
 }
 
 /**
@@ -77,46 +103,6 @@ const formatDate = (d: string | Date) =>
     day: 'numeric',
   }).format(new Date(d))
 
-/**
- * Получить значения из localStorage с безопасным парсингом
- */
-function getLS<T>(key: string, fallback: T): T {
-  try {
-    const raw = localStorage.getItem(`wasser_${key}`)
-    return raw ? (JSON.parse(raw) as T) : fallback
-  } catch {
-    return fallback
-  }
-}
-
-/**
- * Расчет цен изделия по текущим настройкам
- */
-function calcPrice(product: Product, materials: Material[], settings: PriceSettings) {
-  const tcRaw: any = (product as any)?.tech_card
-  const techCardArr: any[] = Array.isArray(tcRaw)
-    ? tcRaw
-    : tcRaw && typeof tcRaw === 'object'
-      ? Object.values(tcRaw)
-      : []
-
-  if (techCardArr.length === 0) {
-    return { materialCost: 0, workCost: 0, basePrice: 0, finalPrice: 0 }
-  }
-
-  const materialCost = techCardArr.reduce((sum: number, it: any) => {
-    const m = materials.find((mm) => mm.id === it.materialId)
-    return sum + (Number(it.quantity) || 0) * (m?.price || 0)
-  }, 0)
-  const pt = settings.productTypes.find((p) => p.id === product.product_type_id)
-  const workCost = pt?.workCost || 0
-  const basePrice = materialCost + workCost
-  const afterType = basePrice * (1 + (pt?.markup || 0) / 100)
-  const ft = settings.finishTypes.find((f) => f.id === product.finish_type_id)
-  const finalPrice = afterType * (1 + (ft?.markup || 0) / 100)
-  return { materialCost, workCost, basePrice, finalPrice }
-}
-
 /**
  * Типы настроек страницы прайс-листа
  */
@@ -124,6 +110,8 @@ type Orientation = 'portrait' | 'landscape'
 type GroupBy = 'none' | 'productType' | 'collection'
 type ThemeKey = 'gradientModern' | 'minimalNordic' | 'executiveBlue'
 type Density = 'normal' | 'compact'
+/** Цены: с налогом, без налога или обе колонки */
+type TaxMode = 'gross' | 'net' | 'both'
 
 /**
  * Опции прайс-листа
@@ -142,9 +130,15 @@ interface PriceListOptions {
     name: boolean
     productType: boolean
     finishType: boolean
+    /** Накладные расходы, распределённые на изделие */
+    overhead: boolean
     basePrice: boolean
     finalPrice: boolean
   }
+  /** Уровни цен (дилер, опт…), печатаемые дополнительными колонками после «Цена» */
+  tierIds: string[]
+  /** Цены с налогом, без налога или обе (действует, если в настройках есть налоги) */
+  taxMode: TaxMode
   groupBy: GroupBy
   currency: string
   locale: string
@@ -336,72 +330,179 @@ function toRGB(color: string | number[] | undefined, fallback: RGB = [0, 0, 0]):
   return fallback
 }
 
+/** Ключ колонки уровня цен */
+const tierKey = (id: string) => `tier:${id}`
+
+/** Ключ колонки цены без налога: net:finalPrice, net:tier:<id> */
+const netKey = (key: string) => `net:${key}`
+
+/** Колонка с ценой (итоговой или уровня, с налогом или без) */
+const isPriceKey = (key: string) => key === 'finalPrice' || key.startsWith('tier:') || key.startsWith('net:')
+
+/**
+ * Налог для цены строки в колонке: из цены с налогом выделяется, к цене без налога начисляется
+ */
+function taxOfRow(row: any, key: string): number {
+  const rate = Number(row.taxRate) || 0
+  const value = Number(row[key]) || 0
+  return key.startsWith('net:') ? value * (rate / 100) : taxIncluded(value, rate)
+}
+
+/** Подпись суммы налога в итогах: к цене без налога налог добавляется, в цене с налогом он уже есть */
+const taxTotalLabel = (key: string) => (key.startsWith('net:') ? 'Налог' : 'в т.ч. налог')
+
+/**
+ * Строка итогов PDF: подпись перед колонкой итога, сумма — в ней
+ */
+function totalsRow(length: number, priceColIdx: number, label: string, amount: string): string[] {
+  return Array.from({ length }, (_v, i) => {
+    if (i === Math.max(0, priceColIdx - 1)) return label
+    if (i === priceColIdx) return amount
+    return ''
+  })
+}
+
+/**
+ * Колонка, под которой печатаются итоги: «Цена», а без неё — первый уровень цен
+ */
+function totalColumnIndex(cols: Array<{ key: string }>): number {
+  const idx = cols.findIndex((c) => c.key === 'finalPrice')
+  return idx >= 0 ? idx : cols.findIndex((c) => isPriceKey(c.key))
+}
+
+/**
+ * Режим налога для печати: без налоговых профилей в настройках цены печатаются как есть
+ */
+function effectiveTaxMode(options: PriceListOptions, settings: PriceSettings): TaxMode {
+  return (settings.taxProfiles || []).length > 0 ? options.taxMode : 'gross'
+}
+
 /**
  * Построить список колонок из опций (общая функция для PDF и печати)
  */
-function buildColumns(options: PriceListOptions): Array<{ header: string; key: string }> {
+function buildColumns(
+  options: PriceListOptions,
+  tiers: PriceTier[] = [],
+  taxMode: TaxMode = 'gross',
+): Array<{ header: string; key: string }> {
   const cols: { header: string; key: string }[] = []
+  const pushPrice = (header: string, key: string) => {
+    if (taxMode !== 'gross') cols.push({ header: `${header} без налога`, key: netKey(key) })
+    if (taxMode !== 'net') cols.push({ header: taxMode === 'both' ? `${header} с налогом` : header, key })
+  }
   if (options.columns.image) cols.push({ header: 'Фото', key: 'image' })
   if (options.columns.article) cols.push({ header: 'Артикул', key: 'article' })
   if (options.columns.name) cols.push({ header: 'Наименование', key: 'name' })
   if (options.columns.productType) cols.push({ header: 'Тип', key: 'productType' })
   if (options.columns.finishType) cols.push({ header: 'Отделка', key: 'finishType' })
+  if (options.columns.overhead) cols.push({ header: 'Накладные', key: 'overhead' })
   if (options.columns.basePrice) cols.push({ header: 'Себестоимость', key: 'basePrice' })
-  if (options.columns.finalPrice) cols.push({ header: 'Цена', key: 'finalPrice' })
+  if (options.columns.finalPrice) pushPrice('Цена', 'finalPrice')
+  for (const t of tiers) {
+    if (options.tierIds.includes(t.id)) pushPrice(t.name, tierKey(t.id))
+  }
   return cols
 }
 
+/**
+ * Фиксированные UUID демо-данных: повторная загрузка не создаёт дублей и не затирает типы по умолчанию
+ */
+const DEMO_IDS = {
+  m1: '00000000-0000-4000-8000-0000000d0001',
+  m2: '00000000-0000-4000-8000-0000000d0002',
+  p1: '00000000-0000-4000-8000-0000000d0101',
+  tc1: '00000000-0000-4000-8000-0000000d0201',
+  tc2: '00000000-0000-4000-8000-0000000d0202',
+  pt: '00000000-0000-4000-8000-0000000d0301',
+  ft: '00000000-0000-4000-8000-0000000d0401',
+} as const
+
+/**
+ * Опции прайс-листа по умолчанию
+ */
+const DEFAULT_OPTIONS: PriceListOptions = {
+  brandName: 'WASSER PRO',
+  brandSub: 'Прайс-лист на продукцию',
+  brandColor: '#2563eb',
+  logoUrl: '',
+  includeCover: true,
+  orientation: 'portrait',
+  margin: 16,
+  columns: {
+    image: false,
+    article: true,
+    name: true,
+    productType: true,
+    finishType: true,
+    overhead: false,
+    basePrice: false,
+    finalPrice: true,
+  },
+  tierIds: [],
+  taxMode: 'gross',
+  groupBy: 'productType',
+  currency: 'KGS',
+  locale: 'ru-RU',
+  fontUrl: PRESET_FONTS[0].url,
+  fontName: 'CustomFont',
+  fontBinary: null,
+  fontFileName: null,
+  showFooter: true,
+  styleKey: 'gradientModern',
+  density: 'normal',
+  showGroupTotals: true,
+  pageBreakBetweenGroups: false,
+  showGrandTotal: true,
+}
+
+/**
+ * Прочитать сохранённые опции поверх значений по умолчанию
+ */
+function readSavedOptions(): PriceListOptions {
+  const saved = StorageService.read<Partial<PriceListOptions> | null>(LS_KEYS.pdfPrefs, null)
+  if (!saved || typeof saved !== 'object') return DEFAULT_OPTIONS
+  return { ...DEFAULT_OPTIONS, ...saved, columns: { ...DEFAULT_OPTIONS.columns, ...(saved.columns || {}) } }
+}
+
 /**
  * Компонент страницы прайс-листа
  */
 export default function PriceListPage(): React.ReactElement {
-  // Нормализация структур из localStorage
-  const normalizeArr = (v: any) =>
-    Array.isArray(v) ? v : v && typeof v === 'object' ? Object.values(v) : []
-
-  // Данные из localStorage
-  const rawMaterials = getLS<any>('materials', [])
-  const rawProducts = getLS<any>('products', [])
-  const rawPS = getLS<any>('price_settings', { productTypes: [], finishTypes: [] })
-
-  const materials: Material[] = normalizeArr(rawMaterials)
-  const products: Product[] = normalizeArr(rawProducts)
-  const priceSettings: PriceSettings = {
-    productTypes: normalizeArr(rawPS.productTypes),
-    finishTypes: normalizeArr(rawPS.finishTypes),
-  }
+  // Данные из репозитория (структуры уже нормализованы миграциями и геттерами; обновляются при изменениях)
+  const [materials] = useRepository<Material[]>(LS_KEYS.materials, () => StorageService.getMaterials())
+  const [products] = useRepository<Product[]>(LS_KEYS.products, () => withoutDeleted(StorageService.getProducts<Product>()))
+  const [assemblies] = useRepository<PricingAssembly[]>(LS_KEYS.assemblies, () => withoutDeleted(StorageService.getAssemblies()))
+  const [currentSettings] = useRepository<PriceSettings>(LS_KEYS.priceSettings, () =>
+    StorageService.getPriceSettings({ productTypes: [], finishTypes: [] }),
+  )
 
-  const [options, setOptions] = useState<PriceListOptions>({
-    brandName: 'WASSER PRO',
-    brandSub: 'Прайс-лист на продукцию',
-    brandColor: '#2563eb',
-    logoUrl: '',
-    includeCover: true,
-    orientation: 'portrait',
-    margin: 16,
-    columns: {
-      image: false,
-      article: true,
-      name: true,
-      productType: true,
-      finishType: true,
-      basePrice: false,
-      finalPrice: true,
-    },
-    groupBy: 'productType',
-    currency: 'KGS',
-    locale: 'ru-RU',
-    fontUrl: PRESET_FONTS[0].url,
-    fontName: 'CustomFont',
-    fontBinary: null,
-    fontFileName: null,
-    showFooter: true,
-    styleKey: 'gradientModern',
-    density: 'normal',
-    showGroupTotals: true,
-    pageBreakBetweenGroups: false,
-    showGrandTotal: true,
-  })
+  // Прайс «на дату»: цены материалов из истории и опубликованная версия настроек той даты (пусто — текущие)
+  const [pricePoints] = useRepository(LS_KEYS.materialPrices, () => PriceHistory.getAll())
+  const [priceVersions] = useRepository(LS_KEYS.priceVersions, () => PriceVersions.getAll())
+  const [asOfDay, setAsOfDay] = useState('')
+  const pricedMaterials = useMemo(
+    () => PriceHistory.materialsAsOf(materials, endOfDay(asOfDay), pricePoints),
+    [materials, asOfDay, pricePoints],
+  )
+  const priceSettings = useMemo(() => {
+    const at = endOfDay(asOfDay)
+    return (at && PriceVersions.settingsAsOf(at, priceVersions)) || currentSettings
+  }, [currentSettings, asOfDay, priceVersions])
+
+  // Закупочные цены в других валютах — по курсам из настроек валют, на дату — по курсам опубликованной версии
+  const currentCurrency = useCurrencyConfig()
+  const currencyCfg = useMemo(() => {
+    const at = endOfDay(asOfDay)
+    const snapshot = at && PriceVersions.currencyAsOf(at, priceVersions)
+    return snapshot ? { ...currentCurrency, ...snapshot } : currentCurrency
+  }, [currentCurrency, asOfDay, priceVersions])
+  const noRates = useMemo(() => missingRates(materials, currencyCfg), [materials, currencyCfg])
+
+  // Опции сохраняются между сессиями (ключ pdfPrefs, входит в резервную копию)
+  const [options, setOptions] = useState<PriceListOptions>(() => readSavedOptions())
+  useEffect(() => {
+    StorageService.write(LS_KEYS.pdfPrefs, options)
+  }, [options])
 
   const [loadingPdf, setLoadingPdf] = useState(false)
   const [loadingNordicDemo, setLoadingNordicDemo] = useState(false)
@@ -422,8 +523,24 @@ export default function PriceListPage(): React.ReactElement {
 
   // Предпросчет данных таблицы
   const computed = useMemo(() => {
+    const priceOf = createPriceCalculator(
+      pricedMaterials,
+      { ...priceSettings, currency: pricingCurrency(currencyCfg) },
+      { products, assemblies },
+    )
+    const tiers = priceSettings.priceTiers || []
     const rows = products.map((p) => {
-      const prices = calcPrice(p, materials, priceSettings)
+      const prices = priceOf(p)
+      const taxK = 1 + prices.taxRate / 100
+      const tierPrices = Object.fromEntries(
+        tiers.flatMap((t) => {
+          const gross = tierPrice(prices, t)
+          return [
+            [tierKey(t.id), gross],
+            [netKey(tierKey(t.id)), gross / taxK],
+          ]
+        }),
+      )
       const typeName = priceSettings.productTypes.find((t) => t.id === p.product_type_id)?.name || ''
       const finishName = priceSettings.finishTypes.find((t) => t.id === p.finish_type_id)?.name || ''
       return {
@@ -432,14 +549,20 @@ export default function PriceListPage(): React.ReactElement {
         article: p.article,
         productType: typeName,
         finishType: finishName,
+        overhead: prices.overhead,
         basePrice: prices.basePrice,
         finalPrice: prices.finalPrice,
+        [netKey('finalPrice')]: prices.priceNet,
+        taxRate: prices.taxRate,
+        // Цена с налогом до округления (налог сверху начисляется после округления)
+        priceBeforeRounding: prices.taxProfile?.inclusive ? prices.priceBeforeRounding : prices.priceBeforeRounding * taxK,
+        ...tierPrices,
         imageUrl: p.image_url || '',
         collectionId: p.collection_id || null,
       }
     })
     return rows
-  }, [products, materials, priceSettings])
+  }, [products, pricedMaterials, priceSettings, currencyCfg])
 
   // Группы
   const groups = useMemo(() => {
@@ -478,7 +601,10 @@ export default function PriceListPage(): React.ReactElement {
   const updateOption = useCallback((patch: Partial<PriceListOptions>) => setOptions((prev) => ({ ...prev, ...patch })), [])
 
   /** Список колонок под текущие опции */
-  const colsForPrint = useMemo(() => buildColumns(options), [options])
+  const colsForPrint = useMemo(
+    () => buildColumns(options, priceSettings.priceTiers, effectiveTaxMode(options, priceSettings)),
+    [options, priceSettings],
+  )
 
   /**
    * Получить активную тему PDF/печати (ЕДИНСТВЕННАЯ РЕАЛИЗАЦИЯ)
@@ -769,8 +895,9 @@ export default function PriceListPage(): React.ReactElement {
       const primaryRGB = toRGB(theme.colors.primary, hexToRgb('#2563eb'))
 
       // Колонки
-      const cols = buildColumns(options)
-      const priceColIdx = cols.findIndex((c) => c.key === 'finalPrice')
+      const cols = buildColumns(options, priceSettings.priceTiers, effectiveTaxMode(options, priceSettings))
+      const priceColIdx = totalColumnIndex(cols)
+      const totalKey = cols[priceColIdx]?.key
 
       // Предзагрузка изображений для столбца "Фото"
       const imageCache = new Map<string, { dataUrl: string; imgType: 'PNG' | 'JPEG' }>()
@@ -811,8 +938,8 @@ export default function PriceListPage(): React.ReactElement {
           for (const c of cols) {
             if (c.key === 'image') {
               res[c.key] = row.imageUrl || ''
-            } else if (c.key === 'basePrice' || c.key === 'finalPrice') {
-              res[c.key] = formatCurrency(c.key === 'basePrice' ? row.basePrice : row.finalPrice, options.currency, options.locale)
+            } else if (c.key === 'basePrice' || c.key === 'overhead' || isPriceKey(c.key)) {
+              res[c.key] = formatCurrency(row[c.key], options.currency, options.locale)
             } else {
               res[c.key] = (row as any)[c.key] ?? ''
             }
@@ -821,14 +948,16 @@ export default function PriceListPage(): React.ReactElement {
         })
 
         // Итоги по группе
-        const groupTotal = group.items.reduce((sum: number, r: any) => sum + (Number(r.finalPrice) || 0), 0)
-        const footRow =
+        const groupTotal = group.items.reduce((sum: number, r: any) => sum + (Number(totalKey && r[totalKey]) || 0), 0)
+        const groupTax = totalKey ? group.items.reduce((sum: number, r: any) => sum + taxOfRow(r, totalKey), 0) : 0
+        const footRows =
           options.showGroupTotals && priceColIdx >= 0
-            ? cols.map((_c, i) => {
-                if (i === Math.max(0, priceColIdx - 1)) return 'Итого группы'
-                if (i === priceColIdx) return formatCurrency(groupTotal, options.currency, options.locale)
-                return ''
-              })
+            ? [
+                totalsRow(cols.length, priceColIdx, 'Итого группы', formatCurrency(groupTotal, options.currency, options.locale)),
+                ...(Math.abs(groupTax) >= 0.005
+                  ? [totalsRow(cols.length, priceColIdx, taxTotalLabel(totalKey!), formatCurrency(groupTax, options.currency, options.locale))]
+                  : []),
+              ]
             : undefined
 
         // Плотность
@@ -842,7 +971,7 @@ export default function PriceListPage(): React.ReactElement {
           startY: headerY,
           head: [cols.map((c) => c.header)],
           body: rowsForPdf.map((r) => cols.map((c) => r[c.key])),
-          ...(footRow ? { foot: [footRow] } : {}),
+          ...(footRows ? { foot: footRows } : {}),
           margin: options.margin,
           theme: theme.tableTheme,
           styles: {
@@ -930,20 +1059,22 @@ export default function PriceListPage(): React.ReactElement {
 
       // Общий итог по всем товарам (PDF)
       if (options.showGrandTotal && cols.length > 0 && priceColIdx >= 0) {
-        const grandTotal = computed.reduce((sum, r: any) => sum + (Number(r.finalPrice) || 0), 0)
+        const grandTotal = computed.reduce((sum, r: any) => sum + (Number(totalKey && r[totalKey]) || 0), 0)
+        const grandTax = computed.reduce((sum, r: any) => sum + taxOfRow(r, totalKey!), 0)
         const lastY = (doc as any).lastAutoTable?.finalY
         const startY = lastY ? lastY + 24 : (options.includeCover ? 60 : 40)
 
-        const summaryRow = cols.map((_c, i) => {
-          if (i === Math.max(0, priceColIdx - 1)) return 'Итого по всем товарам'
-          if (i === priceColIdx) return formatCurrency(grandTotal, options.currency, options.locale)
-          return ''
-        })
+        const summaryRows = [
+          totalsRow(cols.length, priceColIdx, 'Итого по всем товарам', formatCurrency(grandTotal, options.currency, options.locale)),
+          ...(Math.abs(grandTax) >= 0.005
+            ? [totalsRow(cols.length, priceColIdx, taxTotalLabel(totalKey!), formatCurrency(grandTax, options.currency, options.locale))]
+            : []),
+        ]
 
         autoTable({
           startY,
           head: undefined,
-          body: [summaryRow],
+          body: summaryRows,
           margin: options.margin,
           theme: 'plain',
           styles: {
@@ -975,7 +1106,7 @@ export default function PriceListPage(): React.ReactElement {
     } finally {
       setLoadingPdf(false)
     }
-  }, [groups, computed, options, registerFont, drawHeaderFooter, getActiveTheme])
+  }, [groups, computed, options, priceSettings, registerFont, drawHeaderFooter, getActiveTheme])
 
   /**
    * HTML печать: открыть окно печати с особыми стилями
@@ -1107,38 +1238,57 @@ export default function PriceListPage(): React.ReactElement {
                     try {
                       const demo = {
                         materials: [
-                          { id: 'm1', name: 'ЛДСП Белый', article: 'LDSP-W', unit: 'м²', price: 850, created_at: new Date().toISOString(), updated_at: new Date().toISOString() },
-                          { id: 'm2', name: 'Кромка ПВХ 2мм', article: 'PVH-2', unit: 'м.п.', price: 45, created_at: new Date().toISOString(), updated_at: new Date().toISOString() },
+                          { id: DEMO_IDS.m1, name: 'ЛДСП Белый', article: 'LDSP-W', unit: 'м²', price: 850, created_at: new Date().toISOString(), updated_at: new Date().toISOString() },
+                          { id: DEMO_IDS.m2, name: 'Кромка ПВХ 2мм', article: 'PVH-2', unit: 'м.п.', price: 45, created_at: new Date().toISOString(), updated_at: new Date().toISOString() },
                         ],
                         products: [
                           {
-                            id: 'p1',
+                            id: DEMO_IDS.p1,
                             name: 'Тумба подвесная 600 Белая',
                             article: 'TUB-POD-WHITE-600',
                             tech_card: [
-                              { materialId: 'm1', quantity: 1.5, _techCardId: 'tc1-1' },
-                              { materialId: 'm2', quantity: 4, _techCardId: 'tc1-2' },
+                              { materialId: DEMO_IDS.m1, quantity: 1.5, _techCardId: DEMO_IDS.tc1 },
+                              { materialId: DEMO_IDS.m2, quantity: 4, _techCardId: DEMO_IDS.tc2 },
                             ],
-                            collection_id: 'col1',
-                            product_type_id: 'pt1',
-                            finish_type_id: 'ft1',
+                            collection_id: null,
+                            product_type_id: DEMO_IDS.pt,
+                            finish_type_id: DEMO_IDS.ft,
                             image_url: 'https://placehold.co/400x300/e2e8f0/64748b?text=Тумба',
                             created_at: new Date().toISOString(),
                             updated_at: new Date().toISOString(),
                           },
                         ],
                         price_settings: {
-                          productTypes: [{ id: 'pt1', name: 'Тумбы', markup: 30, workCost: 1500 }],
-                          finishTypes: [{ id: 'ft1', name: 'Стандарт', markup: 0 }],
+                          productTypes: [{ id: DEMO_IDS.pt, name: 'Тумбы', markup: 30, workCost: 1500 }],
+                          finishTypes: [{ id: DEMO_IDS.ft, name: 'Стандарт', markup: 0 }],
                         },
                       }
-                      localStorage.setItem('wasser_materials', JSON.stringify(demo.materials))
-                      localStorage.setItem('wasser_products', JSON.stringify(demo.products))
-                      localStorage.setItem('wasser_price_settings', JSON.stringify(demo.price_settings))
+                      // Демо-записи добавляются к существующим данным (замена только по совпадающему id)
+                      const upsert = <T extends { id: string }>(list: T[], add: T[]): T[] => [
+                        ...list.filter((x) => !add.some((a) => a.id === x.id)),
+                        ...add,
+                      ]
+                      const ps = StorageService.getPriceSettings()
+                      const materialsBefore = StorageService.getMaterials()
+                      const productsBefore = StorageService.getProducts<Product>()
+                      const nextMaterials = upsert(materialsBefore, demo.materials)
+                      const nextProducts = upsert(productsBefore, demo.products)
+                      const nextSettings = {
+                        ...ps,
+                        productTypes: upsert(ps.productTypes, demo.price_settings.productTypes),
+                        finishTypes: upsert(ps.finishTypes, demo.price_settings.finishTypes),
+                      }
+                      StorageService.saveMaterials(nextMaterials)
+                      PriceHistory.track(materialsBefore, nextMaterials, 'import')
+                      StorageService.saveProducts(nextProducts)
+                      StorageService.savePriceSettings(nextSettings)
+                      AuditService.logList('material', materialsBefore, nextMaterials, 'import', { demo: true })
+                      AuditService.logList('product', productsBefore, nextProducts, 'import', { demo: true })
+                      AuditService.log({ action: 'update', entity: 'settings', source: 'import', before: ps, after: nextSettings })
                       const toast = document.createElement('div')
                       toast.style.cssText =
                         'position: fixed; top: 20px; left: 50%; transform: translateX(-50%); background: #16a34a; color: white; padding: 10px 14px; border-radius: 8px; z-index: 1000; box-shadow: 0 4px 14px rgba(0,0,0,0.2); font-family: system-ui, sans-serif; font-size: 14px;'
-                      toast.textContent = 'Демо-данные загружены. Обновите таблицу/настройки.'
+                      toast.textContent = 'Демо-данные загружены.'
                       document.body.appendChild(toast)
                       setTimeout(() => document.body.removeChild(toast), 2600)
                     } catch {
@@ -1281,6 +1431,39 @@ export default function PriceListPage(): React.ReactElement {
                 </select>
               </div>
 
+              {/* ЦЕНЫ НА ДАТУ */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Цены на дату</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="date"
+                    value={asOfDay}
+                    max={new Date().toISOString().slice(0, 10)}
+                    onChange={(e) => setAsOfDay(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                  {asOfDay && (
+                    <button
+                      type="button"
+                      onClick={() => setAsOfDay('')}
+                      className="px-3 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 text-sm"
+                    >
+                      Текущие
+                    </button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {asOfDay
+                    ? 'Цены материалов и настройки ценообразования — действовавшие в этот день.'
+                    : 'Пусто — текущие цены материалов и настройки.'}
+                </p>
+                {noRates.length > 0 && (
+                  <p className="text-xs text-amber-700 mt-1">
+                    Нет курса для {noRates.join(', ')}: материалы в этих валютах считаются по нулевой цене.
+                  </p>
+                )}
+              </div>
+
               {/* ВЫБОР КОЛОНОК */}
               <div className="grid grid-cols-2 gap-2">
                 {[
@@ -1289,6 +1472,7 @@ export default function PriceListPage(): React.ReactElement {
                   ['name', 'Наименование'],
                   ['productType', 'Тип'],
                   ['finishType', 'Отделка'],
+                  ['overhead', 'Накладные'],
                   ['basePrice', 'Себестоимость'],
                   ['finalPrice', 'Цена'],
                 ].map(([key, label]) => (
@@ -1308,6 +1492,54 @@ export default function PriceListPage(): React.ReactElement {
                 ))}
               </div>
 
+              {/* УРОВНИ ЦЕН */}
+              {(priceSettings.priceTiers || []).length > 0 && (
+                <div>
+                  <div className="text-sm font-medium text-gray-700 mb-1">Уровни цен (колонки после «Цена»)</div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(priceSettings.priceTiers || []).map((t) => (
+                      <label key={t.id} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={options.tierIds.includes(t.id)}
+                          onChange={(e) =>
+                            setOptions((prev) => ({
+                              ...prev,
+                              tierIds: e.target.checked
+                                ? [...prev.tierIds, t.id]
+                                : prev.tierIds.filter((id) => id !== t.id),
+                            }))
+                          }
+                        />
+                        {t.name} <span className="text-gray-400">{describeTier(t)}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Чтобы напечатать только цену уровня (например, дилерский прайс), снимите колонку «Цена».
+                  </p>
+                </div>
+              )}
+
+              {/* НАЛОГИ */}
+              {(priceSettings.taxProfiles || []).length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Цены и налог</label>
+                  <select
+                    value={options.taxMode}
+                    onChange={(e) => updateOption({ taxMode: e.target.value as TaxMode })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  >
+                    <option value="gross">С налогом</option>
+                    <option value="net">Без налога</option>
+                    <option value="both">Без налога и с налогом</option>
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Налог типа изделия задаётся в настройках. В итогах печатается сумма налога.
+                  </p>
+                </div>
+              )}
+
               {/* ВАЛЮТА/ЛОКАЛЬ */}
               <div className="grid grid-cols-2 gap-3">
                 <div>
@@ -1742,21 +1974,50 @@ function PrintPreviewHtml(props: {
         />
       ) : ''
     }
-    if (key === 'basePrice') {
-      return formatCurrency(row.basePrice, currency, locale)
+    if (key === 'basePrice' || key === 'overhead') {
+      return formatCurrency(row[key], currency, locale)
+    }
+    if (key === 'finalPrice' || key === netKey('finalPrice')) {
+      const gross = Number(row.priceBeforeRounding)
+      const exact = key === 'finalPrice' ? gross : gross / (1 + (Number(row.taxRate) || 0) / 100)
+      const rounded = Number.isFinite(exact) && Math.abs(exact - row[key]) >= 0.005
+      return (
+        <span className="price" title={rounded ? `До округления: ${formatCurrency(exact, currency, locale)}` : undefined}>
+          {formatCurrency(row[key], currency, locale)}
+        </span>
+      )
     }
-    if (key === 'finalPrice') {
-      return <span className="price">{formatCurrency(row.finalPrice, currency, locale)}</span>
+    if (isPriceKey(key)) {
+      return <span className="price">{formatCurrency(row[key], currency, locale)}</span>
     }
     return (row as any)[key] ?? ''
   }
 
-  const priceIdx = columns.findIndex((c) => c.key === 'finalPrice')
+  const priceIdx = totalColumnIndex(columns)
+  const totalKey = columns[priceIdx]?.key
 
   // Общий итог (HTML)
   const grandTotal = useMemo(() => {
-    return groups.reduce((sum, g) => sum + g.items.reduce((s, r: any) => s + (Number(r.finalPrice) || 0), 0), 0)
-  }, [groups])
+    return groups.reduce((sum, g) => sum + g.items.reduce((s, r: any) => s + (Number(totalKey && r[totalKey]) || 0), 0), 0)
+  }, [groups, totalKey])
+  const grandTax = useMemo(
+    () => (totalKey ? groups.reduce((sum, g) => sum + g.items.reduce((s, r: any) => s + taxOfRow(r, totalKey), 0), 0) : 0),
+    [groups, totalKey],
+  )
+
+  /** Строка итогов: подпись перед колонкой итога, сумма — в ней */
+  const totalsCells = (label: string, amount: number, bold = false) =>
+    columns.map((c, i) => {
+      if (i === Math.max(0, priceIdx - 1)) return <td key={c.key} style={bold ? { fontWeight: 700 } : undefined}>{label}</td>
+      if (i === priceIdx) {
+        return (
+          <td key={c.key} style={{ textAlign: 'right', ...(bold ? { fontWeight: 700 } : {}) }}>
+            {formatCurrency(amount, currency, locale)}
+          </td>
+        )
+      }
+      return <td key={c.key}></td>
+    })
 
   return (
     <div>
@@ -1792,7 +2053,8 @@ function PrintPreviewHtml(props: {
 
       {/* Группы */}
       {groups.map((g) => {
-        const groupTotal = g.items.reduce((sum, r: any) => sum + (Number(r.finalPrice) || 0), 0)
+        const groupTotal = g.items.reduce((sum, r: any) => sum + (Number(totalKey && r[totalKey]) || 0), 0)
+        const groupTax = totalKey ? g.items.reduce((sum, r: any) => sum + taxOfRow(r, totalKey), 0) : 0
         return (
           <div className="group" key={g.key}>
             <div className="group-title">{g.key}</div>
@@ -1815,13 +2077,8 @@ function PrintPreviewHtml(props: {
               </tbody>
               {showGroupTotals && priceIdx >= 0 && (
                 <tfoot>
-                  <tr>
-                    {columns.map((c, i) => {
-                      if (i === Math.max(0, priceIdx - 1)) return <td key={c.key}>Итого группы</td>
-                      if (i === priceIdx) return <td key={c.key} style={{ textAlign: 'right' }}>{formatCurrency(groupTotal, currency, locale)}</td>
-                      return <td key={c.key}></td>
-                    })}
-                  </tr>
+                  <tr>{totalsCells('Итого группы', groupTotal)}</tr>
+                  {Math.abs(groupTax) >= 0.005 && <tr>{totalsCells(taxTotalLabel(totalKey!), groupTax)}</tr>}
                 </tfoot>
               )}
             </table>
@@ -1834,13 +2091,8 @@ function PrintPreviewHtml(props: {
         <div style={{ marginTop: '6mm', fontSize: '10pt' }}>
           <table>
             <tbody>
-              <tr>
-                {columns.map((c, i) => {
-                  if (i === Math.max(0, priceIdx - 1)) return <td key={c.key} style={{ fontWeight: 700 }}>Итого по всем товарам</td>
-                  if (i === priceIdx) return <td key={c.key} style={{ textAlign: 'right', fontWeight: 700 }}>{formatCurrency(grandTotal, currency, locale)}</td>
-                  return <td key={c.key}></td>
-                })}
-              </tr>
+              <tr>{totalsCells('Итого по всем товарам', grandTotal, true)}</tr>
+              {Math.abs(grandTax) >= 0.005 && <tr>{totalsCells(taxTotalLabel(totalKey!), grandTax, true)}</tr>}
             </tbody>
           </table>
         </div>
@@ -5,6 +5,7 @@
  * - Валюта: базовая KGS (сом)
  * - Мультивалютный вывод через PriceMulti
  * - Тосты для сохранений и действий с ТД
+ * - Варианты изделия (размер × отделка) от базового изделия: VariantMatrixDialog
  */
 
 import React, { useCallback, useEffect, useMemo, useState } from 'react'
@@ -13,47 +14,33 @@ import Button from '../components/common/Button'
 import Modal from '../components/common/Modal'
 import TechCardManager from '../components/techcard/TechCardManager'
 import PriceMulti from '../components/common/PriceMulti'
+import VariantMatrixDialog from '../components/products/VariantMatrixDialog'
 import { toast } from 'sonner'
-import type { Material, PriceSettings, Product, TechCardItem } from '../types/models'
-
-/**
- * Ключи localStorage для демо-режима
- */
-const LS_KEYS = {
-  products: 'wasser_products_data',
-  materials: 'wasser_materials_data',
-  price: 'wasser_price_settings_data',
-}
-
-/**
- * Утилита: безопасно читать JSON из LS
- */
-function readLS<T>(key: string, fallback: T): T {
-  try {
-    const raw = localStorage.getItem(key)
-    const data = raw ? (JSON.parse(raw) as T) : fallback
-    return data
-  } catch {
-    return fallback
-  }
-}
-
-/**
- * Утилита: запись в LS
- */
-function writeLS<T>(key: string, value: T) {
-  try {
-    localStorage.setItem(key, JSON.stringify(value))
-  } catch {
-    /* noop */
-  }
-}
+import type { Assembly, Material, PriceSettings, Product, TechCardItem } from '../types/models'
+import { LS_KEYS, StorageService, withoutDeleted, type SimpleCollection } from '../services/storage'
+import { useRepository } from '../hooks/useRepository'
+import { HistoryService, diffList } from '../services/history'
+import { toastUndoable } from '../components/common/HistoryHotkeys'
+import { findComponentUsage, findProductUsage, markDeleted, usageWarning } from '../services/trash'
+import { AuditService } from '../services/audit'
+import { DIMENSION_VARIABLES, createPriceCalculator, refreshFormulaQuantities } from '../lib/pricing'
+import { PriceHistory, endOfDay } from '../services/priceHistory'
+import { PriceVersions } from '../services/priceVersions'
+import { missingRates, pricingCurrency, useCurrencyConfig } from '../services/currency'
+import {
+  generateVariants,
+  syncVariants,
+  variantsOf,
+  withVariantsInCollections,
+  type VariantPlanRow,
+  type VariantsResult,
+} from '../services/variants'
 
 /**
  * Генерация ID
  */
 function rid(): string {
-  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8)
+  return StorageService.id()
 }
 
 /**
@@ -68,66 +55,67 @@ function seedMaterials(): Material[] {
   ]
 }
 
-/**
- * Значения по умолчанию (настройки цен)
- */
-function seedPrice(): PriceSettings {
-  return {
-    productTypes: [
-      { id: 'pt1', name: 'Тумба с дверями', markup: 10, workCost: 1000 },
-      { id: 'pt2', name: 'Тумба с ящиками', markup: 15, workCost: 1500 },
-      { id: 'pt3', name: 'Пенал', markup: 20, workCost: 2000 },
-    ],
-    finishTypes: [
-      { id: 'ft1', name: 'Крашеный', markup: 50 },
-      { id: 'ft2', name: 'Пленочный', markup: 30 },
-    ],
-  }
-}
-
-/**
- * Расчет цены изделия по техкарте и настройкам
- */
-function calcPrice(product: Product, materials: Material[], settings: PriceSettings) {
-  const matMap = new Map(materials.map((m) => [m.id, m]))
-  const materialCost = (product.tech_card || []).reduce((sum, it) => {
-    const m = matMap.get(it.materialId)
-    return sum + (Number(it.quantity) || 0) * (m?.price || 0)
-  }, 0)
-  const pt = settings.productTypes.find((t) => t.id === product.product_type_id)
-  const workCost = pt?.workCost || 0
-  const base = materialCost + workCost
-  const afterType = base * (1 + (pt?.markup || 0) / 100)
-  const ft = settings.finishTypes.find((t) => t.id === product.finish_type_id)
-  const final = afterType * (1 + (ft?.markup || 0) / 100)
-  return { materialCost, workCost, basePrice: base, finalPrice: final }
-}
-
 /**
  * Компонент страницы "Изделия"
  */
 export default function ProductsPage(): React.ReactElement {
   // Данные
-  const [materials, setMaterials] = useState<Material[]>(() => readLS(LS_KEYS.materials, seedMaterials()))
-  const [products, setProducts] = useState<Product[]>(() => readLS(LS_KEYS.products, [] as Product[]))
-  const [price, setPrice] = useState<PriceSettings>(() => readLS(LS_KEYS.price, seedPrice()))
+  const [materials] = useRepository<Material[]>(LS_KEYS.materials, () => StorageService.getMaterials())
+  const [products, setProducts] = useRepository<Product[]>(
+    LS_KEYS.products,
+    () => StorageService.getProducts<Product>(),
+    (list) => StorageService.saveProducts(list),
+  )
+  const [assemblies] = useRepository<Assembly[]>(LS_KEYS.assemblies, () => withoutDeleted(StorageService.getAssemblies()))
+  const [priceSettings] = useRepository<PriceSettings>(LS_KEYS.priceSettings, () => StorageService.getPriceSettings())
+  const [collections, setCollections] = useRepository<SimpleCollection[]>(
+    LS_KEYS.collections,
+    () => StorageService.getCollections(),
+    (list) => StorageService.saveCollections(list),
+  )
+  // Изделия и сборки, на которые могут ссылаться строки техкарт
+  const components = useMemo(() => ({ products: withoutDeleted(products), assemblies }), [products, assemblies])
+  // Закупочные цены в других валютах пересчитываются по курсам из настроек валют
+  const currencyCfg = useCurrencyConfig()
+  const price = useMemo(() => ({ ...priceSettings, currency: pricingCurrency(currencyCfg) }), [priceSettings, currencyCfg])
+  const noRates = useMemo(() => missingRates(withoutDeleted(materials), currencyCfg), [materials, currencyCfg])
 
-  useEffect(() => writeLS(LS_KEYS.materials, materials), [materials])
-  useEffect(() => writeLS(LS_KEYS.products, products), [products])
-  useEffect(() => writeLS(LS_KEYS.price, price), [price])
+  // Демо-режим: пустой справочник материалов заполняем примерами один раз
+  useEffect(() => {
+    if (StorageService.getMaterials().length === 0) StorageService.saveMaterials(seedMaterials())
+  }, [])
 
   // Состояния UI
   const [search, setSearch] = useState('')
   const [editing, setEditing] = useState<Product | null>(null)
   const [tab, setTab] = useState<'info' | 'tc'>('info')
+  const [variantBase, setVariantBase] = useState<Product | null>(null)
 
-  // Фильтрация
+  // Для техкарты — материалы вне корзины и уже стоящие в техкарте редактируемого изделия
+  const techCardMaterials = useMemo(() => {
+    const used = new Set((editing?.tech_card || []).map((it) => it.materialId))
+    return materials.filter((m) => !m.deleted_at || used.has(m.id))
+  }, [materials, editing])
+
+  // Фильтрация (изделия из корзины не показываются)
   const view = useMemo(() => {
+    const active = withoutDeleted(products)
     const t = search.trim().toLowerCase()
-    if (!t) return products
-    return products.filter((p) => p.name.toLowerCase().includes(t) || p.article.toLowerCase().includes(t))
+    if (!t) return active
+    return active.filter((p) => p.name.toLowerCase().includes(t) || p.article.toLowerCase().includes(t))
   }, [products, search])
 
+  // Цены карточек — общий движок ценообразования; с датой — по истории цен материалов и версии настроек той даты
+  const [pricePoints] = useRepository(LS_KEYS.materialPrices, () => PriceHistory.getAll())
+  const [priceVersions] = useRepository(LS_KEYS.priceVersions, () => PriceVersions.getAll())
+  const [asOfDay, setAsOfDay] = useState('')
+  const priceOf = useMemo(() => {
+    const at = endOfDay(asOfDay)
+    const versioned = at && PriceVersions.settingsAsOf(at, priceVersions)
+    const settings = versioned ? { ...versioned, currency: PriceVersions.currencyAsOf(at, priceVersions) ?? price.currency } : price
+    return createPriceCalculator(PriceHistory.materialsAsOf(materials, at, pricePoints), settings, components)
+  }, [materials, price, asOfDay, pricePoints, priceVersions, components])
+
   /**
    * Создать изделие
    */
@@ -144,12 +132,15 @@ export default function ProductsPage(): React.ReactElement {
       created_at: now,
       updated_at: now,
     }
-    setProducts((prev) => [p, ...prev])
+    const next = [p, ...products]
+    HistoryService.record('Создание изделия', diffList(LS_KEYS.products, products, next))
+    setProducts(next)
+    AuditService.log({ action: 'create', entity: 'product', entityId: p.id, entityName: p.name, source: 'ui' })
     setEditing(p)
     setTab('info')
     // Тост при создании черновика
     toast.info('Создано новое изделие')
-  }, [])
+  }, [products, setProducts])
 
   /**
    * Сохранить изделие
@@ -158,26 +149,100 @@ export default function ProductsPage(): React.ReactElement {
     (patch: Partial<Product>) => {
       if (!editing) return
       const next: Product = { ...editing, ...patch, updated_at: new Date().toISOString() }
-      setProducts((prev) => prev.map((x) => (x.id === next.id ? next : x)))
+      const list = products.map((x) => (x.id === next.id ? next : x))
+      const label = patch.tech_card ? `Изменение техкарты «${next.name}»` : `Изменение изделия «${next.name}»`
+      HistoryService.record(label, diffList(LS_KEYS.products, products, list))
+      setProducts(list)
+      AuditService.log({ action: 'update', entity: 'product', entityId: next.id, source: 'ui', before: products.find((x) => x.id === next.id), after: next })
       setEditing(next)
       toast.success('Изделие сохранено')
     },
-    [editing],
+    [editing, products, setProducts],
   )
 
   /**
-   * Удалить изделие
+   * Удалить изделие в корзину (с предупреждением, если оно входит в коллекции)
    */
   const deleteProduct = useCallback(
     (id: string) => {
       const p = products.find((x) => x.id === id)
       if (!p) return
-      if (!confirm(`Удалить изделие "${p.name}"?`)) return
-      setProducts((prev) => prev.filter((x) => x.id !== id))
+      const warnings = [
+        usageWarning(findProductUsage(id, StorageService.getCollections()).map((c) => c.name), 'коллекциях'),
+        usageWarning(findComponentUsage('product', id, [...products, ...assemblies]).map((x) => x.name), 'техкартах'),
+      ].filter(Boolean)
+      const question = warnings.length
+        ? `${warnings.join('.\n')}.\nВ коллекциях изделие будет скрыто, в техкартах — посчитано по нулевой стоимости до восстановления. Переместить "${p.name}" в корзину?`
+        : `Переместить изделие "${p.name}" в корзину?`
+      if (!confirm(question)) return
+      const next = markDeleted(products, id)
+      const cmd = HistoryService.record(`Удаление изделия «${p.name}»`, diffList(LS_KEYS.products, products, next))
+      setProducts(next)
+      AuditService.logList('product', products, next, 'ui')
       if (editing?.id === id) setEditing(null)
-      toast.success('Изделие удалено')
+      toastUndoable(cmd)
+    },
+    [products, assemblies, editing, setProducts],
+  )
+
+  // Базовые изделия, у которых варианты отстают от базового (изменились техкарта, название, тип…)
+  const outdatedVariants = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const base of withoutDeleted(products)) {
+      if (base.variant_of || variantsOf(base.id, products).length === 0) continue
+      const n = syncVariants(base, products, materials, priceSettings.finishTypes).updated.length
+      if (n > 0) counts.set(base.id, n)
+    }
+    return counts
+  }, [products, materials, priceSettings.finishTypes])
+
+  /**
+   * Применить созданные или обновлённые варианты: одна команда истории на изделия и коллекции
+   */
+  const applyVariants = useCallback(
+    (base: Product, result: VariantsResult, inCollections: boolean, label: string) => {
+      const ids = variantsOf(base.id, result.products).map((p) => p.id)
+      const nextCollections = inCollections ? withVariantsInCollections(collections, base.id, ids) : collections
+      const cmd = HistoryService.record(label, [
+        ...diffList(LS_KEYS.products, products, result.products),
+        ...diffList(LS_KEYS.collections, collections, nextCollections),
+      ])
+      if (!cmd) {
+        toast.info('Варианты уже совпадают с базовым изделием')
+        return
+      }
+      setProducts(result.products)
+      if (nextCollections !== collections) setCollections(nextCollections)
+      AuditService.logList('product', products, result.products, 'ui', { reason: 'variants', base: base.id })
+      AuditService.logList('collection', collections, nextCollections, 'ui', { reason: 'variants', base: base.id })
+      toastUndoable(cmd)
+    },
+    [products, collections, setProducts, setCollections],
+  )
+
+  /**
+   * Создать варианты по плану из диалога
+   */
+  const createVariants = useCallback(
+    (base: Product, rows: VariantPlanRow[], inCollections: boolean) => {
+      const result = generateVariants(base, rows, products, materials, priceSettings.finishTypes)
+      const parts = [`создано ${result.created.length}`, ...(result.updated.length > 0 ? [`обновлено ${result.updated.length}`] : [])]
+      applyVariants(base, result, inCollections, `Варианты «${base.name}»: ${parts.join(', ')}`)
+      setVariantBase(null)
+    },
+    [products, materials, priceSettings.finishTypes, applyVariants],
+  )
+
+  /**
+   * Обновить все варианты по базовому изделию: габариты и отделка вариантов сохраняются,
+   * недостающие варианты добавляются в коллекции базового
+   */
+  const resyncVariants = useCallback(
+    (base: Product) => {
+      const result = syncVariants(base, products, materials, priceSettings.finishTypes)
+      applyVariants(base, result, true, `Обновление вариантов «${base.name}»: ${result.updated.length}`)
     },
-    [products, editing],
+    [products, materials, priceSettings.finishTypes, applyVariants],
   )
 
   /**
@@ -211,7 +276,26 @@ export default function ProductsPage(): React.ReactElement {
         toast.error('Укажите артикул')
         return
       }
-      saveProduct({ name, article, product_type_id: pt || null, finish_type_id: ft || null })
+      const dims: Partial<Product> = {}
+      for (const v of DIMENSION_VARIABLES) {
+        const raw = String(form.get(v.field) || '').trim()
+        const value = raw ? Number(raw.replace(',', '.')) : null
+        if (value !== null && !(value > 0)) {
+          toast.error(`${v.label}: укажите положительное число миллиметров или оставьте пустым`)
+          return
+        }
+        dims[v.field] = value
+      }
+      // Количества по формулам хранятся вычисленными — пересчитываем под новые габариты
+      const techCard = refreshFormulaQuantities(editing.tech_card || [], dims)
+      saveProduct({
+        name,
+        article,
+        product_type_id: pt || null,
+        finish_type_id: ft || null,
+        ...dims,
+        ...(techCard !== editing.tech_card ? { tech_card: techCard } : {}),
+      })
     },
     [editing, saveProduct],
   )
@@ -241,9 +325,27 @@ export default function ProductsPage(): React.ReactElement {
               className="w-full pl-3 pr-3 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
             />
           </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <span className="whitespace-nowrap">Цены на дату</span>
+            <input
+              type="date"
+              value={asOfDay}
+              max={new Date().toISOString().slice(0, 10)}
+              onChange={(e) => setAsOfDay(e.target.value)}
+              title="Пусто — текущие цены материалов и настройки"
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
         </div>
       </Card>
 
+      {noRates.length > 0 && (
+        <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 text-amber-800 text-sm">
+          Нет курса для {noRates.join(', ')}: материалы в этих валютах считаются по нулевой цене. Укажите курс в
+          Настройках.
+        </div>
+      )}
+
       {view.length === 0 ? (
         <Card>
           <div className="text-gray-600">Изделия не найдены. Создайте первое изделие.</div>
@@ -251,15 +353,40 @@ export default function ProductsPage(): React.ReactElement {
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
           {view.map((p) => {
-            const pr = calcPrice(p, materials, price)
+            const pr = priceOf(p)
+            const base = p.variant_of ? products.find((x) => x.id === p.variant_of && !x.deleted_at) : undefined
+            const variantCount = base ? 0 : variantsOf(p.id, products).length
+            const outdated = outdatedVariants.get(p.id) ?? 0
             return (
               <Card key={p.id} className="space-y-3">
                 <div>
                   <div className="text-sm text-gray-500 font-mono">{p.article}</div>
                   <div className="text-base font-semibold text-gray-900">{p.name}</div>
                 </div>
-                <div className="text-sm text-gray-600">
-                  Материалов в ТД: <span className="font-medium text-gray-900">{p.tech_card?.length || 0}</span>
+                <div className="text-sm text-gray-600 space-y-0.5">
+                  <div>
+                    Позиций в ТД: <span className="font-medium text-gray-900">{p.tech_card?.length || 0}</span>
+                  </div>
+                  {base && (
+                    <div>
+                      Вариант изделия <span className="font-medium text-gray-900">«{base.name}»</span>
+                    </div>
+                  )}
+                  {variantCount > 0 && (
+                    <div>
+                      Вариантов: <span className="font-medium text-gray-900">{variantCount}</span>
+                      {outdated > 0 && (
+                        <button
+                          type="button"
+                          className="ml-2 text-amber-700 hover:underline"
+                          title="Техкарта, название или тип базового изделия изменились после создания вариантов"
+                          onClick={() => resyncVariants(p)}
+                        >
+                          отстают: {outdated} — обновить
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 {/* Вывод стоимости в базовой валюте (KGS) + дубли в выбранных валютах */}
@@ -278,6 +405,9 @@ export default function ProductsPage(): React.ReactElement {
                   <Button variant="outline" className="bg-transparent" onClick={() => { setEditing(p); setTab('info') }}>
                     Редактировать
                   </Button>
+                  <Button variant="outline" className="bg-transparent" onClick={() => setVariantBase(base ?? p)}>
+                    Варианты
+                  </Button>
                   <Button variant="danger" onClick={() => deleteProduct(p.id)}>
                     Удалить
                   </Button>
@@ -377,6 +507,24 @@ export default function ProductsPage(): React.ReactElement {
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Габариты, мм (для формул техкарты)</label>
+                  <div className="grid grid-cols-3 gap-4">
+                    {DIMENSION_VARIABLES.map((v) => (
+                      <input
+                        key={v.field}
+                        name={v.field}
+                        type="text"
+                        inputMode="decimal"
+                        defaultValue={editing[v.field] ?? ''}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        placeholder={`${v.label} (${v.name})`}
+                        aria-label={`${v.label}, мм`}
+                      />
+                    ))}
+                  </div>
+                </div>
+
                 <div className="flex justify-end gap-2 pt-2">
                   <Button variant="outline" className="bg-transparent" onClick={() => setEditing(null)}>
                     Отмена
@@ -387,9 +535,13 @@ export default function ProductsPage(): React.ReactElement {
             ) : (
               <div className="space-y-4">
                 <TechCardManager
-                  materials={materials}
+                  materials={techCardMaterials}
                   value={editing.tech_card || []}
-                  onChange={(tc) => updateTechCard(tc)}
+                  onChange={updateTechCard}
+                  product={editing}
+                  priceSettings={price}
+                  components={components}
+                  owner={{ kind: 'product', id: editing.id }}
                 />
                 <div className="flex justify-end gap-2">
                   <Button
@@ -409,6 +561,15 @@ export default function ProductsPage(): React.ReactElement {
           </div>
         )}
       </Modal>
+
+      <VariantMatrixDialog
+        base={variantBase}
+        products={products}
+        finishTypes={price.finishTypes}
+        onClose={() => setVariantBase(null)}
+        onGenerate={createVariants}
+        onSync={resyncVariants}
+      />
     </div>
   )
 }
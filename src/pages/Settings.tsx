@@ -1,76 +1,101 @@
 /**
  * Страница "Настройки" — Ценообразование
  * Управление типами изделий и типами отделки: наценки (%) и стоимость работ.
- * Хранение в localStorage по ключу "wasser_price_settings_data" (совместимо со страницей "Изделия").
+ * Округление итоговой цены: общее правило и своё правило для отдельных типов изделий.
+ * Уровни цен (розница, дилер, опт): поправка к итоговой цене для разных покупателей.
+ * Накладные расходы (аренда, электроэнергия, амортизация): сумма в месяц, распределяемая в себестоимость.
+ * Налоговые профили (НДС, налог с продаж): ставка, налог в цене или сверху; профиль назначается типу изделия.
+ * Хранение через StorageService (ключ "wasser_price_settings_data", общий со страницами "Изделия" и "Прайс‑лист").
+ * Правки копятся в черновике (PriceVersions) и меняют цены только после публикации: до неё видно, как изменится
+ * цена каждого изделия, а версия получает дату начала действия.
+ * Курсы валют: пересчёт закупочных цен материалов в базовую валюту.
+ * Внизу — резервная копия рабочего пространства и сведения о хранилище данных (драйвер, квота, размер разделов).
  */
 
-import React, { useCallback, useMemo, useState } from 'react'
-import { Check, Plus, Save, Trash2, RotateCcw } from 'lucide-react'
-import type { FinishType, PriceSettings, PriceType } from '../types/models'
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { FilePen, Plus, Send, Trash2, RotateCcw, Undo2 } from 'lucide-react'
+import type { FinishType, OverheadBase, OverheadPool, PriceSettings, PriceTier, PriceType, RoundingRule, TaxProfile } from '../types/models'
 import NumericField from '../components/common/NumericField'
+import { LS_KEYS, StorageService, defaultPriceSettings } from '../services/storage'
+import { PriceVersions, sameSettings } from '../services/priceVersions'
+import { useRepository } from '../hooks/useRepository'
+import { applyRounding, describeOverhead, describeRounding, describeTax, describeTier } from '../lib/pricing'
+import StorageUsagePanel from '../components/settings/StorageUsagePanel'
+import BackupPanel from '../components/settings/BackupPanel'
+import AuditActorPanel from '../components/settings/AuditActorPanel'
+import AuditRetentionPanel from '../components/settings/AuditRetentionPanel'
+import CurrencyPanel from '../components/settings/CurrencyPanel'
+import PriceVersionsPanel from '../components/settings/PriceVersionsPanel'
+import PublishPriceSettingsDialog from '../components/settings/PublishPriceSettingsDialog'
 
 /**
- * Ключи localStorage
- */
-const LS_KEYS = {
-  price: 'wasser_price_settings_data',
-} as const
-
-/**
- * Безопасное чтение JSON из localStorage
+ * Утилита: короткий ID
  */
-function readLS<T>(key: string, fallback: T): T {
-  try {
-    const raw = localStorage.getItem(key)
-    return raw ? (JSON.parse(raw) as T) : fallback
-  } catch {
-    return fallback
-  }
+function rid(): string {
+  return StorageService.id()
 }
 
 /**
- * Безопасная запись JSON в localStorage
+ * Валидация полей типов
  */
-function writeLS<T>(key: string, value: T): void {
-  try {
-    localStorage.setItem(key, JSON.stringify(value))
-  } catch {
-    /* noop */
-  }
+function sanitizeNumber(n: any, min: number, max?: number): number {
+  const val = Number(n)
+  if (Number.isNaN(val)) return min
+  if (max != null) return Math.min(Math.max(val, min), max)
+  return Math.max(val, min)
 }
 
 /**
- * Значения по умолчанию для ценообразования
+ * Готовые правила округления
  */
-function seedPrice(): PriceSettings {
-  return {
-    productTypes: [
-      { id: 'pt1', name: 'Тумба с дверями', markup: 10, workCost: 1000 },
-      { id: 'pt2', name: 'Тумба с ящиками', markup: 15, workCost: 1500 },
-      { id: 'pt3', name: 'Пенал', markup: 20, workCost: 2000 },
-    ],
-    finishTypes: [
-      { id: 'ft1', name: 'Крашеный', markup: 50 },
-      { id: 'ft2', name: 'Пленочный', markup: 30 },
-    ],
-  }
-}
+const ROUNDING_PRESETS: RoundingRule[] = [
+  { mode: 'none', step: 0 },
+  { mode: 'nearest', step: 10 },
+  { mode: 'nearest', step: 50 },
+  { mode: 'nearest', step: 100 },
+  { mode: 'up', step: 10 },
+  { mode: 'up', step: 100 },
+  { mode: 'ending', step: 100, ending: 90 },
+  { mode: 'ending', step: 100, ending: 99 },
+  { mode: 'ending', step: 1000, ending: 990 },
+]
 
-/**
- * Утилита: короткий ID
- */
-function rid(): string {
-  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8)
+/** Ключ правила для select */
+function ruleKey(rule: RoundingRule | null | undefined): string {
+  return rule ? `${rule.mode}:${rule.step}:${rule.ending ?? ''}` : ''
 }
 
 /**
- * Валидация полей типов
+ * Компонент: выбор правила округления.
+ * inheritLabel — пункт «как в общих настройках» (для типа изделия), значение null.
  */
-function sanitizeNumber(n: any, min: number, max?: number): number {
-  const val = Number(n)
-  if (Number.isNaN(val)) return min
-  if (max != null) return Math.min(Math.max(val, min), max)
-  return Math.max(val, min)
+function RoundingSelect({
+  value,
+  onChange,
+  inheritLabel,
+  className = '',
+}: {
+  value: RoundingRule | null | undefined
+  onChange: (rule: RoundingRule | null) => void
+  inheritLabel?: string
+  className?: string
+}): React.ReactElement {
+  const options = ROUNDING_PRESETS.some((r) => ruleKey(r) === ruleKey(value)) || !value ? ROUNDING_PRESETS : [...ROUNDING_PRESETS, value]
+  return (
+    <select
+      value={ruleKey(value)}
+      onChange={(e) => onChange(options.find((r) => ruleKey(r) === e.target.value) ?? null)}
+      className={`px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 bg-white ${className}`}
+      aria-label="Округление цены"
+    >
+      {inheritLabel != null && <option value="">{inheritLabel}</option>}
+      {options.map((r) => (
+        <option key={ruleKey(r)} value={ruleKey(r)}>
+          {describeRounding(r)}
+        </option>
+      ))}
+    </select>
+  )
 }
 
 /**
@@ -78,15 +103,17 @@ function sanitizeNumber(n: any, min: number, max?: number): number {
  */
 function PriceTypeRow({
   item,
+  taxProfiles,
   onChange,
   onDelete,
 }: {
   item: PriceType
+  taxProfiles: TaxProfile[]
   onChange: (patch: Partial<PriceType>) => void
   onDelete: () => void
 }): React.ReactElement {
   return (
-    <div className="grid grid-cols-1 md:grid-cols-[1fr_120px_140px_48px] gap-3 items-center">
+    <div className="grid grid-cols-1 md:grid-cols-[1fr_110px_130px_160px_150px_48px] gap-3 items-center">
       <input
         type="text"
         value={item.name}
@@ -110,6 +137,26 @@ function PriceTypeRow({
         inputClassName="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
         ariaLabel="Стоимость работ"
       />
+      <RoundingSelect
+        value={item.rounding}
+        onChange={(rounding) => onChange({ rounding })}
+        inheritLabel="Общее округление"
+        className="w-full"
+      />
+      <select
+        value={item.taxProfileId ?? ''}
+        onChange={(e) => onChange({ taxProfileId: e.target.value || null })}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 bg-white"
+        aria-label="Налог"
+        title={describeTax(taxProfiles.find((p) => p.id === item.taxProfileId))}
+      >
+        <option value="">Без налога</option>
+        {taxProfiles.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.name}
+          </option>
+        ))}
+      </select>
       <button
         type="button"
         onClick={onDelete}
@@ -166,13 +213,196 @@ function FinishTypeRow({
   )
 }
 
+/**
+ * Компонент: строка уровня цен
+ */
+function PriceTierRow({
+  item,
+  onChange,
+  onDelete,
+}: {
+  item: PriceTier
+  onChange: (patch: Partial<PriceTier>) => void
+  onDelete: () => void
+}): React.ReactElement {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[1fr_120px_120px_48px] gap-3 items-center">
+      <input
+        type="text"
+        value={item.name}
+        onChange={(e) => onChange({ name: e.target.value })}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        placeholder="Название уровня"
+        aria-label="Название уровня цен"
+      />
+      <NumericField
+        value={item.adjustment}
+        min={-100}
+        max={500}
+        allowNegative
+        onValueChange={(n) => onChange({ adjustment: sanitizeNumber(n ?? 0, -100, 500) })}
+        inputClassName="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        ariaLabel="Поправка, %"
+      />
+      <span className="text-sm text-gray-500">{describeTier(item)}</span>
+      <button
+        type="button"
+        onClick={onDelete}
+        className="inline-flex items-center justify-center h-10 rounded-lg border border-gray-300 text-red-600 hover:bg-red-50"
+        title="Удалить уровень цен"
+        aria-label="Удалить уровень цен"
+      >
+        <Trash2 size={16} />
+      </button>
+    </div>
+  )
+}
+
+/**
+ * Компонент: строка налогового профиля
+ */
+function TaxProfileRow({
+  item,
+  onChange,
+  onDelete,
+}: {
+  item: TaxProfile
+  onChange: (patch: Partial<TaxProfile>) => void
+  onDelete: () => void
+}): React.ReactElement {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[1fr_110px_170px_200px_48px] gap-3 items-center">
+      <input
+        type="text"
+        value={item.name}
+        onChange={(e) => onChange({ name: e.target.value })}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        placeholder="Название налога"
+        aria-label="Название налогового профиля"
+      />
+      <NumericField
+        value={item.rate}
+        min={0}
+        max={100}
+        onValueChange={(n) => onChange({ rate: sanitizeNumber(n ?? 0, 0, 100) })}
+        inputClassName="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        ariaLabel="Ставка, %"
+      />
+      <select
+        value={item.inclusive ? 'inclusive' : 'exclusive'}
+        onChange={(e) => onChange({ inclusive: e.target.value === 'inclusive' })}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 bg-white"
+        aria-label="Способ начисления"
+      >
+        <option value="inclusive">Включён в цену</option>
+        <option value="exclusive">Сверху цены</option>
+      </select>
+      <span className="text-sm text-gray-500">{describeTax(item)}</span>
+      <button
+        type="button"
+        onClick={onDelete}
+        className="inline-flex items-center justify-center h-10 rounded-lg border border-gray-300 text-red-600 hover:bg-red-50"
+        title="Удалить налоговый профиль"
+        aria-label="Удалить налоговый профиль"
+      >
+        <Trash2 size={16} />
+      </button>
+    </div>
+  )
+}
+
+/**
+ * Базы распределения накладных: подпись и единица объёма базы
+ */
+const OVERHEAD_BASES: { value: OverheadBase; label: string; volume: string }[] = [
+  { value: 'labor', label: 'От стоимости работ', volume: 'Фонд работ в месяц' },
+  { value: 'material', label: 'От стоимости материалов', volume: 'Закупка материалов в месяц' },
+  { value: 'unit', label: 'На изделие', volume: 'Изделий в месяц' },
+]
+
+/**
+ * Компонент: строка статьи накладных расходов
+ */
+function OverheadPoolRow({
+  item,
+  onChange,
+  onDelete,
+}: {
+  item: OverheadPool
+  onChange: (patch: Partial<OverheadPool>) => void
+  onDelete: () => void
+}): React.ReactElement {
+  const base = OVERHEAD_BASES.find((b) => b.value === item.base) ?? OVERHEAD_BASES[0]
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[1fr_130px_190px_150px_150px_48px] gap-3 items-center">
+      <input
+        type="text"
+        value={item.name}
+        onChange={(e) => onChange({ name: e.target.value })}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        placeholder="Название статьи"
+        aria-label="Название статьи накладных"
+      />
+      <NumericField
+        value={item.monthlyAmount}
+        min={0}
+        onValueChange={(n) => onChange({ monthlyAmount: sanitizeNumber(n ?? 0, 0) })}
+        inputClassName="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        ariaLabel="Сумма в месяц"
+      />
+      <select
+        value={base.value}
+        onChange={(e) => onChange({ base: e.target.value as OverheadBase })}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 bg-white"
+        aria-label="База распределения"
+      >
+        {OVERHEAD_BASES.map((b) => (
+          <option key={b.value} value={b.value}>
+            {b.label}
+          </option>
+        ))}
+      </select>
+      <NumericField
+        value={item.monthlyBase}
+        min={0}
+        onValueChange={(n) => onChange({ monthlyBase: sanitizeNumber(n ?? 0, 0) })}
+        inputClassName="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        ariaLabel={base.volume}
+        title={base.volume}
+      />
+      <span className="text-sm text-gray-500">{describeOverhead(item)}</span>
+      <button
+        type="button"
+        onClick={onDelete}
+        className="inline-flex items-center justify-center h-10 rounded-lg border border-gray-300 text-red-600 hover:bg-red-50"
+        title="Удалить статью"
+        aria-label="Удалить статью накладных"
+      >
+        <Trash2 size={16} />
+      </button>
+    </div>
+  )
+}
+
 /**
  * Страница "Настройки" — Ценообразование
  */
 export default function SettingsPage(): React.ReactElement {
-  // Текущее состояние настроек (из LS или дефолты)
-  const [settings, setSettings] = useState<PriceSettings>(() => readLS<PriceSettings>(LS_KEYS.price, seedPrice()))
-  const [savedFlag, setSavedFlag] = useState(false)
+  // Действующие настройки и редактируемый черновик (без черновика — копия действующих)
+  const [current] = useRepository<PriceSettings>(LS_KEYS.priceSettings, () => StorageService.getPriceSettings())
+  const [settings, setSettings] = useState<PriceSettings>(() => PriceVersions.getDraft() ?? StorageService.getPriceSettings())
+  const [publishing, setPublishing] = useState(false)
+  const isDraft = useMemo(() => !sameSettings(settings, current), [settings, current])
+
+  // Черновик сохраняется при каждой правке и переживает перезагрузку страницы
+  useEffect(() => {
+    PriceVersions.saveDraft(settings)
+  }, [settings])
+
+  // Без черновика редактор следует за действующими настройками (публикация по дате, синхронизация)
+  useEffect(() => {
+    if (!PriceVersions.getDraft()) setSettings(current)
+  }, [current])
 
   /** Добавить тип изделия */
   const addPriceType = useCallback(() => {
@@ -186,6 +416,73 @@ export default function SettingsPage(): React.ReactElement {
     setSettings((prev) => ({ ...prev, finishTypes: [...prev.finishTypes, f] }))
   }, [])
 
+  /** Добавить уровень цен */
+  const addPriceTier = useCallback(() => {
+    const t: PriceTier = { id: rid(), name: 'Новый уровень', adjustment: 0 }
+    setSettings((prev) => ({ ...prev, priceTiers: [...(prev.priceTiers || []), t] }))
+  }, [])
+
+  /** Обновить один уровень цен */
+  const patchPriceTier = useCallback((id: string, patch: Partial<PriceTier>) => {
+    setSettings((prev) => ({
+      ...prev,
+      priceTiers: (prev.priceTiers || []).map((t) => (t.id === id ? { ...t, ...patch } : t)),
+    }))
+  }, [])
+
+  /** Удалить уровень цен */
+  const removePriceTier = useCallback((id: string) => {
+    setSettings((prev) => ({
+      ...prev,
+      priceTiers: (prev.priceTiers || []).filter((t) => t.id !== id),
+    }))
+  }, [])
+
+  /** Добавить статью накладных */
+  const addOverheadPool = useCallback(() => {
+    const o: OverheadPool = { id: rid(), name: 'Новая статья', monthlyAmount: 0, base: 'labor', monthlyBase: 0 }
+    setSettings((prev) => ({ ...prev, overheadPools: [...(prev.overheadPools || []), o] }))
+  }, [])
+
+  /** Обновить одну статью накладных */
+  const patchOverheadPool = useCallback((id: string, patch: Partial<OverheadPool>) => {
+    setSettings((prev) => ({
+      ...prev,
+      overheadPools: (prev.overheadPools || []).map((o) => (o.id === id ? { ...o, ...patch } : o)),
+    }))
+  }, [])
+
+  /** Удалить статью накладных */
+  const removeOverheadPool = useCallback((id: string) => {
+    setSettings((prev) => ({
+      ...prev,
+      overheadPools: (prev.overheadPools || []).filter((o) => o.id !== id),
+    }))
+  }, [])
+
+  /** Добавить налоговый профиль */
+  const addTaxProfile = useCallback(() => {
+    const t: TaxProfile = { id: rid(), name: 'НДС', rate: 12, inclusive: true }
+    setSettings((prev) => ({ ...prev, taxProfiles: [...(prev.taxProfiles || []), t] }))
+  }, [])
+
+  /** Обновить один налоговый профиль */
+  const patchTaxProfile = useCallback((id: string, patch: Partial<TaxProfile>) => {
+    setSettings((prev) => ({
+      ...prev,
+      taxProfiles: (prev.taxProfiles || []).map((t) => (t.id === id ? { ...t, ...patch } : t)),
+    }))
+  }, [])
+
+  /** Удалить налоговый профиль (типы изделий с ним остаются без налога) */
+  const removeTaxProfile = useCallback((id: string) => {
+    setSettings((prev) => ({
+      ...prev,
+      productTypes: prev.productTypes.map((t) => (t.taxProfileId === id ? { ...t, taxProfileId: null } : t)),
+      taxProfiles: (prev.taxProfiles || []).filter((t) => t.id !== id),
+    }))
+  }, [])
+
   /** Обновить один тип изделия */
   const patchPriceType = useCallback((id: string, patch: Partial<PriceType>) => {
     setSettings((prev) => ({
@@ -218,22 +515,29 @@ export default function SettingsPage(): React.ReactElement {
     }))
   }, [])
 
-  /** Сохранить в localStorage */
-  const saveAll = useCallback(() => {
-    writeLS(LS_KEYS.price, settings)
-    setSavedFlag(true)
-    // Скрыть индикатор "сохранено" через 2 сек
-    window.setTimeout(() => setSavedFlag(false), 2000)
-  }, [settings])
+  /** Отменить черновик: вернуть действующие настройки */
+  const discardDraft = useCallback(async () => {
+    if (!window.confirm('Отменить все неопубликованные изменения?')) return
+    await PriceVersions.discardDraft()
+    setSettings(StorageService.getPriceSettings())
+  }, [])
 
-  /** Сбросить к дефолтам */
+  /** Значения по умолчанию — в черновик (действуют только после публикации) */
   const resetDefaults = useCallback(() => {
-    if (!window.confirm('Сбросить настройки ценообразования к значениям по умолчанию?')) return
-    const def = seedPrice()
-    setSettings(def)
-    writeLS(LS_KEYS.price, def)
-    setSavedFlag(true)
-    window.setTimeout(() => setSavedFlag(false), 2000)
+    if (!window.confirm('Заменить черновик настройками ценообразования по умолчанию?')) return
+    setSettings(defaultPriceSettings())
+  }, [])
+
+  /** Настройки версии — в черновик */
+  const loadVersion = useCallback((version: PriceSettings) => {
+    setSettings(version)
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }, [])
+
+  /** Опубликовано: черновика больше нет, редактор показывает действующие настройки */
+  const onPublished = useCallback(() => {
+    setPublishing(false)
+    setSettings(StorageService.getPriceSettings())
   }, [])
 
   /** Признак пустых списков */
@@ -255,27 +559,38 @@ export default function SettingsPage(): React.ReactElement {
             type="button"
             onClick={resetDefaults}
             className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50"
-            title="Сбросить к значениям по умолчанию"
+            title="Загрузить значения по умолчанию в черновик"
           >
             <RotateCcw size={16} />
-            Сбросить
+            По умолчанию
+          </button>
+          <button
+            type="button"
+            disabled={!isDraft}
+            onClick={discardDraft}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50"
+            title="Отменить неопубликованные изменения"
+          >
+            <Undo2 size={16} />
+            Отменить
           </button>
           <button
             type="button"
-            onClick={saveAll}
-            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white"
-            title="Сохранить настройки"
+            disabled={!isDraft}
+            onClick={() => setPublishing(true)}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+            title="Проверить изменения цен и опубликовать"
           >
-            <Save size={16} />
-            Сохранить
+            <Send size={16} />
+            Опубликовать…
           </button>
         </div>
       </div>
 
-      {savedFlag && (
-        <div className="p-3 rounded-lg border border-green-200 bg-green-50 text-green-800 inline-flex items-center gap-2">
-          <Check size={16} />
-          Настройки сохранены
+      {isDraft && (
+        <div className="p-3 rounded-lg border border-amber-200 bg-amber-50 text-amber-800 inline-flex items-center gap-2">
+          <FilePen size={16} />
+          Черновик: изменения ещё не действуют. Опубликуйте их, чтобы пересчитать цены.
         </div>
       )}
 
@@ -285,7 +600,7 @@ export default function SettingsPage(): React.ReactElement {
           <div>
             <h2 className="text-lg font-semibold text-gray-900">Типы изделий</h2>
             <p className="text-sm text-gray-600">
-              Наценка в процентах применяется к сумме (материалы + работы) перед учётом отделки.
+              Наценка в процентах применяется к себестоимости (материалы + работы + накладные) перед учётом отделки.
             </p>
           </div>
           <button
@@ -307,6 +622,7 @@ export default function SettingsPage(): React.ReactElement {
               <PriceTypeRow
                 key={t.id}
                 item={t}
+                taxProfiles={settings.taxProfiles || []}
                 onChange={(patch) => patchPriceType(t.id, patch)}
                 onDelete={() => removePriceType(t.id)}
               />
@@ -315,6 +631,139 @@ export default function SettingsPage(): React.ReactElement {
         </div>
       </div>
 
+      {/* Накладные расходы */}
+      <div className="bg-white border border-gray-200 rounded-xl p-5 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Накладные расходы</h2>
+            <p className="text-sm text-gray-600">
+              Аренда, электроэнергия, амортизация оборудования: сумма в месяц делится на объём базы за месяц.
+              Например, аренда 60 000 при фонде работ 400 000 добавляет 15% от стоимости работ изделия. Накладные
+              входят в себестоимость до наценок.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={addOverheadPool}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50"
+            title="Добавить статью накладных"
+          >
+            <Plus size={16} />
+            Добавить статью
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          {(settings.overheadPools || []).length === 0 ? (
+            <div className="text-sm text-gray-600">Накладные не распределяются: себестоимость — материалы и работа.</div>
+          ) : (
+            (settings.overheadPools || []).map((o) => (
+              <OverheadPoolRow
+                key={o.id}
+                item={o}
+                onChange={(patch) => patchOverheadPool(o.id, patch)}
+                onDelete={() => removeOverheadPool(o.id)}
+              />
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Округление */}
+      <div className="bg-white border border-gray-200 rounded-xl p-5 space-y-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Округление цен</h2>
+          <p className="text-sm text-gray-600">
+            Итоговая цена округляется после всех наценок. Для отдельного типа изделия правило можно переопределить в
+            его строке. В прайс‑листе неокруглённая цена видна во всплывающей подсказке.
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <RoundingSelect
+            value={settings.rounding ?? ROUNDING_PRESETS[0]}
+            onChange={(rounding) => setSettings((prev) => ({ ...prev, rounding: rounding ?? undefined }))}
+            className="sm:w-64"
+          />
+          <span className="text-sm text-gray-500">
+            Пример: 14 387,52 → {applyRounding(14387.52, settings.rounding).toLocaleString('ru-RU', { maximumFractionDigits: 2 })}
+          </span>
+        </div>
+      </div>
+
+      {/* Уровни цен */}
+      <div className="bg-white border border-gray-200 rounded-xl p-5 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Уровни цен</h2>
+            <p className="text-sm text-gray-600">
+              Поправка к итоговой цене для разных покупателей: −15 — скидка 15%, 5 — наценка 5%. Цена уровня
+              округляется по тому же правилу, что и итоговая. Уровни выбираются при печати прайс‑листа.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={addPriceTier}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50"
+            title="Добавить уровень цен"
+          >
+            <Plus size={16} />
+            Добавить уровень
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          {(settings.priceTiers || []).length === 0 ? (
+            <div className="text-sm text-gray-600">Уровней нет: прайс‑лист печатается по итоговой цене.</div>
+          ) : (
+            (settings.priceTiers || []).map((t) => (
+              <PriceTierRow
+                key={t.id}
+                item={t}
+                onChange={(patch) => patchPriceTier(t.id, patch)}
+                onDelete={() => removePriceTier(t.id)}
+              />
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Налоги */}
+      <div className="bg-white border border-gray-200 rounded-xl p-5 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Налоги</h2>
+            <p className="text-sm text-gray-600">
+              Профиль назначается типу изделия. Налог «в цене» выделяется из итоговой цены, налог «сверху»
+              добавляется к округлённой цене. В прайс‑листе цены печатаются с налогом, без налога или в двух колонках.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={addTaxProfile}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50"
+            title="Добавить налоговый профиль"
+          >
+            <Plus size={16} />
+            Добавить налог
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          {(settings.taxProfiles || []).length === 0 ? (
+            <div className="text-sm text-gray-600">Налогов нет: цены изделий без налога.</div>
+          ) : (
+            (settings.taxProfiles || []).map((t) => (
+              <TaxProfileRow
+                key={t.id}
+                item={t}
+                onChange={(patch) => patchTaxProfile(t.id, patch)}
+                onDelete={() => removeTaxProfile(t.id)}
+              />
+            ))
+          )}
+        </div>
+      </div>
+
       {/* Типы отделки */}
       <div className="bg-white border border-gray-200 rounded-xl p-5 space-y-4">
         <div className="flex items-center justify_between">
@@ -354,14 +803,32 @@ export default function SettingsPage(): React.ReactElement {
       <div className="flex justify-end">
         <button
           type="button"
-          onClick={saveAll}
-          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white"
-          title="Сохранить настройки"
+          disabled={!isDraft}
+          onClick={() => setPublishing(true)}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+          title="Проверить изменения цен и опубликовать"
         >
-          <Save size={16} />
-          Сохранить изменения
+          <Send size={16} />
+          Опубликовать изменения…
         </button>
       </div>
+
+      <PublishPriceSettingsDialog
+        open={publishing}
+        draft={settings}
+        onClose={() => setPublishing(false)}
+        onPublished={onPublished}
+      />
+
+      <PriceVersionsPanel onLoad={loadVersion} />
+
+      <CurrencyPanel />
+
+      {/* Резервная копия и хранилище данных */}
+      <AuditActorPanel />
+      <AuditRetentionPanel />
+      <BackupPanel />
+      <StorageUsagePanel />
     </div>
   )
 }
@@ -3,6 +3,7 @@
  * Предназначение:
  * - Настройка URL/anonKey и включение синхронизации
  * - Проверка соединения и доступности view
+ * - Фоновая синхронизация всех сущностей: статус очереди, ручной запуск, повтор/сброс ошибок
  * - Операции с материалами: Pull (из БД) / Push (в БД) / Realtime-подписка
  * - Копирование единого SQL-артефакта в буфер обмена (устойчивые фолбэки)
  * - Управление видимостью пункта Dev в боковом меню
@@ -11,7 +12,7 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import {
   Cloud, Link as LinkIcon, ShieldCheck, Database, Download, Upload,
-  Bell, Unplug, Clipboard, Check, AlertTriangle, SatelliteDish, PlugZap, Eye, EyeOff, ExternalLink
+  Bell, Unplug, Clipboard, Check, AlertTriangle, SatelliteDish, PlugZap, Eye, EyeOff, ExternalLink, RefreshCw
 } from 'lucide-react'
 import { toast } from 'sonner'
 import {
@@ -28,6 +29,8 @@ import {
   upsertMaterialsBatch,
   subscribeMaterialsChanges,
 } from '../services/materialsSync'
+import { SyncService, type SyncConflict, type SyncStatus } from '../services/sync'
+import ConflictMergeDialog, { conflictTitle } from '../components/sync/ConflictMergeDialog'
 
 /**
  * Badge — компактный индикатор состояния
@@ -45,6 +48,131 @@ function Badge({ ok, label }: { ok: boolean; label: string }): React.ReactElemen
   )
 }
 
+/**
+ * Форматирование времени последней операции
+ */
+function formatWhen(iso?: string): string {
+  return iso ? new Date(iso).toLocaleString('ru-RU') : '—'
+}
+
+/**
+ * SyncEnginePanel — состояние фоновой синхронизации (очередь, последние pull/push, ошибки)
+ */
+function SyncEnginePanel(): React.ReactElement {
+  const [status, setStatus] = useState<SyncStatus>(() => SyncService.getStatus())
+  const [active, setActive] = useState<SyncConflict | null>(null)
+  const conflicts = status.conflicts > 0 ? SyncService.getConflicts() : []
+
+  useEffect(() => SyncService.subscribe(setStatus), [])
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-5 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <RefreshCw size={16} className={`text-gray-500 ${status.syncing ? 'animate-spin' : ''}`} />
+          <h2 className="text-base font-semibold text-gray-900">Синхронизация — все сущности</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge ok={status.enabled} label={status.enabled ? 'Включена' : 'Выключена'} />
+          <Badge ok={status.online} label={status.online ? 'Онлайн' : 'Офлайн'} />
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Типы изделий и отделки, материалы, изделия и техкарты. Изменения копятся в очереди и отправляются при появлении сети;
+        обновления с сервера загружаются по updated_at.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+        <div className="p-3 border border-gray-200 rounded-lg">
+          <div className="text-gray-500">В очереди</div>
+          <div className="text-lg font-semibold text-gray-900">{status.pending}</div>
+        </div>
+        <div className="p-3 border border-gray-200 rounded-lg">
+          <div className="text-gray-500">С ошибкой</div>
+          <div className={`text-lg font-semibold ${status.failed > 0 ? 'text-rose-700' : 'text-gray-900'}`}>{status.failed}</div>
+        </div>
+        <div className="p-3 border border-gray-200 rounded-lg">
+          <div className="text-gray-500">Конфликты</div>
+          <div className={`text-lg font-semibold ${status.conflicts > 0 ? 'text-amber-700' : 'text-gray-900'}`}>{status.conflicts}</div>
+        </div>
+        <div className="p-3 border border-gray-200 rounded-lg">
+          <div className="text-gray-500">Последний pull</div>
+          <div className="text-gray-900">{formatWhen(status.lastPullAt)}</div>
+        </div>
+        <div className="p-3 border border-gray-200 rounded-lg">
+          <div className="text-gray-500">Последний push</div>
+          <div className="text-gray-900">{formatWhen(status.lastPushAt)}</div>
+        </div>
+      </div>
+
+      {!status.leader && (
+        <div className="p-3 rounded-lg border border-gray-200 bg-gray-50 text-sm text-gray-600">
+          Синхронизацию ведёт другая открытая вкладка — здесь отображается её состояние.
+        </div>
+      )}
+
+      {status.lastError && (
+        <div className="p-3 rounded-lg border border-rose-200 bg-rose-50 text-sm text-rose-800">{status.lastError}</div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="divide-y divide-amber-100 border border-amber-200 rounded-lg">
+          {conflicts.map((c) => (
+            <div key={c.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+              <div className="text-gray-800">
+                {conflictTitle(c)}
+                <span className="ml-2 text-gray-500">{formatWhen(c.detected_at)}</span>
+              </div>
+              <button
+                type="button"
+                onClick={() => setActive(c)}
+                className="px-2 py-1 rounded-md border border-amber-300 text-amber-800 hover:bg-amber-50"
+              >
+                Разрешить
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ConflictMergeDialog conflict={active} onClose={() => setActive(null)} onResolved={() => setActive(null)} />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => SyncService.syncNow()}
+          disabled={!status.enabled || !status.leader || status.syncing}
+          className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <RefreshCw size={16} />
+          Синхронизировать сейчас
+        </button>
+        {status.failed > 0 && (
+          <>
+            <button
+              type="button"
+              onClick={() => SyncService.retryFailed()}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 text-gray-800"
+            >
+              Повторить ошибочные
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                if (window.confirm('Отбросить мутации с ошибками? Локальные данные останутся без изменений.')) SyncService.discardFailed()
+              }}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-rose-300 bg-white hover:bg-rose-50 text-rose-700"
+            >
+              Отбросить ошибочные
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
 /**
  * Маскировка ключа (кроме последних 4 символов)
  */
@@ -160,6 +288,8 @@ export default function SupabaseDebugPage(): React.ReactElement {
   const saveConfig = useCallback(() => {
     setSupabaseConfig(form)
     toast.success('Конфигурация сохранена')
+    // Сразу подтягиваем изменения и отправляем накопленную очередь
+    SyncService.syncNow()
   }, [form])
 
   /**
@@ -557,6 +687,9 @@ export default function SupabaseDebugPage(): React.ReactElement {
         </div>
       </div>
 
+      {/* Фоновая синхронизация всех сущностей */}
+      <SyncEnginePanel />
+
       {/* Синхронизация материалов */}
       <div className="bg-white border border-gray-200 rounded-xl p-5 space-y-4">
         <div className="flex items-center gap-2">
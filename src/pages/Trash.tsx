@@ -0,0 +1,145 @@
+/**
+ * Страница "Корзина"
+ * Удалённые материалы, изделия и коллекции: восстановление и окончательное удаление.
+ * Обе операции отменяемы (Ctrl+Z / кнопка в уведомлении).
+ */
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { RotateCcw, Trash2 } from 'lucide-react'
+import Button from '../components/common/Button'
+import { toastUndoable } from '../components/common/HistoryHotkeys'
+import { LS_KEYS, StorageService } from '../services/storage'
+import { TRASH_KIND_LABELS, listTrash, purgeItems, restoreItems, type TrashItem, type TrashKind } from '../services/trash'
+
+/** Ключи, изменения которых меняют содержимое корзины */
+const WATCHED_KEYS = new Set<string>([LS_KEYS.materials, LS_KEYS.products, LS_KEYS.collections])
+
+/** Текст подтверждения окончательного удаления */
+function purgeQuestion(items: TrashItem[]): string {
+  const head =
+    items.length === 1
+      ? `Удалить «${items[0].name}» навсегда?`
+      : `Удалить навсегда записей: ${items.length}?`
+  const refs = items.filter((i) => i.usedIn.length > 0)
+  if (refs.length === 0) return head
+  const lines = refs.map((i) =>
+    i.kind === 'product'
+      ? `«${i.name}» будет убрано из коллекций и техкарт: ${i.usedIn.join(', ')}`
+      : `«${i.name}» будет убрано из техкарт: ${i.usedIn.join(', ')}`,
+  )
+  return `${head}\n\n${lines.join('\n')}`
+}
+
+/**
+ * TrashPage — страница корзины
+ */
+export default function TrashPage(): React.ReactElement {
+  const [tick, setTick] = useState(0)
+  const [kind, setKind] = useState<TrashKind | 'all'>('all')
+
+  const items = useMemo(() => listTrash(), [tick])
+  const view = useMemo(() => (kind === 'all' ? items : items.filter((i) => i.kind === kind)), [items, kind])
+
+  // Изменения списков (в т.ч. из других вкладок и синхронизации) → перечитать корзину
+  useEffect(
+    () =>
+      StorageService.onChange((key) => {
+        if (WATCHED_KEYS.has(key)) setTick((t) => t + 1)
+      }),
+    [],
+  )
+
+  const restore = useCallback((list: TrashItem[]) => {
+    toastUndoable(restoreItems(list))
+    setTick((t) => t + 1)
+  }, [])
+
+  const purge = useCallback((list: TrashItem[]) => {
+    if (list.length === 0 || !window.confirm(purgeQuestion(list))) return
+    toastUndoable(purgeItems(list))
+    setTick((t) => t + 1)
+  }, [])
+
+  return (
+    <div className="max-w-6xl mx-auto px-6 py-8 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Корзина</h1>
+          <p className="text-sm text-gray-600">
+            Удалённые записи скрыты из каталога, но их можно восстановить. Ссылки на них сохраняются до окончательного удаления.
+          </p>
+        </div>
+        <Button variant="danger" disabled={view.length === 0} onClick={() => purge(view)}>
+          Очистить корзину
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(['all', 'material', 'product', 'assembly', 'collection'] as const).map((k) => {
+          const count = k === 'all' ? items.length : items.filter((i) => i.kind === k).length
+          return (
+            <button
+              key={k}
+              onClick={() => setKind(k)}
+              className={`px-3 py-1.5 rounded-full text-sm border ${
+                kind === k ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {k === 'all' ? 'Все' : TRASH_KIND_LABELS[k]} ({count})
+            </button>
+          )
+        })}
+      </div>
+
+      {view.length === 0 ? (
+        <div className="bg-white border border-gray-200 rounded-xl p-5 text-gray-600">Корзина пуста.</div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-xl p-0 overflow-hidden">
+          <table className="min-w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Запись</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Тип</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Удалено</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase">Ссылки</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {view.map((i) => (
+                <tr key={`${i.kind}:${i.id}`} className="border-t border-gray-100 hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm">
+                    <div className="text-gray-900">{i.name}</div>
+                    {i.article && <div className="font-mono text-xs text-gray-500">{i.article}</div>}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{TRASH_KIND_LABELS[i.kind]}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{new Date(i.deleted_at).toLocaleString('ru-RU')}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">
+                    {i.usedIn.length > 0 ? (
+                      <span className="text-amber-700" title={i.usedIn.join(', ')}>
+                        {i.kind === 'product' ? 'В коллекциях и техкартах' : 'В техкартах'}: {i.usedIn.length}
+                      </span>
+                    ) : (
+                      '—'
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => restore([i])}>
+                        <RotateCcw size={14} className="mr-1" />
+                        Восстановить
+                      </Button>
+                      <Button variant="danger" size="sm" onClick={() => purge([i])}>
+                        <Trash2 size={14} className="mr-1" />
+                        Удалить навсегда
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
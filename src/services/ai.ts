@@ -3,6 +3,8 @@
  * Если /api/ai/claude недоступен (403/404/Network), используется детерминированная локальная генерация.
  */
 
+import { evaluateFormula } from '../lib/expr'
+
 export interface MaterialsCatalogItem {
   /** Имя материала (для сопоставления по названию) */
   name: string
@@ -22,10 +24,19 @@ export interface AiTechCardItem {
   article?: string
   /** Количество */
   quantity: number
+  /** Формула количества от габаритов W/H/D, мм (если габариты известны) */
+  formula?: string
   /** Единица измерения */
   unit?: string
 }
 
+/** Габариты изделия, мм */
+export interface AiDimensions {
+  width: number
+  height: number
+  depth: number
+}
+
 /** Общий ответ API */
 interface AiResponse<T> {
   ok: boolean
@@ -75,17 +86,29 @@ const FallbackUtils = {
     return `${n}${g} — актуальная подборка изделий с продуманными размерами и материалами. ${lineup}${pitch}`
   },
 
+  /**
+   * Количество по формуле от габаритов: позиция получает формулу и вычисленное значение.
+   * Без габаритов (или при ошибке) остаётся эвристическое количество.
+   */
+  withFormula(item: AiTechCardItem, formula: string, dims?: AiDimensions): AiTechCardItem {
+    if (!dims) return item
+    const result = evaluateFormula(formula, { W: dims.width, H: dims.height, D: dims.depth })
+    return result.ok ? { ...item, formula, quantity: Number(result.value.toFixed(3)) } : item
+  },
+
   /**
    * Сформировать эвристический состав техкарты по краткому ТЗ/названию.
    * Поддерживает типовые сценарии: тумба, пенал, зеркало; размер 600/800/1000.
+   * Если известны габариты, количества ЛДСП, кромки, петель и стекла задаются формулами от W/H/D.
    * Артикулы подобраны под демо-данные: LDSP-18-W, EDGE-2-PVC, HINGE-CLIP.
    */
   techCardSuggest(input: {
     productName: string
     brief?: string
+    dimensions?: AiDimensions
     materialsCatalog: MaterialsCatalogItem[]
   }): AiTechCardItem[] {
-    const { productName, brief = '', materialsCatalog } = input
+    const { productName, brief = '', dimensions: dims, materialsCatalog } = input
     const text = `${productName} ${brief}`
 
     const isTumba = this.hasAny(text, ['тумб', 'tumb', 'tb-'])
@@ -128,19 +151,31 @@ const FallbackUtils = {
       // Для зеркал не нужны LDSP/петли по умолчанию
       const list: AiTechCardItem[] = []
       const glass = this.findInCatalog(materialsCatalog, { name: 'Стекло зеркальное' })
-      list.push({
-        name: glass?.name || 'Зеркало стеклянное',
-        article: glass?.article,
-        quantity: is600 ? 0.35 : is800 ? 0.5 : 0.6,
-        unit: glass?.unit || 'м2',
-      })
+      list.push(
+        this.withFormula(
+          {
+            name: glass?.name || 'Зеркало стеклянное',
+            article: glass?.article,
+            quantity: is600 ? 0.35 : is800 ? 0.5 : 0.6,
+            unit: glass?.unit || 'м2',
+          },
+          'W*H/1e6',
+          dims,
+        ),
+      )
       const edge = this.findInCatalog(materialsCatalog, { name: 'Кромка ПВХ 2мм', article: 'EDGE-2-PVC' })
-      list.push({
-        name: edge?.name || 'Кромка ПВХ 2мм',
-        article: edge?.article || 'EDGE-2-PVC',
-        quantity: 2,
-        unit: edge?.unit || 'пог.м',
-      })
+      list.push(
+        this.withFormula(
+          {
+            name: edge?.name || 'Кромка ПВХ 2мм',
+            article: edge?.article || 'EDGE-2-PVC',
+            quantity: 2,
+            unit: edge?.unit || 'пог.м',
+          },
+          '2*(W + H)/1000',
+          dims,
+        ),
+      )
       return list
     }
 
@@ -148,30 +183,51 @@ const FallbackUtils = {
     const items: AiTechCardItem[] = []
 
     const ldsp = this.findInCatalog(materialsCatalog, { name: 'ЛДСП 18мм Белый', article: 'LDSP-18-W' })
-    items.push({
-      name: ldsp?.name || 'ЛДСП 18мм Белый',
-      article: ldsp?.article || 'LDSP-18-W',
-      quantity: Number(ldspQty.toFixed(2)),
-      unit: ldsp?.unit || 'м2',
-    })
+    // Корпус: две боковины, крышка и дно, фасад
+    items.push(
+      this.withFormula(
+        {
+          name: ldsp?.name || 'ЛДСП 18мм Белый',
+          article: ldsp?.article || 'LDSP-18-W',
+          quantity: Number(ldspQty.toFixed(2)),
+          unit: ldsp?.unit || 'м2',
+        },
+        '(2*H*D + 2*W*D + W*H)/1e6',
+        dims,
+      ),
+    )
 
     const edge = this.findInCatalog(materialsCatalog, { name: 'Кромка ПВХ 2мм', article: 'EDGE-2-PVC' })
-    items.push({
-      name: edge?.name || 'Кромка ПВХ 2мм',
-      article: edge?.article || 'EDGE-2-PVC',
-      quantity: edgeQty,
-      unit: edge?.unit || 'пог.м',
-    })
+    // Передние торцы корпуса и периметр фасада
+    items.push(
+      this.withFormula(
+        {
+          name: edge?.name || 'Кромка ПВХ 2мм',
+          article: edge?.article || 'EDGE-2-PVC',
+          quantity: edgeQty,
+          unit: edge?.unit || 'пог.м',
+        },
+        '(4*W + 4*H)/1000',
+        dims,
+      ),
+    )
 
     // Петли у тумб/пеналов с дверями
     if (isTumba || isPenal || this.hasAny(text, ['двер', 'петл', 'hinge'])) {
       const hinge = this.findInCatalog(materialsCatalog, { name: 'Петля clip-on', article: 'HINGE-CLIP' })
-      items.push({
-        name: hinge?.name || 'Петля clip-on',
-        article: hinge?.article || 'HINGE-CLIP',
-        quantity: hingeQty,
-        unit: hinge?.unit || 'шт',
-      })
+      // Дверь на каждые 600 мм ширины, на дверь — петля на каждые 700 мм высоты, но не меньше двух
+      items.push(
+        this.withFormula(
+          {
+            name: hinge?.name || 'Петля clip-on',
+            article: hinge?.article || 'HINGE-CLIP',
+            quantity: hingeQty,
+            unit: hinge?.unit || 'шт',
+          },
+          'ceil(W/600)*max(2, ceil(H/700))',
+          dims,
+        ),
+      )
     }
 
     // Ручки при необходимости
@@ -242,6 +298,8 @@ export class AiService {
   static async suggestTechCard(input: {
     productName: string
     brief?: string
+    /** Габариты изделия — для формул количеств */
+    dimensions?: AiDimensions
     typeName?: string
     finishName?: string
     materialsCatalog: MaterialsCatalogItem[]
@@ -258,6 +316,7 @@ export class AiService {
     return FallbackUtils.techCardSuggest({
       productName: input.productName,
       brief: input.brief,
+      dimensions: input.dimensions,
       materialsCatalog: input.materialsCatalog || [],
     })
   }
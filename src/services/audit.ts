@@ -0,0 +1,406 @@
+/**
+ * AuditService — запись изменений в журнал с пополевыми отличиями
+ * Каждое событие хранит, кто (actor), откуда (source) и что изменил: список полей «было → стало».
+ * Списки с id (позиции техкарты, типы изделий) раскладываются по элементам, чтобы в журнале было видно
+ * конкретную позицию: «Техкарта › ЛДСП 18мм: 2 → 2.5».
+ */
+
+import type { TechCardItem } from '../types/models'
+import {
+  LS_KEYS,
+  StorageService,
+  toArray,
+  type AuditAction,
+  type AuditChange,
+  type AuditEntity,
+  type AuditEvent,
+  type AuditSource,
+} from './storage'
+import { AuditRetention } from './auditRetention'
+import { techCardItemKind } from '../lib/pricing'
+
+/** Имя по умолчанию, пока пользователь не представился */
+export const DEFAULT_ACTOR = 'Локальный пользователь'
+
+/** Автор изменений, пришедших с сервера без указания автора (строки, записанные до колонки updated_by) */
+export const SYNC_ACTOR = 'Сервер'
+
+/** Больше стольких новых записей за раз — одно сводное событие вместо событий по каждой */
+const BULK_CREATE_LIMIT = 20
+
+/** Служебные поля — в отличия не попадают */
+const IGNORED_FIELDS = new Set(['id', 'created_at', 'updated_at', 'version', '_techCardId'])
+
+/** Подписи полей */
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Название',
+  article: 'Артикул',
+  unit: 'Ед. изм.',
+  price: 'Цена',
+  category: 'Категория',
+  supplier: 'Поставщик',
+  description: 'Описание',
+  tags: 'Теги',
+  is_active: 'Активен',
+  deleted_at: 'В корзине',
+  tech_card: 'Техкарта',
+  quantity: 'Количество',
+  waste_percent: 'Отход, %',
+  currency: 'Валюта закупки',
+  rates: 'Курсы валют',
+  wastePercent: 'Отход, %',
+  collection_id: 'Коллекция',
+  product_type_id: 'Тип изделия',
+  finish_type_id: 'Тип отделки',
+  image_url: 'Изображение',
+  width_mm: 'Ширина, мм',
+  height_mm: 'Высота, мм',
+  depth_mm: 'Глубина, мм',
+  variant_of: 'Вариант изделия',
+  imageKeyword: 'Ключевое слово фото',
+  group: 'Группа',
+  is_archived: 'В архиве',
+  pinned: 'Закреплена',
+  product_order: 'Состав и порядок',
+  cover_url: 'Обложка',
+  productTypes: 'Типы изделий',
+  finishTypes: 'Типы отделки',
+  markup: 'Наценка, %',
+  workCost: 'Стоимость работ',
+  work_cost: 'Стоимость работ',
+  rounding: 'Округление',
+  priceTiers: 'Уровни цен',
+  adjustment: 'Поправка, %',
+  overheadPools: 'Накладные расходы',
+  monthlyAmount: 'Сумма в месяц',
+  monthlyBase: 'База в месяц',
+  base: 'База распределения',
+  taxProfiles: 'Налоговые профили',
+  taxProfileId: 'Налог',
+  rate: 'Ставка, %',
+  inclusive: 'Налог в цене',
+}
+
+/** Подписи источников */
+export const AUDIT_SOURCE_LABELS: Record<AuditSource, string> = {
+  ui: 'Интерфейс',
+  import: 'Импорт',
+  sync: 'Синхронизация',
+  ai: 'AI',
+  system: 'Система',
+  undo: 'Отмена',
+  redo: 'Повтор',
+}
+
+/** Подписи сущностей */
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  material: 'Материал',
+  product: 'Изделие',
+  assembly: 'Сборка',
+  collection: 'Коллекция',
+  settings: 'Настройки цен',
+  system: 'Система',
+}
+
+/** Подписи действий */
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Создание',
+  update: 'Изменение',
+  delete: 'Удаление',
+  restore: 'Восстановление',
+  purge: 'Удаление навсегда',
+  archive: 'Архивирование',
+  unarchive: 'Возврат из архива',
+  reorder: 'Изменение порядка',
+  add_product: 'Добавление изделия',
+  import: 'Импорт',
+  seed: 'Демо-данные',
+  migrate: 'Миграция данных',
+}
+
+/**
+ * Фильтр журнала (пустые поля не ограничивают выборку)
+ */
+export interface AuditFilter {
+  entity?: AuditEntity | ''
+  action?: AuditAction | ''
+  source?: AuditSource | ''
+  /** Начало периода, YYYY-MM-DD (включительно, локальное время) */
+  from?: string
+  /** Конец периода, YYYY-MM-DD (включительно, локальное время) */
+  to?: string
+  /** Поиск по названию, автору, полям и значениям изменений, доп. данным */
+  text?: string
+}
+
+/**
+ * Событие для записи
+ */
+export interface AuditEntry {
+  action: AuditAction
+  entity: AuditEntity
+  entityId?: string
+  /** Название (по умолчанию — name из after/before) */
+  entityName?: string
+  source: AuditSource
+  /** Автор (по умолчанию — текущий пользователь; для синхронизации без автора строки — сервер) */
+  actor?: string
+  /** Состояние до изменения — вместе с after даёт список отличий */
+  before?: object | null
+  /** Состояние после изменения */
+  after?: object | null
+  details?: Record<string, unknown>
+}
+
+type Named = { id: string; name?: string; deleted_at?: string | null }
+
+/** Подпись поля */
+export function fieldLabel(field: string): string {
+  return FIELD_LABELS[field] || field
+}
+
+/** Совпадают ли значения (пустая строка и отсутствие значения равны) */
+function same(a: unknown, b: unknown): boolean {
+  const norm = (v: unknown) => JSON.stringify(v === '' || v === undefined ? null : v)
+  return norm(a) === norm(b)
+}
+
+/** Массив записей с id (раскладывается по элементам) */
+function isIdList(v: unknown): v is Named[] {
+  return Array.isArray(v) && v.length > 0 && v.every((x) => x && typeof x === 'object' && typeof x.id === 'string')
+}
+
+/** Ключ позиции техкарты в журнале: id материала, у изделий и сборок — «product:<id>», «assembly:<id>» */
+function techCardKey(it: TechCardItem): string {
+  const kind = techCardItemKind(it)
+  return kind === 'material' ? it.materialId : `${kind}:${it.refId}`
+}
+
+/** Количество позиции для журнала: формула (если задана) или число; свой отход строки — «2.5 · отход 12%» */
+function techCardAmount(it: TechCardItem): string | number {
+  const amount = it.formula?.trim() || Number(it.quantity) || 0
+  return it.wastePercent == null ? amount : `${amount} · отход ${Number(it.wastePercent) || 0}%`
+}
+
+/** Отличия техкарты по позициям: количество (формула) и отход строки было → стало (null — позиции нет) */
+function diffTechCard(a: unknown, b: unknown): AuditChange[] {
+  const before = new Map(toArray<TechCardItem>(a).map((it) => [techCardKey(it), techCardAmount(it)]))
+  const after = new Map(toArray<TechCardItem>(b).map((it) => [techCardKey(it), techCardAmount(it)]))
+  const ids = Array.from(new Set([...before.keys(), ...after.keys()])).filter((id) => before.get(id) !== after.get(id))
+  if (ids.length === 0) return []
+  const names = new Map<string, string>([
+    ...StorageService.getMaterials().map((m): [string, string] => [m.id, m.name]),
+    ...StorageService.getProducts().map((p): [string, string] => [`product:${p.id}`, p.name]),
+    ...StorageService.getAssemblies().map((x): [string, string] => [`assembly:${x.id}`, x.name]),
+  ])
+  return ids.map((id) => ({
+    field: `tech_card.${id}`,
+    label: `${fieldLabel('tech_card')} › ${names.get(id) || id.slice(0, 8)}`,
+    from: before.get(id) ?? null,
+    to: after.get(id) ?? null,
+  }))
+}
+
+/** Отличия списка записей с id: добавленные/удалённые элементы и изменённые поля элементов */
+function diffIdList(key: string, a: unknown, b: unknown): AuditChange[] {
+  const before = new Map(toArray<Named>(a).map((x) => [x.id, x]))
+  const after = new Map(toArray<Named>(b).map((x) => [x.id, x]))
+  const changes: AuditChange[] = []
+  const title = (x: Named) => `${fieldLabel(key)} › ${x.name || x.id.slice(0, 8)}`
+  before.forEach((prev, id) => {
+    const next = after.get(id)
+    if (!next) {
+      changes.push({ field: `${key}.${id}`, label: title(prev), from: prev.name ?? id, to: null })
+      return
+    }
+    for (const c of diffFields(prev, next)) {
+      changes.push({ field: `${key}.${id}.${c.field}`, label: `${title(next)}: ${c.label}`, from: c.from, to: c.to })
+    }
+  })
+  after.forEach((next, id) => {
+    if (!before.has(id)) changes.push({ field: `${key}.${id}`, label: title(next), from: null, to: next.name ?? id })
+  })
+  return changes
+}
+
+/**
+ * Пополевые отличия двух состояний записи
+ */
+export function diffFields(before: object | null | undefined, after: object | null | undefined): AuditChange[] {
+  const a = (before || {}) as Record<string, unknown>
+  const b = (after || {}) as Record<string, unknown>
+  const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).filter((k) => !IGNORED_FIELDS.has(k))
+  const changes: AuditChange[] = []
+  for (const k of keys) {
+    if (same(a[k], b[k])) continue
+    if (k === 'tech_card') changes.push(...diffTechCard(a[k], b[k]))
+    else if (isIdList(a[k]) || isIdList(b[k])) changes.push(...diffIdList(k, a[k], b[k]))
+    else changes.push({ field: k, label: fieldLabel(k), from: a[k] ?? null, to: b[k] ?? null })
+  }
+  return changes
+}
+
+/**
+ * Значение поля для отображения в журнале
+ */
+export function formatAuditValue(v: unknown): string {
+  if (v == null || v === '') return '—'
+  if (typeof v === 'boolean') return v ? 'Да' : 'Нет'
+  if (typeof v === 'number') return v.toLocaleString('ru-RU', { maximumFractionDigits: 4 })
+  if (Array.isArray(v)) return v.length === 0 ? '—' : v.every((x) => typeof x !== 'object') ? v.join(', ') : `${v.length} шт.`
+  if (typeof v === 'object') return JSON.stringify(v)
+  return String(v)
+}
+
+/** Текст события для полнотекстового поиска */
+function searchableText(e: AuditEvent): string {
+  const parts: unknown[] = [e.entityName, e.entityId, e.actor, e.action, e.entity]
+  for (const c of e.changes || []) parts.push(c.label, formatAuditValue(c.from), formatAuditValue(c.to))
+  if (e.details) parts.push(JSON.stringify(e.details))
+  return parts.filter((p) => p != null && p !== '').join(' ').toLowerCase()
+}
+
+/** Граница дня YYYY-MM-DD в ms (локальное время); end — конец дня */
+function dayBound(day: string, end: boolean): number {
+  const [y, m, d] = day.split('-').map(Number)
+  return end ? new Date(y, m - 1, d + 1).getTime() - 1 : new Date(y, m - 1, d).getTime()
+}
+
+/**
+ * Отобрать события журнала по фильтру
+ */
+export function filterAuditEvents(events: AuditEvent[], filter: AuditFilter): AuditEvent[] {
+  const from = filter.from ? dayBound(filter.from, false) : -Infinity
+  const to = filter.to ? dayBound(filter.to, true) : Infinity
+  const words = (filter.text || '').toLowerCase().split(/\s+/).filter(Boolean)
+  return events.filter((e) => {
+    if (filter.entity && e.entity !== filter.entity) return false
+    if (filter.action && e.action !== filter.action) return false
+    if (filter.source && e.source !== filter.source) return false
+    if (e.at < from || e.at > to) return false
+    if (words.length === 0) return true
+    const text = searchableText(e)
+    return words.every((w) => text.includes(w))
+  })
+}
+
+/**
+ * История одной записи, от ранних событий к поздним
+ */
+export function entityTimeline(events: AuditEvent[], entity: AuditEntity, entityId: string): AuditEvent[] {
+  return events.filter((e) => e.entity === entity && e.entityId === entityId).sort((a, b) => a.at - b.at)
+}
+
+/**
+ * Журнал в CSV: строка на каждое изменённое поле (событие без отличий — одна строка)
+ */
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const header = ['time', 'actor', 'source', 'entity', 'entity_id', 'entity_name', 'action', 'field', 'from', 'to', 'details']
+  const rows: string[][] = []
+  for (const e of events) {
+    const base = [
+      new Date(e.at).toISOString(),
+      e.actor || '',
+      e.source || '',
+      e.entity,
+      e.entityId || '',
+      e.entityName || '',
+      e.action,
+    ]
+    const details = e.details ? JSON.stringify(e.details) : ''
+    if (e.changes && e.changes.length > 0) {
+      for (const c of e.changes) rows.push([...base, c.label, formatAuditValue(c.from), formatAuditValue(c.to), details])
+    } else {
+      rows.push([...base, '', '', '', details])
+    }
+  }
+  return [header, ...rows].map((r) => r.map((c) => `"${String(c).replace(/"/g, '""')}"`).join(',')).join('\n')
+}
+
+/**
+ * Сервис журнала
+ */
+export class AuditService {
+  /** Имя текущего пользователя для журнала */
+  static getActor(): string {
+    const name = StorageService.read<string>(LS_KEYS.auditActor, '')
+    return typeof name === 'string' && name.trim() ? name.trim() : DEFAULT_ACTOR
+  }
+
+  /** Сохранить имя пользователя для журнала */
+  static setActor(name: string): Promise<boolean> {
+    return StorageService.write(LS_KEYS.auditActor, name.trim())
+  }
+
+  /**
+   * Записать событие. Изменение без отличий (update, где ни одно поле не поменялось) не записывается.
+   */
+  static log(entry: AuditEntry): void {
+    const record = this.build(entry)
+    if (record) AuditRetention.push([record])
+  }
+
+  /**
+   * Записать отличия двух версий списка: событие на каждую созданную, изменённую, удалённую запись.
+   * Мягкое удаление и восстановление (deleted_at) записываются как delete/restore.
+   * Массовое создание (импорт, первая синхронизация) — одно сводное событие.
+   * actors — автор изменения по id записи (изменения с сервера пишутся от имени автора на другом устройстве).
+   */
+  static logList<T extends Named>(
+    entity: AuditEntity,
+    before: T[],
+    after: T[],
+    source: AuditSource,
+    details?: Record<string, unknown>,
+    actors?: ReadonlyMap<string, string>,
+  ): void {
+    const prev = new Map(before.map((x) => [x.id, x]))
+    const next = new Map(after.map((x) => [x.id, x]))
+    const entries: AuditEntry[] = []
+    const created = after.filter((x) => !prev.has(x.id))
+
+    prev.forEach((item, id) => {
+      const now = next.get(id)
+      if (!now) {
+        entries.push({ action: 'delete', entity, entityId: id, entityName: item.name, source, details, actor: actors?.get(id) })
+        return
+      }
+      const action: AuditAction =
+        !item.deleted_at && now.deleted_at ? 'delete' : item.deleted_at && !now.deleted_at ? 'restore' : 'update'
+      entries.push({ action, entity, entityId: id, source, before: item, after: now, details, actor: actors?.get(id) })
+    })
+
+    if (created.length > BULK_CREATE_LIMIT) {
+      const authors = new Set(created.map((x) => actors?.get(x.id)))
+      const actor = authors.size === 1 ? Array.from(authors)[0] : undefined
+      entries.push({ action: 'import', entity, source, details: { ...details, created: created.length }, actor })
+    } else {
+      for (const item of created) {
+        entries.push({ action: 'create', entity, entityId: item.id, entityName: item.name, source, details, actor: actors?.get(item.id) })
+      }
+    }
+
+    const records = entries.map((e) => this.build(e)).filter(Boolean) as Omit<AuditEvent, 'id' | 'at' | 'version'>[]
+    if (records.length > 0) AuditRetention.push(records)
+  }
+
+  /** Запись журнала из события (null — нечего записывать) */
+  private static build(entry: AuditEntry): Omit<AuditEvent, 'id' | 'at' | 'version'> | null {
+    const { before, after, source } = entry
+    const changes = before && after ? diffFields(before, after) : undefined
+    if (entry.action === 'update' && changes && changes.length === 0) return null
+    const named = (after || before) as { name?: unknown } | null | undefined
+    const record: Omit<AuditEvent, 'id' | 'at' | 'version'> = {
+      action: entry.action,
+      entity: entry.entity,
+      actor: entry.actor ?? (source === 'sync' ? SYNC_ACTOR : this.getActor()),
+      source,
+    }
+    if (entry.entityId) record.entityId = entry.entityId
+    const name = entry.entityName ?? (typeof named?.name === 'string' ? named.name : undefined)
+    if (name) record.entityName = name
+    if (changes && changes.length > 0) record.changes = changes
+    if (entry.details) record.details = entry.details
+    return record
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * AuditRetention — хранение журнала изменений: срок и объём, склейка повторяющихся правок, архив.
+ * Журнал читается каждой страницей со сводкой, поэтому в рабочем ключе остаются только свежие события.
+ * Вытесненные события уходят в архив: в таблицу Supabase audit_log или в локальный архив,
+ * который скачивается файлами по месяцам и после этого очищается.
+ */
+
+import { getSupabase, isSupabaseEnabled } from './supabase'
+import { LS_KEYS, StorageService, toArray, type AuditChange, type AuditEvent } from './storage'
+
+/**
+ * Настройки хранения журнала
+ */
+export interface AuditRetentionSettings {
+  /** Хранить события не дольше N дней (0 — без ограничения) */
+  maxAgeDays: number
+  /** Хранить не больше N событий (0 — без ограничения) */
+  maxCount: number
+  /** Склеивать последовательные правки одной записи одним автором */
+  compact: boolean
+  /** Окно склейки, минут */
+  compactWindowMin: number
+  /** Куда уходят вытесненные события */
+  archiveTarget: 'file' | 'supabase'
+}
+
+/**
+ * Итог применения правил
+ */
+export interface AuditRetentionResult {
+  /** Осталось в журнале */
+  kept: number
+  /** Склеено событий */
+  compacted: number
+  /** Перенесено в локальный архив */
+  archived: number
+  /** Выгружено в Supabase */
+  uploaded: number
+  /** Ошибка выгрузки (события остались в локальном архиве) */
+  error?: string
+}
+
+/**
+ * Месяц локального архива
+ */
+export interface AuditArchiveMonth {
+  /** YYYY-MM */
+  month: string
+  count: number
+}
+
+/** Значения по умолчанию */
+export const DEFAULT_AUDIT_RETENTION: AuditRetentionSettings = {
+  maxAgeDays: 180,
+  maxCount: 5000,
+  compact: true,
+  compactWindowMin: 10,
+  archiveTarget: 'file',
+}
+
+/** Запас сверх maxCount, после которого правила применяются сразу при записи (а не при следующем запуске) */
+const OVERFLOW_SLACK = 0.1
+
+/** Событие без id/времени (как его формирует AuditService) */
+type PendingEvent = Omit<AuditEvent, 'id' | 'at' | 'version'>
+
+/** Месяц события, YYYY-MM (локальное время) */
+function monthOf(at: number): string {
+  const d = new Date(at)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`
+}
+
+/** Строка таблицы audit_log */
+function toRow(e: AuditEvent) {
+  return {
+    id: e.id,
+    at: new Date(e.at).toISOString(),
+    actor: e.actor ?? null,
+    source: e.source ?? null,
+    entity: e.entity,
+    entity_id: e.entityId ?? null,
+    entity_name: e.entityName ?? null,
+    action: e.action,
+    changes: e.changes ?? null,
+    details: e.details ?? null,
+    version: e.version ?? null,
+  }
+}
+
+/**
+ * Можно ли склеить событие с предыдущим событием той же записи
+ */
+export function canCompact(prev: PendingEvent & { at: number }, next: PendingEvent & { at: number }, windowMin: number): boolean {
+  return (
+    prev.action === 'update' &&
+    next.action === 'update' &&
+    !!prev.entityId &&
+    prev.entityId === next.entityId &&
+    prev.entity === next.entity &&
+    prev.actor === next.actor &&
+    prev.source === next.source &&
+    !!prev.changes &&
+    !!next.changes &&
+    Math.abs(next.at - prev.at) <= windowMin * 60 * 1000
+  )
+}
+
+/**
+ * Склеить два события: по каждому полю — первое «было» и последнее «стало».
+ * Поля, вернувшиеся к исходному значению, пропадают.
+ */
+export function compactPair<T extends PendingEvent & { at: number }>(prev: T, next: PendingEvent & { at: number }): T {
+  const byField = new Map<string, AuditChange>()
+  for (const c of prev.changes || []) byField.set(c.field, c)
+  for (const c of next.changes || []) {
+    const first = byField.get(c.field)
+    byField.set(c.field, first ? { ...c, from: first.from } : c)
+  }
+  const changes = Array.from(byField.values()).filter((c) => JSON.stringify(c.from) !== JSON.stringify(c.to))
+  const merged = Number(prev.details?.compacted ?? 1) + Number(next.details?.compacted ?? 1)
+  return {
+    ...prev,
+    at: next.at,
+    entityName: next.entityName ?? prev.entityName,
+    changes,
+    details: { ...prev.details, ...next.details, compacted: merged },
+  }
+}
+
+/**
+ * Сервис хранения журнала
+ */
+export class AuditRetention {
+  /** Текущие настройки */
+  static getSettings(): AuditRetentionSettings {
+    const raw = StorageService.read<Partial<AuditRetentionSettings> | null>(LS_KEYS.auditRetention, null)
+    const s = { ...DEFAULT_AUDIT_RETENTION, ...(raw && typeof raw === 'object' ? raw : {}) }
+    return {
+      maxAgeDays: Math.max(0, Math.floor(Number(s.maxAgeDays) || 0)),
+      maxCount: Math.max(0, Math.floor(Number(s.maxCount) || 0)),
+      compact: s.compact !== false,
+      compactWindowMin: Math.max(1, Number(s.compactWindowMin) || DEFAULT_AUDIT_RETENTION.compactWindowMin),
+      archiveTarget: s.archiveTarget === 'supabase' ? 'supabase' : 'file',
+    }
+  }
+
+  /** Сохранить настройки */
+  static saveSettings(settings: AuditRetentionSettings): Promise<boolean> {
+    return StorageService.write(LS_KEYS.auditRetention, settings)
+  }
+
+  /**
+   * Добавить события в журнал: с включённой склейкой правка той же записи в пределах окна
+   * сливается с последним событием журнала. Переполнение журнала сразу запускает правила хранения.
+   */
+  static push(records: PendingEvent[]): void {
+    if (records.length === 0) return
+    const settings = this.getSettings()
+    const now = Date.now()
+    const events = StorageService.getAudit()
+    const [head, ...rest] = events
+    const last = records[records.length - 1]
+
+    if (records.length === 1 && head && settings.compact && canCompact(head, { ...last, at: now }, settings.compactWindowMin)) {
+      const merged = compactPair(head, { ...last, at: now })
+      this.writeJournal(events, merged.changes && merged.changes.length > 0 ? [merged, ...rest] : rest)
+    } else {
+      StorageService.pushAudit(records)
+    }
+
+    const limit = settings.maxCount
+    if (limit > 0 && StorageService.getAudit().length > limit * (1 + OVERFLOW_SLACK)) {
+      this.apply().catch((e) => console.warn('⚠️ Audit retention failed:', e))
+    }
+  }
+
+  /**
+   * Склеить повторяющиеся правки во всём журнале (события — от новых к старым)
+   */
+  static compact(events: AuditEvent[], windowMin: number): AuditEvent[] {
+    const out: AuditEvent[] = []
+    /** Индекс последнего оставленного события по записи */
+    const lastByEntity = new Map<string, number>()
+    for (const e of events.slice().sort((a, b) => a.at - b.at)) {
+      const key = `${e.entity}:${e.entityId ?? ''}`
+      const idx = lastByEntity.get(key)
+      if (idx != null && canCompact(out[idx], e, windowMin)) {
+        out[idx] = compactPair(out[idx], e)
+        continue
+      }
+      lastByEntity.set(key, out.length)
+      out.push(e)
+    }
+    return out.filter((e) => e.action !== 'update' || !e.changes || e.changes.length > 0).sort((a, b) => b.at - a.at)
+  }
+
+  /**
+   * Применить правила: склейка, затем вытеснение событий старше срока и сверх количества в архив
+   */
+  static async apply(settings: AuditRetentionSettings = this.getSettings()): Promise<AuditRetentionResult> {
+    const events = StorageService.getAudit()
+    const compacted = settings.compact ? this.compact(events, settings.compactWindowMin) : events
+    const cutoff = settings.maxAgeDays > 0 ? Date.now() - settings.maxAgeDays * 24 * 60 * 60 * 1000 : -Infinity
+
+    const fresh = compacted.filter((e) => e.at >= cutoff)
+    const kept = settings.maxCount > 0 ? fresh.slice(0, settings.maxCount) : fresh
+    const keptIds = new Set(kept.map((e) => e.id))
+    const expired = compacted.filter((e) => !keptIds.has(e.id))
+
+    const result: AuditRetentionResult = {
+      kept: kept.length,
+      compacted: events.length - compacted.length,
+      archived: 0,
+      uploaded: 0,
+    }
+    if (expired.length === 0 && result.compacted === 0) return result
+
+    let toLocal = expired
+    if (expired.length > 0 && settings.archiveTarget === 'supabase') {
+      try {
+        await this.upload(expired)
+        result.uploaded = expired.length
+        toLocal = []
+      } catch (e: any) {
+        result.error = e?.message || String(e)
+      }
+    }
+    if (toLocal.length > 0) {
+      await StorageService.write(LS_KEYS.auditArchive, [...toLocal, ...this.getArchive()])
+      result.archived = toLocal.length
+    }
+    await this.writeJournal(events, kept)
+    return result
+  }
+
+  /**
+   * Записать журнал, изменённый относительно снимка before, поверх его текущего содержимого:
+   * события, появившиеся после снимка (в т.ч. из других вкладок, пока шла выгрузка), сохраняются.
+   * Из журнала убираются только события, которых нет в after; изменённые события заменяются, если с момента снимка
+   * их никто не менял.
+   */
+  private static writeJournal(before: AuditEvent[], after: AuditEvent[]): Promise<boolean> {
+    const next = new Map(after.map((e) => [e.id, e]))
+    const prev = new Map(before.map((e) => [e.id, e]))
+    const current = StorageService.getAudit()
+    const journal = current
+      .filter((e) => !prev.has(e.id) || next.has(e.id))
+      .map((e) => (next.has(e.id) && JSON.stringify(e) === JSON.stringify(prev.get(e.id)) ? next.get(e.id)! : e))
+    return StorageService.write(LS_KEYS.audit, journal)
+  }
+
+  /** Выгрузить события в таблицу audit_log (повторная выгрузка тех же событий безопасна) */
+  private static async upload(events: AuditEvent[]): Promise<void> {
+    const client = isSupabaseEnabled() ? getSupabase() : null
+    if (!client) throw new Error('Supabase не настроен')
+    const BATCH = 500
+    for (let i = 0; i < events.length; i += BATCH) {
+      const { error } = await client
+        .from('audit_log')
+        .upsert(events.slice(i, i + BATCH).map(toRow), { onConflict: 'id', ignoreDuplicates: true })
+      if (error) throw error
+    }
+  }
+
+  /** Локальный архив */
+  static getArchive(): AuditEvent[] {
+    return toArray<AuditEvent>(StorageService.read<unknown>(LS_KEYS.auditArchive, []))
+  }
+
+  /** Месяцы локального архива, от новых к старым */
+  static getArchiveMonths(): AuditArchiveMonth[] {
+    const counts = new Map<string, number>()
+    for (const e of this.getArchive()) counts.set(monthOf(e.at), (counts.get(monthOf(e.at)) || 0) + 1)
+    return Array.from(counts, ([month, count]) => ({ month, count })).sort((a, b) => b.month.localeCompare(a.month))
+  }
+
+  /** Скачать месяц архива файлом JSON */
+  static downloadMonth(month: string): void {
+    const events = this.getArchive().filter((e) => monthOf(e.at) === month)
+    const blob = new Blob([JSON.stringify({ app: 'WASSER PRO', month, events }, null, 2)], {
+      type: 'application/json;charset=utf-8',
+    })
+    const url = URL.createObjectURL(blob)
+
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `wasser-journal_${month}.json`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  /** Удалить месяц из локального архива (после скачивания) */
+  static clearMonth(month: string): Promise<boolean> {
+    return StorageService.write(
+      LS_KEYS.auditArchive,
+      this.getArchive().filter((e) => monthOf(e.at) !== month),
+    )
+  }
+
+  /** Выгрузить весь локальный архив в Supabase и очистить его */
+  static async uploadArchive(): Promise<number> {
+    const archive = this.getArchive()
+    if (archive.length === 0) return 0
+    await this.upload(archive)
+    await StorageService.write(LS_KEYS.auditArchive, [])
+    return archive.length
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * backup.ts — резервная копия рабочего пространства
+ * Один версионированный JSON со всеми данными: коллекции, изделия, сборки, материалы, настройки цен, валюты,
+ * журнал изменений и настройки прайс-листа. Проверка при импорте, сводка отличий, слияние или замена.
+ */
+
+import { LS_KEYS, StorageService, toArray } from './storage'
+import { SCHEMA_VERSION, migrateValues } from './migrations'
+import { AuditService } from './audit'
+
+/** Идентификатор формата файла */
+export const BACKUP_FORMAT = 'wasser-backup'
+/** Версия формата файла (меняется при несовместимых изменениях структуры бандла) */
+export const BACKUP_VERSION = 1
+
+/**
+ * Разделы резервной копии: ключ бандла → ключ хранилища
+ */
+const SECTIONS = {
+  collections: LS_KEYS.collections,
+  products: LS_KEYS.products,
+  assemblies: LS_KEYS.assemblies,
+  materials: LS_KEYS.materials,
+  materialPrices: LS_KEYS.materialPrices,
+  priceVersions: LS_KEYS.priceVersions,
+  audit: LS_KEYS.audit,
+  priceSettings: LS_KEYS.priceSettings,
+  currency: LS_KEYS.currency,
+  pdfPrefs: LS_KEYS.pdfPrefs,
+} as const
+
+export type BackupSection = keyof typeof SECTIONS
+
+/** Разделы-списки (сравниваются по id) */
+const LIST_SECTIONS: BackupSection[] = ['collections', 'products', 'assemblies', 'materials', 'materialPrices', 'priceVersions', 'audit']
+
+/** Подписи разделов для UI */
+export const BACKUP_SECTION_LABELS: Record<BackupSection, string> = {
+  collections: 'Коллекции',
+  products: 'Изделия',
+  assemblies: 'Сборки',
+  materials: 'Материалы',
+  materialPrices: 'История цен материалов',
+  priceVersions: 'Версии настроек цен',
+  audit: 'Журнал изменений',
+  priceSettings: 'Настройки цен',
+  currency: 'Валюты',
+  pdfPrefs: 'Настройки прайс-листа',
+}
+
+/**
+ * Бандл резервной копии
+ */
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT
+  version: number
+  /** Версия локальной схемы данных на момент экспорта */
+  schemaVersion: number
+  created_at: string
+  app: string
+  data: Partial<Record<BackupSection, unknown>>
+}
+
+/**
+ * Отличия по одному разделу
+ */
+export interface BackupSectionDiff {
+  section: BackupSection
+  label: string
+  /** Есть в файле, нет локально */
+  added: number
+  /** Есть и там и там, содержимое отличается */
+  changed: number
+  /** Есть локально, нет в файле (удалится при замене) */
+  removed: number
+}
+
+/** Режим восстановления */
+export type RestoreMode = 'merge' | 'replace'
+
+/**
+ * Собрать бандл из текущих данных
+ */
+export function createBackup(): BackupBundle {
+  const data: BackupBundle['data'] = {}
+  for (const [section, key] of Object.entries(SECTIONS) as Array<[BackupSection, string]>) {
+    if (StorageService.has(key)) data[section] = StorageService.read<unknown>(key, null)
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: StorageService.getSchemaVersion(),
+    created_at: new Date().toISOString(),
+    app: 'WASSER PRO',
+    data,
+  }
+}
+
+/**
+ * Скачать резервную копию файлом JSON
+ */
+export function downloadBackup(bundle: BackupBundle = createBackup()): void {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `wasser-backup_${bundle.created_at.slice(0, 10)}.json`
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Разобрать и проверить файл резервной копии.
+ * Бросает Error с понятным сообщением, если файл повреждён или несовместим.
+ */
+export function parseBackup(text: string): BackupBundle {
+  let json: any
+  try {
+    json = JSON.parse(text.replace(/^\uFEFF/, ''))
+  } catch {
+    throw new Error('Файл не является корректным JSON')
+  }
+  if (!json || typeof json !== 'object' || json.format !== BACKUP_FORMAT) {
+    throw new Error('Это не резервная копия WASSER PRO')
+  }
+  if (typeof json.version !== 'number' || json.version > BACKUP_VERSION) {
+    throw new Error(`Неподдерживаемая версия формата: ${json.version}`)
+  }
+  if (Number(json.schemaVersion) > SCHEMA_VERSION) {
+    throw new Error('Копия создана более новой версией приложения — обновите приложение')
+  }
+  if (!json.data || typeof json.data !== 'object') {
+    throw new Error('В файле нет раздела data')
+  }
+
+  for (const section of LIST_SECTIONS) {
+    const value = json.data[section]
+    if (value == null) continue
+    if (typeof value !== 'object') {
+      throw new Error(`Раздел «${BACKUP_SECTION_LABELS[section]}» повреждён`)
+    }
+    const list = toArray<any>(value)
+    const bad = list.findIndex((x) => !x || typeof x !== 'object' || typeof x.id !== 'string' || !x.id)
+    if (bad >= 0) {
+      throw new Error(`Раздел «${BACKUP_SECTION_LABELS[section]}»: запись №${bad + 1} без id`)
+    }
+  }
+  for (const section of ['priceSettings', 'currency', 'pdfPrefs'] as BackupSection[]) {
+    const value = json.data[section]
+    if (value != null && (typeof value !== 'object' || Array.isArray(value))) {
+      throw new Error(`Раздел «${BACKUP_SECTION_LABELS[section]}» повреждён`)
+    }
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: json.version,
+    schemaVersion: Number(json.schemaVersion) || 0,
+    created_at: String(json.created_at || ''),
+    app: String(json.app || ''),
+    data: json.data,
+  }
+}
+
+/**
+ * Данные копии в актуальной схеме: копия старой версии мигрируется сама по себе, до сравнения и слияния
+ * (данные приложения уже в актуальной схеме, повторно их не трогаем)
+ */
+async function currentData(bundle: BackupBundle): Promise<BackupBundle['data']> {
+  if (bundle.schemaVersion >= SCHEMA_VERSION) return bundle.data
+  const values: Record<string, unknown> = {}
+  for (const [section, key] of Object.entries(SECTIONS) as Array<[BackupSection, string]>) {
+    if (bundle.data[section] != null) values[key] = bundle.data[section]
+  }
+  const migrated = await migrateValues(values, bundle.schemaVersion)
+  const data: BackupBundle['data'] = {}
+  for (const [section, key] of Object.entries(SECTIONS) as Array<[BackupSection, string]>) {
+    if (migrated[key] != null) data[section] = migrated[key]
+  }
+  return data
+}
+
+/** Сравнение записей по содержимому */
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Сводка отличий бандла от текущих данных
+ */
+export async function diffBackup(bundle: BackupBundle): Promise<BackupSectionDiff[]> {
+  const out: BackupSectionDiff[] = []
+  const data = await currentData(bundle)
+  for (const [section, key] of Object.entries(SECTIONS) as Array<[BackupSection, string]>) {
+    const incoming = data[section]
+    const current = StorageService.read<unknown>(key, null)
+    const diff: BackupSectionDiff = { section, label: BACKUP_SECTION_LABELS[section], added: 0, changed: 0, removed: 0 }
+
+    if (LIST_SECTIONS.includes(section)) {
+      const inc = new Map(toArray<any>(incoming).map((x) => [x.id, x]))
+      const cur = new Map(toArray<any>(current).map((x) => [x?.id, x]))
+      inc.forEach((item, id) => {
+        if (!cur.has(id)) diff.added += 1
+        else if (!same(item, cur.get(id))) diff.changed += 1
+      })
+      cur.forEach((_, id) => {
+        if (!inc.has(id)) diff.removed += 1
+      })
+    } else if (incoming != null || current != null) {
+      if (current == null) diff.added = 1
+      else if (incoming == null) diff.removed = 1
+      else if (!same(incoming, current)) diff.changed = 1
+    }
+    out.push(diff)
+  }
+  return out
+}
+
+/**
+ * Слить списки по id: записи из файла заменяют локальные с тем же id, локальные без пары сохраняются
+ */
+function mergeList(current: unknown, incoming: unknown): any[] {
+  const map = new Map<string, any>()
+  for (const x of toArray<any>(current)) if (x?.id) map.set(x.id, x)
+  for (const x of toArray<any>(incoming)) map.set(x.id, x)
+  return Array.from(map.values())
+}
+
+/**
+ * Применить резервную копию.
+ * merge — добавить/обновить записи по id, локальные записи без пары сохраняются;
+ * replace — данные разделов заменяются содержимым файла (отсутствующие в файле разделы очищаются).
+ */
+export async function applyBackup(bundle: BackupBundle, mode: RestoreMode): Promise<void> {
+  const summary = await diffBackup(bundle)
+  const data = await currentData(bundle)
+  const writes: Array<Promise<unknown>> = []
+
+  for (const [section, key] of Object.entries(SECTIONS) as Array<[BackupSection, string]>) {
+    const incoming = data[section]
+
+    if (mode === 'replace') {
+      writes.push(incoming == null ? StorageService.remove(key) : StorageService.write(key, incoming))
+      continue
+    }
+    if (incoming == null) continue
+
+    if (section === 'audit') {
+      const merged = mergeList(StorageService.read<unknown>(key, []), incoming)
+      merged.sort((a, b) => Number(b.at || 0) - Number(a.at || 0))
+      writes.push(StorageService.write(key, merged))
+    } else if (LIST_SECTIONS.includes(section)) {
+      writes.push(StorageService.write(key, mergeList(StorageService.read<unknown>(key, []), incoming)))
+    } else if (section === 'priceSettings') {
+      const cur = StorageService.getPriceSettings({ productTypes: [], finishTypes: [] })
+      const inc = incoming as any
+      writes.push(
+        StorageService.savePriceSettings({
+          ...cur,
+          ...inc,
+          productTypes: mergeList(cur.productTypes, inc.productTypes),
+          finishTypes: mergeList(cur.finishTypes, inc.finishTypes),
+          priceTiers: mergeList(cur.priceTiers || [], inc.priceTiers),
+          overheadPools: mergeList(cur.overheadPools || [], inc.overheadPools),
+          taxProfiles: mergeList(cur.taxProfiles || [], inc.taxProfiles),
+        }),
+      )
+    } else {
+      writes.push(StorageService.write(key, incoming))
+    }
+  }
+  await Promise.all(writes)
+
+  AuditService.log({
+    action: 'restore',
+    entity: 'system',
+    source: 'import',
+    details: {
+      mode,
+      created_at: bundle.created_at,
+      summary: summary.map(({ section, added, changed, removed }) => ({ section, added, changed, removed })),
+    },
+  })
+}
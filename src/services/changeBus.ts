@@ -0,0 +1,80 @@
+/**
+ * changeBus.ts — шина изменений между вкладками
+ * Вкладка, записавшая ключ хранилища, рассылает его имя; остальные перечитывают ключ и уведомляют свои страницы.
+ * BroadcastChannel, при его отсутствии — событие storage по служебному ключу localStorage.
+ */
+
+/** Сообщение шины */
+export interface ChangeMessage {
+  /** Ключ хранилища */
+  key: string
+  /** Вкладка-источник */
+  origin: string
+}
+
+/** Имя канала и служебный ключ для запасного транспорта */
+const CHANNEL_NAME = 'wasser_changes'
+const FALLBACK_KEY = 'wasser_change_bus'
+
+/**
+ * Шина изменений (одна на вкладку)
+ */
+export class ChangeBus {
+  /** Идентификатор текущей вкладки */
+  static readonly tabId = Math.random().toString(36).slice(2, 10)
+  private static channel: BroadcastChannel | null = null
+  private static listeners = new Set<(msg: ChangeMessage) => void>()
+  private static connected = false
+
+  /** Разослать изменение другим вкладкам */
+  static publish(key: string): void {
+    this.connect()
+    const msg: ChangeMessage = { key, origin: this.tabId }
+    try {
+      if (this.channel) this.channel.postMessage(msg)
+      // Метка времени делает значение уникальным — иначе повторная запись того же ключа не вызовет событие
+      else localStorage.setItem(FALLBACK_KEY, JSON.stringify({ ...msg, at: Date.now() }))
+    } catch {
+      /* вкладка закрывается или хранилище недоступно — другие вкладки обновятся при перезагрузке */
+    }
+  }
+
+  /** Подписка на изменения из других вкладок. Возвращает функцию отписки. */
+  static subscribe(listener: (msg: ChangeMessage) => void): () => void {
+    this.connect()
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /** Подключить транспорт (однократно) */
+  private static connect(): void {
+    if (this.connected || typeof window === 'undefined') return
+    this.connected = true
+    const deliver = (msg: ChangeMessage | null) => {
+      if (!msg || typeof msg.key !== 'string' || msg.origin === this.tabId) return
+      this.listeners.forEach((fn) => {
+        try {
+          fn(msg)
+        } catch (e) {
+          console.error('❌ Change bus listener failed:', e)
+        }
+      })
+    }
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME)
+      this.channel.onmessage = (e: MessageEvent<ChangeMessage>) => deliver(e.data)
+      return
+    }
+    window.addEventListener('storage', (e) => {
+      if (e.key !== FALLBACK_KEY || !e.newValue) return
+      try {
+        deliver(JSON.parse(e.newValue))
+      } catch {
+        /* noop */
+      }
+    })
+  }
+}
@@ -1,9 +1,14 @@
 /**
  * currency.ts — централизованные настройки валют и конвертация
- * Хранение конфигурации в localStorage, чтение/запись, хук и утилиты.
+ * Хранение конфигурации через StorageService, чтение/запись, хук и утилиты.
+ * Курсы также пересчитывают закупочные цены материалов в базовую валюту (см. lib/pricing).
  */
 
 import { useEffect, useState } from 'react'
+import type { Material, Product } from '../types/models'
+import { LS_KEYS, StorageService, withoutDeleted } from './storage'
+import { AuditService } from './audit'
+import { createPriceCalculator, purchaseCurrencyOf, type PricingCurrency } from '../lib/pricing'
 
 /**
  * Конфигурация валют
@@ -20,7 +25,7 @@ export interface CurrencyConfig {
 }
 
 /** Ключ localStorage для настроек валют */
-export const CURRENCY_LS_KEY = 'wasser_currency_config_v1'
+export const CURRENCY_LS_KEY = LS_KEYS.currency
 
 /**
  * Значения по умолчанию: KGS как база, несколько частых валют без курса
@@ -43,33 +48,100 @@ export function defaultCurrencyConfig(): CurrencyConfig {
  * Безопасное чтение конфигурации валют
  */
 export function readCurrencyConfig(): CurrencyConfig {
-  try {
-    const raw = localStorage.getItem(CURRENCY_LS_KEY)
-    if (!raw) return defaultCurrencyConfig()
-    const parsed = JSON.parse(raw) as CurrencyConfig
-    // Нормализация
-    return {
-      base: parsed.base || 'KGS',
-      extras: Array.isArray(parsed.extras) ? parsed.extras : [],
-      rates: typeof parsed.rates === 'object' && parsed.rates ? parsed.rates : {},
-      locale: parsed.locale,
-    }
-  } catch {
-    return defaultCurrencyConfig()
+  const parsed = StorageService.read<CurrencyConfig | null>(CURRENCY_LS_KEY, null)
+  if (!parsed || typeof parsed !== 'object') return defaultCurrencyConfig()
+  // Нормализация
+  return {
+    base: parsed.base || 'KGS',
+    extras: Array.isArray(parsed.extras) ? parsed.extras : [],
+    rates: typeof parsed.rates === 'object' && parsed.rates ? parsed.rates : {},
+    locale: parsed.locale,
   }
 }
 
 /**
  * Безопасная запись конфигурации валют
  */
-export function saveCurrencyConfig(cfg: CurrencyConfig): void {
-  try {
-    localStorage.setItem(CURRENCY_LS_KEY, JSON.stringify(cfg))
-    // Cобытие для других вкладок
-    window.dispatchEvent(new StorageEvent('storage', { key: CURRENCY_LS_KEY, newValue: JSON.stringify(cfg) } as any))
-  } catch {
-    /* noop */
+export function saveCurrencyConfig(cfg: CurrencyConfig): Promise<boolean> {
+  // Подписчики (в том числе в других вкладках) получат изменение через StorageService.onChange
+  return StorageService.write(CURRENCY_LS_KEY, cfg)
+}
+
+/**
+ * Курсы для движка ценообразования
+ */
+export function pricingCurrency(cfg: CurrencyConfig): PricingCurrency {
+  return { base: cfg.base, rates: cfg.rates || {} }
+}
+
+/**
+ * Валюты закупки материалов, для которых нет курса (или он нулевой)
+ */
+export function missingRates(materials: Pick<Material, 'currency'>[], cfg: CurrencyConfig): string[] {
+  const codes = new Set<string>()
+  const currency = pricingCurrency(cfg)
+  for (const m of materials) {
+    const code = purchaseCurrencyOf(m, currency)
+    if (code && !(Number(cfg.rates?.[code]) > 0)) codes.add(code)
   }
+  return Array.from(codes).sort()
+}
+
+/**
+ * Итог обновления курсов
+ */
+export interface CurrencyUpdateResult {
+  /** Изделий с изменившейся ценой */
+  affected: number
+  /** Валюты закупки без курса после обновления */
+  missing: string[]
+}
+
+/** Курсы в виде плоской записи для журнала: одно поле на валюту */
+function ratesSnapshot(cfg: CurrencyConfig): Record<string, unknown> {
+  return { base: cfg.base, ...cfg.rates }
+}
+
+/**
+ * Сохранить настройки валют и пересчитать цены изделий с материалами в других валютах.
+ * Цены изделий не хранятся, поэтому пересчёт — это запись в журнал: какие изделия подорожали или подешевели.
+ */
+export async function updateCurrencyConfig(next: CurrencyConfig): Promise<CurrencyUpdateResult> {
+  const prev = readCurrencyConfig()
+  const materials = StorageService.getMaterials()
+  const products = withoutDeleted(StorageService.getProducts<Product>())
+  const components = { products, assemblies: withoutDeleted(StorageService.getAssemblies()) }
+  const settings = StorageService.getPriceSettings()
+  const priceBefore = createPriceCalculator(materials, { ...settings, currency: pricingCurrency(prev) }, components)
+  const priceAfter = createPriceCalculator(materials, { ...settings, currency: pricingCurrency(next) }, components)
+
+  const changed = products
+    .map((p) => ({ product: p, from: priceBefore(p).finalPrice, to: priceAfter(p).finalPrice }))
+    .filter((c) => Math.abs(c.to - c.from) >= 0.005)
+
+  const ok = await saveCurrencyConfig(next)
+  if (!ok) throw new Error('Не удалось сохранить настройки валют')
+
+  AuditService.log({
+    action: 'update',
+    entity: 'settings',
+    entityName: 'Курсы валют',
+    source: 'ui',
+    before: ratesSnapshot(prev),
+    after: ratesSnapshot(next),
+    details: {
+      recalculated: changed.length,
+      // В событие попадают первые 50 изделий, общее число — в recalculated
+      prices: changed.slice(0, 50).map((c) => ({
+        product: c.product.name,
+        article: c.product.article,
+        from: Math.round(c.from * 100) / 100,
+        to: Math.round(c.to * 100) / 100,
+      })),
+    },
+  })
+
+  return { affected: changed.length, missing: missingRates(materials, next) }
 }
 
 /**
@@ -90,12 +162,12 @@ export function convertToExtras(amountBase: number, cfg: CurrencyConfig): Array<
  */
 export function useCurrencyConfig(): CurrencyConfig {
   const [cfg, setCfg] = useState<CurrencyConfig>(() => readCurrencyConfig())
-  useEffect(() => {
-    const onStorage = (e: StorageEvent) => {
-      if (e.key === CURRENCY_LS_KEY) setCfg(readCurrencyConfig())
-    }
-    window.addEventListener('storage', onStorage)
-    return () => window.removeEventListener('storage', onStorage)
-  }, [])
+  useEffect(
+    () =>
+      StorageService.onChange((key) => {
+        if (key === CURRENCY_LS_KEY) setCfg(readCurrencyConfig())
+      }),
+    [],
+  )
   return cfg
 }
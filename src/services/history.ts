@@ -0,0 +1,211 @@
+/**
+ * HistoryService — отмена и повтор изменений каталога (коллекции, изделия, техкарты, материалы)
+ * Команда хранит состояния затронутых записей «до» и «после»; отмена и повтор применяют их к текущим спискам
+ * в хранилище по id, поэтому не откатывают чужие изменения других записей.
+ * Стек живёт в sessionStorage — в пределах сессии вкладки.
+ */
+
+import { LS_KEYS, StorageService, toArray, type AuditEntity } from './storage'
+import { AuditService } from './audit'
+
+/**
+ * Изменение одной записи списка
+ */
+export interface HistoryPatch {
+  /** Ключ хранилища списка */
+  key: string
+  id: string
+  /** Запись до изменения (null — записи не было) */
+  before: unknown | null
+  /** Запись после изменения (null — запись удалена) */
+  after: unknown | null
+  /** Позиция записи в списке до изменения (для восстановления порядка) */
+  index: number
+}
+
+/**
+ * Команда истории
+ */
+export interface HistoryCommand {
+  id: string
+  /** Описание для пользователя: «Удаление коллекции «Весна»» */
+  label: string
+  at: number
+  patches: HistoryPatch[]
+}
+
+/**
+ * Состояние стека для UI
+ */
+export interface HistoryState {
+  canUndo: boolean
+  canRedo: boolean
+  /** Что будет отменено */
+  undoLabel?: string
+  /** Что будет повторено */
+  redoLabel?: string
+}
+
+/** Сущность журнала по ключу списка (списки без сущности в журнал не пишутся) */
+const AUDIT_ENTITIES: Record<string, AuditEntity> = {
+  [LS_KEYS.collections]: 'collection',
+  [LS_KEYS.products]: 'product',
+  [LS_KEYS.assemblies]: 'assembly',
+  [LS_KEYS.materials]: 'material',
+}
+
+/** Ключ sessionStorage */
+const SESSION_KEY = 'wasser_history'
+/** Глубина истории */
+const MAX_COMMANDS = 50
+
+interface Stacks {
+  undo: HistoryCommand[]
+  redo: HistoryCommand[]
+}
+
+/**
+ * Изменения записей между двумя версиями списка (сравнение по id)
+ */
+export function diffList<T extends { id: string }>(key: string, before: T[], after: T[]): HistoryPatch[] {
+  const patches: HistoryPatch[] = []
+  const prev = new Map(before.map((x, i) => [x.id, { item: x, index: i }]))
+  const next = new Map(after.map((x) => [x.id, x]))
+  prev.forEach(({ item, index }, id) => {
+    const now = next.get(id)
+    if (!now) patches.push({ key, id, before: item, after: null, index })
+    else if (now !== item && JSON.stringify(now) !== JSON.stringify(item)) patches.push({ key, id, before: item, after: now, index })
+  })
+  after.forEach((item, index) => {
+    if (!prev.has(item.id)) patches.push({ key, id: item.id, before: null, after: item, index })
+  })
+  return patches
+}
+
+/**
+ * Сервис истории
+ */
+export class HistoryService {
+  private static listeners = new Set<(s: HistoryState) => void>()
+
+  /**
+   * Записать команду. Пустые команды (без изменений) игнорируются.
+   * Возвращает команду — её id используется кнопкой «Отменить» в уведомлении.
+   */
+  static record(label: string, patches: HistoryPatch[]): HistoryCommand | null {
+    if (patches.length === 0) return null
+    const cmd: HistoryCommand = { id: StorageService.id(), label, at: Date.now(), patches }
+    const stacks = this.read()
+    stacks.undo = [...stacks.undo, cmd].slice(-MAX_COMMANDS)
+    stacks.redo = []
+    this.write(stacks)
+    return cmd
+  }
+
+  /**
+   * Отменить последнюю команду. Если передан id — только когда эта команда последняя
+   * (иначе отмена затронула бы более поздние изменения). Возвращает отменённую команду.
+   */
+  static undo(commandId?: string): HistoryCommand | null {
+    const stacks = this.read()
+    const cmd = stacks.undo[stacks.undo.length - 1]
+    if (!cmd || (commandId && cmd.id !== commandId)) return null
+    this.apply(cmd, 'before')
+    stacks.undo = stacks.undo.slice(0, -1)
+    stacks.redo = [...stacks.redo, cmd]
+    this.write(stacks)
+    return cmd
+  }
+
+  /** Повторить последнюю отменённую команду */
+  static redo(): HistoryCommand | null {
+    const stacks = this.read()
+    const cmd = stacks.redo[stacks.redo.length - 1]
+    if (!cmd) return null
+    this.apply(cmd, 'after')
+    stacks.redo = stacks.redo.slice(0, -1)
+    stacks.undo = [...stacks.undo, cmd]
+    this.write(stacks)
+    return cmd
+  }
+
+  /** Текущее состояние стека */
+  static getState(): HistoryState {
+    const { undo, redo } = this.read()
+    return {
+      canUndo: undo.length > 0,
+      canRedo: redo.length > 0,
+      undoLabel: undo[undo.length - 1]?.label,
+      redoLabel: redo[redo.length - 1]?.label,
+    }
+  }
+
+  /** Подписка на изменения стека. Возвращает функцию отписки. */
+  static subscribe(listener: (s: HistoryState) => void): () => void {
+    this.listeners.add(listener)
+    listener(this.getState())
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /** Применить сторону команды к спискам в хранилище; отличия пишутся в журнал с источником undo/redo */
+  private static apply(cmd: HistoryCommand, side: 'before' | 'after'): void {
+    const byKey = new Map<string, HistoryPatch[]>()
+    for (const p of cmd.patches) {
+      if (!byKey.has(p.key)) byKey.set(p.key, [])
+      byKey.get(p.key)!.push(p)
+    }
+    byKey.forEach((patches, key) => {
+      const list = toArray<any>(StorageService.read<unknown>(key, []))
+      const before = list.slice()
+      // Вставки — по возрастанию исходной позиции, чтобы индексы оставались верными
+      const ordered = side === 'before' ? patches.slice().sort((a, b) => a.index - b.index) : patches
+      for (const p of ordered) {
+        const value = p[side]
+        const at = list.findIndex((x) => x?.id === p.id)
+        if (value == null) {
+          if (at >= 0) list.splice(at, 1)
+        } else if (at >= 0) {
+          list[at] = value
+        } else {
+          list.splice(Math.min(p.index, list.length), 0, value)
+        }
+      }
+      StorageService.write(key, list)
+      const entity = AUDIT_ENTITIES[key]
+      if (entity) AuditService.logList(entity, before, list, side === 'before' ? 'undo' : 'redo', { command: cmd.label })
+    })
+  }
+
+  private static read(): Stacks {
+    try {
+      const raw = sessionStorage.getItem(SESSION_KEY)
+      const parsed = raw ? JSON.parse(raw) : null
+      return { undo: toArray(parsed?.undo), redo: toArray(parsed?.redo) }
+    } catch {
+      return { undo: [], redo: [] }
+    }
+  }
+
+  private static write(stacks: Stacks): void {
+    try {
+      sessionStorage.setItem(SESSION_KEY, JSON.stringify(stacks))
+    } catch {
+      // Переполнение sessionStorage: сохраняем только последние команды
+      try {
+        sessionStorage.setItem(SESSION_KEY, JSON.stringify({ undo: stacks.undo.slice(-5), redo: [] }))
+      } catch {
+        /* noop */
+      }
+    }
+    const state = this.getState()
+    this.listeners.forEach((fn) => {
+      try {
+        fn(state)
+      } catch {
+        /* noop */
+      }
+    })
+  }
+}
@@ -1,13 +1,17 @@
 /**
  * Адаптер синхронизации материалов с Supabase.
- * Содержит pull (из БД в localStorage), upsert/delete (в БД), realtime-подписку.
+ * Содержит pull (из БД в локальный репозиторий StorageService), upsert/delete (в БД), realtime-подписку.
+ * Ручные операции для панели отладки; фоновая синхронизация всех таблиц — services/sync.ts.
  */
 
 import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Material } from '../types/models'
 import { getSupabase, isSupabaseEnabled } from './supabase'
+import { LS_KEYS, StorageService, normalizeMaterial } from './storage'
+import { AuditService } from './audit'
 
-/** Ключ localStorage, совместимый со страницей Materials и прайс-листом */
-export const MATERIALS_LS_KEY = 'wasser_materials'
+/** Ключ локального хранилища материалов (общий для всех страниц) */
+export const MATERIALS_LS_KEY = LS_KEYS.materials
 
 /** Тип строки в БД (минимально необходимый) */
 export interface MaterialRow {
@@ -17,6 +21,8 @@ export interface MaterialRow {
   category: string | null
   unit: string | null
   price: number | null
+  waste_percent?: number | null
+  currency?: string | null
   supplier?: string | null
   description?: string | null
   tags?: string[] | string | null
@@ -24,85 +30,43 @@ export interface MaterialRow {
   created_at?: string | null
   updated_at?: string | null
   version?: number | null
-}
-
-/** Локальная модель в UI страницы Materials (расширенная) */
-export interface MaterialLocal {
-  id: string
-  name: string
-  article: string
-  category: string
-  unit: string
-  price: number
-  supplier?: string
-  description?: string
-  tags: string[]
-  isActive: boolean
-  createdAt: string
-  updatedAt: string
-  version: number
+  deleted_at?: string | null
 }
 
 /** Прочитать локальные материалы */
-export function readLocalMaterials(): MaterialLocal[] {
-  try {
-    const raw = localStorage.getItem(MATERIALS_LS_KEY)
-    const val = raw ? JSON.parse(raw) : []
-    return Array.isArray(val) ? val : val && typeof val === 'object' ? Object.values(val) : []
-  } catch {
-    return []
-  }
+export function readLocalMaterials(): Material[] {
+  return StorageService.getMaterials()
 }
 
 /** Сохранить локальные материалы */
-export function writeLocalMaterials(items: MaterialLocal[]): void {
-  try {
-    localStorage.setItem(MATERIALS_LS_KEY, JSON.stringify(items))
-  } catch {
-    /* noop */
-  }
+export function writeLocalMaterials(items: Material[]): void {
+  StorageService.saveMaterials(items)
 }
 
-/** Row -> Local */
-function rowToLocal(r: MaterialRow): MaterialLocal {
-  const now = new Date().toISOString()
-  const tags =
-    Array.isArray(r.tags) ? (r.tags as string[]).filter(Boolean)
-      : typeof r.tags === 'string' ? r.tags.split(/[,;]\s*/).filter(Boolean)
-      : []
-  return {
-    id: String(r.id),
-    name: r.name || '',
-    article: r.article || '',
-    category: r.category || '',
-    unit: r.unit || 'шт',
-    price: Number(r.price || 0),
-    supplier: r.supplier || undefined,
-    description: r.description || undefined,
-    tags,
-    isActive: r.is_active !== false,
-    createdAt: r.created_at || now,
-    updatedAt: r.updated_at || now,
-    version: r.version || 1,
-  }
+/** Row -> Local (нормализация общая с репозиторием) */
+export function rowToMaterial(r: MaterialRow): Material | null {
+  return normalizeMaterial(r)
 }
 
 /** Local -> Row */
-function localToRow(m: MaterialLocal): MaterialRow {
+export function materialToRow(m: Material): MaterialRow {
   return {
     id: m.id,
     name: m.name,
     article: m.article,
-    category: m.category,
+    category: m.category ?? null,
     unit: m.unit,
     price: m.price,
+    waste_percent: Number(m.waste_percent) || 0,
+    currency: m.currency ?? null,
     supplier: m.supplier ?? null,
     description: m.description ?? null,
-    tags: m.tags,
-    is_active: m.isActive,
-    created_at: m.createdAt,
-    updated_at: m.updatedAt,
-    version: m.version,
+    tags: m.tags ?? [],
+    is_active: m.is_active !== false,
+    created_at: m.created_at,
+    updated_at: m.updated_at,
+    version: m.version ?? 1,
+    deleted_at: m.deleted_at ?? null,
   }
 }
 
@@ -111,36 +75,79 @@ function client(): SupabaseClient | null {
   return getSupabase()
 }
 
-/** Забрать материалы из Supabase в localStorage. Возвращает количество записей. */
+/** Забрать материалы из Supabase в локальное хранилище. Возвращает количество записей. */
 export async function pullMaterialsToLocal(): Promise<number> {
   if (!isSupabaseEnabled()) return 0
   const c = client()
   if (!c) return 0
   const { data, error } = await c.from('materials').select('*').order('updated_at', { ascending: false })
   if (error) throw error
-  const list = (data || []).map(rowToLocal)
+  const list = (data || []).map(rowToMaterial).filter(Boolean) as Material[]
+  AuditService.logList('material', readLocalMaterials(), list, 'sync')
   writeLocalMaterials(list)
   return list.length
 }
 
-/** Upsert одного материала в Supabase */
-export async function upsertMaterial(item: MaterialLocal): Promise<void> {
-  if (!isSupabaseEnabled()) return
-  const c = client()
-  if (!c) return
-  const row = localToRow({ ...item, updatedAt: new Date().toISOString(), version: (item.version || 1) + 1 })
-  const { error } = await c.from('materials').upsert([row], { onConflict: 'id' })
-  if (error) throw error
+/**
+ * Запись материала с проверкой версии.
+ * Изменение проходит, только если версия на сервере равна локальной; новая запись вставляется, только если её ещё нет.
+ * Возвращает новую версию или null, если на сервере запись уже изменена (конфликт).
+ */
+async function writeVersioned(c: SupabaseClient, item: Material): Promise<number | null> {
+  const base = item.version || 1
+  const row = materialToRow({ ...item, updated_at: new Date().toISOString() })
+
+  const updated = await c
+    .from('materials')
+    .update({ ...row, version: base + 1 })
+    .eq('id', item.id)
+    .eq('version', base)
+    .select('id')
+  if (updated.error) throw updated.error
+  if (updated.data && updated.data.length > 0) return base + 1
+
+  const inserted = await c
+    .from('materials')
+    .upsert([{ ...row, version: base }], { onConflict: 'id', ignoreDuplicates: true })
+    .select('id')
+  if (inserted.error) throw inserted.error
+  return inserted.data && inserted.data.length > 0 ? base : null
 }
 
-/** Пакетный upsert материалов */
-export async function upsertMaterialsBatch(items: MaterialLocal[]): Promise<void> {
+/**
+ * Выгрузить материалы с проверкой версий; успешно записанным обновляет локальную версию.
+ * Если часть записей изменена на сервере другим пользователем — бросает ошибку со списком (остальные сохраняются).
+ */
+async function pushVersioned(items: Material[]): Promise<void> {
   if (!isSupabaseEnabled() || items.length === 0) return
   const c = client()
   if (!c) return
-  const rows = items.map((m) => localToRow({ ...m, updatedAt: new Date().toISOString(), version: (m.version || 1) + 1 }))
-  const { error } = await c.from('materials').upsert(rows, { onConflict: 'id' })
-  if (error) throw error
+  const versions = new Map<string, number>()
+  const conflicts: Material[] = []
+  for (const item of items) {
+    const version = await writeVersioned(c, item)
+    if (version == null) conflicts.push(item)
+    else versions.set(item.id, version)
+  }
+  if (versions.size > 0) {
+    writeLocalMaterials(readLocalMaterials().map((m) => (versions.has(m.id) ? { ...m, version: versions.get(m.id) } : m)))
+  }
+  if (conflicts.length > 0) {
+    const names = conflicts.slice(0, 3).map((m) => m.name || m.article).join(', ')
+    throw new Error(
+      `Конфликт версий (${conflicts.length}): ${names}${conflicts.length > 3 ? '…' : ''} — изменены на сервере, выполните Pull`,
+    )
+  }
+}
+
+/** Записать один материал в Supabase (с проверкой версии) */
+export async function upsertMaterial(item: Material): Promise<void> {
+  await pushVersioned([item])
+}
+
+/** Пакетная запись материалов (с проверкой версии каждой записи) */
+export async function upsertMaterialsBatch(items: Material[]): Promise<void> {
+  await pushVersioned(items)
 }
 
 /** Удалить материал в Supabase */
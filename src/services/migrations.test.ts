@@ -0,0 +1,134 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_TYPE_IDS, LEGACY_LS_KEYS, LS_KEYS, StorageService, defaultPriceTiers, isUuid } from './storage'
+import { SCHEMA_VERSION, migrateValues, runMigrations } from './migrations'
+
+/** Данные до первой версии схемы: короткие id, словари вместо массивов, материалы и прайс-лист в старых ключах */
+const LEGACY = {
+  [LEGACY_LS_KEYS.materialsData]: [
+    { id: 'm1', name: 'ЛДСП', article: 'L-1', unit: 'м²', price: 100, updated_at: '2024-02-01T00:00:00.000Z' },
+  ],
+  [LS_KEYS.materials]: [
+    { id: 'm1', name: 'ЛДСП (старая цена)', article: 'L-1', unit: 'м²', price: 90, updated_at: '2024-01-01T00:00:00.000Z' },
+    { id: 'm2', name: 'Кромка', article: 'K-1', unit: 'м', price: 5, updated_at: '2024-01-01T00:00:00.000Z' },
+  ],
+  [LEGACY_LS_KEYS.products]: [
+    {
+      id: 'p1',
+      name: 'Тумба',
+      article: 'T-1',
+      collection_id: 'c1',
+      product_type_id: 'pt1',
+      finish_type_id: 'ft1',
+      tech_card: { a: { materialId: 'm1', quantity: 2 } },
+    },
+  ],
+  [LEGACY_LS_KEYS.priceSettings]: {
+    productTypes: [{ id: 'pt1', name: 'Тумбы', markup: 50, workCost: 200 }],
+    finishTypes: [{ id: 'ft1', name: 'Стандарт', markup: 0 }],
+  },
+  [LS_KEYS.collections]: [{ id: 'c1', name: 'Классика', product_order: { 0: 'p1' } }],
+  [LS_KEYS.audit]: [{ id: 'e1', at: 1, action: 'update', entity: 'product', entityId: 'p1' }],
+}
+
+const read = <T = any>(key: string): T => JSON.parse(localStorage.getItem(key) ?? 'null')
+
+beforeEach(() => {
+  localStorage.clear()
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('runMigrations', () => {
+  beforeEach(() => {
+    for (const [key, value] of Object.entries(LEGACY)) localStorage.setItem(key, JSON.stringify(value))
+  })
+
+  it('переводит данные без версии на актуальную схему', async () => {
+    const result = await runMigrations()
+    expect(result).toEqual({ from: 0, to: SCHEMA_VERSION, applied: [1, 2, 3, 4, 5] })
+    expect(StorageService.getSchemaVersion()).toBe(SCHEMA_VERSION)
+    for (const key of Object.values(LEGACY_LS_KEYS)) expect(localStorage.getItem(key)).toBeNull()
+
+    // v1: слияние материалов, остаётся более свежая запись; v4: UUID
+    const materials = read(LS_KEYS.materials)
+    expect(materials.map((m: any) => m.price).sort()).toEqual([100, 5])
+    expect(materials.every((m: any) => isUuid(m.id))).toBe(true)
+    const m1 = materials.find((m: any) => m.price === 100).id
+
+    // v2–v4: изделие перенесено, техкарта — массив, ссылки переписаны на новые id
+    const [product] = read(LS_KEYS.products)
+    const [collection] = read(LS_KEYS.collections)
+    expect(isUuid(product.id)).toBe(true)
+    expect(product.collection_id).toBe(collection.id)
+    expect(product.product_type_id).toBe(DEFAULT_TYPE_IDS.pt1)
+    expect(product.finish_type_id).toBe(DEFAULT_TYPE_IDS.ft1)
+    expect(product.tech_card).toHaveLength(1)
+    expect(product.tech_card[0].materialId).toBe(m1)
+    expect(isUuid(product.tech_card[0]._techCardId)).toBe(true)
+    expect(collection.product_order).toEqual([product.id])
+
+    // v2, v4, v5: настройки из прайс-листа, фиксированные id типов, уровни цен
+    const settings = read(LS_KEYS.priceSettings)
+    expect(settings.productTypes[0].id).toBe(DEFAULT_TYPE_IDS.pt1)
+    expect(settings.priceTiers).toEqual(defaultPriceTiers())
+
+    // v4: журнал ссылается на новые id; запуск миграций записан в журнал
+    const audit = read(LS_KEYS.audit)
+    expect(audit.find((e: any) => e.id === 'e1').entityId).toBe(product.id)
+    expect(audit.some((e: any) => e.action === 'migrate')).toBe(true)
+  })
+
+  it('повторный запуск ничего не меняет', async () => {
+    await runMigrations()
+    const products = localStorage.getItem(LS_KEYS.products)
+    expect(await runMigrations()).toEqual({ from: SCHEMA_VERSION, to: SCHEMA_VERSION, applied: [] })
+    expect(localStorage.getItem(LS_KEYS.products)).toBe(products)
+  })
+
+  it('при ошибке записи оставляет старые ключи и версию схемы', async () => {
+    const setItem = Storage.prototype.setItem
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key: string, value: string) {
+      if (key === LS_KEYS.materials) throw new DOMException('Quota exceeded', 'QuotaExceededError')
+      setItem.call(this, key, value)
+    })
+    expect(await runMigrations()).toEqual({ from: 0, to: 0, applied: [] })
+    expect(StorageService.getSchemaVersion()).toBe(0)
+    expect(read(LEGACY_LS_KEYS.materialsData)).toEqual(LEGACY[LEGACY_LS_KEYS.materialsData])
+  })
+
+  it('не повышает версию, если её не удалось записать', async () => {
+    const setItem = Storage.prototype.setItem
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key: string, value: string) {
+      if (key === LS_KEYS.schemaVersion) throw new DOMException('Quota exceeded', 'QuotaExceededError')
+      setItem.call(this, key, value)
+    })
+    expect((await runMigrations()).applied).toEqual([])
+    expect(StorageService.getSchemaVersion()).toBe(0)
+  })
+})
+
+describe('migrateValues', () => {
+  it('добавляет уровни цен в настройки из копии v4', async () => {
+    const settings = { productTypes: [], finishTypes: [] }
+    const result = await migrateValues({ [LS_KEYS.priceSettings]: settings }, 4)
+    expect((result[LS_KEYS.priceSettings] as any).priceTiers).toEqual(defaultPriceTiers())
+  })
+
+  it('не возвращает уровни, удалённые пользователем', async () => {
+    const settings = { productTypes: [], finishTypes: [], priceTiers: [] }
+    const result = await migrateValues({ [LS_KEYS.priceSettings]: settings }, 4)
+    expect((result[LS_KEYS.priceSettings] as any).priceTiers).toEqual([])
+  })
+
+  it('мигрирует копию отдельно от данных приложения', async () => {
+    localStorage.setItem(LS_KEYS.materials, JSON.stringify([]))
+    const result = await migrateValues(LEGACY, 0)
+    expect(Object.keys(result)).not.toContain(LEGACY_LS_KEYS.materialsData)
+    expect((result[LS_KEYS.materials] as any[]).map((m) => m.price).sort()).toEqual([100, 5])
+    expect(read(LS_KEYS.materials)).toEqual([])
+  })
+})
@@ -0,0 +1,308 @@
+/**
+ * Миграции локальной схемы данных.
+ * Упорядоченный список шагов; на старте приложения применяются все шаги с версией выше сохранённой.
+ * Каждый шаг идемпотентен: повторный запуск не портит уже мигрированные данные.
+ */
+
+import type { Material, PriceSettings } from '../types/models'
+import {
+  DEFAULT_TYPE_IDS,
+  LEGACY_LS_KEYS,
+  defaultPriceTiers,
+  LS_KEYS,
+  StorageService,
+  isUuid,
+  normalizeMaterial,
+  normalizePriceSettings,
+  toArray,
+  type AuditEvent,
+} from './storage'
+import { AuditService } from './audit'
+
+/**
+ * Хранилище, над которым выполняется шаг: данные приложения или данные резервной копии отдельно от них
+ */
+export interface MigrationStore {
+  read<T>(key: string, fallback: T): T
+  /** Записать значение; false — запись не удалась (переполнение, ошибка IndexedDB) */
+  write(key: string, value: unknown): Promise<boolean>
+  has(key: string): boolean
+  remove(key: string): Promise<void>
+}
+
+/**
+ * Описание шага миграции
+ */
+export interface Migration {
+  /** Целевая версия схемы после шага */
+  version: number
+  /** Краткое описание (для журнала) */
+  description: string
+  /** Применить шаг; ошибка записи прерывает шаг, версия схемы при этом не повышается */
+  up: (store: MigrationStore) => Promise<void>
+}
+
+/** Данные приложения (StorageService) */
+const appStore: MigrationStore = {
+  read: (key, fallback) => StorageService.read(key, fallback),
+  write: (key, value) => StorageService.write(key, value),
+  has: (key) => StorageService.has(key),
+  remove: (key) => StorageService.remove(key),
+}
+
+/** Записать значение или прервать шаг: прежние данные (в т.ч. старые ключи) удаляются только после записи */
+async function save(store: MigrationStore, key: string, value: unknown): Promise<void> {
+  if (!(await store.write(key, value))) throw new Error(`Не удалось записать ${key}`)
+}
+
+/** Список по ключу */
+const listOf = <T = any>(store: MigrationStore, key: string): T[] => toArray<T>(store.read<unknown>(key, []))
+
+/** Материалы по ключу (нормализованные) */
+const materialsOf = (store: MigrationStore, key: string): Material[] =>
+  listOf(store, key).map(normalizeMaterial).filter(Boolean) as Material[]
+
+/**
+ * Настройки цен в нормализованном виде, но без подстановки пустых уровней цен:
+ * отсутствие priceTiers — признак данных до v5, по нему v5 добавляет уровни по умолчанию
+ */
+function settingsOf(store: MigrationStore, key: string): PriceSettings {
+  const raw = store.read<any>(key, {})
+  const ps = normalizePriceSettings(raw)
+  if (raw?.priceTiers == null) delete ps.priceTiers
+  return ps
+}
+
+/**
+ * Слить списки по id: при совпадении остаётся запись с более поздним updated_at
+ */
+function mergeById<T extends { id: string; updated_at?: string }>(...lists: T[][]): T[] {
+  const map = new Map<string, T>()
+  for (const list of lists) {
+    for (const item of list) {
+      const prev = map.get(item.id)
+      if (!prev || String(item.updated_at || '') > String(prev.updated_at || '')) map.set(item.id, item)
+    }
+  }
+  return Array.from(map.values())
+}
+
+/**
+ * Список миграций — строго по возрастанию версии
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Материалы: объединение wasser_materials и wasser_materials_data',
+    up: async (store) => {
+      const merged = mergeById(materialsOf(store, LEGACY_LS_KEYS.materialsData), materialsOf(store, LS_KEYS.materials))
+      await save(store, LS_KEYS.materials, merged)
+      await store.remove(LEGACY_LS_KEYS.materialsData)
+    },
+  },
+  {
+    version: 2,
+    description: 'Изделия и настройки цен: перенос демо-ключей прайс-листа',
+    up: async (store) => {
+      if (store.has(LEGACY_LS_KEYS.products)) {
+        const legacy = listOf(store, LEGACY_LS_KEYS.products).filter((p) => p && p.id)
+        await save(store, LS_KEYS.products, mergeById(legacy, listOf(store, LS_KEYS.products)))
+        await store.remove(LEGACY_LS_KEYS.products)
+      }
+      if (store.has(LEGACY_LS_KEYS.priceSettings)) {
+        if (!store.has(LS_KEYS.priceSettings)) {
+          await save(store, LS_KEYS.priceSettings, settingsOf(store, LEGACY_LS_KEYS.priceSettings))
+        }
+        await store.remove(LEGACY_LS_KEYS.priceSettings)
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Нормализация структур: массивы вместо словарей, обязательные поля',
+    up: async (store) => {
+      if (store.has(LS_KEYS.products)) {
+        const products = listOf(store, LS_KEYS.products).map((p) => ({
+          ...p,
+          tech_card: toArray(p.tech_card),
+        }))
+        await save(store, LS_KEYS.products, products)
+      }
+      if (store.has(LS_KEYS.collections)) {
+        const collections = listOf(store, LS_KEYS.collections).map((c) => ({
+          ...c,
+          product_order: toArray<string>(c.product_order),
+        }))
+        await save(store, LS_KEYS.collections, collections)
+      }
+      if (store.has(LS_KEYS.priceSettings)) {
+        await save(store, LS_KEYS.priceSettings, settingsOf(store, LS_KEYS.priceSettings))
+      }
+      if (store.has(LS_KEYS.audit)) {
+        await save(store, LS_KEYS.audit, listOf(store, LS_KEYS.audit))
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'UUID вместо коротких id (совместимость с таблицами Supabase)',
+    up: async (store) => {
+      const ids = new Map<string, string>()
+      /** Новый id для старого; стандартные типы получают фиксированные UUID */
+      const remap = (id: string, fixed?: Record<string, string>): string => {
+        if (!id || isUuid(id)) return id
+        if (!ids.has(id)) ids.set(id, fixed?.[id] || StorageService.id())
+        return ids.get(id)!
+      }
+      const ref = (id: string | null | undefined) => (id && ids.has(id) ? ids.get(id)! : id)
+
+      if (store.has(LS_KEYS.priceSettings)) {
+        const ps = settingsOf(store, LS_KEYS.priceSettings)
+        await save(store, LS_KEYS.priceSettings, {
+          ...ps,
+          productTypes: ps.productTypes.map((t) => ({ ...t, id: remap(t.id, DEFAULT_TYPE_IDS) })),
+          finishTypes: ps.finishTypes.map((t) => ({ ...t, id: remap(t.id, DEFAULT_TYPE_IDS) })),
+        })
+      } else {
+        // Изделия могли ссылаться на типы по умолчанию, не сохранённые явно
+        Object.entries(DEFAULT_TYPE_IDS).forEach(([oldId, uuid]) => ids.set(oldId, uuid))
+      }
+
+      const materials = materialsOf(store, LS_KEYS.materials).map((m) => ({ ...m, id: remap(m.id) }))
+      await save(store, LS_KEYS.materials, materials)
+
+      const collections = listOf(store, LS_KEYS.collections)
+      collections.forEach((c) => remap(c.id))
+      const products = listOf(store, LS_KEYS.products)
+      products.forEach((p) => remap(p.id))
+
+      if (store.has(LS_KEYS.products)) {
+        await save(
+          store,
+          LS_KEYS.products,
+          products.map((p) => ({
+            ...p,
+            id: ref(p.id),
+            collection_id: ref(p.collection_id),
+            product_type_id: ref(p.product_type_id),
+            finish_type_id: ref(p.finish_type_id),
+            tech_card: toArray<any>(p.tech_card).map((it) => ({
+              ...it,
+              materialId: ref(it.materialId),
+              _techCardId: isUuid(it._techCardId) ? it._techCardId : StorageService.id(),
+            })),
+          })),
+        )
+      }
+      if (store.has(LS_KEYS.collections)) {
+        await save(
+          store,
+          LS_KEYS.collections,
+          collections.map((c) => ({
+            ...c,
+            id: ref(c.id),
+            product_order: toArray<string>(c.product_order).map((id) => ref(id) as string),
+          })),
+        )
+      }
+      if (store.has(LS_KEYS.audit)) {
+        await save(
+          store,
+          LS_KEYS.audit,
+          listOf<AuditEvent>(store, LS_KEYS.audit).map((e) => (e.entityId ? { ...e, entityId: ref(e.entityId) } : e)),
+        )
+      }
+    },
+  },
+  {
+    version: 5,
+    description: 'Уровни цен (розница, дилер, опт) в настройках ценообразования',
+    up: async (store) => {
+      const raw = store.read<any>(LS_KEYS.priceSettings, null)
+      // Настроек нет — уровни придут вместе со значениями по умолчанию; пустой список — выбор пользователя
+      if (!raw || raw.priceTiers != null) return
+      await save(store, LS_KEYS.priceSettings, { ...normalizePriceSettings(raw), priceTiers: defaultPriceTiers() })
+    },
+  },
+]
+
+/** Актуальная версия схемы */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+/**
+ * Результат запуска миграций
+ */
+export interface MigrationResult {
+  /** Версия до запуска */
+  from: number
+  /** Версия после запуска */
+  to: number
+  /** Применённые версии */
+  applied: number[]
+}
+
+/**
+ * Применить все недостающие миграции по порядку.
+ * При ошибке шага версия фиксируется на последнем успешном, остальные шаги пропускаются до следующего запуска.
+ */
+export async function runMigrations(): Promise<MigrationResult> {
+  const from = StorageService.getSchemaVersion()
+  const applied: number[] = []
+  let current = from
+
+  for (const m of MIGRATIONS) {
+    if (m.version <= current) continue
+    try {
+      await m.up(appStore)
+      if (!(await StorageService.setSchemaVersion(m.version))) throw new Error('Не удалось записать версию схемы')
+      current = m.version
+      applied.push(m.version)
+    } catch (e) {
+      console.error(`❌ Migration v${m.version} failed:`, e)
+      break
+    }
+  }
+
+  if (applied.length > 0) {
+    AuditService.log({
+      action: 'migrate',
+      entity: 'system',
+      source: 'system',
+      details: { from, to: current, applied },
+    })
+  }
+
+  return { from, to: current, applied }
+}
+
+/**
+ * Привести к актуальной схеме данные резервной копии отдельно от данных приложения (ключ хранилища → значение).
+ * Те же шаги, что и при запуске, но над копией: слияние затем идёт уже с данными актуальной схемы.
+ * Ключи, которых не было в копии, в результат не попадают.
+ */
+export async function migrateValues(values: Record<string, unknown>, fromVersion: number): Promise<Record<string, unknown>> {
+  const data = new Map(Object.entries(values).map(([key, value]) => [key, JSON.stringify(value)]))
+  const store: MigrationStore = {
+    read: (key, fallback) => {
+      const raw = data.get(key)
+      return raw == null ? fallback : JSON.parse(raw)
+    },
+    write: async (key, value) => {
+      data.set(key, JSON.stringify(value))
+      return true
+    },
+    has: (key) => data.has(key),
+    remove: async (key) => {
+      data.delete(key)
+    },
+  }
+  for (const m of MIGRATIONS) {
+    if (m.version > fromVersion) await m.up(store)
+  }
+  const result: Record<string, unknown> = {}
+  for (const key of Object.keys(values)) {
+    const raw = data.get(key)
+    if (raw != null) result[key] = JSON.parse(raw)
+  }
+  return result
+}
@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import type { Material, MaterialPricePoint } from '../types/models'
+import { PriceHistory, endOfDay } from './priceHistory'
+
+/** Точка истории цены */
+function point(materialId: string, price: number, effective_at: string, currency?: string): MaterialPricePoint {
+  return { id: `${materialId}-${effective_at}`, material_id: materialId, price, currency, effective_at, source: 'ui' }
+}
+
+const points = [
+  point('m1', 120, '2026-03-01T09:00:00.000Z', 'USD'),
+  point('m1', 100, '2026-01-10T09:00:00.000Z'),
+  point('m1', 110, '2026-02-01T09:00:00.000Z'),
+  point('m2', 50, '2026-02-15T09:00:00.000Z'),
+]
+
+describe('PriceHistory.pointAsOf', () => {
+  const history = PriceHistory.historyOf('m1', points)
+
+  it('берёт последнюю точку не позже даты', () => {
+    expect(PriceHistory.pointAsOf('m1', '2026-02-20T00:00:00.000Z', history)?.price).toBe(110)
+    expect(PriceHistory.pointAsOf('m1', new Date('2026-02-01T09:00:00.000Z'), history)?.price).toBe(110)
+    expect(PriceHistory.pointAsOf('m1', '2026-06-01T00:00:00.000Z', history)?.price).toBe(120)
+  })
+
+  it('до первой точки берёт самую раннюю, без истории — null', () => {
+    expect(PriceHistory.pointAsOf('m1', '2025-12-31T00:00:00.000Z', history)?.price).toBe(100)
+    expect(PriceHistory.pointAsOf('m3', '2026-02-20T00:00:00.000Z', [])).toBeNull()
+  })
+
+  it('без истории цена на дату — текущая', () => {
+    expect(PriceHistory.priceAsOf({ id: 'm3', price: 77 }, '2026-02-20T00:00:00.000Z', [])).toBe(77)
+  })
+})
+
+describe('PriceHistory.materialsAsOf', () => {
+  const materials = [
+    { id: 'm1', price: 130, currency: 'EUR' },
+    { id: 'm2', price: 60 },
+    { id: 'm3', price: 10 },
+  ]
+
+  it('подставляет цену и валюту точки на дату', () => {
+    const asOf = PriceHistory.materialsAsOf(materials, '2026-03-05T00:00:00.000Z', points)
+    expect(asOf).toEqual([
+      { id: 'm1', price: 120, currency: 'USD' },
+      { id: 'm2', price: 50 },
+      { id: 'm3', price: 10 },
+    ])
+  })
+
+  it('у точки без валюты оставляет валюту материала', () => {
+    const asOf = PriceHistory.materialsAsOf(materials, '2026-02-10T00:00:00.000Z', points)
+    expect(asOf[0]).toEqual({ id: 'm1', price: 110, currency: 'EUR' })
+  })
+
+  it('без даты возвращает материалы как есть', () => {
+    expect(PriceHistory.materialsAsOf(materials, null, points)).toBe(materials)
+  })
+
+  it('конец дня включает правки, сделанные в этот день', () => {
+    const day = endOfDay('2026-03-01')!
+    const local = new Date(2026, 2, 1, 12).toISOString()
+    const asOf = PriceHistory.materialsAsOf(materials, day, [point('m1', 140, local)])
+    expect(asOf[0].price).toBe(140)
+  })
+})
+
+describe('PriceHistory.pointsFor', () => {
+  const material = (price: number, currency?: string): Material => ({
+    id: 'm1',
+    name: 'ЛДСП',
+    article: 'L-1',
+    unit: 'м²',
+    price,
+    currency,
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-05T00:00:00.000Z',
+  })
+
+  it('для материала без истории сначала записывает прежнюю цену', () => {
+    const added = PriceHistory.pointsFor([material(100)], [material(120)], 'ui', [])
+    expect(added.map((p) => [p.source, p.price])).toEqual([
+      ['baseline', 100],
+      ['ui', 120],
+    ])
+    expect(added[0].effective_at).toBe('2026-01-05T00:00:00.000Z')
+  })
+
+  it('записывает смену валюты и пропускает материалы без изменений', () => {
+    const known = [point('m1', 100, '2026-01-05T00:00:00.000Z')]
+    expect(PriceHistory.pointsFor([material(100)], [material(100)], 'ui', known)).toEqual([])
+    const added = PriceHistory.pointsFor([material(100)], [material(100, 'USD')], 'import', known)
+    expect(added.map((p) => [p.source, p.price, p.currency])).toEqual([['import', 100, 'USD']])
+  })
+})
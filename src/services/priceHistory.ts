@@ -0,0 +1,154 @@
+/**
+ * PriceHistory — история цен материалов и расчёт себестоимости «на дату»
+ * Каждое изменение цены или валюты закупки материала добавляет точку {материал, цена, валюта, с какого момента}:
+ * себестоимость на дату пересчитывается из валюты той точки, даже если валюта материала с тех пор сменилась.
+ * Для материала без истории первая точка — прежняя цена с момента его последнего изменения,
+ * поэтому история начинает копиться с первой правки без отдельной миграции.
+ * Точки синхронизируются таблицей material_prices (src/services/syncAdapters.ts); изменения, пришедшие
+ * синхронизацией, здесь не записываются — их точки приходят с сервера вместе с ними.
+ */
+
+import type { Material, MaterialPricePoint } from '../types/models'
+import { LS_KEYS, StorageService, toArray } from './storage'
+import { diffList, type HistoryPatch } from './history'
+import { readCurrencyConfig } from './currency'
+
+/** Откуда пришла цена */
+export type PricePointSource = MaterialPricePoint['source']
+
+/** Время точки, мс */
+const timeOf = (p: MaterialPricePoint) => Date.parse(p.effective_at) || 0
+
+/**
+ * Конец дня из значения <input type="date"> (YYYY-MM-DD): «на 31.03» включает правки, сделанные 31.03.
+ * Пустое значение — null (текущие цены).
+ */
+export function endOfDay(day: string | null | undefined): Date | null {
+  if (!day) return null
+  const d = new Date(`${day}T23:59:59.999`)
+  return Number.isNaN(d.getTime()) ? null : d
+}
+
+/**
+ * Начало дня из значения <input type="date">: версия «с 01.03» действует с полуночи 01.03. Пустое значение — null.
+ */
+export function startOfDay(day: string | null | undefined): Date | null {
+  if (!day) return null
+  const d = new Date(`${day}T00:00:00`)
+  return Number.isNaN(d.getTime()) ? null : d
+}
+
+/**
+ * Сервис истории цен
+ */
+export class PriceHistory {
+  /** Все точки */
+  static getAll(): MaterialPricePoint[] {
+    return toArray<MaterialPricePoint>(StorageService.read<unknown>(LS_KEYS.materialPrices, []))
+  }
+
+  /** Сохранить точки */
+  static saveAll(points: MaterialPricePoint[]): Promise<boolean> {
+    return StorageService.write(LS_KEYS.materialPrices, points)
+  }
+
+  /** История материала по возрастанию даты */
+  static historyOf(materialId: string, points: MaterialPricePoint[] = this.getAll()): MaterialPricePoint[] {
+    return points.filter((p) => p.material_id === materialId).sort((a, b) => timeOf(a) - timeOf(b))
+  }
+
+  /**
+   * Точки для изменившихся цен (before → after). Чистая функция: ничего не сохраняет.
+   */
+  static pointsFor(
+    before: Material[],
+    after: Material[],
+    source: PricePointSource,
+    points: MaterialPricePoint[] = this.getAll(),
+  ): MaterialPricePoint[] {
+    const prev = new Map(before.map((m) => [m.id, m]))
+    const known = new Set(points.map((p) => p.material_id))
+    const now = new Date().toISOString()
+    const added: MaterialPricePoint[] = []
+    // Валюта точки всегда задана: материал без валюты закупается в базовой валюте на момент изменения
+    const base = readCurrencyConfig().base
+    const currencyOf = (m: Material) => m.currency || base
+
+    for (const m of after) {
+      const old = prev.get(m.id)
+      const price = Number(m.price) || 0
+      if (old && (Number(old.price) || 0) === price && currencyOf(old) === currencyOf(m)) continue
+      if (old && !known.has(m.id)) {
+        added.push({
+          id: StorageService.id(),
+          material_id: m.id,
+          price: Number(old.price) || 0,
+          currency: currencyOf(old),
+          effective_at: old.updated_at || old.created_at || now,
+          source: 'baseline',
+        })
+      }
+      added.push({ id: StorageService.id(), material_id: m.id, price, currency: currencyOf(m), effective_at: now, source })
+    }
+    return added
+  }
+
+  /**
+   * Записать изменения цен и вернуть правки для команды истории,
+   * чтобы отмена изменения материалов убирала и добавленные точки.
+   */
+  static track(before: Material[], after: Material[], source: PricePointSource): HistoryPatch[] {
+    const points = this.getAll()
+    const added = this.pointsFor(before, after, source, points)
+    if (added.length === 0) return []
+    const next = [...points, ...added]
+    this.saveAll(next)
+    return diffList(LS_KEYS.materialPrices, points, next)
+  }
+
+  /**
+   * Точка, действующая на дату: последняя не позже даты.
+   * Дата раньше первой точки — самая ранняя известная; истории нет — null.
+   */
+  static pointAsOf(materialId: string, date: Date | string, history?: MaterialPricePoint[]): MaterialPricePoint | null {
+    const list = history ?? this.historyOf(materialId)
+    if (list.length === 0) return null
+    const at = typeof date === 'string' ? Date.parse(date) : date.getTime()
+    let found = list[0]
+    for (const p of list) {
+      if (timeOf(p) <= at) found = p
+      else break
+    }
+    return found
+  }
+
+  /**
+   * Цена материала на дату (в валюте точки, см. pointAsOf); истории нет — текущая цена.
+   */
+  static priceAsOf(material: Pick<Material, 'id' | 'price'>, date: Date | string, history?: MaterialPricePoint[]): number {
+    const point = this.pointAsOf(material.id, date, history)
+    return Number((point ?? material).price) || 0
+  }
+
+  /**
+   * Материалы с ценами и валютами закупки на дату (для движка ценообразования). Без даты — материалы как есть.
+   */
+  static materialsAsOf<T extends Pick<Material, 'id' | 'price' | 'currency'>>(
+    materials: T[],
+    date: Date | string | null | undefined,
+    points: MaterialPricePoint[] = this.getAll(),
+  ): T[] {
+    if (!date) return materials
+    const byMaterial = new Map<string, MaterialPricePoint[]>()
+    for (const p of points.slice().sort((a, b) => timeOf(a) - timeOf(b))) {
+      const list = byMaterial.get(p.material_id)
+      if (list) list.push(p)
+      else byMaterial.set(p.material_id, [p])
+    }
+    return materials.map((m) => {
+      const point = this.pointAsOf(m.id, date, byMaterial.get(m.id))
+      if (!point) return m
+      return { ...m, price: Number(point.price) || 0, currency: point.currency ?? m.currency }
+    })
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * PriceVersions — черновик и опубликованные версии настроек цен
+ * Settings редактирует черновик; цены меняются только публикацией версии с датой начала действия.
+ * Версия с будущей датой ждёт своей даты и переносится в текущие настройки при запуске, раз в минуту
+ * и при возврате в окно (start → applyDue).
+ * Версии хранятся все вместе с курсами валют на момент публикации, поэтому прайс-лист на прошедшую дату
+ * пересчитывается с настройками и курсами той даты (settingsAsOf, currencyAsOf).
+ * Первая публикация сохраняет прежние настройки baseline-версией — история начинается без отдельной миграции.
+ * Изменения, пришедшие синхронизацией или из резервной копии, версий не создают.
+ */
+
+import type { PriceSettings, PriceSettingsVersion } from '../types/models'
+import { LS_KEYS, StorageService, normalizePriceSettings, toArray } from './storage'
+import { AuditService } from './audit'
+import { pricingCurrency, readCurrencyConfig } from './currency'
+
+/** Период проверки наступивших версий, мс */
+const APPLY_INTERVAL_MS = 60_000
+
+/** Время начала действия, мс */
+const timeOf = (v: PriceSettingsVersion) => Date.parse(v.effective_at) || 0
+
+/** Порядок версий: по дате начала действия, при равной — по дате публикации */
+function byEffective(a: PriceSettingsVersion, b: PriceSettingsVersion): number {
+  return timeOf(a) - timeOf(b) || (Date.parse(a.published_at) || 0) - (Date.parse(b.published_at) || 0)
+}
+
+/** Одинаковы ли настройки */
+export function sameSettings(a: PriceSettings, b: PriceSettings): boolean {
+  return JSON.stringify(normalizePriceSettings(a)) === JSON.stringify(normalizePriceSettings(b))
+}
+
+/**
+ * Параметры публикации
+ */
+export interface PublishOptions {
+  /** С какого момента действует (по умолчанию — сейчас) */
+  effectiveAt?: Date
+  /** Комментарий для списка версий и журнала */
+  note?: string
+  /** Дополнительные сведения для журнала изменений */
+  details?: Record<string, unknown>
+}
+
+/**
+ * Сервис версий настроек цен
+ */
+export class PriceVersions {
+  private static started = false
+
+  /**
+   * Применять наступившие версии без перезапуска: раз в минуту и при возврате в окно
+   * (вкладка может быть открыта с вечера до даты начала действия версии)
+   */
+  static start(): void {
+    if (this.started || typeof window === 'undefined') return
+    this.started = true
+    const tick = () => {
+      this.applyDue().catch((error) => console.error('❌ Failed to apply price settings version:', error))
+    }
+    window.setInterval(tick, APPLY_INTERVAL_MS)
+    window.addEventListener('focus', tick)
+  }
+
+  /** Все версии по возрастанию даты начала действия */
+  static getAll(): PriceSettingsVersion[] {
+    return toArray<PriceSettingsVersion>(StorageService.read<unknown>(LS_KEYS.priceVersions, [])).sort(byEffective)
+  }
+
+  /** Сохранить версии */
+  static saveAll(list: PriceSettingsVersion[]): Promise<boolean> {
+    return StorageService.write(LS_KEYS.priceVersions, list)
+  }
+
+  /** Черновик (null — черновика нет, редактируются текущие настройки) */
+  static getDraft(): PriceSettings | null {
+    const raw = StorageService.read<unknown>(LS_KEYS.priceSettingsDraft, null)
+    return raw ? normalizePriceSettings(raw) : null
+  }
+
+  /** Сохранить черновик; совпадающий с текущими настройками черновик удаляется */
+  static async saveDraft(settings: PriceSettings): Promise<boolean> {
+    if (sameSettings(settings, StorageService.getPriceSettings())) {
+      await this.discardDraft()
+      return true
+    }
+    return StorageService.write(LS_KEYS.priceSettingsDraft, settings)
+  }
+
+  /** Удалить черновик */
+  static discardDraft(): Promise<void> {
+    return StorageService.remove(LS_KEYS.priceSettingsDraft)
+  }
+
+  /**
+   * Версия, действующая на дату: последняя с началом не позже даты.
+   * Дата раньше первой версии — самая ранняя версия; версий нет — null (действуют текущие настройки).
+   */
+  static versionAsOf(date: Date | string, versions: PriceSettingsVersion[] = this.getAll()): PriceSettingsVersion | null {
+    const list = versions.slice().sort(byEffective)
+    if (list.length === 0) return null
+    const at = typeof date === 'string' ? Date.parse(date) : date.getTime()
+    let found = list[0]
+    for (const v of list) {
+      if (timeOf(v) <= at) found = v
+      else break
+    }
+    return found
+  }
+
+  /** Настройки цен на дату (null — версий нет) */
+  static settingsAsOf(date: Date | string, versions?: PriceSettingsVersion[]): PriceSettings | null {
+    const v = this.versionAsOf(date, versions)
+    return v ? normalizePriceSettings(v.settings) : null
+  }
+
+  /** Курсы валют на дату (null — версий нет или версия опубликована без снимка курсов) */
+  static currencyAsOf(date: Date | string, versions?: PriceSettingsVersion[]): PriceSettingsVersion['currency'] | null {
+    return this.versionAsOf(date, versions)?.currency ?? null
+  }
+
+  /**
+   * Опубликовать настройки: версия с датой начала действия.
+   * Версия, которая уже действует, сразу становится текущими настройками.
+   * Черновик удаляется, если опубликован именно он (подбор наценки на странице «Маржа» чужой черновик не трогает).
+   */
+  static async publish(settings: PriceSettings, options: PublishOptions = {}): Promise<PriceSettingsVersion> {
+    const now = new Date()
+    const effectiveAt = options.effectiveAt ?? now
+    const current = StorageService.getPriceSettings()
+    const currency = pricingCurrency(readCurrencyConfig())
+    const versions = this.getAll()
+
+    // Настройки до первой публикации — baseline, действующий «всегда» (прайс-листы за прошлые даты)
+    if (versions.length === 0) {
+      versions.push({
+        id: StorageService.id(),
+        settings: current,
+        currency,
+        effective_at: new Date(0).toISOString(),
+        published_at: now.toISOString(),
+        applied: true,
+        source: 'baseline',
+      })
+    }
+
+    const version: PriceSettingsVersion = {
+      id: StorageService.id(),
+      settings: normalizePriceSettings(settings),
+      currency,
+      effective_at: effectiveAt.toISOString(),
+      published_at: now.toISOString(),
+      ...(options.note ? { note: options.note } : {}),
+      applied: false,
+      source: 'ui',
+    }
+    if (!(await this.saveAll([...versions, version].sort(byEffective)))) {
+      throw new Error('Не удалось сохранить версию настроек цен')
+    }
+    const draft = this.getDraft()
+    if (draft && sameSettings(draft, version.settings)) await this.discardDraft()
+
+    AuditService.log({
+      action: 'update',
+      entity: 'settings',
+      entityName: options.note || 'Версия настроек цен',
+      source: 'ui',
+      before: current,
+      after: version.settings,
+      details: { ...options.details, version: version.id, effective_at: version.effective_at },
+    })
+    await this.applyDue(now, false)
+    return version
+  }
+
+  /**
+   * Перенести в текущие настройки версию, дата которой наступила.
+   * Возвращает применённую версию (null — применять нечего).
+   */
+  static async applyDue(now: Date = new Date(), log = true): Promise<PriceSettingsVersion | null> {
+    const versions = this.getAll()
+    const due = versions.filter((v) => !v.applied && timeOf(v) <= now.getTime())
+    if (due.length === 0) return null
+
+    const active = this.versionAsOf(now, versions)
+    const before = StorageService.getPriceSettings()
+    // Задним числом опубликованная версия, перекрытая более поздней, только помечается применённой
+    if (active && due.includes(active) && !sameSettings(before, active.settings)) {
+      if (!(await StorageService.savePriceSettings(normalizePriceSettings(active.settings)))) return null
+      if (log) {
+        AuditService.log({
+          action: 'update',
+          entity: 'settings',
+          entityName: active.note || 'Версия настроек цен',
+          source: 'system',
+          before,
+          after: active.settings,
+          details: { version: active.id, effective_at: active.effective_at },
+        })
+      }
+    }
+    const dueIds = new Set(due.map((v) => v.id))
+    await this.saveAll(versions.map((v) => (dueIds.has(v.id) ? { ...v, applied: true } : v)))
+    return active && dueIds.has(active.id) ? active : null
+  }
+}
@@ -3,6 +3,7 @@
  */
 
 import { StorageService, type SimpleCollection, type SimpleProduct } from './storage'
+import { AuditService } from './audit'
 
 /**
  * Сгенерировать товары для демонстрации
@@ -61,9 +62,10 @@ export function seedDemoData(): { products: SimpleProduct[]; collections: Simple
   const collections = generateCollections(products.map((p) => p.id))
   StorageService.saveProducts(products)
   StorageService.saveCollections(collections)
-  StorageService.pushAudit({
+  AuditService.log({
     action: 'seed',
     entity: 'system',
+    source: 'system',
     details: { products: products.length, collections: collections.length },
   })
   return { products, collections }
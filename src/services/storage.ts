@@ -1,25 +1,86 @@
 /**
- * StorageService — централизованный доступ к localStorage
- * Согласованные ключи и безопасное чтение/запись.
+ * StorageService — централизованный доступ к хранилищу
+ * Единый репозиторий всех сущностей: материалы, изделия, коллекции, настройки цен, валюты, журнал.
+ * Согласованные ключи и безопасное чтение/запись. Версия схемы и миграции — см. services/migrations.ts.
+ * Драйвер: IndexedDB (после init) либо localStorage. Чтение синхронное из кэша, запись асинхронная.
  */
 
+import type { Assembly, Material, PriceSettings, PriceTier } from '../types/models'
+import {
+  IndexedDbDriver,
+  LocalStorageDriver,
+  estimateQuota,
+  isQuotaError,
+  type QuotaEstimate,
+  type StorageDriver,
+  type StorageDriverKind,
+} from './storageDrivers'
+import { ChangeBus } from './changeBus'
+
 export interface AuditEvent {
   /** Уникальный ID события */
   id: string
   /** Время (ms epoch) */
   at: number
   /** Действие */
-  action: string
+  action: AuditAction
   /** Сущность события */
-  entity: 'collection' | 'product' | 'system' | string
+  entity: AuditEntity
   /** ID сущности (опционально) */
   entityId?: string
-  /** Доп. данные */
-  details?: any
-  /** Версия записи */
+  /** Название сущности на момент события */
+  entityName?: string
+  /** Кто внёс изменение (в записях до v2 отсутствует) */
+  actor?: string
+  /** Откуда пришло изменение (в записях до v2 отсутствует) */
+  source?: AuditSource
+  /** Изменённые поля: старое → новое значение */
+  changes?: AuditChange[]
+  /** Доп. данные (счётчики, параметры операции) */
+  details?: Record<string, unknown>
+  /** Версия формата записи */
   version?: string
 }
 
+/**
+ * Сущность события журнала
+ */
+export type AuditEntity = 'collection' | 'product' | 'assembly' | 'material' | 'settings' | 'system'
+
+/**
+ * Действие события журнала
+ */
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'restore'
+  | 'purge'
+  | 'archive'
+  | 'unarchive'
+  | 'reorder'
+  | 'add_product'
+  | 'import'
+  | 'seed'
+  | 'migrate'
+
+/**
+ * Источник изменения: действие в интерфейсе, импорт файла/копии, синхронизация с сервером, AI-подсказка, служебная операция
+ */
+export type AuditSource = 'ui' | 'import' | 'sync' | 'ai' | 'system' | 'undo' | 'redo'
+
+/**
+ * Изменение одного поля
+ */
+export interface AuditChange {
+  /** Путь поля: `price`, `tech_card.<materialId>`, `productTypes.<id>.markup` */
+  field: string
+  /** Подпись поля на момент события */
+  label: string
+  from: unknown
+  to: unknown
+}
+
 /**
  * Упрощенный товар для главной
  */
@@ -28,6 +89,8 @@ export interface SimpleProduct {
   name: string
   article: string
   imageKeyword?: string
+  /** Дата удаления в корзину */
+  deleted_at?: string | null
   created_at: string
   updated_at: string
 }
@@ -43,6 +106,8 @@ export interface SimpleCollection {
   is_archived?: boolean
   pinned?: boolean
   product_order: string[]
+  /** Дата удаления в корзину */
+  deleted_at?: string | null
   created_at: string
   updated_at: string
 }
@@ -53,71 +118,483 @@ export interface SimpleCollection {
 export const LS_KEYS = {
   collections: 'wasser_collections_data',
   products: 'wasser_products_data',
+  assemblies: 'wasser_assemblies_data',
+  materials: 'wasser_materials',
+  materialPrices: 'wasser_material_prices',
+  priceSettings: 'wasser_price_settings_data',
+  priceSettingsDraft: 'wasser_price_settings_draft',
+  priceVersions: 'wasser_price_settings_versions',
+  currency: 'wasser_currency_config_v1',
   audit: 'wasser_change_log',
+  pdfPrefs: 'wasser_pricelist_prefs',
+  syncOutbox: 'wasser_sync_outbox',
+  syncState: 'wasser_sync_state',
+  syncConflicts: 'wasser_sync_conflicts',
+  auditActor: 'wasser_audit_actor',
+  auditRetention: 'wasser_audit_retention',
+  auditArchive: 'wasser_audit_archive',
+  schemaVersion: 'wasser_schema_version',
 } as const
 
 /**
- * Безопасное чтение/запись JSON в localStorage
+ * Устаревшие ключи (переносятся миграциями схемы)
+ */
+export const LEGACY_LS_KEYS = {
+  /** Материалы со страниц «Коллекции»/«Изделия» */
+  materialsData: 'wasser_materials_data',
+  /** Демо-данные старого прайс-листа */
+  products: 'wasser_products',
+  priceSettings: 'wasser_price_settings',
+} as const
+
+/**
+ * Источник изменения ключа: запись в этой вкладке или в другой (через шину изменений)
+ */
+export type ChangeSource = 'local' | 'tab'
+
+/**
+ * Ошибка записи в хранилище (для уведомления пользователя)
+ */
+export interface StorageWriteError {
+  /** Ключ, который не удалось сохранить */
+  key: string
+  /** Переполнение квоты */
+  quota: boolean
+  /** Драйвер, на котором произошла ошибка */
+  driver: StorageDriverKind
+  /** Исходная ошибка */
+  error: unknown
+}
+
+/**
+ * Сведения о хранилище для панели настроек
+ */
+export interface StorageInfo {
+  driver: StorageDriverKind
+  /** Оценка квоты браузера (null — API недоступен) */
+  estimate: QuotaEstimate | null
+  /** Размер данных приложения по ключам, байт */
+  entries: Array<{ key: string; bytes: number }>
+  /** Итого байт данных приложения */
+  totalBytes: number
+}
+
+/**
+ * Фиксированные UUID типов по умолчанию (прежние id: pt1..pt3, ft1..ft2).
+ * Одинаковы на всех устройствах — стандартные типы не дублируются при синхронизации.
+ */
+export const DEFAULT_TYPE_IDS: Record<string, string> = {
+  pt1: '00000000-0000-4000-8000-000000000101',
+  pt2: '00000000-0000-4000-8000-000000000102',
+  pt3: '00000000-0000-4000-8000-000000000103',
+  ft1: '00000000-0000-4000-8000-000000000201',
+  ft2: '00000000-0000-4000-8000-000000000202',
+}
+
+/**
+ * Фиксированные UUID уровней цен по умолчанию (по той же причине, что и DEFAULT_TYPE_IDS)
+ */
+export const DEFAULT_TIER_IDS = {
+  retail: '00000000-0000-4000-8000-000000000301',
+  dealer: '00000000-0000-4000-8000-000000000302',
+  wholesale: '00000000-0000-4000-8000-000000000303',
+} as const
+
+/**
+ * Уровни цен по умолчанию
+ */
+export function defaultPriceTiers(): PriceTier[] {
+  return [
+    { id: DEFAULT_TIER_IDS.retail, name: 'Розница', adjustment: 0 },
+    { id: DEFAULT_TIER_IDS.dealer, name: 'Дилер', adjustment: -15 },
+    { id: DEFAULT_TIER_IDS.wholesale, name: 'Опт', adjustment: -25 },
+  ]
+}
+
+/**
+ * Значения по умолчанию для ценообразования
+ */
+export function defaultPriceSettings(): PriceSettings {
+  return {
+    productTypes: [
+      { id: DEFAULT_TYPE_IDS.pt1, name: 'Тумба с дверями', markup: 10, workCost: 1000 },
+      { id: DEFAULT_TYPE_IDS.pt2, name: 'Тумба с ящиками', markup: 15, workCost: 1500 },
+      { id: DEFAULT_TYPE_IDS.pt3, name: 'Пенал', markup: 20, workCost: 2000 },
+    ],
+    finishTypes: [
+      { id: DEFAULT_TYPE_IDS.ft1, name: 'Крашеный', markup: 50 },
+      { id: DEFAULT_TYPE_IDS.ft2, name: 'Пленочный', markup: 30 },
+    ],
+    priceTiers: defaultPriceTiers(),
+    overheadPools: [],
+    taxProfiles: [],
+  }
+}
+
+/**
+ * Проверка формата UUID
+ */
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)
+}
+
+/**
+ * Привести значение к массиву (старые версии хранили объекты-словари)
+ */
+export function toArray<T = unknown>(value: unknown): T[] {
+  if (Array.isArray(value)) return value as T[]
+  if (value && typeof value === 'object') return Object.values(value) as T[]
+  return []
+}
+
+/**
+ * Привести произвольную запись к Material (поддерживает snake_case и camelCase старых версий).
+ * Возвращает null, если у записи нет названия.
+ */
+export function normalizeMaterial(x: any): Material | null {
+  if (!x || typeof x !== 'object') return null
+  const name = String(x.name ?? '').trim()
+  if (!name) return null
+  const now = new Date().toISOString()
+  const tags = Array.isArray(x.tags)
+    ? (x.tags as unknown[]).map(String).filter(Boolean)
+    : typeof x.tags === 'string'
+      ? x.tags.split(/[,;]\s*/).filter(Boolean)
+      : undefined
+  const isActive = x.is_active ?? x.isActive
+  const m: Material = {
+    id: String(x.id ?? StorageService.id()),
+    name,
+    article: String(x.article ?? '').trim(),
+    unit: String(x.unit || 'шт'),
+    price: Number(x.price ?? 0) || 0,
+    created_at: String(x.created_at ?? x.createdAt ?? now),
+    updated_at: String(x.updated_at ?? x.updatedAt ?? now),
+  }
+  const waste = Number(x.waste_percent ?? x.wastePercent)
+  if (waste > 0) m.waste_percent = waste
+  if (x.currency) m.currency = String(x.currency).trim().toUpperCase()
+  if (x.category) m.category = String(x.category)
+  if (x.supplier) m.supplier = String(x.supplier)
+  if (x.description) m.description = String(x.description)
+  if (tags && tags.length) m.tags = tags
+  if (isActive != null) m.is_active = isActive !== false
+  if (x.version != null) m.version = Number(x.version) || 1
+  // null сохраняется явно: при слиянии с сервера он снимает пометку удаления
+  if ('deleted_at' in x) m.deleted_at = x.deleted_at ? String(x.deleted_at) : null
+  return m
+}
+
+/**
+ * Запись в корзине (мягко удалена)
+ */
+export function isDeleted(x: { deleted_at?: string | null } | null | undefined): boolean {
+  return !!x?.deleted_at
+}
+
+/**
+ * Только записи вне корзины (для списков и расчётов каталога)
+ */
+export function withoutDeleted<T extends { deleted_at?: string | null }>(list: T[]): T[] {
+  return list.filter((x) => !x.deleted_at)
+}
+
+/**
+ * Привести настройки цен к корректной структуре
+ */
+export function normalizePriceSettings(x: any): PriceSettings {
+  return {
+    ...(x && typeof x === 'object' ? x : {}),
+    productTypes: toArray(x?.productTypes),
+    finishTypes: toArray(x?.finishTypes),
+    priceTiers: toArray(x?.priceTiers),
+    overheadPools: toArray(x?.overheadPools),
+    taxProfiles: toArray(x?.taxProfiles),
+  }
+}
+
+/**
+ * Безопасное чтение/запись JSON через текущий драйвер
  */
 export class StorageService {
-  /** Прочитать значение типа T из LS безопасно */
+  /** Активный драйвер (до init — localStorage) */
+  private static driver: StorageDriver = new LocalStorageDriver()
+  /** Кэш сырых значений; после init содержит всё содержимое драйвера */
+  private static cache = new Map<string, string>()
+  /** Кэш полностью загружен из драйвера */
+  private static hydrated = false
+  /** Подписчики на ошибки записи */
+  private static errorListeners = new Set<(err: StorageWriteError) => void>()
+  /** Подписчики на изменения ключей */
+  private static changeListeners = new Set<(key: string, source: ChangeSource) => void>()
+  /** Подписка на шину изменений других вкладок выполнена */
+  private static tabsConnected = false
+
+  /**
+   * Инициализация: переход на IndexedDB с переносом данных из localStorage.
+   * Вызывается один раз до рендера; при недоступности IndexedDB остаётся localStorage.
+   */
+  static async init(): Promise<StorageDriverKind> {
+    this.connectTabs()
+    if (this.hydrated || !IndexedDbDriver.isAvailable()) return this.driver.kind
+    try {
+      const idb = new IndexedDbDriver()
+      const stored = await idb.loadAll()
+      const moved: string[] = []
+      for (const key of [...Object.values(LS_KEYS), ...Object.values(LEGACY_LS_KEYS)]) {
+        const raw = this.driver.readSync?.(key) ?? null
+        if (raw == null) continue
+        // Данные, уже лежащие в IndexedDB, приоритетнее
+        if (!stored.has(key)) {
+          await idb.setItem(key, raw)
+          stored.set(key, raw)
+        }
+        moved.push(key)
+      }
+      // Освобождаем localStorage только после успешного переноса всех ключей
+      for (const key of moved) await this.driver.removeItem(key)
+      this.driver = idb
+      this.cache = stored
+      this.hydrated = true
+    } catch (e) {
+      console.warn('⚠️ IndexedDB недоступен, используется localStorage:', e)
+    }
+    return this.driver.kind
+  }
+
+  /** Текущий драйвер */
+  static getDriverKind(): StorageDriverKind {
+    return this.driver.kind
+  }
+
+  /** Подписка на ошибки записи. Возвращает функцию отписки. */
+  static onWriteError(listener: (err: StorageWriteError) => void): () => void {
+    this.errorListeners.add(listener)
+    return () => {
+      this.errorListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Подписка на изменения данных: write/remove в этой вкладке и записи других вкладок.
+   * Возвращает функцию отписки.
+   */
+  static onChange(listener: (key: string, source: ChangeSource) => void): () => void {
+    this.changeListeners.add(listener)
+    return () => {
+      this.changeListeners.delete(listener)
+    }
+  }
+
+  /** Сообщить подписчикам об изменении ключа */
+  private static emitChange(key: string, source: ChangeSource = 'local'): void {
+    this.changeListeners.forEach((fn) => {
+      try {
+        fn(key, source)
+      } catch (e) {
+        console.error('❌ Storage change listener failed:', e)
+      }
+    })
+  }
+
+  /** Слушать записи других вкладок: перечитать ключ из драйвера в кэш и уведомить подписчиков */
+  private static connectTabs(): void {
+    if (this.tabsConnected) return
+    this.tabsConnected = true
+    ChangeBus.subscribe(async ({ key }) => {
+      if (this.hydrated) {
+        try {
+          const raw = await this.driver.getItem(key)
+          if (raw == null) this.cache.delete(key)
+          else this.cache.set(key, raw)
+        } catch (e) {
+          console.warn(`⚠️ Не удалось перечитать ${key} после изменения в другой вкладке:`, e)
+          return
+        }
+      }
+      this.emitChange(key, 'tab')
+    })
+  }
+
+  /** Сообщить подписчикам об ошибке записи */
+  private static reportError(key: string, error: unknown): void {
+    const info: StorageWriteError = { key, error, quota: isQuotaError(error), driver: this.driver.kind }
+    console.error(`❌ Storage write failed (${key}):`, error)
+    this.errorListeners.forEach((fn) => {
+      try {
+        fn(info)
+      } catch {
+        /* noop */
+      }
+    })
+  }
+
+  /** Сырое значение по ключу */
+  private static getRaw(key: string): string | null {
+    if (this.hydrated) return this.cache.get(key) ?? null
+    return this.driver.readSync?.(key) ?? null
+  }
+
+  /** Прочитать значение типа T безопасно */
   static read<T>(key: string, fallback: T): T {
     try {
-      const raw = localStorage.getItem(key)
+      const raw = this.getRaw(key)
       return raw ? (JSON.parse(raw) as T) : fallback
     } catch {
       return fallback
     }
   }
 
-  /** Записать значение в LS безопасно */
-  static write<T>(key: string, value: T): void {
+  /**
+   * Записать значение. Кэш обновляется сразу, сохранение в драйвер — асинхронно.
+   * Неизменённое значение не записывается. После сохранения другие вкладки получают уведомление.
+   * Возвращает false при ошибке (подписчики onWriteError получают подробности).
+   */
+  static async write<T>(key: string, value: T): Promise<boolean> {
+    let raw: string
+    try {
+      raw = JSON.stringify(value)
+    } catch (e) {
+      this.reportError(key, e)
+      return false
+    }
+    if (raw === this.getRaw(key)) return true
+    if (this.hydrated) this.cache.set(key, raw)
+    const saving = this.driver.setItem(key, raw)
+    this.emitChange(key)
+    try {
+      await saving
+      ChangeBus.publish(key)
+      return true
+    } catch (e) {
+      this.reportError(key, e)
+      return false
+    }
+  }
+
+  /** Удалить ключ */
+  static async remove(key: string): Promise<void> {
+    if (this.hydrated) this.cache.delete(key)
+    const removing = this.driver.removeItem(key)
+    this.emitChange(key)
     try {
-      localStorage.setItem(key, JSON.stringify(value))
+      await removing
+      ChangeBus.publish(key)
     } catch {
       /* noop */
     }
   }
 
+  /** Есть ли значение по ключу */
+  static has(key: string): boolean {
+    return this.getRaw(key) != null
+  }
+
+  /** Сведения о занятом месте: квота браузера и размер данных приложения */
+  static async getStorageInfo(): Promise<StorageInfo> {
+    const entries: Array<{ key: string; bytes: number }> = []
+    for (const key of Object.values(LS_KEYS)) {
+      const raw = this.getRaw(key)
+      if (raw != null) entries.push({ key, bytes: new Blob([raw]).size })
+    }
+    entries.sort((a, b) => b.bytes - a.bytes)
+    return {
+      driver: this.driver.kind,
+      estimate: await estimateQuota(),
+      entries,
+      totalBytes: entries.reduce((s, e) => s + e.bytes, 0),
+    }
+  }
+
   /** Получить коллекции */
-  static getCollections(): SimpleCollection[] {
-    return this.read<SimpleCollection[]>(LS_KEYS.collections, [])
+  static getCollections<T extends SimpleCollection = SimpleCollection>(): T[] {
+    return toArray<T>(this.read<unknown>(LS_KEYS.collections, []))
   }
 
   /** Сохранить коллекции */
-  static saveCollections(list: SimpleCollection[]): void {
-    this.write(LS_KEYS.collections, list)
+  static saveCollections<T extends SimpleCollection>(list: T[]): Promise<boolean> {
+    return this.write(LS_KEYS.collections, list)
   }
 
   /** Получить товары */
-  static getProducts(): SimpleProduct[] {
-    return this.read<SimpleProduct[]>(LS_KEYS.products, [])
+  static getProducts<T extends SimpleProduct = SimpleProduct>(): T[] {
+    return toArray<T>(this.read<unknown>(LS_KEYS.products, []))
   }
 
   /** Сохранить товары */
-  static saveProducts(list: SimpleProduct[]): void {
-    this.write(LS_KEYS.products, list)
+  static saveProducts<T extends SimpleProduct>(list: T[]): Promise<boolean> {
+    return this.write(LS_KEYS.products, list)
+  }
+
+  /** Получить сборки */
+  static getAssemblies(): Assembly[] {
+    return toArray<Assembly>(this.read<unknown>(LS_KEYS.assemblies, []))
+  }
+
+  /** Сохранить сборки */
+  static saveAssemblies(list: Assembly[]): Promise<boolean> {
+    return this.write(LS_KEYS.assemblies, list)
+  }
+
+  /** Получить материалы */
+  static getMaterials(): Material[] {
+    return toArray(this.read<unknown>(LS_KEYS.materials, []))
+      .map(normalizeMaterial)
+      .filter(Boolean) as Material[]
+  }
+
+  /** Сохранить материалы */
+  static saveMaterials(list: Material[]): Promise<boolean> {
+    return this.write(LS_KEYS.materials, list)
+  }
+
+  /** Получить настройки цен (или значения по умолчанию) */
+  static getPriceSettings(fallback: PriceSettings = defaultPriceSettings()): PriceSettings {
+    const raw = this.read<unknown>(LS_KEYS.priceSettings, null)
+    return raw ? normalizePriceSettings(raw) : fallback
+  }
+
+  /** Сохранить настройки цен */
+  static savePriceSettings(settings: PriceSettings): Promise<boolean> {
+    return this.write(LS_KEYS.priceSettings, settings)
   }
 
   /** Получить журнал аудита */
   static getAudit(): AuditEvent[] {
-    return this.read<AuditEvent[]>(LS_KEYS.audit, [])
+    return toArray<AuditEvent>(this.read<unknown>(LS_KEYS.audit, []))
   }
 
-  /** Добавить запись в журнал */
-  static pushAudit(item: Omit<AuditEvent, 'id' | 'at' | 'version'>): void {
-    const list = this.getAudit()
-    const record: AuditEvent = {
+  /** Добавить запись (или несколько записей одной операцией) в журнал */
+  static pushAudit(
+    item: Omit<AuditEvent, 'id' | 'at' | 'version'> | Omit<AuditEvent, 'id' | 'at' | 'version'>[],
+  ): Promise<boolean> {
+    const at = Date.now()
+    const records: AuditEvent[] = (Array.isArray(item) ? item : [item]).map((x) => ({
       id: StorageService.id(),
-      at: Date.now(),
-      version: 'v1',
-      ...item,
-    }
-    this.write(LS_KEYS.audit, [record, ...list])
+      at,
+      version: 'v2',
+      ...x,
+    }))
+    return this.write(LS_KEYS.audit, [...records.reverse(), ...this.getAudit()])
+  }
+
+  /** Текущая версия схемы локальных данных (0 — данные до введения миграций) */
+  static getSchemaVersion(): number {
+    return Number(this.read<number>(LS_KEYS.schemaVersion, 0)) || 0
+  }
+
+  /** Зафиксировать версию схемы */
+  static setSchemaVersion(version: number): Promise<boolean> {
+    return this.write(LS_KEYS.schemaVersion, version)
   }
 
-  /** Утилита: компактный ID */
+  /** Утилита: новый ID (UUID — совместим с ключами таблиц Supabase) */
   static id(): string {
-    return Date.now().toString(36) + Math.random().toString(36).slice(2)
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID()
+    // Фолбэк для старых браузеров: UUID v4 на Math.random
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+      const r = (Math.random() * 16) | 0
+      return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16)
+    })
   }
 }
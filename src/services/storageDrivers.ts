@@ -0,0 +1,201 @@
+/**
+ * Драйверы хранилища для StorageService.
+ * Значения хранятся как JSON-строки: localStorage (синхронно, ~5 МБ) или IndexedDB (асинхронно, крупные каталоги и изображения).
+ */
+
+/** Тип драйвера */
+export type StorageDriverKind = 'localStorage' | 'indexedDB'
+
+/**
+ * Контракт драйвера: ключ → сырая JSON-строка
+ */
+export interface StorageDriver {
+  readonly kind: StorageDriverKind
+  /** Синхронное чтение (есть только у localStorage) */
+  readSync?(key: string): string | null
+  /** Прочитать значение из самого драйвера (минуя кэш StorageService) */
+  getItem(key: string): Promise<string | null>
+  /** Загрузить все записи драйвера */
+  loadAll(): Promise<Map<string, string>>
+  /** Записать значение */
+  setItem(key: string, raw: string): Promise<void>
+  /** Удалить значение */
+  removeItem(key: string): Promise<void>
+}
+
+/**
+ * Оценка занятого/доступного места (Storage API браузера)
+ */
+export interface QuotaEstimate {
+  /** Занято байт (все хранилища источника) */
+  usage: number
+  /** Доступно байт всего */
+  quota: number
+  /** Хранилище помечено как постоянное (не очищается браузером) */
+  persisted?: boolean
+}
+
+/**
+ * Признак ошибки переполнения квоты (различается по браузерам)
+ */
+export function isQuotaError(e: unknown): boolean {
+  const err = e as { name?: string; code?: number } | null
+  if (!err) return false
+  return err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED' || err.code === 22 || err.code === 1014
+}
+
+/**
+ * LocalStorageDriver — исходное хранилище приложения
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly kind = 'localStorage' as const
+
+  readSync(key: string): string | null {
+    try {
+      return localStorage.getItem(key)
+    } catch {
+      return null
+    }
+  }
+
+  getItem(key: string): Promise<string | null> {
+    return Promise.resolve(this.readSync(key))
+  }
+
+  async loadAll(): Promise<Map<string, string>> {
+    const map = new Map<string, string>()
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (key == null) continue
+      const raw = localStorage.getItem(key)
+      if (raw != null) map.set(key, raw)
+    }
+    return map
+  }
+
+  /** Запись выполняется синхронно; ошибка квоты пробрасывается вызывающему */
+  setItem(key: string, raw: string): Promise<void> {
+    try {
+      localStorage.setItem(key, raw)
+      return Promise.resolve()
+    } catch (e) {
+      return Promise.reject(e)
+    }
+  }
+
+  removeItem(key: string): Promise<void> {
+    try {
+      localStorage.removeItem(key)
+    } catch {
+      /* noop */
+    }
+    return Promise.resolve()
+  }
+}
+
+/**
+ * IndexedDbDriver — хранилище ключ/значение в одной object store
+ */
+export class IndexedDbDriver implements StorageDriver {
+  readonly kind = 'indexedDB' as const
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  constructor(
+    private readonly dbName = 'wasser_pro',
+    private readonly storeName = 'kv',
+  ) {}
+
+  /** Доступен ли IndexedDB в текущем окружении */
+  static isAvailable(): boolean {
+    try {
+      return typeof indexedDB !== 'undefined' && indexedDB !== null
+    } catch {
+      return false
+    }
+  }
+
+  /** Открыть (или создать) базу */
+  private open(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise
+    this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(this.dbName, 1)
+      req.onupgradeneeded = () => {
+        const db = req.result
+        if (!db.objectStoreNames.contains(this.storeName)) db.createObjectStore(this.storeName)
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+      req.onblocked = () => reject(new Error('IndexedDB blocked'))
+    })
+    // Неудачное открытие не кэшируем — следующая попытка откроет заново
+    this.dbPromise.catch(() => {
+      this.dbPromise = null
+    })
+    return this.dbPromise
+  }
+
+  /** Выполнить операцию в транзакции и дождаться её завершения */
+  private async tx<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+    const db = await this.open()
+    return new Promise<T | undefined>((resolve, reject) => {
+      const t = db.transaction(this.storeName, mode)
+      const req = fn(t.objectStore(this.storeName))
+      t.oncomplete = () => resolve(req ? req.result : undefined)
+      t.onerror = () => reject(t.error)
+      t.onabort = () => reject(t.error || new Error('IndexedDB transaction aborted'))
+    })
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.tx<unknown>('readonly', (store) => store.get(key))
+    return typeof value === 'string' ? value : null
+  }
+
+  async loadAll(): Promise<Map<string, string>> {
+    const map = new Map<string, string>()
+    await this.tx('readonly', (store) => {
+      const cursorReq = store.openCursor()
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result
+        if (!cursor) return
+        if (typeof cursor.value === 'string') map.set(String(cursor.key), cursor.value)
+        cursor.continue()
+      }
+    })
+    return map
+  }
+
+  async setItem(key: string, raw: string): Promise<void> {
+    await this.tx('readwrite', (store) => store.put(raw, key))
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.tx('readwrite', (store) => store.delete(key))
+  }
+}
+
+/**
+ * Оценка квоты через navigator.storage (null — API недоступен)
+ */
+export async function estimateQuota(): Promise<QuotaEstimate | null> {
+  try {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null
+    const est = await navigator.storage.estimate()
+    const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : undefined
+    return { usage: Number(est.usage || 0), quota: Number(est.quota || 0), persisted }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Запросить постоянное хранилище (браузер не будет очищать данные при нехватке места)
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  try {
+    if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false
+    return await navigator.storage.persist()
+  } catch {
+    return false
+  }
+}
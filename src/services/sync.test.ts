@@ -0,0 +1,260 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Material, Product } from '../types/models'
+import { LS_KEYS, StorageService } from './storage'
+import { SyncService } from './sync'
+import { SYNC_ADAPTERS, type SyncRow } from './syncAdapters'
+
+vi.mock('./supabase', () => ({
+  getSupabase: () => server.client(),
+  isSupabaseEnabled: () => true,
+}))
+
+/**
+ * Сервер в памяти: ровно те запросы PostgREST, которые делает движок синхронизации.
+ * updated_at ставит «сервер» (как триггер в supabase/schema.sql), журнал запросов — в log.
+ */
+class FakeServer {
+  tables = new Map<string, Map<string, SyncRow>>()
+  log: string[] = []
+  private clock = Date.UTC(2026, 0, 1)
+
+  table(name: string): Map<string, SyncRow> {
+    if (!this.tables.has(name)) this.tables.set(name, new Map())
+    return this.tables.get(name)!
+  }
+
+  row(table: string, id: string): SyncRow | undefined {
+    return this.table(table).get(id)
+  }
+
+  /** Изменение с другого устройства */
+  edit(table: string, id: string, patch: Record<string, unknown>): void {
+    const row = this.row(table, id)!
+    Object.assign(row, patch, { version: Number(row.version) + 1, updated_at: this.tick() })
+  }
+
+  tick(): string {
+    this.clock += 1000
+    return new Date(this.clock).toISOString()
+  }
+
+  client(): SupabaseClient {
+    return { from: (table: string) => new FakeQuery(this, table) } as unknown as SupabaseClient
+  }
+}
+
+class FakeQuery implements PromiseLike<{ data: unknown; error: null }> {
+  private op: 'select' | 'upsert' | 'update' = 'select'
+  private rows: SyncRow[] = []
+  private patch: Record<string, unknown> = {}
+  private filters: Array<[string, unknown]> = []
+  private ids: string[] | null = null
+  private cursor: { at: string; id: string } | null = null
+  private max = Infinity
+
+  constructor(
+    private server: FakeServer,
+    private name: string,
+  ) {}
+
+  select(): this {
+    return this
+  }
+  order(): this {
+    return this
+  }
+  limit(n: number): this {
+    this.max = n
+    return this
+  }
+  or(filter: string): this {
+    const m = /updated_at\.gt\."([^"]+)".*id\.gt\.([^)]+)\)/.exec(filter)!
+    this.cursor = { at: m[1], id: m[2] }
+    return this
+  }
+  in(_column: string, ids: string[]): this {
+    this.ids = ids
+    return this
+  }
+  eq(column: string, value: unknown): this {
+    this.filters.push([column, value])
+    return this
+  }
+  upsert(rows: SyncRow[]): this {
+    this.op = 'upsert'
+    this.rows = rows
+    return this
+  }
+  update(patch: Record<string, unknown>): this {
+    this.op = 'update'
+    this.patch = patch
+    return this
+  }
+
+  then<A, B>(onfulfilled?: ((v: { data: unknown; error: null }) => A | PromiseLike<A>) | null, onrejected?: ((e: unknown) => B | PromiseLike<B>) | null) {
+    return Promise.resolve({ data: this.run(), error: null }).then(onfulfilled, onrejected)
+  }
+
+  private run(): unknown {
+    const table = this.server.table(this.name)
+    if (this.op === 'upsert') {
+      // ignoreDuplicates: существующие строки не трогаются и в ответ не попадают
+      const inserted = this.rows.filter((r) => !table.has(r.id))
+      for (const r of inserted) {
+        table.set(r.id, { ...r, purged_at: null, updated_at: this.server.tick() })
+        this.server.log.push(`insert ${this.name}`)
+      }
+      return inserted.map((r) => ({ id: r.id }))
+    }
+    if (this.op === 'update') {
+      const row = table.get(String(this.filters.find(([c]) => c === 'id')?.[1]))
+      if (!row || !this.filters.every(([c, v]) => row[c] === v)) return []
+      Object.assign(row, this.patch, { updated_at: this.server.tick() })
+      this.server.log.push(`${this.patch.purged_at ? 'purge' : 'update'} ${this.name}`)
+      return [{ id: row.id, version: row.version }]
+    }
+    const cursor = this.cursor
+    return Array.from(table.values())
+      .filter((r) => !this.ids || this.ids.includes(r.id))
+      .filter((r) => !cursor || String(r.updated_at) > cursor.at || (r.updated_at === cursor.at && r.id > cursor.id))
+      .sort((a, b) => String(a.updated_at).localeCompare(String(b.updated_at)) || a.id.localeCompare(b.id))
+      .slice(0, this.max)
+      .map((r) => ({ ...r }))
+  }
+}
+
+let server = new FakeServer()
+
+const M1 = '10000000-0000-4000-8000-000000000001'
+const P1 = '20000000-0000-4000-8000-000000000001'
+const TC1 = '30000000-0000-4000-8000-000000000001'
+
+const material = (price: number): Material => ({
+  id: M1,
+  name: 'ЛДСП',
+  article: 'L-1',
+  unit: 'м²',
+  price,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+})
+
+const materialsRow = () => SYNC_ADAPTERS.find((a) => a.table === 'materials')!.readRows()[0]
+const localPrice = () => StorageService.getMaterials().find((m) => m.id === M1)?.price
+const audit = () => StorageService.getAudit().filter((e) => e.entity === 'material')
+
+beforeEach(() => {
+  localStorage.clear()
+  server = new FakeServer()
+  // Синхронизацию ведёт эта «вкладка» (в приложении это решает Web Locks в start())
+  Object.assign(SyncService, { leader: true })
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+describe('SyncService.syncNow', () => {
+  it('отправляет новые записи в порядке внешних ключей, удаления — в обратном', async () => {
+    await StorageService.saveMaterials([material(100)])
+    await StorageService.saveProducts<Product>([
+      {
+        id: P1,
+        name: 'Тумба',
+        article: 'T-1',
+        tech_card: [{ materialId: M1, quantity: 2, _techCardId: TC1 }],
+        created_at: '2026-01-01T00:00:00.000Z',
+        updated_at: '2026-01-01T00:00:00.000Z',
+      } as Product,
+    ])
+    await SyncService.syncNow()
+
+    const ours = (line: string) => /materials|products|tech_card_items/.test(line)
+    expect(server.log.filter(ours)).toEqual(['insert materials', 'insert products', 'insert tech_card_items'])
+    expect(server.row('tech_card_items', TC1)?.version).toBe(1)
+
+    server.log = []
+    await StorageService.saveProducts([])
+    await StorageService.saveMaterials([])
+    await SyncService.syncNow()
+    expect(server.log.filter(ours)).toEqual(['purge tech_card_items', 'purge products', 'purge materials'])
+    expect(server.row('materials', M1)?.purged_at).toBeTruthy()
+    expect(SyncService.getStatus().pending).toBe(0)
+  })
+
+  it('не затирает локальную правку серверной: запись изменена с обеих сторон — конфликт', async () => {
+    await StorageService.saveMaterials([material(100)])
+    await SyncService.syncNow()
+    expect(server.row('materials', M1)?.version).toBe(1)
+
+    // Правка здесь ещё не поставлена в очередь, а на сервере запись уже изменили
+    await StorageService.saveMaterials([material(150)])
+    server.edit('materials', M1, { price: 130, updated_by: 'Анна' })
+    await SyncService.syncNow()
+
+    expect(localPrice()).toBe(150)
+    expect(server.row('materials', M1)?.price).toBe(130)
+    const [conflict] = SyncService.getConflicts()
+    expect(conflict).toMatchObject({ table: 'materials', recordId: M1, baseVersion: 1 })
+    expect(conflict.local?.price).toBe(150)
+    expect(conflict.remote).toMatchObject({ price: 130, version: 2 })
+  })
+
+  it('слитая версия конфликта отправляется поверх актуальной серверной', async () => {
+    await StorageService.saveMaterials([material(100)])
+    await SyncService.syncNow()
+    await StorageService.saveMaterials([material(150)])
+    server.edit('materials', M1, { price: 130, name: 'ЛДСП белая' })
+    await SyncService.syncNow()
+
+    const [conflict] = SyncService.getConflicts()
+    SyncService.resolveConflict(conflict.id, { ...conflict.remote!, price: 150 })
+    await vi.waitFor(() => expect(server.row('materials', M1)?.version).toBe(3))
+
+    expect(server.row('materials', M1)).toMatchObject({ price: 150, name: 'ЛДСП белая' })
+    expect(StorageService.getMaterials()[0]).toMatchObject({ price: 150, name: 'ЛДСП белая' })
+    expect(SyncService.getConflicts()).toEqual([])
+  })
+
+  it('одинаковая запись, созданная на обоих устройствах, — не конфликт', async () => {
+    await StorageService.saveMaterials([material(100)])
+    server.table('materials').set(M1, { ...materialsRow(), version: 4, purged_at: null, updated_at: server.tick() })
+    await SyncService.syncNow()
+
+    expect(SyncService.getConflicts()).toEqual([])
+    expect(SyncService.getStatus().pending).toBe(0)
+  })
+
+  it('применяет изменения с сервера и пишет их в журнал от имени автора', async () => {
+    await StorageService.saveMaterials([material(100)])
+    await SyncService.syncNow()
+    expect(server.row('materials', M1)?.updated_by).toBe('Локальный пользователь')
+
+    server.edit('materials', M1, { price: 130, updated_by: 'Анна' })
+    await SyncService.syncNow()
+    expect(localPrice()).toBe(130)
+    expect(audit()[0]).toMatchObject({ action: 'update', source: 'sync', actor: 'Анна' })
+
+    server.edit('materials', M1, { purged_at: '2026-02-01T00:00:00.000Z', updated_by: 'Борис' })
+    await SyncService.syncNow()
+    expect(localPrice()).toBeUndefined()
+    expect(audit()[0]).toMatchObject({ action: 'delete', source: 'sync', actor: 'Борис' })
+    expect(server.log.filter((l) => l.endsWith(' materials'))).toEqual(['insert materials'])
+  })
+
+  it('строки без автора пишутся в журнал от имени сервера', async () => {
+    server.table('materials').set(M1, {
+      id: M1,
+      name: 'ЛДСП',
+      article: 'L-1',
+      unit: 'м²',
+      price: 90,
+      version: 1,
+      purged_at: null,
+      updated_at: server.tick(),
+    })
+    await SyncService.syncNow()
+    expect(localPrice()).toBe(90)
+    expect(audit()[0]).toMatchObject({ action: 'create', actor: 'Сервер' })
+    expect(StorageService.read(LS_KEYS.syncOutbox, [])).toEqual([])
+  })
+})
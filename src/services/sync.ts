@@ -0,0 +1,753 @@
+/**
+ * SyncService — офлайн-синхронизация всех сущностей с Supabase.
+ * - Локальные изменения сравниваются с «тенью» последнего синхронизированного состояния и попадают в очередь (outbox)
+ * - Очередь хранится в StorageService и переживает перезагрузку; отправка с повтором и экспоненциальной задержкой
+ * - Pull: дельты по паре (updated_at, id) для каждой таблицы (курсор на таблицу); updated_at ставит сервер
+ *   и на вставке, поэтому запись, отправленная после долгой работы офлайн, не оказывается позади курсоров
+ * - Удаление отправляется надгробием (purged_at): строка остаётся на сервере и приходит другим устройствам
+ *   дельтой, где запись удаляется локально. Повторное сохранение той же записи снимает надгробие
+ * Локальная запись с неотправленной мутацией приоритетнее серверной версии до успешной отправки.
+ * Запись на сервер проверяет версию (оптимистичная блокировка): если версия на сервере ушла вперёд,
+ * мутация снимается из очереди в конфликт и ждёт ручного слияния (см. resolveConflict).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { LS_KEYS, StorageService } from './storage'
+import { AuditService } from './audit'
+import { getSupabase, isSupabaseEnabled } from './supabase'
+import { SYNC_ADAPTERS, type SyncAdapter, type SyncRow, type SyncTable } from './syncAdapters'
+
+/**
+ * Мутация в очереди отправки
+ */
+export interface OutboxEntry {
+  id: string
+  table: SyncTable
+  op: 'upsert' | 'delete'
+  recordId: string
+  /** Строка для upsert */
+  payload?: SyncRow
+  /** Число неудачных попыток */
+  attempts: number
+  /** Не раньше этого времени (ms epoch) */
+  nextAttemptAt: number
+  lastError?: string
+  /** Исчерпан лимит попыток из-за ошибки данных — ждёт решения пользователя */
+  failed?: boolean
+  created_at: string
+}
+
+/**
+ * Конфликт версий: запись изменена на сервере после того, как её взяли за основу локально
+ */
+export interface SyncConflict {
+  id: string
+  table: SyncTable
+  recordId: string
+  /** Локальная версия строки (null — запись удалена локально) */
+  local: SyncRow | null
+  /** Актуальная строка на сервере (null — запись удалена на сервере) */
+  remote: SyncRow | null
+  /** Версия сервера, на которой основано локальное изменение */
+  baseVersion?: number
+  /** Версия надгробия, если запись удалена на сервере: по ней итог слияния снимает надгробие */
+  purgedVersion?: number
+  detected_at: string
+}
+
+/**
+ * Позиция дельта-выборки: последняя полученная строка в порядке (updated_at, id)
+ */
+interface SyncCursor {
+  at: string
+  id: string
+}
+
+/**
+ * Состояние синхронизации (курсоры и тень)
+ */
+interface SyncState {
+  /** Последние полученные с сервера строки по таблицам */
+  cursors: Partial<Record<SyncTable, SyncCursor>>
+  /** Хэши строк, известных серверу (или уже поставленных в очередь), по таблицам */
+  shadow: Partial<Record<SyncTable, Record<string, string>>>
+  /** Версии сервера, на которых основаны локальные записи, по таблицам */
+  versions: Partial<Record<SyncTable, Record<string, number>>>
+  lastPullAt?: string
+  lastPushAt?: string
+}
+
+/**
+ * Публичный статус для UI
+ */
+export interface SyncStatus {
+  enabled: boolean
+  /** Синхронизацию ведёт эта вкладка (в других только отображается статус) */
+  leader: boolean
+  online: boolean
+  syncing: boolean
+  /** Мутаций в очереди */
+  pending: number
+  /** Мутаций с исчерпанными попытками */
+  failed: number
+  /** Неразрешённых конфликтов версий */
+  conflicts: number
+  lastPullAt?: string
+  lastPushAt?: string
+  lastError?: string
+}
+
+/**
+ * Итог отправки пакета
+ */
+interface PushResult {
+  /** Новые версии сервера по id (null — запись удалена) */
+  versions: Record<string, number | null>
+  conflicts: SyncConflict[]
+}
+
+/** Задержка пересчёта отличий после изменения данных */
+const SCAN_DEBOUNCE_MS = 800
+/** Период фонового pull */
+const PULL_INTERVAL_MS = 60_000
+/** Потолок задержки повтора */
+const MAX_BACKOFF_MS = 5 * 60_000
+/** Попыток для ошибок данных (сетевые ошибки повторяются бесконечно) */
+const MAX_ATTEMPTS = 8
+/** Размер страницы pull и пакета upsert */
+const PAGE_SIZE = 500
+/** id для курсора старого формата (только updated_at): меньше любого uuid */
+const MIN_UUID = '00000000-0000-0000-0000-000000000000'
+
+/** Короткий хэш строки (FNV-1a) для тени */
+function hash(value: unknown): string {
+  const s = JSON.stringify(value)
+  let h = 0x811c9dc5
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return (h >>> 0).toString(36) + ':' + s.length.toString(36)
+}
+
+/** Служебные колонки, не участвующие в слиянии */
+const SYSTEM_COLUMNS = new Set(['id', 'version', 'created_at', 'updated_at', 'updated_by'])
+
+/** Строка сервера без колонки надгробия; null — запись удалена (надгробие) */
+function liveRow(row: SyncRow | undefined | null): SyncRow | null {
+  if (!row || row.purged_at) return null
+  const { purged_at: _purged, ...rest } = row
+  return rest as SyncRow
+}
+
+/** Совпадают ли данные строк (без служебных колонок) */
+function sameData(a: SyncRow, b: SyncRow): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+  for (const k of keys) {
+    if (SYSTEM_COLUMNS.has(k)) continue
+    if (JSON.stringify(a[k] ?? null) !== JSON.stringify(b[k] ?? null)) return false
+  }
+  return true
+}
+
+/** Признак сетевой ошибки (повторяем без ограничения попыток) */
+function isNetworkError(e: unknown): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true
+  const msg = String((e as any)?.message || e || '')
+  return e instanceof TypeError || /failed to fetch|network|timeout|load failed/i.test(msg)
+}
+
+/** Сообщение ошибки (PostgrestError или Error) */
+function errorMessage(e: unknown): string {
+  const err = e as { message?: string; details?: string } | null
+  return err?.message ? (err.details ? `${err.message} (${err.details})` : err.message) : String(e)
+}
+
+/**
+ * Движок синхронизации
+ */
+export class SyncService {
+  private static started = false
+  /** Текущая вкладка ведёт синхронизацию */
+  private static leader = false
+  private static syncing = false
+  private static flushing = false
+  private static lastError: string | undefined
+  private static scanTimer: number | null = null
+  private static retryTimer: number | null = null
+  private static listeners = new Set<(s: SyncStatus) => void>()
+
+  /**
+   * Запустить фоновую синхронизацию (однократно, после миграций).
+   * Синхронизацию ведёт одна вкладка (Web Locks); остальные видят её очередь и статус через шину изменений.
+   */
+  static start(): void {
+    if (this.started || typeof window === 'undefined') return
+    this.started = true
+
+    const own = new Set<string>([LS_KEYS.syncOutbox, LS_KEYS.syncState, LS_KEYS.syncConflicts])
+    StorageService.onChange((key, source) => {
+      if (source === 'tab' && own.has(key)) this.notify()
+    })
+
+    if (navigator.locks?.request) {
+      // Блокировка держится до закрытия вкладки, затем переходит следующей
+      navigator.locks.request('wasser_sync_leader', () => {
+        this.lead()
+        return new Promise<void>(() => {})
+      })
+    } else {
+      this.lead()
+    }
+  }
+
+  /** Стать ведущей вкладкой: слушать изменения данных и сеть, периодически забирать обновления */
+  private static lead(): void {
+    this.leader = true
+    const keys = new Set(SYNC_ADAPTERS.map((a) => a.storageKey))
+    StorageService.onChange((key, source) => {
+      // Повтор/сброс ошибок и разрешение конфликтов могут прийти из другой вкладки
+      if (keys.has(key) || (source === 'tab' && (key === LS_KEYS.syncOutbox || key === LS_KEYS.syncConflicts))) {
+        this.scheduleScan()
+      }
+    })
+    window.addEventListener('online', () => {
+      this.notify()
+      this.syncNow()
+    })
+    window.addEventListener('offline', () => this.notify())
+    window.setInterval(() => {
+      if (isSupabaseEnabled() && navigator.onLine) this.syncNow()
+    }, PULL_INTERVAL_MS)
+
+    this.syncNow()
+  }
+
+  /** Подписка на статус. Возвращает функцию отписки. */
+  static subscribe(listener: (s: SyncStatus) => void): () => void {
+    this.listeners.add(listener)
+    listener(this.getStatus())
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /** Текущий статус */
+  static getStatus(): SyncStatus {
+    const outbox = this.readOutbox()
+    const state = this.readState()
+    return {
+      enabled: isSupabaseEnabled(),
+      leader: this.leader,
+      online: typeof navigator === 'undefined' ? true : navigator.onLine,
+      syncing: this.syncing || this.flushing,
+      pending: outbox.filter((e) => !e.failed).length,
+      failed: outbox.filter((e) => e.failed).length,
+      conflicts: this.readConflicts().length,
+      lastPullAt: state.lastPullAt,
+      lastPushAt: state.lastPushAt,
+      lastError: this.lastError,
+    }
+  }
+
+  /**
+   * Полный цикл: поиск локальных изменений → pull → отправка очереди.
+   * Сначала scan: ещё не поставленные в очередь правки иначе были бы молча перезаписаны строками с сервера
+   * (applyPulled пропускает только записи из очереди и конфликтов)
+   */
+  static async syncNow(): Promise<void> {
+    if (this.syncing || !this.leader || !isSupabaseEnabled()) {
+      this.notify()
+      return
+    }
+    this.syncing = true
+    this.notify()
+    try {
+      this.scan()
+      if (navigator.onLine) await this.pull()
+      this.scan()
+      await this.flush()
+      this.lastError = undefined
+    } catch (e) {
+      this.lastError = errorMessage(e)
+      console.warn('⚠️ Sync failed:', e)
+    } finally {
+      this.syncing = false
+      this.notify()
+    }
+  }
+
+  /** Вернуть в очередь мутации с исчерпанными попытками */
+  static retryFailed(): void {
+    const outbox = this.readOutbox().map((e) => (e.failed ? { ...e, failed: false, attempts: 0, nextAttemptAt: 0 } : e))
+    this.writeOutbox(outbox)
+    this.flushInBackground()
+  }
+
+  /** Отбросить мутации с исчерпанными попытками: локальная версия остаётся, но до следующего изменения не отправляется */
+  static discardFailed(): void {
+    const outbox = this.readOutbox()
+    const state = this.readState()
+    for (const e of outbox.filter((x) => x.failed && x.payload)) {
+      const shadow = (state.shadow[e.table] ||= {})
+      shadow[e.recordId] = hash(e.payload)
+    }
+    this.writeState(state)
+    this.writeOutbox(outbox.filter((e) => !e.failed))
+    this.notify()
+  }
+
+  /** Неразрешённые конфликты версий */
+  static getConflicts(): SyncConflict[] {
+    return this.readConflicts()
+  }
+
+  /**
+   * Разрешить конфликт.
+   * resolution — итоговая строка (слияние полей локальной и серверной версии) или null, если запись нужно удалить.
+   * Итог применяется локально и отправляется на сервер поверх актуальной серверной версии.
+   */
+  static resolveConflict(conflictId: string, resolution: SyncRow | null): void {
+    const conflict = this.readConflicts().find((c) => c.id === conflictId)
+    if (!conflict) return
+    const adapter = SYNC_ADAPTERS.find((a) => a.table === conflict.table)
+    if (!adapter) return
+    this.writeConflicts(this.readConflicts().filter((c) => c.id !== conflictId))
+
+    // Итог разрешения — изменение текущего пользователя, а не автора серверной версии
+    const { remote, recordId } = conflict
+    const actor = AuditService.getActor()
+    if (resolution) adapter.applyRows([{ ...resolution, id: recordId, updated_by: actor }])
+    else adapter.removeRows([recordId], new Map([[recordId, actor]]))
+
+    // Основа дальнейших изменений — актуальная версия сервера
+    const state = this.readState()
+    const versions = (state.versions[conflict.table] ||= {})
+    const shadow = (state.shadow[conflict.table] ||= {})
+    if (remote) versions[recordId] = Number(remote.version) || 1
+    else if (conflict.purgedVersion) versions[recordId] = conflict.purgedVersion
+    else delete versions[recordId]
+
+    const local = adapter.readRows().find((r) => r.id === recordId)
+    if (local && remote && sameData(local, remote)) {
+      // Выбрана серверная версия целиком — отправлять нечего
+      shadow[recordId] = hash(local)
+    } else if (!local && remote) {
+      // Удаление поверх серверной версии: scan поставит delete
+      shadow[recordId] = ''
+    } else {
+      delete shadow[recordId]
+    }
+    this.writeState(state)
+
+    this.scan()
+    this.notify()
+    this.flushInBackground()
+  }
+
+  /** Отложенный пересчёт отличий */
+  private static scheduleScan(): void {
+    if (this.scanTimer != null) window.clearTimeout(this.scanTimer)
+    this.scanTimer = window.setTimeout(() => {
+      this.scanTimer = null
+      if (!isSupabaseEnabled()) return
+      this.scan()
+      this.flushInBackground()
+    }, SCAN_DEBOUNCE_MS)
+  }
+
+  /**
+   * Сравнить локальные данные с тенью и поставить отличия в очередь.
+   * Upsert — в порядке зависимостей, delete — в обратном.
+   */
+  private static scan(): void {
+    if (!this.leader) return
+    const state = this.readState()
+    let outbox = this.readOutbox()
+    const upserts: OutboxEntry[] = []
+    const deletes: OutboxEntry[] = []
+    // Записи в конфликте не отправляются до разрешения (тень не трогаем — изменения подхватятся после)
+    const conflicted = new Set(this.readConflicts().map((c) => `${c.table}:${c.recordId}`))
+
+    for (const adapter of SYNC_ADAPTERS) {
+      const shadow = (state.shadow[adapter.table] ||= {})
+      const rows = adapter.readRows()
+      const seen = new Set<string>()
+      for (const row of rows) {
+        seen.add(row.id)
+        if (conflicted.has(`${adapter.table}:${row.id}`)) continue
+        const h = hash(row)
+        if (shadow[row.id] === h) continue
+        shadow[row.id] = h
+        upserts.push(this.entry(adapter.table, 'upsert', row.id, row))
+      }
+      for (const id of Object.keys(shadow)) {
+        if (seen.has(id) || conflicted.has(`${adapter.table}:${id}`)) continue
+        delete shadow[id]
+        deletes.unshift(this.entry(adapter.table, 'delete', id))
+      }
+    }
+
+    if (upserts.length === 0 && deletes.length === 0) return
+    for (const e of [...upserts, ...deletes]) {
+      // Новая мутация заменяет неотправленную для той же записи
+      outbox = outbox.filter((x) => !(x.table === e.table && x.recordId === e.recordId))
+      outbox.push(e)
+    }
+    this.writeState(state)
+    this.writeOutbox(outbox)
+    this.notify()
+  }
+
+  /** Создать запись очереди */
+  private static entry(table: SyncTable, op: OutboxEntry['op'], recordId: string, payload?: SyncRow): OutboxEntry {
+    return {
+      id: StorageService.id(),
+      table,
+      op,
+      recordId,
+      payload,
+      attempts: 0,
+      nextAttemptAt: 0,
+      created_at: new Date().toISOString(),
+    }
+  }
+
+  /** Отправка без ожидания (таймеры, действия UI): ошибка попадает в статус, а не в необработанные отказы */
+  private static flushInBackground(): void {
+    this.flush().catch((e) => {
+      this.lastError = errorMessage(e)
+      console.warn('⚠️ Sync flush failed:', e)
+      this.notify()
+    })
+  }
+
+  /**
+   * Отправить очередь по порядку. Подряд идущие вставки новых записей одной таблицы отправляются пакетом,
+   * изменения и удаления существующих — по одной с проверкой версии.
+   * При ошибке отправка останавливается (порядок важен для внешних ключей) и планируется повтор.
+   */
+  private static async flush(): Promise<void> {
+    if (this.flushing || !this.leader || !isSupabaseEnabled() || !navigator.onLine) return
+    const client = getSupabase()
+    if (!client) return
+    this.flushing = true
+    this.notify()
+    try {
+      for (;;) {
+        const outbox = this.readOutbox()
+        const now = Date.now()
+        const ready = outbox.filter((e) => !e.failed)
+        if (ready.length === 0) break
+        const head = ready[0]
+        if (head.nextAttemptAt > now) {
+          this.scheduleRetry(head.nextAttemptAt - now)
+          break
+        }
+
+        const versions = this.readState().versions
+        const baseOf = (e: OutboxEntry): number | undefined => versions[e.table]?.[e.recordId]
+
+        // Пакет: подряд идущие вставки новых записей той же таблицы
+        const batch: OutboxEntry[] = [head]
+        if (head.op === 'upsert' && baseOf(head) == null) {
+          for (const e of ready.slice(1)) {
+            if (batch.length >= PAGE_SIZE || e.op !== 'upsert' || e.table !== head.table || baseOf(e) != null) break
+            batch.push(e)
+          }
+        }
+
+        let result: PushResult
+        try {
+          result = await this.push(client, batch, baseOf(head))
+        } catch (e) {
+          this.markFailed(batch, e)
+          this.lastError = errorMessage(e)
+          break
+        }
+
+        const done = new Set(batch.map((e) => e.id))
+        this.writeOutbox(this.readOutbox().filter((e) => !done.has(e.id)))
+        const state = this.readState()
+        const tableVersions = (state.versions[head.table] ||= {})
+        for (const [id, version] of Object.entries(result.versions)) {
+          if (version == null) delete tableVersions[id]
+          else tableVersions[id] = version
+        }
+        state.lastPushAt = new Date().toISOString()
+        this.writeState(state)
+        if (result.conflicts.length > 0) this.addConflicts(result.conflicts)
+        this.notify()
+      }
+    } finally {
+      this.flushing = false
+      this.notify()
+    }
+  }
+
+  /**
+   * Отправить пакет с проверкой версии.
+   * Вставка: только если записи ещё нет на сервере; изменение и удаление: только если версия на сервере равна base.
+   * Не прошедшие проверку записи возвращаются как конфликты (бросает исключение только при ошибке запроса).
+   */
+  private static async push(client: SupabaseClient, batch: OutboxEntry[], base: number | undefined): Promise<PushResult> {
+    const head = batch[0]
+    const result: PushResult = { versions: {}, conflicts: [] }
+    // Автор изменения: на других устройствах журнал записывает изменение от его имени
+    const actor = AuditService.getActor()
+
+    if (head.op === 'upsert' && base == null) {
+      const { data, error } = await client
+        .from(head.table)
+        .upsert(batch.map((e) => ({ ...e.payload!, version: 1, updated_by: actor })), { onConflict: 'id', ignoreDuplicates: true })
+        .select('id')
+      if (error) throw error
+      const inserted = new Set((data || []).map((r: { id: string }) => r.id))
+      for (const e of batch) {
+        if (inserted.has(e.recordId)) result.versions[e.recordId] = 1
+      }
+      const taken = batch.filter((e) => !inserted.has(e.recordId))
+      if (taken.length > 0) {
+        // Запись с таким id уже создана на сервере — конфликт с её текущей версией (совпадающая — не конфликт)
+        const remote = await this.fetchRemote(client, head.table, taken.map((e) => e.recordId))
+        for (const e of taken) {
+          const row = remote.get(e.recordId) ?? null
+          const live = liveRow(row)
+          if (live && e.payload && sameData(e.payload, live)) result.versions[e.recordId] = Number(live.version) || 1
+          else result.conflicts.push(this.conflict(e, row, undefined))
+        }
+      }
+      return result
+    }
+
+    if (head.op === 'upsert') {
+      const { data, error } = await client
+        .from(head.table)
+        .update({ ...head.payload!, purged_at: null, version: base! + 1, updated_by: actor })
+        .eq('id', head.recordId)
+        .eq('version', base!)
+        .select('id, version')
+      if (error) throw error
+      if (data && data.length > 0) {
+        result.versions[head.recordId] = Number(data[0].version) || base! + 1
+      } else {
+        const remote = await this.fetchRemote(client, head.table, [head.recordId])
+        result.conflicts.push(this.conflict(head, remote.get(head.recordId) ?? null, base))
+      }
+      return result
+    }
+
+    // Удаление — надгробие с проверкой версии; версия надгробия запоминается: по ней запись можно вернуть
+    if (base == null) {
+      // Запись не получена с сервера: если её там нет — удалять нечего, если есть — её версия нам неизвестна
+      const remote = liveRow((await this.fetchRemote(client, head.table, [head.recordId])).get(head.recordId))
+      result.versions[head.recordId] = null
+      if (remote) result.conflicts.push(this.conflict(head, remote, undefined))
+      return result
+    }
+    const { data, error } = await client
+      .from(head.table)
+      .update({ purged_at: new Date().toISOString(), version: base + 1, updated_by: actor })
+      .eq('id', head.recordId)
+      .eq('version', base)
+      .select('id, version')
+    if (error) throw error
+    if (data && data.length > 0) {
+      result.versions[head.recordId] = Number(data[0].version) || base + 1
+      return result
+    }
+    // Не удалено: либо уже удалено на сервере (ок), либо изменено после нашей версии (конфликт)
+    const remote = (await this.fetchRemote(client, head.table, [head.recordId])).get(head.recordId)
+    if (remote && !remote.purged_at) result.conflicts.push(this.conflict(head, remote, base))
+    else result.versions[head.recordId] = remote ? Number(remote.version) || null : null
+    return result
+  }
+
+  /** Прочитать актуальные строки сервера по id */
+  private static async fetchRemote(client: SupabaseClient, table: SyncTable, ids: string[]): Promise<Map<string, SyncRow>> {
+    const { data, error } = await client.from(table).select('*').in('id', ids)
+    if (error) throw error
+    return new Map(((data || []) as SyncRow[]).map((r) => [r.id, r]))
+  }
+
+  /** Серверная сторона конфликта: живая строка или удаление с версией надгробия */
+  private static remoteSide(row: SyncRow | null): Pick<SyncConflict, 'remote' | 'purgedVersion'> {
+    const remote = liveRow(row)
+    return { remote, purgedVersion: row && !remote ? Number(row.version) || undefined : undefined }
+  }
+
+  /** Конфликт для мутации из очереди (row — строка сервера как есть, в т.ч. надгробие) */
+  private static conflict(entry: OutboxEntry, row: SyncRow | null, baseVersion: number | undefined): SyncConflict {
+    return {
+      id: StorageService.id(),
+      table: entry.table,
+      recordId: entry.recordId,
+      local: entry.op === 'upsert' ? entry.payload ?? null : null,
+      ...this.remoteSide(row),
+      baseVersion,
+      detected_at: new Date().toISOString(),
+    }
+  }
+
+  /** Сохранить новые конфликты (заменяют прежние по той же записи) */
+  private static addConflicts(list: SyncConflict[]): void {
+    const keys = new Set(list.map((c) => `${c.table}:${c.recordId}`))
+    const kept = this.readConflicts().filter((c) => !keys.has(`${c.table}:${c.recordId}`))
+    this.writeConflicts([...kept, ...list])
+  }
+
+  /** Отметить неудачную попытку и рассчитать задержку повтора */
+  private static markFailed(batch: OutboxEntry[], e: unknown): void {
+    const network = isNetworkError(e)
+    const ids = new Set(batch.map((x) => x.id))
+    let delay = MAX_BACKOFF_MS
+    const outbox = this.readOutbox().map((x) => {
+      if (!ids.has(x.id)) return x
+      const attempts = x.attempts + 1
+      const backoff = Math.min(MAX_BACKOFF_MS, 1000 * 2 ** attempts)
+      delay = Math.min(delay, backoff)
+      return {
+        ...x,
+        attempts,
+        nextAttemptAt: Date.now() + backoff,
+        lastError: errorMessage(e),
+        failed: !network && attempts >= MAX_ATTEMPTS,
+      }
+    })
+    this.writeOutbox(outbox)
+    this.scheduleRetry(delay)
+  }
+
+  /** Запланировать повтор отправки */
+  private static scheduleRetry(delay: number): void {
+    if (this.retryTimer != null) window.clearTimeout(this.retryTimer)
+    this.retryTimer = window.setTimeout(() => {
+      this.retryTimer = null
+      this.flushInBackground()
+    }, Math.max(0, delay))
+  }
+
+  /**
+   * Получить дельты всех таблиц по курсорам.
+   * Граница страницы — пара (updated_at, id): строки с тем же временем, не попавшие в страницу, придут в следующей.
+   */
+  private static async pull(): Promise<void> {
+    const client = getSupabase()
+    if (!client) return
+    for (const adapter of SYNC_ADAPTERS) {
+      for (;;) {
+        const cursor = this.readState().cursors[adapter.table]
+        let query = client
+          .from(adapter.table)
+          .select('*')
+          .order('updated_at', { ascending: true })
+          .order('id', { ascending: true })
+          .limit(PAGE_SIZE)
+        if (cursor) {
+          const at = `"${cursor.at}"`
+          query = query.or(`updated_at.gt.${at},and(updated_at.eq.${at},id.gt.${cursor.id})`)
+        }
+        const { data, error } = await query
+        if (error) throw error
+        const rows = (data || []) as SyncRow[]
+        if (rows.length > 0) this.applyPulled(adapter, rows)
+        if (rows.length < PAGE_SIZE) break
+      }
+    }
+    const state = this.readState()
+    state.lastPullAt = new Date().toISOString()
+    this.writeState(state)
+  }
+
+  /**
+   * Применить строки с сервера, пропуская записи с неотправленными локальными мутациями.
+   * Надгробия удаляют записи локально. Для записей в конфликте обновляется серверная сторона конфликта.
+   */
+  private static applyPulled(adapter: SyncAdapter, rows: SyncRow[]): void {
+    const pending = new Set(this.readOutbox().filter((e) => e.table === adapter.table).map((e) => e.recordId))
+    const conflicts = this.readConflicts()
+    const conflicted = new Map(conflicts.filter((c) => c.table === adapter.table).map((c) => [c.recordId, c]))
+    const accepted = rows.filter((r) => !pending.has(r.id) && !conflicted.has(r.id))
+    const live = accepted.map(liveRow).filter((r): r is SyncRow => r !== null)
+    const tombstones = accepted.filter((r) => r.purged_at)
+    const purged = tombstones.map((r) => r.id)
+    if (live.length > 0) adapter.applyRows(live)
+    if (purged.length > 0) {
+      // Надгробия приходят и для записей, которых здесь никогда не было (первая синхронизация) — их пропускаем
+      const local = new Set(adapter.readRows().map((r) => r.id))
+      const present = purged.filter((id) => local.has(id))
+      const actors = new Map(tombstones.filter((r) => typeof r.updated_by === 'string').map((r) => [r.id, String(r.updated_by)]))
+      if (present.length > 0) adapter.removeRows(present, actors)
+    }
+
+    const fresher = rows.filter((r) => conflicted.has(r.id))
+    if (fresher.length > 0) {
+      for (const r of fresher) Object.assign(conflicted.get(r.id)!, this.remoteSide(r))
+      this.writeConflicts(conflicts)
+    }
+
+    // Тень и версии: принятые записи считаются синхронизированными в их локальном виде
+    const state = this.readState()
+    const shadow = (state.shadow[adapter.table] ||= {})
+    const versions = (state.versions[adapter.table] ||= {})
+    for (const r of accepted) versions[r.id] = Number(r.version) || 1
+    for (const id of purged) delete shadow[id]
+    const ids = new Set(live.map((r) => r.id))
+    for (const row of adapter.readRows()) {
+      if (ids.has(row.id)) shadow[row.id] = hash(row)
+    }
+    const last = rows[rows.length - 1]
+    if (last?.updated_at) state.cursors[adapter.table] = { at: String(last.updated_at), id: last.id }
+    this.writeState(state)
+  }
+
+  private static readOutbox(): OutboxEntry[] {
+    return StorageService.read<OutboxEntry[]>(LS_KEYS.syncOutbox, [])
+  }
+
+  private static writeOutbox(list: OutboxEntry[]): void {
+    StorageService.write(LS_KEYS.syncOutbox, list)
+  }
+
+  private static readState(): SyncState {
+    const s = StorageService.read<SyncState | null>(LS_KEYS.syncState, null)
+    const cursors: SyncState['cursors'] = {}
+    // Состояние без версий (до оптимистичной блокировки) — перечитываем таблицы целиком, чтобы узнать версии
+    if (s?.versions) {
+      for (const [table, c] of Object.entries(s.cursors || {}) as Array<[SyncTable, SyncCursor | string]>) {
+        // Курсор старого формата — только updated_at
+        cursors[table] = typeof c === 'string' ? { at: c, id: MIN_UUID } : c
+      }
+    }
+    return {
+      cursors,
+      shadow: { ...(s?.shadow || {}) },
+      versions: { ...(s?.versions || {}) },
+      lastPullAt: s?.lastPullAt,
+      lastPushAt: s?.lastPushAt,
+    }
+  }
+
+  private static writeState(state: SyncState): void {
+    StorageService.write(LS_KEYS.syncState, state)
+  }
+
+  private static readConflicts(): SyncConflict[] {
+    return StorageService.read<SyncConflict[]>(LS_KEYS.syncConflicts, [])
+  }
+
+  private static writeConflicts(list: SyncConflict[]): void {
+    StorageService.write(LS_KEYS.syncConflicts, list)
+  }
+
+  private static notify(): void {
+    const status = this.getStatus()
+    this.listeners.forEach((fn) => {
+      try {
+        fn(status)
+      } catch {
+        /* noop */
+      }
+    })
+  }
+}
@@ -0,0 +1,553 @@
+/**
+ * Адаптеры синхронизации: преобразование локальных данных StorageService в строки таблиц Supabase и обратно.
+ * Один адаптер на таблицу supabase/schema.sql; порядок в SYNC_ADAPTERS соответствует внешним ключам.
+ */
+
+import type { Assembly, FinishType, Material, MaterialPricePoint, OverheadPool, PriceSettings, PriceTier, PriceType, Product, RoundingRule, TaxProfile, TechCardItem } from '../types/models'
+import { LS_KEYS, StorageService, isUuid, toArray, type SimpleCollection } from './storage'
+import { materialToRow, rowToMaterial, type MaterialRow } from './materialsSync'
+import { AuditService } from './audit'
+import { techCardItemKey, techCardItemKind } from '../lib/pricing'
+import { PriceHistory } from './priceHistory'
+
+/** Синхронизируемые таблицы */
+export type SyncTable =
+  | 'tax_profiles'
+  | 'product_types'
+  | 'finish_types'
+  | 'price_tiers'
+  | 'overhead_pools'
+  | 'materials'
+  | 'material_prices'
+  | 'assemblies'
+  | 'collections'
+  | 'products'
+  | 'tech_card_items'
+
+/** Строка таблицы (минимальный контракт) */
+export interface SyncRow {
+  id: string
+  updated_at?: string | null
+  [column: string]: unknown
+}
+
+/**
+ * Адаптер таблицы
+ */
+export interface SyncAdapter {
+  table: SyncTable
+  /** Ключ хранилища, при изменении которого адаптер пересчитывает отличия */
+  storageKey: string
+  /** Локальные записи в виде строк таблицы (только записи с UUID) */
+  readRows(): SyncRow[]
+  /** Применить строки с сервера к локальным данным (автор изменения — в колонке updated_by) */
+  applyRows(rows: SyncRow[]): void
+  /** Удалить локальные записи (надгробия с сервера или разрешение конфликта в пользу удаления); actors — автор по id */
+  removeRows(ids: string[], actors?: ReadonlyMap<string, string>): void
+}
+
+/**
+ * Детерминированный UUID для строки техкарты без собственного id (уникальна пара изделие+материал)
+ */
+function pairUuid(a: string, b: string): string {
+  const input = `${a}:${b}`
+  let hex = ''
+  // Четыре прохода FNV-1a с разным seed → 32 hex-символа
+  for (let seed = 0; seed < 4; seed++) {
+    let h = 0x811c9dc5 ^ seed
+    for (let i = 0; i < input.length; i++) {
+      h ^= input.charCodeAt(i)
+      h = Math.imul(h, 0x01000193)
+    }
+    hex += (h >>> 0).toString(16).padStart(8, '0')
+  }
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-8${hex.slice(17, 20)}-${hex.slice(20, 32)}`
+}
+
+/** Слить записи по id: поля с сервера поверх локальных */
+function mergeById<T extends { id: string }>(list: T[], incoming: T[]): T[] {
+  const map = new Map(list.map((x) => [x.id, x]))
+  for (const item of incoming) map.set(item.id, { ...(map.get(item.id) || {}), ...item } as T)
+  return Array.from(map.values())
+}
+
+/** Авторы изменений из колонки updated_by: по id строки или по другому ключу (id изделия для строк техкарт) */
+function actorsOf(rows: SyncRow[], key: (r: SyncRow) => string = (r) => r.id): Map<string, string> {
+  const actors = new Map<string, string>()
+  for (const r of rows) if (typeof r.updated_by === 'string' && r.updated_by) actors.set(key(r), r.updated_by)
+  return actors
+}
+
+/** Сохранить настройки цен, пришедшие с сервера, с записью отличий в журнал (одно событие — автор, если он один) */
+function savePriceSettingsFromSync(before: PriceSettings, after: PriceSettings, actors?: ReadonlyMap<string, string>): void {
+  const authors = new Set(actors?.values())
+  const actor = authors.size === 1 ? Array.from(authors)[0] : undefined
+  AuditService.log({ action: 'update', entity: 'settings', source: 'sync', actor, before, after })
+  StorageService.savePriceSettings(after)
+}
+
+/** Сохранить материалы, пришедшие с сервера, с записью отличий в журнал */
+function saveMaterialsFromSync(before: Material[], after: Material[], actors?: ReadonlyMap<string, string>): void {
+  AuditService.logList('material', before, after, 'sync', undefined, actors)
+  StorageService.saveMaterials(after)
+}
+
+/** Сохранить изделия, пришедшие с сервера, с записью отличий в журнал */
+function saveProductsFromSync(before: Product[], after: Product[], actors?: ReadonlyMap<string, string>): void {
+  AuditService.logList('product', before, after, 'sync', undefined, actors)
+  StorageService.saveProducts(after)
+}
+
+/** Сохранить сборки, пришедшие с сервера, с записью отличий в журнал */
+function saveAssembliesFromSync(before: Assembly[], after: Assembly[], actors?: ReadonlyMap<string, string>): void {
+  AuditService.logList('assembly', before, after, 'sync', undefined, actors)
+  StorageService.saveAssemblies(after)
+}
+
+/** Сохранить коллекции, пришедшие с сервера, с записью отличий в журнал */
+function saveCollectionsFromSync(before: SimpleCollection[], after: SimpleCollection[], actors?: ReadonlyMap<string, string>): void {
+  AuditService.logList('collection', before, after, 'sync', undefined, actors)
+  StorageService.saveCollections(after)
+}
+
+/** Убрать записи по id */
+function withoutIds<T extends { id: string }>(list: T[], ids: string[]): T[] {
+  const drop = new Set(ids)
+  return list.filter((x) => !drop.has(x.id))
+}
+
+/** Налоговые профили (раньше типов изделий: на них ссылается product_types.tax_profile_id) */
+const taxProfilesAdapter: SyncAdapter = {
+  table: 'tax_profiles',
+  storageKey: LS_KEYS.priceSettings,
+  readRows: () =>
+    (StorageService.getPriceSettings().taxProfiles || [])
+      .filter((t) => isUuid(t.id))
+      .map((t) => ({ id: t.id, name: t.name, rate: Number(t.rate) || 0, inclusive: !!t.inclusive })),
+  applyRows: (rows) => {
+    const ps = StorageService.getPriceSettings()
+    const incoming: TaxProfile[] = rows.map((r) => ({
+      id: r.id,
+      name: String(r.name ?? ''),
+      rate: Number(r.rate) || 0,
+      inclusive: r.inclusive !== false,
+    }))
+    savePriceSettingsFromSync(ps, { ...ps, taxProfiles: mergeById(ps.taxProfiles || [], incoming) }, actorsOf(rows))
+  },
+  removeRows: (ids, actors) => {
+    const ps = StorageService.getPriceSettings()
+    savePriceSettingsFromSync(ps, { ...ps, taxProfiles: withoutIds(ps.taxProfiles || [], ids) }, actors)
+  },
+}
+
+/** Типы изделий */
+const productTypesAdapter: SyncAdapter = {
+  table: 'product_types',
+  storageKey: LS_KEYS.priceSettings,
+  readRows: () =>
+    StorageService.getPriceSettings()
+      .productTypes.filter((t) => isUuid(t.id))
+      .map((t) => ({
+        id: t.id,
+        name: t.name,
+        markup: Number(t.markup) || 0,
+        work_cost: Number(t.workCost) || 0,
+        rounding: t.rounding ?? null,
+        tax_profile_id: t.taxProfileId ?? null,
+      })),
+  applyRows: (rows) => {
+    const ps = StorageService.getPriceSettings()
+    const incoming: PriceType[] = rows.map((r) => {
+      const t: PriceType = {
+        id: r.id,
+        name: String(r.name ?? ''),
+        markup: Number(r.markup) || 0,
+        workCost: Number(r.work_cost) || 0,
+      }
+      // Колонки rounding нет в старой схеме — тогда локальное правило сохраняется
+      if (r.rounding !== undefined) t.rounding = (r.rounding as RoundingRule | null) ?? null
+      if (r.tax_profile_id !== undefined) t.taxProfileId = (r.tax_profile_id as string | null) ?? null
+      return t
+    })
+    savePriceSettingsFromSync(ps, { ...ps, productTypes: mergeById(ps.productTypes, incoming) }, actorsOf(rows))
+  },
+  removeRows: (ids, actors) => {
+    const ps = StorageService.getPriceSettings()
+    savePriceSettingsFromSync(ps, { ...ps, productTypes: withoutIds(ps.productTypes, ids) }, actors)
+  },
+}
+
+/** Типы отделки */
+const finishTypesAdapter: SyncAdapter = {
+  table: 'finish_types',
+  storageKey: LS_KEYS.priceSettings,
+  readRows: () =>
+    StorageService.getPriceSettings()
+      .finishTypes.filter((t) => isUuid(t.id))
+      .map((t) => ({ id: t.id, name: t.name, markup: Number(t.markup) || 0, work_cost: t.workCost ?? null })),
+  applyRows: (rows) => {
+    const ps = StorageService.getPriceSettings()
+    const incoming: FinishType[] = rows.map((r) => {
+      const f: FinishType = { id: r.id, name: String(r.name ?? ''), markup: Number(r.markup) || 0 }
+      if (r.work_cost != null) f.workCost = Number(r.work_cost) || 0
+      return f
+    })
+    savePriceSettingsFromSync(ps, { ...ps, finishTypes: mergeById(ps.finishTypes, incoming) }, actorsOf(rows))
+  },
+  removeRows: (ids, actors) => {
+    const ps = StorageService.getPriceSettings()
+    savePriceSettingsFromSync(ps, { ...ps, finishTypes: withoutIds(ps.finishTypes, ids) }, actors)
+  },
+}
+
+/** Уровни цен (розница, дилер, опт) */
+const priceTiersAdapter: SyncAdapter = {
+  table: 'price_tiers',
+  storageKey: LS_KEYS.priceSettings,
+  readRows: () =>
+    (StorageService.getPriceSettings().priceTiers || [])
+      .filter((t) => isUuid(t.id))
+      .map((t) => ({ id: t.id, name: t.name, adjustment: Number(t.adjustment) || 0 })),
+  applyRows: (rows) => {
+    const ps = StorageService.getPriceSettings()
+    const incoming: PriceTier[] = rows.map((r) => ({
+      id: r.id,
+      name: String(r.name ?? ''),
+      adjustment: Number(r.adjustment) || 0,
+    }))
+    savePriceSettingsFromSync(ps, { ...ps, priceTiers: mergeById(ps.priceTiers || [], incoming) }, actorsOf(rows))
+  },
+  removeRows: (ids, actors) => {
+    const ps = StorageService.getPriceSettings()
+    savePriceSettingsFromSync(ps, { ...ps, priceTiers: withoutIds(ps.priceTiers || [], ids) }, actors)
+  },
+}
+
+/** Статьи накладных расходов */
+const overheadPoolsAdapter: SyncAdapter = {
+  table: 'overhead_pools',
+  storageKey: LS_KEYS.priceSettings,
+  readRows: () =>
+    (StorageService.getPriceSettings().overheadPools || [])
+      .filter((o) => isUuid(o.id))
+      .map((o) => ({
+        id: o.id,
+        name: o.name,
+        monthly_amount: Number(o.monthlyAmount) || 0,
+        base: o.base,
+        monthly_base: Number(o.monthlyBase) || 0,
+      })),
+  applyRows: (rows) => {
+    const ps = StorageService.getPriceSettings()
+    const incoming: OverheadPool[] = rows.map((r) => ({
+      id: r.id,
+      name: String(r.name ?? ''),
+      monthlyAmount: Number(r.monthly_amount) || 0,
+      base: r.base === 'material' || r.base === 'unit' ? r.base : 'labor',
+      monthlyBase: Number(r.monthly_base) || 0,
+    }))
+    savePriceSettingsFromSync(ps, { ...ps, overheadPools: mergeById(ps.overheadPools || [], incoming) }, actorsOf(rows))
+  },
+  removeRows: (ids, actors) => {
+    const ps = StorageService.getPriceSettings()
+    savePriceSettingsFromSync(ps, { ...ps, overheadPools: withoutIds(ps.overheadPools || [], ids) }, actors)
+  },
+}
+
+/** Материалы (version ведёт движок синхронизации — в строку не входит) */
+const materialsAdapter: SyncAdapter = {
+  table: 'materials',
+  storageKey: LS_KEYS.materials,
+  readRows: () =>
+    StorageService.getMaterials()
+      .filter((m) => isUuid(m.id))
+      .map((m) => {
+        const { version: _version, ...row } = materialToRow(m)
+        return row as unknown as SyncRow
+      }),
+  applyRows: (rows) => {
+    const incoming = rows.map((r) => rowToMaterial(r as unknown as MaterialRow)).filter(Boolean) as Material[]
+    const list = StorageService.getMaterials()
+    saveMaterialsFromSync(list, mergeById(list, incoming), actorsOf(rows))
+  },
+  removeRows: (ids, actors) => {
+    const list = StorageService.getMaterials()
+    saveMaterialsFromSync(list, withoutIds(list, ids), actors)
+  },
+}
+
+/** История цен материалов: точки только добавляются, в журнал изменений не пишутся */
+const materialPricesAdapter: SyncAdapter = {
+  table: 'material_prices',
+  storageKey: LS_KEYS.materialPrices,
+  readRows: () =>
+    PriceHistory.getAll()
+      .filter((p) => isUuid(p.id) && isUuid(p.material_id))
+      .map((p) => ({
+        id: p.id,
+        material_id: p.material_id,
+        price: Number(p.price) || 0,
+        currency: p.currency || null,
+        effective_at: p.effective_at,
+        source: p.source,
+      })),
+  applyRows: (rows) => {
+    const incoming: MaterialPricePoint[] = rows.map((r) => ({
+      id: r.id,
+      material_id: String(r.material_id ?? ''),
+      price: Number(r.price) || 0,
+      currency: (r.currency as string | null) ?? undefined,
+      effective_at: String(r.effective_at ?? ''),
+      source: r.source === 'import' || r.source === 'baseline' ? r.source : 'ui',
+    }))
+    PriceHistory.saveAll(mergeById(PriceHistory.getAll(), incoming))
+  },
+  removeRows: (ids) => {
+    PriceHistory.saveAll(withoutIds(PriceHistory.getAll(), ids))
+  },
+}
+
+/** Сборки (состав — целиком в jsonb-колонке tech_card; раньше изделий: на них ссылаются строки техкарт) */
+const assembliesAdapter: SyncAdapter = {
+  table: 'assemblies',
+  storageKey: LS_KEYS.assemblies,
+  readRows: () =>
+    StorageService.getAssemblies()
+      .filter((a) => isUuid(a.id))
+      .map((a) => ({
+        id: a.id,
+        name: a.name,
+        article: a.article || null,
+        work_cost: Number(a.work_cost) || 0,
+        tech_card: toArray<TechCardItem>(a.tech_card),
+        deleted_at: a.deleted_at ?? null,
+        created_at: a.created_at,
+        updated_at: a.updated_at,
+      })),
+  applyRows: (rows) => {
+    const list = StorageService.getAssemblies()
+    const now = new Date().toISOString()
+    const incoming = rows.map(
+      (r): Assembly => ({
+        id: r.id,
+        name: String(r.name ?? ''),
+        article: (r.article as string | null) ?? undefined,
+        work_cost: Number(r.work_cost) || 0,
+        tech_card: toArray<TechCardItem>(r.tech_card),
+        deleted_at: (r.deleted_at as string | null) ?? null,
+        created_at: String(r.created_at ?? now),
+        updated_at: String(r.updated_at ?? now),
+      }),
+    )
+    saveAssembliesFromSync(list, mergeById(list, incoming), actorsOf(rows))
+  },
+  removeRows: (ids, actors) => {
+    const list = StorageService.getAssemblies()
+    saveAssembliesFromSync(list, withoutIds(list, ids), actors)
+  },
+}
+
+/** Коллекции (состав — массив id изделий в product_order; изделия ссылаются на коллекцию через collection_id) */
+const collectionsAdapter: SyncAdapter = {
+  table: 'collections',
+  storageKey: LS_KEYS.collections,
+  readRows: () =>
+    StorageService.getCollections()
+      .filter((c) => isUuid(c.id))
+      .map((c) => ({
+        id: c.id,
+        name: c.name,
+        description: c.description || null,
+        group_name: c.group || null,
+        is_archived: !!c.is_archived,
+        pinned: !!c.pinned,
+        product_order: toArray<string>(c.product_order),
+        deleted_at: c.deleted_at ?? null,
+        created_at: c.created_at,
+        updated_at: c.updated_at,
+      })),
+  applyRows: (rows) => {
+    const list = StorageService.getCollections()
+    const now = new Date().toISOString()
+    const incoming = rows.map(
+      (r): SimpleCollection => ({
+        id: r.id,
+        name: String(r.name ?? ''),
+        description: (r.description as string | null) ?? undefined,
+        group: (r.group_name as string | null) ?? undefined,
+        is_archived: !!r.is_archived,
+        pinned: !!r.pinned,
+        product_order: toArray<unknown>(r.product_order).map(String),
+        deleted_at: (r.deleted_at as string | null) ?? null,
+        created_at: String(r.created_at ?? now),
+        updated_at: String(r.updated_at ?? now),
+      }),
+    )
+    saveCollectionsFromSync(list, mergeById(list, incoming), actorsOf(rows))
+  },
+  removeRows: (ids, actors) => {
+    const list = StorageService.getCollections()
+    saveCollectionsFromSync(list, withoutIds(list, ids), actors)
+  },
+}
+
+/** Изделия (без техкарты — она в tech_card_items) */
+const productsAdapter: SyncAdapter = {
+  table: 'products',
+  storageKey: LS_KEYS.products,
+  readRows: () =>
+    StorageService.getProducts<Product>()
+      .filter((p) => isUuid(p.id))
+      .map((p) => ({
+        id: p.id,
+        name: p.name,
+        article: p.article,
+        collection_id: isUuid(p.collection_id) ? p.collection_id : null,
+        product_type_id: isUuid(p.product_type_id) ? p.product_type_id : null,
+        finish_type_id: isUuid(p.finish_type_id) ? p.finish_type_id : null,
+        image_url: p.image_url ?? null,
+        width_mm: p.width_mm ?? null,
+        height_mm: p.height_mm ?? null,
+        depth_mm: p.depth_mm ?? null,
+        variant_of: isUuid(p.variant_of) ? p.variant_of : null,
+        deleted_at: p.deleted_at ?? null,
+        created_at: p.created_at,
+        updated_at: p.updated_at,
+      })),
+  applyRows: (rows) => {
+    const list = StorageService.getProducts<Product>()
+    const byId = new Map(list.map((p) => [p.id, p]))
+    for (const r of rows) {
+      const prev = byId.get(r.id)
+      const now = new Date().toISOString()
+      byId.set(r.id, {
+        ...(prev || { tech_card: [] }),
+        id: r.id,
+        name: String(r.name ?? ''),
+        article: String(r.article ?? ''),
+        collection_id: (r.collection_id as string | null) ?? prev?.collection_id,
+        product_type_id: (r.product_type_id as string | null) ?? undefined,
+        finish_type_id: (r.finish_type_id as string | null) ?? undefined,
+        image_url: (r.image_url as string | null) ?? undefined,
+        width_mm: r.width_mm == null ? null : Number(r.width_mm),
+        height_mm: r.height_mm == null ? null : Number(r.height_mm),
+        depth_mm: r.depth_mm == null ? null : Number(r.depth_mm),
+        variant_of: (r.variant_of as string | null) ?? null,
+        deleted_at: (r.deleted_at as string | null) ?? null,
+        created_at: String(r.created_at ?? prev?.created_at ?? now),
+        updated_at: String(r.updated_at ?? now),
+      } as Product)
+    }
+    saveProductsFromSync(list, Array.from(byId.values()), actorsOf(rows))
+  },
+  removeRows: (ids, actors) => {
+    const list = StorageService.getProducts<Product>()
+    saveProductsFromSync(list, withoutIds(list, ids), actors)
+  },
+}
+
+/** id строки техкарты (у строк-материалов пара изделие+материал, как до появления вложенных техкарт) */
+function techCardRowId(productId: string, it: TechCardItem): string {
+  if (isUuid(it._techCardId)) return it._techCardId!
+  return pairUuid(productId, techCardItemKind(it) === 'material' ? it.materialId : techCardItemKey(it))
+}
+
+/** Строка таблицы ссылается на действительную запись: материал, изделие или сборку с UUID */
+function hasSyncRef(it: TechCardItem): boolean {
+  return techCardItemKind(it) === 'material' ? isUuid(it.materialId) : isUuid(it.refId)
+}
+
+/** Строка техкарты из строки таблицы */
+function rowToTechCardItem(r: SyncRow): Pick<TechCardItem, 'materialId' | 'kind' | 'refId'> {
+  if (r.component_product_id) return { materialId: '', kind: 'product', refId: String(r.component_product_id) }
+  if (r.component_assembly_id) return { materialId: '', kind: 'assembly', refId: String(r.component_assembly_id) }
+  return { materialId: String(r.material_id) }
+}
+
+/** Позиции техкарт (дочерние строки изделий) */
+const techCardItemsAdapter: SyncAdapter = {
+  table: 'tech_card_items',
+  storageKey: LS_KEYS.products,
+  readRows: () =>
+    StorageService.getProducts<Product>()
+      .filter((p) => isUuid(p.id))
+      .flatMap((p) =>
+        toArray<TechCardItem>(p.tech_card)
+          .filter(hasSyncRef)
+          .map((it, position) => ({
+            id: techCardRowId(p.id, it),
+            product_id: p.id,
+            material_id: techCardItemKind(it) === 'material' ? it.materialId : null,
+            component_product_id: techCardItemKind(it) === 'product' ? it.refId : null,
+            component_assembly_id: techCardItemKind(it) === 'assembly' ? it.refId : null,
+            quantity: Number(it.quantity) || 0,
+            quantity_formula: it.formula?.trim() || null,
+            waste_percent: it.wastePercent ?? null,
+            position,
+          })),
+      ),
+  applyRows: (rows) => {
+    const byProduct = new Map<string, SyncRow[]>()
+    for (const r of rows) {
+      const pid = String(r.product_id)
+      if (!byProduct.has(pid)) byProduct.set(pid, [])
+      byProduct.get(pid)!.push(r)
+    }
+    const list = StorageService.getProducts<Product>()
+    const products = list.map((p) => {
+      const incoming = byProduct.get(p.id)
+      if (!incoming) return p
+      const items = toArray<TechCardItem>(p.tech_card).map((it) => ({ ...it }))
+      for (const r of incoming) {
+        const ref = rowToTechCardItem(r)
+        const key = techCardItemKey(ref)
+        const existing = items.find((it) => it._techCardId === r.id || techCardItemKey(it) === key)
+        const wastePercent = r.waste_percent == null ? null : Number(r.waste_percent) || 0
+        const formula = (r.quantity_formula as string | null) ?? null
+        if (existing) {
+          existing.quantity = Number(r.quantity) || 0
+          existing.formula = formula
+          existing.wastePercent = wastePercent
+          existing._techCardId = r.id
+        } else {
+          items.push({ ...ref, quantity: Number(r.quantity) || 0, formula, wastePercent, _techCardId: r.id })
+        }
+      }
+      return { ...p, tech_card: items }
+    })
+    saveProductsFromSync(list, products, actorsOf(rows, (r) => String(r.product_id)))
+  },
+  removeRows: (ids, actors) => {
+    const drop = new Set(ids)
+    const byProduct = new Map<string, string>()
+    const list = StorageService.getProducts<Product>()
+    const products = list.map((p) => {
+      const items = toArray<TechCardItem>(p.tech_card)
+      const kept = items.filter((it) => {
+        const rowId = techCardRowId(p.id, it)
+        const actor = actors?.get(rowId)
+        if (drop.has(rowId) && actor) byProduct.set(p.id, actor)
+        return !drop.has(rowId)
+      })
+      return kept.length === items.length ? p : { ...p, tech_card: kept }
+    })
+    saveProductsFromSync(list, products, byProduct)
+  },
+}
+
+/**
+ * Адаптеры в порядке зависимостей (справочники → материалы → сборки → коллекции → изделия → техкарты)
+ */
+export const SYNC_ADAPTERS: SyncAdapter[] = [
+  taxProfilesAdapter,
+  productTypesAdapter,
+  finishTypesAdapter,
+  priceTiersAdapter,
+  overheadPoolsAdapter,
+  materialsAdapter,
+  materialPricesAdapter,
+  assembliesAdapter,
+  collectionsAdapter,
+  productsAdapter,
+  techCardItemsAdapter,
+]
@@ -0,0 +1,279 @@
+/**
+ * trash.ts — корзина: мягкое удаление (deleted_at), восстановление и окончательное удаление
+ * Записи в корзине остаются в списках хранилища (и синхронизируются), но скрыты в каталоге.
+ * Ссылки на них (позиции техкарт, порядок изделий в коллекциях) сохраняются до окончательного удаления,
+ * поэтому восстановление возвращает запись на прежние места.
+ */
+
+import type { Assembly, Material, Product, TechCardItem } from '../types/models'
+import { LS_KEYS, StorageService, toArray, type SimpleCollection } from './storage'
+import { HistoryService, diffList, type HistoryCommand } from './history'
+import { AuditService } from './audit'
+import { PriceHistory } from './priceHistory'
+import { techCardItemKind, type ComponentKind } from '../lib/pricing'
+
+/** Тип записи корзины */
+export type TrashKind = 'material' | 'product' | 'assembly' | 'collection'
+
+/**
+ * Запись корзины
+ */
+export interface TrashItem {
+  kind: TrashKind
+  id: string
+  name: string
+  article?: string
+  deleted_at: string
+  /** Где запись всё ещё упоминается (для предупреждения при окончательном удалении) */
+  usedIn: string[]
+}
+
+/** Подписи типов */
+export const TRASH_KIND_LABELS: Record<TrashKind, string> = {
+  material: 'Материал',
+  product: 'Изделие',
+  assembly: 'Сборка',
+  collection: 'Коллекция',
+}
+
+type Deletable = { id: string; deleted_at?: string | null; updated_at?: string }
+
+/** Запись с техкартой: изделие или сборка */
+type WithTechCard = Pick<Product, 'id' | 'name' | 'tech_card' | 'deleted_at'>
+
+/**
+ * Пометить запись удалённой (новый список)
+ */
+export function markDeleted<T extends Deletable>(list: T[], id: string): T[] {
+  const now = new Date().toISOString()
+  return list.map((x) => (x.id === id ? { ...x, deleted_at: now, updated_at: now } : x))
+}
+
+/**
+ * Изделия (и сборки) вне корзины, в техкартах которых используется материал
+ */
+export function findMaterialUsage<P extends WithTechCard>(materialId: string, products: P[]): P[] {
+  return products.filter(
+    (p) =>
+      !p.deleted_at &&
+      toArray<TechCardItem>(p.tech_card).some((it) => techCardItemKind(it) === 'material' && it.materialId === materialId),
+  )
+}
+
+/**
+ * Изделия и сборки вне корзины, в техкартах которых указано изделие или сборка
+ */
+export function findComponentUsage<P extends WithTechCard>(kind: ComponentKind, id: string, owners: P[]): P[] {
+  return owners.filter(
+    (p) => !p.deleted_at && toArray<TechCardItem>(p.tech_card).some((it) => techCardItemKind(it) === kind && it.refId === id),
+  )
+}
+
+/** Убрать из техкарт позиции, для которых drop вернул true (записи без таких позиций не меняются) */
+function stripTechCards<T extends WithTechCard & { updated_at?: string }>(list: T[], drop: (it: TechCardItem) => boolean): T[] {
+  const now = new Date().toISOString()
+  return list.map((x) => {
+    const tc = toArray<TechCardItem>(x.tech_card)
+    const kept = tc.filter((it) => !drop(it))
+    return kept.length === tc.length ? x : { ...x, tech_card: kept, updated_at: now }
+  })
+}
+
+/**
+ * Коллекции вне корзины, в которые входит изделие
+ */
+export function findProductUsage<C extends SimpleCollection>(productId: string, collections: C[]): C[] {
+  return collections.filter((c) => !c.deleted_at && toArray<string>(c.product_order).includes(productId))
+}
+
+/**
+ * Текст предупреждения об удалении используемой записи (null — ссылок нет)
+ */
+export function usageWarning(names: string[], where: string): string | null {
+  if (names.length === 0) return null
+  const shown = names.slice(0, 5).map((n) => `«${n}»`).join(', ')
+  return `Используется в ${where} (${names.length}): ${shown}${names.length > 5 ? '…' : ''}`
+}
+
+/**
+ * Содержимое корзины, новые удаления сверху
+ */
+export function listTrash(): TrashItem[] {
+  const materials = StorageService.getMaterials()
+  const products = StorageService.getProducts<Product>()
+  const assemblies = StorageService.getAssemblies()
+  const collections = StorageService.getCollections()
+  const owners: WithTechCard[] = [...products, ...assemblies]
+  const items: TrashItem[] = []
+
+  for (const m of materials) {
+    if (!m.deleted_at) continue
+    items.push({
+      kind: 'material',
+      id: m.id,
+      name: m.name,
+      article: m.article,
+      deleted_at: m.deleted_at,
+      usedIn: findMaterialUsage(m.id, owners).map((p) => p.name),
+    })
+  }
+  for (const p of products) {
+    if (!p.deleted_at) continue
+    items.push({
+      kind: 'product',
+      id: p.id,
+      name: p.name,
+      article: p.article,
+      deleted_at: p.deleted_at,
+      usedIn: [
+        ...findProductUsage(p.id, collections).map((c) => c.name),
+        ...findComponentUsage('product', p.id, owners).map((o) => o.name),
+      ],
+    })
+  }
+  for (const a of assemblies) {
+    if (!a.deleted_at) continue
+    items.push({
+      kind: 'assembly',
+      id: a.id,
+      name: a.name,
+      article: a.article,
+      deleted_at: a.deleted_at,
+      usedIn: findComponentUsage('assembly', a.id, owners).map((o) => o.name),
+    })
+  }
+  for (const c of collections) {
+    if (!c.deleted_at) continue
+    items.push({ kind: 'collection', id: c.id, name: c.name, deleted_at: c.deleted_at, usedIn: [] })
+  }
+  return items.sort((a, b) => b.deleted_at.localeCompare(a.deleted_at))
+}
+
+/** Текущие списки, которые меняет корзина */
+function readLists() {
+  return {
+    materials: StorageService.getMaterials(),
+    products: StorageService.getProducts<Product>(),
+    assemblies: StorageService.getAssemblies(),
+    collections: StorageService.getCollections(),
+    prices: PriceHistory.getAll(),
+  }
+}
+
+/** Записать изменённые списки одной командой истории */
+function commit(
+  label: string,
+  before: ReturnType<typeof readLists>,
+  after: ReturnType<typeof readLists>,
+): HistoryCommand | null {
+  const cmd = HistoryService.record(label, [
+    ...diffList(LS_KEYS.materials, before.materials, after.materials),
+    ...diffList(LS_KEYS.products, before.products, after.products),
+    ...diffList(LS_KEYS.assemblies, before.assemblies, after.assemblies),
+    ...diffList(LS_KEYS.collections, before.collections, after.collections),
+    ...diffList(LS_KEYS.materialPrices, before.prices, after.prices),
+  ])
+  if (after.materials !== before.materials) StorageService.saveMaterials(after.materials)
+  if (after.products !== before.products) StorageService.saveProducts(after.products)
+  if (after.assemblies !== before.assemblies) StorageService.saveAssemblies(after.assemblies)
+  if (after.collections !== before.collections) StorageService.saveCollections(after.collections)
+  if (after.prices !== before.prices) PriceHistory.saveAll(after.prices)
+  return cmd
+}
+
+/** Подпись команды для одной или нескольких записей */
+function labelFor(action: string, items: TrashItem[]): string {
+  return items.length === 1 ? `${action}: «${items[0].name}»` : `${action}: ${items.length} записей`
+}
+
+/**
+ * Восстановить записи из корзины
+ */
+export function restoreItems(items: TrashItem[]): HistoryCommand | null {
+  if (items.length === 0) return null
+  const before = readLists()
+  const ids = new Set(items.map((i) => `${i.kind}:${i.id}`))
+  const now = new Date().toISOString()
+  const restore = <T extends Deletable>(kind: TrashKind, list: T[]): T[] =>
+    list.some((x) => ids.has(`${kind}:${x.id}`))
+      ? list.map((x) => (ids.has(`${kind}:${x.id}`) ? { ...x, deleted_at: null, updated_at: now } : x))
+      : list
+
+  const after = {
+    materials: restore('material', before.materials),
+    products: restore('product', before.products),
+    assemblies: restore('assembly', before.assemblies),
+    collections: restore('collection', before.collections),
+    prices: before.prices,
+  }
+  const cmd = commit(labelFor('Восстановление', items), before, after)
+  // Снятая отметка deleted_at записывается в журнал как restore
+  AuditService.logList('material', before.materials, after.materials, 'ui')
+  AuditService.logList('product', before.products, after.products, 'ui')
+  AuditService.logList('assembly', before.assemblies, after.assemblies, 'ui')
+  AuditService.logList('collection', before.collections, after.collections, 'ui')
+  return cmd
+}
+
+/**
+ * Удалить записи окончательно.
+ * Позиции техкарт с удалёнными материалами, изделиями и сборками, изделия в порядке коллекций
+ * и ссылки вариантов на удалённое базовое изделие убираются, чтобы не оставлять висячих ссылок.
+ */
+export function purgeItems(items: TrashItem[]): HistoryCommand | null {
+  if (items.length === 0) return null
+  const before = readLists()
+  const ofKind = (kind: TrashKind) => new Set(items.filter((i) => i.kind === kind).map((i) => i.id))
+  const materialIds = ofKind('material')
+  const productIds = ofKind('product')
+  const assemblyIds = ofKind('assembly')
+  const collectionIds = ofKind('collection')
+
+  let materials: Material[] = before.materials
+  let products: Product[] = before.products
+  let assemblies: Assembly[] = before.assemblies
+  let collections: SimpleCollection[] = before.collections
+  let prices = before.prices
+
+  if (materialIds.size > 0) {
+    materials = materials.filter((m) => !materialIds.has(m.id))
+    const drop = (it: TechCardItem) => techCardItemKind(it) === 'material' && materialIds.has(it.materialId)
+    products = stripTechCards(products, drop)
+    assemblies = stripTechCards(assemblies, drop)
+    // История цен уходит вместе с материалом (на сервере — каскадом по внешнему ключу)
+    prices = prices.filter((pt) => !materialIds.has(pt.material_id))
+  }
+  if (productIds.size > 0) {
+    products = products.filter((p) => !productIds.has(p.id))
+    // Варианты удалённого базового изделия становятся самостоятельными изделиями
+    const now = new Date().toISOString()
+    products = products.map((p) => (p.variant_of && productIds.has(p.variant_of) ? { ...p, variant_of: null, updated_at: now } : p))
+    collections = collections.map((c) => {
+      const order = toArray<string>(c.product_order)
+      const kept = order.filter((id) => !productIds.has(id))
+      return kept.length === order.length ? c : { ...c, product_order: kept }
+    })
+  }
+  if (assemblyIds.size > 0) {
+    assemblies = assemblies.filter((a) => !assemblyIds.has(a.id))
+  }
+  if (productIds.size > 0 || assemblyIds.size > 0) {
+    const drop = (it: TechCardItem) => {
+      const kind = techCardItemKind(it)
+      return (kind === 'product' && productIds.has(it.refId ?? '')) || (kind === 'assembly' && assemblyIds.has(it.refId ?? ''))
+    }
+    products = stripTechCards(products, drop)
+    assemblies = stripTechCards(assemblies, drop)
+  }
+  if (collectionIds.size > 0) {
+    collections = collections.filter((c) => !collectionIds.has(c.id))
+  }
+
+  const cmd = commit(labelFor('Удаление навсегда', items), before, { materials, products, assemblies, collections, prices })
+  for (const i of items) AuditService.log({ action: 'purge', entity: i.kind, entityId: i.id, entityName: i.name, source: 'ui' })
+  // Очистка ссылок в оставшихся записях
+  AuditService.logList('product', before.products.filter((p) => !productIds.has(p.id)), products, 'ui', { reason: 'purge' })
+  AuditService.logList('assembly', before.assemblies.filter((a) => !assemblyIds.has(a.id)), assemblies, 'ui', { reason: 'purge' })
+  AuditService.logList('collection', before.collections.filter((c) => !collectionIds.has(c.id)), collections, 'ui', { reason: 'purge' })
+  return cmd
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import type { FinishType, TechCardItem } from '../types/models'
+import { parseVariantSizes, scaleTechCard, variantLabels } from './variants'
+
+const base = { width_mm: 600, height_mm: 720, depth_mm: 450 }
+
+const finishTypes: FinishType[] = [
+  { id: 'oak', name: 'Дуб сонома', markup: 0 },
+  { id: 'white', name: 'Белый глянец', markup: 10 },
+]
+
+describe('parseVariantSizes', () => {
+  it('дополняет ширину высотой и глубиной базового и отбрасывает повторы', () => {
+    const { sizes, error } = parseVariantSizes('600, 800; 800\n1000x900x500', base)
+    expect(error).toBeNull()
+    expect(sizes).toEqual([
+      { width_mm: 600, height_mm: 720, depth_mm: 450 },
+      { width_mm: 800, height_mm: 720, depth_mm: 450 },
+      { width_mm: 1000, height_mm: 900, depth_mm: 500 },
+    ])
+  })
+
+  it('понимает русскую «х» и знак ×', () => {
+    const { sizes } = parseVariantSizes('800х900, 1000 × 900 × 400', base)
+    expect(sizes).toEqual([
+      { width_mm: 800, height_mm: 900, depth_mm: 450 },
+      { width_mm: 1000, height_mm: 900, depth_mm: 400 },
+    ])
+  })
+
+  it('останавливается на ошибочном размере', () => {
+    const { sizes, error } = parseVariantSizes('800, широкая, 1000', base)
+    expect(sizes).toHaveLength(1)
+    expect(error).toContain('«широкая»')
+    expect(parseVariantSizes('1x2x3x4', base).error).not.toBeNull()
+    expect(parseVariantSizes('0', base).error).not.toBeNull()
+  })
+
+  it('без габаритов у базового оставляет их пустыми', () => {
+    const { sizes } = parseVariantSizes('800', { width_mm: null, height_mm: null, depth_mm: null })
+    expect(sizes).toEqual([{ width_mm: 800, height_mm: null, depth_mm: null }])
+  })
+})
+
+describe('variantLabels', () => {
+  const product = { ...base, name: 'Тумба 600 Дуб сонома', article: 'TB-600-DUBS', finish_type_id: 'oak' }
+
+  it('заменяет ширину, если меняется только она', () => {
+    expect(variantLabels(product, { ...base, width_mm: 800 }, 'oak', finishTypes)).toEqual({
+      name: 'Тумба 800 Дуб сонома',
+      article: 'TB-800-DUBS',
+    })
+  })
+
+  it('подставляет полный размер, если меняется не только ширина', () => {
+    expect(variantLabels(product, { width_mm: 800, height_mm: 900, depth_mm: 450 }, 'oak', finishTypes)).toEqual({
+      name: 'Тумба 800×900×450 Дуб сонома',
+      article: 'TB-800X900X450-DUBS',
+    })
+  })
+
+  it('заменяет отделку базового названием и кодом новой', () => {
+    expect(variantLabels(product, base, 'white', finishTypes)).toEqual({
+      name: 'Тумба 600 Белый глянец',
+      article: 'TB-600-BELG',
+    })
+  })
+
+  it('дописывает размер и отделку, которых нет в названии', () => {
+    const plain = { ...base, name: 'Тумба 1600', article: 'TB', finish_type_id: undefined }
+    expect(variantLabels(plain, { ...base, width_mm: 800 }, 'white', finishTypes)).toEqual({
+      name: 'Тумба 1600 800 Белый глянец',
+      article: 'TB-800-BELG',
+    })
+  })
+})
+
+describe('scaleTechCard', () => {
+  const materials = [
+    { id: 'ldsp', unit: 'м²' },
+    { id: 'edge', unit: 'м.п.' },
+    { id: 'handle', unit: 'шт' },
+  ]
+  const techCard: TechCardItem[] = [
+    { materialId: 'ldsp', quantity: 1.5, _techCardId: 'row-1' },
+    { materialId: 'edge', quantity: 2.64 },
+    { materialId: 'handle', quantity: 4 },
+    { materialId: 'edge', quantity: 0.6, formula: 'W/1000' },
+    { materialId: '', kind: 'assembly', refId: 'drawer', quantity: 2 },
+  ]
+
+  it('масштабирует м² по площади, погонные метры по Ш+В, штуки не меняет', () => {
+    const scaled = scaleTechCard(techCard, base, { ...base, width_mm: 800 }, materials)
+    expect(scaled.map((it) => it.quantity)).toEqual([2, 3.04, 4, 0.8, 2])
+  })
+
+  it('не переносит id строк техкарты базового изделия', () => {
+    const scaled = scaleTechCard(techCard, base, base, materials)
+    expect(scaled[0]).toEqual({ materialId: 'ldsp', quantity: 1.5 })
+  })
+
+  it('не учитывает стороны, заданные только у одного изделия', () => {
+    const scaled = scaleTechCard(techCard, { ...base, height_mm: null }, { ...base, width_mm: 1200 }, materials)
+    expect(scaled.map((it) => it.quantity).slice(0, 2)).toEqual([3, 5.28])
+  })
+})
@@ -0,0 +1,391 @@
+/**
+ * variants.ts — варианты изделия: матрица «размер × отделка» от базового изделия
+ * Вариант — обычное изделие со ссылкой variant_of на базовое. Габариты и отделка у варианта свои,
+ * а название, артикул, тип, изображение и техкарта выводятся из базового и обновляются по нему (syncVariants).
+ * Техкарта варианта: строки с формулами пересчитываются по его габаритам точно, строки без формул
+ * масштабируются оценкой — м² по площади фасада (Ш×В), погонные метры по сумме Ш+В, штуки не меняются.
+ */
+
+import type { FinishType, Material, Product, TechCardItem } from '../types/models'
+import { StorageService, toArray } from './storage'
+import { refreshFormulaQuantities, techCardItemKey, techCardItemKind } from '../lib/pricing'
+
+/** Габариты варианта, мм (null — не заданы) */
+export interface VariantSize {
+  width_mm: number | null
+  height_mm: number | null
+  depth_mm: number | null
+}
+
+/**
+ * Строка плана генерации
+ */
+export interface VariantPlanRow {
+  size: VariantSize
+  /** Отделка варианта (null — без отделки) */
+  finishTypeId: string | null
+  name: string
+  article: string
+  /** Уже созданный вариант с теми же габаритами и отделкой — будет обновлён по базовому */
+  existing: Product | null
+  /** Сочетание совпадает с самим базовым изделием — вариант не создаётся */
+  isBase: boolean
+}
+
+/** Результат генерации или обновления вариантов */
+export interface VariantsResult {
+  products: Product[]
+  created: Product[]
+  updated: Product[]
+}
+
+type Dimensions = Pick<Product, 'width_mm' | 'height_mm' | 'depth_mm'>
+type DimensionField = keyof Dimensions
+
+const SIZE_FIELDS: DimensionField[] = ['width_mm', 'height_mm', 'depth_mm']
+
+/** Размер, мм, или null */
+function dim(d: Dimensions, field: DimensionField): number | null {
+  const v = Number(d[field])
+  return v > 0 ? v : null
+}
+
+/** Габариты изделия как VariantSize */
+export function sizeOf(d: Dimensions): VariantSize {
+  return { width_mm: dim(d, 'width_mm'), height_mm: dim(d, 'height_mm'), depth_mm: dim(d, 'depth_mm') }
+}
+
+function sameSize(a: Dimensions, b: Dimensions): boolean {
+  return SIZE_FIELDS.every((f) => dim(a, f) === dim(b, f))
+}
+
+/** Размер для названия и артикула: 800 или 800×720×450 */
+export function formatSize(size: VariantSize, sep = '×'): string {
+  return SIZE_FIELDS.map((f) => size[f])
+    .filter((v): v is number => v !== null)
+    .join(sep)
+}
+
+/**
+ * Разобрать список размеров: «600, 800, 1000» или «800x720x450; 1000x720».
+ * Не указанные высота и глубина берутся у базового изделия; повторы отбрасываются.
+ */
+export function parseVariantSizes(text: string, base: Dimensions): { sizes: VariantSize[]; error: string | null } {
+  const sizes: VariantSize[] = []
+  const seen = new Set<string>()
+  for (const raw of text.split(/[,;\n]+/)) {
+    const entry = raw.trim()
+    if (!entry) continue
+    const parts = entry.split(/\s*[xх×*]\s*/i).map((p) => Number(p))
+    if (parts.length > 3 || parts.some((v) => !(v > 0))) {
+      return { sizes, error: `«${entry}»: ожидается ширина или Ш×В×Г в миллиметрах` }
+    }
+    const size: VariantSize = {
+      width_mm: parts[0],
+      height_mm: parts[1] ?? dim(base, 'height_mm'),
+      depth_mm: parts[2] ?? dim(base, 'depth_mm'),
+    }
+    const key = formatSize(size)
+    if (seen.has(key)) continue
+    seen.add(key)
+    sizes.push(size)
+  }
+  return { sizes, error: null }
+}
+
+const TRANSLIT: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'e', ж: 'zh', з: 'z', и: 'i', й: 'y', к: 'k', л: 'l',
+  м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh',
+  щ: 'sch', ъ: '', ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya', ө: 'o', ү: 'u', ң: 'n',
+}
+
+/** Код отделки для артикула: «Дуб сонома» → DUBS (первое слово — 3 буквы, остальные — по одной) */
+function finishCode(name: string): string {
+  const words = Array.from(name.toLowerCase())
+    .map((ch) => TRANSLIT[ch] ?? ch)
+    .join('')
+    .toUpperCase()
+    .split(/[^A-Z0-9]+/)
+    .filter(Boolean)
+  if (words.length === 0) return 'F'
+  return words[0].slice(0, 3) + words.slice(1).map((w) => w[0]).join('')
+}
+
+/** Коды всех отделок из настроек; совпадения различаются номером (DUB, DUB2) */
+export function finishCodes(finishTypes: FinishType[]): Map<string, string> {
+  const codes = new Map<string, string>()
+  const used = new Set<string>()
+  for (const f of finishTypes) {
+    const code = finishCode(f.name)
+    let unique = code
+    for (let n = 2; used.has(unique); n++) unique = `${code}${n}`
+    used.add(unique)
+    codes.set(f.id, unique)
+  }
+  return codes
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** Заменить число (отдельное, не часть другого числа) или дописать значение через sep */
+function replaceNumber(text: string, from: number | null, to: string, sep: string): string {
+  if (from !== null) {
+    const re = new RegExp(`(^|\\D)${escapeRegExp(String(from))}(?!\\d)`)
+    if (re.test(text)) return text.replace(re, `$1${to}`)
+  }
+  return `${text}${sep}${to}`
+}
+
+/** Заменить фрагмент без учёта регистра или дописать значение через sep */
+function replaceText(text: string, from: string | null, to: string, sep: string): string {
+  const at = from ? text.toLowerCase().indexOf(from.toLowerCase()) : -1
+  if (from && at >= 0) return text.slice(0, at) + to + text.slice(at + from.length)
+  return `${text}${sep}${to}`
+}
+
+/**
+ * Название и артикул варианта. Ширина базового в названии («Тумба 600») заменяется размером варианта:
+ * шириной, если меняется только она, иначе Ш×В×Г; нет её в названии — размер дописывается.
+ * Так же отделка базового заменяется новой или дописывается.
+ */
+export function variantLabels(
+  base: Pick<Product, 'name' | 'article' | 'finish_type_id'> & Dimensions,
+  size: VariantSize,
+  finishTypeId: string | null,
+  finishTypes: FinishType[],
+): { name: string; article: string } {
+  let name = base.name.trim()
+  let article = base.article.trim()
+  if (!sameSize(base, size)) {
+    const onlyWidth = size.width_mm !== null && dim(base, 'height_mm') === size.height_mm && dim(base, 'depth_mm') === size.depth_mm
+    const baseWidth = dim(base, 'width_mm')
+    name = replaceNumber(name, baseWidth, onlyWidth ? String(size.width_mm) : formatSize(size), ' ')
+    article = replaceNumber(article, baseWidth, onlyWidth ? String(size.width_mm) : formatSize(size, 'X'), '-')
+  }
+  const finish = finishTypes.find((f) => f.id === finishTypeId)
+  if (finish && finishTypeId !== (base.finish_type_id || null)) {
+    const codes = finishCodes(finishTypes)
+    const baseFinish = finishTypes.find((f) => f.id === base.finish_type_id)
+    name = replaceText(name, baseFinish?.name ?? null, finish.name, ' ')
+    article = replaceText(article, baseFinish ? codes.get(baseFinish.id) ?? null : null, codes.get(finish.id) ?? '', '-')
+  }
+  return { name, article }
+}
+
+/** Активные варианты базового изделия */
+export function variantsOf<P extends Pick<Product, 'variant_of' | 'deleted_at'>>(baseId: string, products: P[]): P[] {
+  return products.filter((p) => p.variant_of === baseId && !p.deleted_at)
+}
+
+/**
+ * План генерации: все сочетания размеров и отделок.
+ * Пустой список размеров — габариты базового, пустой список отделок — его отделка.
+ */
+export function planVariants(
+  base: Product,
+  sizes: VariantSize[],
+  finishTypeIds: string[],
+  products: Product[],
+  finishTypes: FinishType[],
+): VariantPlanRow[] {
+  const existing = variantsOf(base.id, products)
+  const sizeList = sizes.length > 0 ? sizes : [sizeOf(base)]
+  const finishList = finishTypeIds.length > 0 ? finishTypeIds : [base.finish_type_id || null]
+  const rows: VariantPlanRow[] = []
+  for (const size of sizeList) {
+    for (const finishTypeId of finishList) {
+      const isBase = sameSize(base, size) && finishTypeId === (base.finish_type_id || null)
+      const match = existing.find((p) => sameSize(p, size) && (p.finish_type_id || null) === finishTypeId) ?? null
+      rows.push({ size, finishTypeId, ...variantLabels(base, size, finishTypeId, finishTypes), existing: match, isBase })
+    }
+  }
+  return rows
+}
+
+/** Вид единицы измерения для масштабирования */
+function unitKind(unit: string | undefined): 'area' | 'length' | 'piece' {
+  const u = String(unit ?? '').trim().toLowerCase()
+  if (/^(м2|м²|кв\.?\s*м|m2|m²|sq\.?\s*m)$/.test(u)) return 'area'
+  if (/^(м|мп|м\.п\.?|п\.?\s*м\.?|пог\.?\s*м\.?|m|lm)$/.test(u)) return 'length'
+  return 'piece'
+}
+
+/** Отношение размеров (размер не задан с одной из сторон — 1) */
+function ratio(from: Dimensions, to: Dimensions, field: DimensionField): number {
+  const a = dim(from, field)
+  const b = dim(to, field)
+  return a && b ? b / a : 1
+}
+
+/**
+ * Техкарта базового изделия под габариты варианта
+ */
+export function scaleTechCard(
+  techCard: TechCardItem[],
+  from: Dimensions,
+  to: Dimensions,
+  materials: Pick<Material, 'id' | 'unit'>[],
+): TechCardItem[] {
+  const units = new Map(materials.map((m) => [m.id, m.unit]))
+  const area = ratio(from, to, 'width_mm') * ratio(from, to, 'height_mm')
+  // Периметр: стороны, заданные только у одного из изделий, не учитываются
+  const sides = (['width_mm', 'height_mm'] as const).filter((f) => dim(from, f) && dim(to, f))
+  const fromSum = sides.reduce((s, f) => s + (dim(from, f) ?? 0), 0)
+  const length = fromSum > 0 ? sides.reduce((s, f) => s + (dim(to, f) ?? 0), 0) / fromSum : 1
+
+  const scaled = techCard.map(({ _techCardId, ...it }) => {
+    if (it.formula?.trim() || techCardItemKind(it) !== 'material') return it
+    const kind = unitKind(units.get(it.materialId))
+    const k = kind === 'area' ? area : kind === 'length' ? length : 1
+    return k === 1 ? it : { ...it, quantity: Math.round((Number(it.quantity) || 0) * k * 10000) / 10000 }
+  })
+  return refreshFormulaQuantities(scaled, to)
+}
+
+/** Артикул, не занятый другими изделиями (в т.ч. в корзине: на сервере артикул уникален): ART, ART-2… */
+function uniqueArticle(article: string, taken: Set<string>): string {
+  let result = article
+  for (let n = 2; taken.has(result.toLowerCase()); n++) result = `${article}-${n}`
+  taken.add(result.toLowerCase())
+  return result
+}
+
+/**
+ * Строки техкарты в сравнимом виде: позиция, количество (точность колонки на сервере), формула, отход.
+ * Служебный _techCardId и разница null/undefined (строки после синхронизации) не считаются изменением
+ */
+function techCardShape(techCard: TechCardItem[]): string[] {
+  return toArray<TechCardItem>(techCard).map((it) =>
+    [
+      techCardItemKey(it),
+      Math.round((Number(it.quantity) || 0) * 10000) / 10000,
+      it.formula?.trim() || '',
+      it.wastePercent ?? '',
+    ].join('|'),
+  )
+}
+
+/** Сравнение полей, которые вариант получает от базового */
+function sameDerived(a: Product, b: Product): boolean {
+  const keys: Array<keyof Product> = ['name', 'article', 'product_type_id', 'image_url', 'collection_id', 'variant_of']
+  const ta = techCardShape(a.tech_card)
+  const tb = techCardShape(b.tech_card)
+  return keys.every((k) => (a[k] ?? null) === (b[k] ?? null)) && ta.length === tb.length && ta.every((s, i) => s === tb[i])
+}
+
+/** Вариант по базовому изделию: новая запись (prev нет) или обновление существующей */
+function deriveVariant(
+  base: Product,
+  size: VariantSize,
+  finishTypeId: string | null,
+  prev: Product | null,
+  materials: Material[],
+  finishTypes: FinishType[],
+  taken: Set<string>,
+  now: string,
+): Product {
+  const labels = variantLabels(base, size, finishTypeId, finishTypes)
+  if (prev) taken.delete(prev.article.toLowerCase())
+  // Строки, которые у варианта уже были, сохраняют свой id строки техкарты на сервере
+  const rowIds = new Map(toArray<TechCardItem>(prev?.tech_card).map((it) => [techCardItemKey(it), it._techCardId]))
+  const techCard = scaleTechCard(toArray<TechCardItem>(base.tech_card), base, size, materials).map((it) => {
+    const rowId = rowIds.get(techCardItemKey(it))
+    return rowId ? { ...it, _techCardId: rowId } : it
+  })
+  const next: Product = {
+    ...(prev ?? { created_at: now }),
+    id: prev?.id ?? StorageService.id(),
+    name: labels.name,
+    article: uniqueArticle(labels.article, taken),
+    tech_card: techCard,
+    collection_id: base.collection_id ?? null,
+    product_type_id: base.product_type_id ?? null,
+    finish_type_id: finishTypeId,
+    image_url: base.image_url ?? null,
+    ...size,
+    variant_of: base.id,
+    updated_at: now,
+  }
+  return next
+}
+
+/**
+ * Создать варианты по плану; уже существующие обновляются по базовому.
+ * Новые варианты встают в списке сразу за базовым изделием.
+ */
+export function generateVariants(
+  base: Product,
+  rows: VariantPlanRow[],
+  products: Product[],
+  materials: Material[],
+  finishTypes: FinishType[],
+): VariantsResult {
+  const now = new Date().toISOString()
+  const taken = new Set(products.map((p) => p.article.toLowerCase()))
+  const created: Product[] = []
+  const updated: Product[] = []
+  const replaced = new Map<string, Product>()
+  for (const row of rows) {
+    if (row.isBase) continue
+    const next = deriveVariant(base, row.size, row.finishTypeId, row.existing, materials, finishTypes, taken, now)
+    if (!row.existing) created.push(next)
+    else if (!sameDerived(row.existing, next)) {
+      updated.push(next)
+      replaced.set(next.id, next)
+    }
+  }
+  const list = products.map((p) => replaced.get(p.id) ?? p)
+  const at = list.findIndex((p) => p.id === base.id)
+  list.splice(at + 1, 0, ...created)
+  return { products: list, created, updated }
+}
+
+/**
+ * Обновить все варианты по базовому изделию (после изменения его техкарты, названия, типа).
+ * Габариты и отделка вариантов не меняются; неизменившиеся варианты остаются теми же объектами.
+ */
+export function syncVariants(base: Product, products: Product[], materials: Material[], finishTypes: FinishType[]): VariantsResult {
+  const now = new Date().toISOString()
+  const taken = new Set(products.map((p) => p.article.toLowerCase()))
+  const updated: Product[] = []
+  const list = products.map((p) => {
+    if (p.variant_of !== base.id || p.deleted_at) return p
+    const next = deriveVariant(base, sizeOf(p), p.finish_type_id || null, p, materials, finishTypes, taken, now)
+    if (sameDerived(p, next)) {
+      taken.add(p.article.toLowerCase())
+      return p
+    }
+    updated.push(next)
+    return next
+  })
+  return { products: list, created: [], updated }
+}
+
+/**
+ * Добавить варианты в коллекции базового изделия: недостающие встают за базовым и уже входящими вариантами.
+ * Если добавлять нечего, возвращается тот же массив.
+ */
+export function withVariantsInCollections<C extends { product_order: string[]; deleted_at?: string | null; updated_at: string }>(
+  collections: C[],
+  baseId: string,
+  variantIds: string[],
+): C[] {
+  const now = new Date().toISOString()
+  let changed = false
+  const next = collections.map((c) => {
+    const order = toArray<string>(c.product_order)
+    if (c.deleted_at || !order.includes(baseId)) return c
+    const missing = variantIds.filter((id) => !order.includes(id))
+    if (missing.length === 0) return c
+    const group = new Set([baseId, ...variantIds])
+    let at = 0
+    order.forEach((id, i) => {
+      if (group.has(id)) at = i + 1
+    })
+    changed = true
+    return { ...c, product_order: [...order.slice(0, at), ...missing, ...order.slice(at)], updated_at: now }
+  })
+  return changed ? next : collections
+}
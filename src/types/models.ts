@@ -14,21 +14,93 @@ export interface Material {
   unit: string
   /** Цена за единицу */
   price: number
+  /** Отход при раскрое по умолчанию, % к чистому расходу (кромка, ЛДСП) */
+  waste_percent?: number
+  /** Валюта закупки, ISO-код (не задана — базовая валюта из настроек валют); price — в этой валюте */
+  currency?: string
+  /** Категория (опционально, из Supabase) */
+  category?: string
+  /** Поставщик (опционально) */
+  supplier?: string
+  /** Описание (опционально) */
+  description?: string
+  /** Теги (опционально) */
+  tags?: string[]
+  /** Активен ли материал (по умолчанию true) */
+  is_active?: boolean
+  /** Версия записи (инкремент при сохранении в Supabase) */
+  version?: number
+  /** Дата удаления в корзину (мягкое удаление) */
+  deleted_at?: string | null
   /** Дата создания */
   created_at: string
   /** Дата обновления */
   updated_at: string
 }
 
-export interface TechCardItem {
+export interface MaterialPricePoint {
+  /** Уникальный идентификатор точки */
+  id: string
   /** ID материала */
+  material_id: string
+  /** Цена за единицу */
+  price: number
+  /** Валюта цены, ISO-код (нет — у точек до учёта валют: валюта материала) */
+  currency?: string
+  /** С какого момента действует цена (ISO) */
+  effective_at: string
+  /** Откуда цена: правка, импорт, baseline — прежняя цена материала до начала истории */
+  source: 'ui' | 'import' | 'baseline'
+}
+
+/**
+ * Вид строки техкарты: материал, другое изделие или сборка (каркас, комплект фасадов, ящик)
+ */
+export type TechCardItemKind = 'material' | 'product' | 'assembly'
+
+export interface TechCardItem {
+  /** ID материала (у строк-изделий и строк-сборок — пустая строка) */
   materialId: string
-  /** Количество материала */
+  /** Вид строки (не задан — материал) */
+  kind?: TechCardItemKind
+  /** ID изделия или сборки для строк kind = 'product' | 'assembly' */
+  refId?: string | null
+  /** Количество материала (чистый расход, без отхода); для изделия и сборки — штук */
   quantity: number
+  /**
+   * Формула количества от размеров изделия, мм: W — ширина, H — высота, D — глубина (src/lib/expr.ts).
+   * Если задана, количество считается по ней, а quantity хранит последнее вычисленное значение.
+   */
+  formula?: string | null
+  /** Отход для этой строки, % (не задан — отход материала по умолчанию; у изделий и сборок не применяется) */
+  wastePercent?: number | null
   /** Локальный ID строки техкарты (для UI) */
   _techCardId?: string
 }
 
+/**
+ * Сборка — узел из материалов и других сборок, общий для нескольких изделий.
+ * Сама в каталог и прайс-лист не попадает: её себестоимость входит в изделия, где она указана в техкарте.
+ */
+export interface Assembly {
+  /** Уникальный идентификатор */
+  id: string
+  /** Название: «Каркас 600», «Ящик 450» */
+  name: string
+  /** Артикул (необязательно) */
+  article?: string
+  /** Состав сборки */
+  tech_card: TechCardItem[]
+  /** Стоимость работ на одну сборку */
+  work_cost?: number
+  /** Дата удаления в корзину (мягкое удаление) */
+  deleted_at?: string | null
+  /** Дата создания */
+  created_at: string
+  /** Дата обновления */
+  updated_at: string
+}
+
 export interface Product {
   /** Уникальный идентификатор */
   id: string
@@ -46,12 +118,36 @@ export interface Product {
   finish_type_id?: string | null
   /** URL изображения */
   image_url?: string | null
+  /** Габариты, мм: ширина, высота, глубина (переменные W, H, D формул техкарты) */
+  width_mm?: number | null
+  height_mm?: number | null
+  depth_mm?: number | null
+  /** Базовое изделие, из которого сгенерирован вариант (размер × отделка); нет — самостоятельное изделие */
+  variant_of?: string | null
+  /** Дата удаления в корзину (мягкое удаление) */
+  deleted_at?: string | null
   /** Дата создания */
   created_at: string
   /** Дата обновления */
   updated_at: string
 }
 
+/**
+ * Способ округления цены:
+ * nearest — до ближайшего кратного шагу, up/down — всегда вверх/вниз,
+ * ending — вверх до цены с заданным окончанием (шаг 100, окончание 90 → …90)
+ */
+export type RoundingMode = 'none' | 'nearest' | 'up' | 'down' | 'ending'
+
+export interface RoundingRule {
+  /** Способ */
+  mode: RoundingMode
+  /** Шаг: 10, 50, 100… */
+  step: number
+  /** Окончание цены для режима ending (меньше шага) */
+  ending?: number
+}
+
 export interface PriceType {
   /** ID типа изделия */
   id: string
@@ -61,6 +157,10 @@ export interface PriceType {
   markup: number
   /** Стоимость работ */
   workCost: number
+  /** Своё правило округления (нет — общее правило из настроек) */
+  rounding?: RoundingRule | null
+  /** Налоговый профиль (нет — цены без налога) */
+  taxProfileId?: string | null
 }
 
 export interface FinishType {
@@ -74,9 +174,75 @@ export interface FinishType {
   workCost?: number
 }
 
+export interface PriceTier {
+  /** ID уровня цен */
+  id: string
+  /** Имя: «Розница», «Дилер», «Опт» */
+  name: string
+  /** Поправка к итоговой цене, %: отрицательная — скидка, положительная — наценка */
+  adjustment: number
+}
+
+/** База распределения накладных: фонд работ, закупка материалов или выпуск изделий */
+export type OverheadBase = 'labor' | 'material' | 'unit'
+
+export interface OverheadPool {
+  /** ID статьи накладных */
+  id: string
+  /** Имя: «Аренда цеха», «Электроэнергия», «Амортизация» */
+  name: string
+  /** Сумма в месяц */
+  monthlyAmount: number
+  /** База распределения */
+  base: OverheadBase
+  /** Объём базы в месяц: сумма работ или материалов (для labor/material) либо число изделий (для unit) */
+  monthlyBase: number
+}
+
+export interface TaxProfile {
+  /** ID налогового профиля */
+  id: string
+  /** Имя: «НДС 12%», «Налог с продаж» */
+  name: string
+  /** Ставка, % */
+  rate: number
+  /** Налог включён в цену (true) или начисляется сверху (false) */
+  inclusive: boolean
+}
+
 export interface PriceSettings {
   /** Типы изделий */
   productTypes: PriceType[]
   /** Типы отделки */
   finishTypes: FinishType[]
+  /** Общее правило округления итоговой цены */
+  rounding?: RoundingRule
+  /** Уровни цен для разных покупателей (итоговая цена — цена без поправки) */
+  priceTiers?: PriceTier[]
+  /** Накладные расходы, распределяемые в себестоимость */
+  overheadPools?: OverheadPool[]
+  /** Налоговые профили (назначаются типам изделий) */
+  taxProfiles?: TaxProfile[]
+}
+
+export interface PriceSettingsVersion {
+  /** ID версии */
+  id: string
+  /** Снимок настроек цен */
+  settings: PriceSettings
+  /**
+   * Снимок валют на момент публикации: базовая валюта и курсы закупочных валют.
+   * Прайс-лист на дату версии пересчитывает закупку по этим курсам (нет — у версий до снимков — текущие курсы)
+   */
+  currency?: { base: string; rates: Record<string, number> }
+  /** С какого момента действует версия (ISO) */
+  effective_at: string
+  /** Когда опубликована (ISO) */
+  published_at: string
+  /** Комментарий публикации */
+  note?: string
+  /** Версия перенесена в текущие настройки (версия с будущей датой — при наступлении даты) */
+  applied: boolean
+  /** Откуда версия: публикация или baseline — настройки, действовавшие до первой публикации */
+  source: 'ui' | 'baseline'
 }
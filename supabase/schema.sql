@@ -8,7 +8,9 @@
 create extension if not exists pgcrypto;
 create extension if not exists pg_trgm;
 
--- Универсальная функция обновления updated_at
+-- Универсальная функция обновления updated_at.
+-- Срабатывает и на вставке: запись, созданная офлайн и отправленная позже, получает время сервера,
+-- иначе дельта-выборка клиентов, чей курсор уже ушёл дальше, её бы не увидела (src/services/sync.ts)
 create or replace function public.set_updated_at()
 returns trigger
 language plpgsql
@@ -33,22 +35,12 @@ create table if not exists public.materials (
   constraint materials_article_chk check (length(trim(article)) > 0)
 );
 
--- Уникальность артикула (без учета регистра)
-do $$
-begin
-  if not exists (
-    select 1 from pg_indexes where schemaname='public' and indexname='materials_article_unique_idx'
-  ) then
-    create unique index materials_article_unique_idx on public.materials (lower(article));
-  end if;
-end$$;
-
 create index if not exists materials_name_trgm_idx on public.materials using gin (name gin_trgm_ops);
 create index if not exists materials_article_trgm_idx on public.materials using gin (article gin_trgm_ops);
 
 drop trigger if exists trg_materials_updated_at on public.materials;
 create trigger trg_materials_updated_at
-before update on public.materials
+before insert or update on public.materials
 for each row execute function public.set_updated_at();
 
 -- ==========================
@@ -65,7 +57,7 @@ create table if not exists public.product_types (
 
 drop trigger if exists trg_product_types_updated_at on public.product_types;
 create trigger trg_product_types_updated_at
-before update on public.product_types
+before insert or update on public.product_types
 for each row execute function public.set_updated_at();
 
 create table if not exists public.finish_types (
@@ -79,7 +71,82 @@ create table if not exists public.finish_types (
 
 drop trigger if exists trg_finish_types_updated_at on public.finish_types;
 create trigger trg_finish_types_updated_at
-before update on public.finish_types
+before insert or update on public.finish_types
+for each row execute function public.set_updated_at();
+
+-- Уровни цен для покупателей (розница, дилер, опт): поправка к итоговой цене, %
+create table if not exists public.price_tiers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  adjustment numeric(6,2) not null default 0,    -- %, отрицательная — скидка
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists trg_price_tiers_updated_at on public.price_tiers;
+create trigger trg_price_tiers_updated_at
+before insert or update on public.price_tiers
+for each row execute function public.set_updated_at();
+
+-- ==========================
+-- Накладные расходы (src/lib/pricing.ts): сумма в месяц делится на объём базы за месяц
+-- ==========================
+create table if not exists public.overhead_pools (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  monthly_amount numeric(14,2) not null default 0 check (monthly_amount >= 0),
+  base text not null default 'labor' check (base in ('labor', 'material', 'unit')),
+  monthly_base numeric(14,2) not null default 0 check (monthly_base >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists trg_overhead_pools_updated_at on public.overhead_pools;
+create trigger trg_overhead_pools_updated_at
+before insert or update on public.overhead_pools
+for each row execute function public.set_updated_at();
+
+-- ==========================
+-- Налоговые профили (src/lib/pricing.ts): ставка, налог в цене (inclusive) или сверху
+-- ==========================
+create table if not exists public.tax_profiles (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  rate numeric(6,2) not null default 0 check (rate >= 0 and rate <= 100),
+  inclusive boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists trg_tax_profiles_updated_at on public.tax_profiles;
+create trigger trg_tax_profiles_updated_at
+before insert or update on public.tax_profiles
+for each row execute function public.set_updated_at();
+
+-- ==========================
+-- Коллекции изделий (src/pages/Collections.tsx): состав и порядок — product_order, id изделий
+-- Таблица новая, поэтому version и purged_at заданы сразу (см. патч синхронизации ниже)
+-- ==========================
+create table if not exists public.collections (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  group_name text,
+  is_archived boolean not null default false,
+  pinned boolean not null default false,
+  product_order jsonb not null default '[]'::jsonb,
+  deleted_at timestamptz,
+  version int not null default 1,
+  purged_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists collections_sync_cursor_idx on public.collections (updated_at, id);
+
+drop trigger if exists trg_collections_updated_at on public.collections;
+create trigger trg_collections_updated_at
+before insert or update on public.collections
 for each row execute function public.set_updated_at();
 
 -- ==========================
@@ -98,22 +165,13 @@ create table if not exists public.products (
   constraint products_article_chk check (length(trim(article)) > 0)
 );
 
-do $$
-begin
-  if not exists (
-    select 1 from pg_indexes where schemaname='public' and indexname='products_article_unique_idx'
-  ) then
-    create unique index products_article_unique_idx on public.products (lower(article));
-  end if;
-end$$;
-
 create index if not exists products_name_trgm_idx on public.products using gin (name gin_trgm_ops);
 create index if not exists products_pt_idx on public.products (product_type_id);
 create index if not exists products_ft_idx on public.products (finish_type_id);
 
 drop trigger if exists trg_products_updated_at on public.products;
 create trigger trg_products_updated_at
-before update on public.products
+before insert or update on public.products
 for each row execute function public.set_updated_at();
 
 -- ==========================
@@ -166,6 +224,26 @@ begin
   end if;
 end$$;
 
+-- ==========================
+-- Сборки: общие узлы изделий (каркас, комплект фасадов, ящик)
+-- Состав хранится в tech_card jsonb в формате клиента (src/types/models.ts, TechCardItem[])
+-- ==========================
+create table if not exists public.assemblies (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  article text,
+  work_cost numeric(12,2) not null default 0 check (work_cost >= 0),
+  tech_card jsonb not null default '[]'::jsonb,
+  deleted_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists trg_assemblies_updated_at on public.assemblies;
+create trigger trg_assemblies_updated_at
+before insert or update on public.assemblies
+for each row execute function public.set_updated_at();
+
 -- ==========================
 -- Техкарта (состав изделия)
 -- ==========================
@@ -179,24 +257,186 @@ create table if not exists public.tech_card_items (
   updated_at timestamptz not null default now()
 );
 
--- Один материал в техкарте товара — одна строка (позиция можно хранить отдельно)
-do $$
-begin
-  if not exists (
-    select 1 from pg_indexes where schemaname='public' and indexname='tci_unique_product_material_idx'
-  ) then
-    create unique index tci_unique_product_material_idx on public.tech_card_items (product_id, material_id);
-  end if;
-end$$;
-
 create index if not exists tci_product_idx on public.tech_card_items (product_id);
 create index if not exists tci_material_idx on public.tech_card_items (material_id);
 
 drop trigger if exists trg_tci_updated_at on public.tech_card_items;
 create trigger trg_tci_updated_at
-before update on public.tech_card_items
+before insert or update on public.tech_card_items
+for each row execute function public.set_updated_at();
+
+-- ==========================
+-- История цен материалов (src/services/priceHistory.ts): цена действует с effective_at до следующей точки
+-- ==========================
+create table if not exists public.material_prices (
+  id uuid primary key default gen_random_uuid(),
+  material_id uuid not null references public.materials(id) on update cascade on delete cascade,
+  price numeric(12,2) not null check (price >= 0),
+  effective_at timestamptz not null default now(),
+  source text not null default 'ui',              -- ui | import | baseline
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists material_prices_material_idx on public.material_prices (material_id, effective_at);
+
+drop trigger if exists trg_material_prices_updated_at on public.material_prices;
+create trigger trg_material_prices_updated_at
+before insert or update on public.material_prices
 for each row execute function public.set_updated_at();
 
+-- ==========================
+-- Патч для фоновой синхронизации клиента (src/services/sync.ts)
+-- Колонки материалов, которые хранит клиент, и индексы updated_at для дельта-выборок
+-- ==========================
+alter table public.materials add column if not exists category text;
+alter table public.materials add column if not exists supplier text;
+alter table public.materials add column if not exists description text;
+alter table public.materials add column if not exists tags text[] not null default '{}';
+alter table public.materials add column if not exists is_active boolean not null default true;
+alter table public.materials add column if not exists version int not null default 1;
+
+-- Версия строки для оптимистичной блокировки: клиент пишет с условием version = <известная версия>
+alter table public.product_types add column if not exists version int not null default 1;
+alter table public.finish_types add column if not exists version int not null default 1;
+alter table public.price_tiers add column if not exists version int not null default 1;
+alter table public.overhead_pools add column if not exists version int not null default 1;
+alter table public.tax_profiles add column if not exists version int not null default 1;
+alter table public.material_prices add column if not exists version int not null default 1;
+alter table public.assemblies add column if not exists version int not null default 1;
+alter table public.products add column if not exists version int not null default 1;
+alter table public.tech_card_items add column if not exists version int not null default 1;
+
+-- Надгробие синхронизации: удалённая на клиенте запись остаётся строкой с purged_at, чтобы дельта-выборка
+-- донесла удаление до других устройств (deleted_at у материалов и изделий занят корзиной).
+-- Артикул надгробия свободен для новых записей
+alter table public.tax_profiles add column if not exists purged_at timestamptz;
+alter table public.product_types add column if not exists purged_at timestamptz;
+alter table public.finish_types add column if not exists purged_at timestamptz;
+alter table public.price_tiers add column if not exists purged_at timestamptz;
+alter table public.overhead_pools add column if not exists purged_at timestamptz;
+alter table public.materials add column if not exists purged_at timestamptz;
+alter table public.material_prices add column if not exists purged_at timestamptz;
+alter table public.assemblies add column if not exists purged_at timestamptz;
+alter table public.products add column if not exists purged_at timestamptz;
+alter table public.tech_card_items add column if not exists purged_at timestamptz;
+drop index if exists public.materials_article_unique_idx;
+drop index if exists public.products_article_unique_idx;
+create unique index if not exists materials_article_live_unique_idx on public.materials (lower(article)) where purged_at is null;
+create unique index if not exists products_article_live_unique_idx on public.products (lower(article)) where purged_at is null;
+-- Один материал в техкарте товара — одна живая строка: возвращённая в техкарту позиция не упирается в надгробие
+drop index if exists public.tci_unique_product_material_idx;
+create unique index if not exists tci_material_live_unique_idx
+  on public.tech_card_items (product_id, material_id) where purged_at is null;
+
+-- Автор последнего изменения (имя из журнала клиента): изменения с другого устройства пишутся в журнал от его имени
+alter table public.tax_profiles add column if not exists updated_by text;
+alter table public.product_types add column if not exists updated_by text;
+alter table public.finish_types add column if not exists updated_by text;
+alter table public.price_tiers add column if not exists updated_by text;
+alter table public.overhead_pools add column if not exists updated_by text;
+alter table public.materials add column if not exists updated_by text;
+alter table public.material_prices add column if not exists updated_by text;
+alter table public.assemblies add column if not exists updated_by text;
+alter table public.collections add column if not exists updated_by text;
+alter table public.products add column if not exists updated_by text;
+alter table public.tech_card_items add column if not exists updated_by text;
+
+-- Мягкое удаление (корзина): запись с deleted_at скрыта в каталоге, но хранится до очистки корзины
+alter table public.materials add column if not exists deleted_at timestamptz;
+alter table public.products add column if not exists deleted_at timestamptz;
+create index if not exists materials_alive_idx on public.materials (name) where deleted_at is null;
+create index if not exists products_alive_idx on public.products (name) where deleted_at is null;
+
+-- Отход при раскрое, %: у материала — по умолчанию, у строки техкарты — своё значение (null — как у материала)
+alter table public.materials add column if not exists waste_percent numeric(6,2) not null default 0;
+alter table public.tech_card_items add column if not exists waste_percent numeric(6,2);
+
+-- Габариты изделия, мм, и формула количества строки техкарты от них (src/lib/expr.ts); quantity — вычисленное значение
+alter table public.products add column if not exists width_mm numeric(10,1) check (width_mm > 0);
+alter table public.products add column if not exists height_mm numeric(10,1) check (height_mm > 0);
+alter table public.products add column if not exists depth_mm numeric(10,1) check (depth_mm > 0);
+alter table public.tech_card_items add column if not exists quantity_formula text;
+
+-- Вариант изделия (размер × отделка): ссылка на базовое изделие, от которого выведены техкарта, название и артикул
+alter table public.products add column if not exists variant_of uuid references public.products(id) on update cascade on delete set null;
+create index if not exists products_variant_of_idx on public.products (variant_of) where variant_of is not null;
+
+-- Строка техкарты может ссылаться на другое изделие или сборку вместо материала (ровно одна ссылка)
+alter table public.tech_card_items alter column material_id drop not null;
+alter table public.tech_card_items add column if not exists component_product_id uuid references public.products(id) on update cascade on delete cascade;
+alter table public.tech_card_items add column if not exists component_assembly_id uuid references public.assemblies(id) on update cascade on delete cascade;
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'tci_single_ref_check') then
+    alter table public.tech_card_items
+      add constraint tci_single_ref_check
+      check (num_nonnulls(material_id, component_product_id, component_assembly_id) = 1);
+  end if;
+end$$;
+-- Уникальны только живые строки: снятый и снова добавленный компонент не упирается в надгробие
+drop index if exists public.tci_unique_product_component_product_idx;
+drop index if exists public.tci_unique_product_component_assembly_idx;
+create unique index if not exists tci_component_product_live_unique_idx
+  on public.tech_card_items (product_id, component_product_id) where component_product_id is not null and purged_at is null;
+create unique index if not exists tci_component_assembly_live_unique_idx
+  on public.tech_card_items (product_id, component_assembly_id) where component_assembly_id is not null and purged_at is null;
+
+-- Валюта закупки материала (ISO-код); null — базовая валюта клиента, цена price — в этой валюте
+alter table public.materials add column if not exists currency text;
+-- Валюта точки истории цен: себестоимость на дату пересчитывается из валюты, действовавшей тогда
+alter table public.material_prices add column if not exists currency text;
+
+-- Правило округления цены типа изделия (src/lib/pricing.ts): {"mode","step","ending"}; null — общее правило
+alter table public.product_types add column if not exists rounding jsonb;
+
+-- Налоговый профиль типа изделия; null — цены без налога
+alter table public.product_types add column if not exists tax_profile_id uuid references public.tax_profiles(id) on update cascade on delete set null;
+
+-- Курсор дельта-выборки — пара (updated_at, id): строки с одинаковым временем не теряются на границе страниц
+drop index if exists public.materials_updated_at_idx;
+drop index if exists public.product_types_updated_at_idx;
+drop index if exists public.finish_types_updated_at_idx;
+drop index if exists public.price_tiers_updated_at_idx;
+drop index if exists public.overhead_pools_updated_at_idx;
+drop index if exists public.tax_profiles_updated_at_idx;
+drop index if exists public.material_prices_updated_at_idx;
+drop index if exists public.assemblies_updated_at_idx;
+drop index if exists public.products_updated_at_idx;
+drop index if exists public.tci_updated_at_idx;
+create index if not exists materials_sync_cursor_idx on public.materials (updated_at, id);
+create index if not exists product_types_sync_cursor_idx on public.product_types (updated_at, id);
+create index if not exists finish_types_sync_cursor_idx on public.finish_types (updated_at, id);
+create index if not exists price_tiers_sync_cursor_idx on public.price_tiers (updated_at, id);
+create index if not exists overhead_pools_sync_cursor_idx on public.overhead_pools (updated_at, id);
+create index if not exists tax_profiles_sync_cursor_idx on public.tax_profiles (updated_at, id);
+create index if not exists material_prices_sync_cursor_idx on public.material_prices (updated_at, id);
+create index if not exists assemblies_sync_cursor_idx on public.assemblies (updated_at, id);
+create index if not exists products_sync_cursor_idx on public.products (updated_at, id);
+create index if not exists tci_sync_cursor_idx on public.tech_card_items (updated_at, id);
+
+-- ==========================
+-- Архив журнала изменений (src/services/auditRetention.ts)
+-- События, вытесненные из локального журнала по сроку/количеству; id — id события клиента
+-- ==========================
+create table if not exists public.audit_log (
+  id text primary key,
+  at timestamptz not null,
+  actor text,
+  source text,
+  entity text not null,
+  entity_id text,
+  entity_name text,
+  action text not null,
+  changes jsonb,
+  details jsonb,
+  version text,
+  archived_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_at_idx on public.audit_log (at);
+create index if not exists audit_log_entity_idx on public.audit_log (entity, entity_id);
+
 -- ==========================
 -- Вьюха экспорта товаров с техкартой и ценами
 -- ==========================
@@ -236,7 +476,7 @@ select
              )
       from public.tech_card_items t
       join public.materials m on m.id = t.material_id
-      where t.product_id = p.id
+      where t.product_id = p.id and t.purged_at is null
     ), '[]'::jsonb
   ) as techcard,
 
@@ -245,7 +485,7 @@ select
     select sum((t.quantity) * (m.price))
     from public.tech_card_items t
     join public.materials m on m.id = t.material_id
-    where t.product_id = p.id
+    where t.product_id = p.id and t.purged_at is null
   ), 0)::numeric(14,2)                      as material_cost,
 
   coalesce(pt.work_cost, 0)::numeric(14,2)  as work_cost,
@@ -255,7 +495,7 @@ select
       select sum((t.quantity) * (m.price))
       from public.tech_card_items t
       join public.materials m on m.id = t.material_id
-      where t.product_id = p.id
+      where t.product_id = p.id and t.purged_at is null
     ), 0) + coalesce(pt.work_cost, 0)
   )::numeric(14,2)                           as base_price,
 
@@ -265,7 +505,7 @@ select
         select sum((t.quantity) * (m.price))
         from public.tech_card_items t
         join public.materials m on m.id = t.material_id
-        where t.product_id = p.id
+        where t.product_id = p.id and t.purged_at is null
       ), 0) + coalesce(pt.work_cost, 0)
     ) * (1 + coalesce(pt.markup,0)/100.0)
   )::numeric(14,4)                            as price_after_type,
@@ -277,14 +517,15 @@ select
           select sum((t.quantity) * (m.price))
           from public.tech_card_items t
           join public.materials m on m.id = t.material_id
-          where t.product_id = p.id
+          where t.product_id = p.id and t.purged_at is null
         ), 0) + coalesce(pt.work_cost, 0)
       ) * (1 + coalesce(pt.markup,0)/100.0)
     ) * (1 + coalesce(ft.markup,0)/100.0)
   )::numeric(14,2)                            as final_price
 from public.products p
 left join public.product_types pt on pt.id = p.product_type_id
-left join public.finish_types ft on ft.id = p.finish_type_id;
+left join public.finish_types ft on ft.id = p.finish_type_id
+where p.deleted_at is null and p.purged_at is null;
 
 -- Доступ к вьюхе (для REST)
 grant select on public.v_products_export to anon, authenticated;
@@ -340,7 +581,7 @@ begin
     if v_mat_id is not null and v_qty > 0 then
       insert into public.tech_card_items(product_id, material_id, quantity, position)
       values (v_product_id, v_mat_id, v_qty, v_pos)
-      on conflict (product_id, material_id)
+      on conflict (product_id, material_id) where purged_at is null
       do update set quantity = excluded.quantity,
                     position = excluded.position,
                     updated_at = now();
@@ -424,10 +665,18 @@ grant execute on function public.api_upsert_product_with_techcard_by_article(tex
 -- RLS Политики безопасности
 -- ==========================
 alter table if exists public.materials enable row level security;
+alter table if exists public.collections enable row level security;
 alter table if exists public.product_types enable row level security;
 alter table if exists public.finish_types enable row level security;
+alter table if exists public.price_tiers enable row level security;
+alter table if exists public.overhead_pools enable row level security;
+alter table if exists public.tax_profiles enable row level security;
+alter table if exists public.material_prices enable row level security;
+alter table if exists public.assemblies enable row level security;
 alter table if exists public.products enable row level security;
 alter table if exists public.tech_card_items enable row level security;
+-- Архив журнала не читается публично: только аутентифицированные (политика записи ниже покрывает и чтение)
+alter table if exists public.audit_log enable row level security;
 
 -- Публичное чтение
 do $$
@@ -435,12 +684,30 @@ begin
   if not exists (select 1 from pg_policies where schemaname='public' and tablename='materials' and policyname='materials_select_public') then
     create policy materials_select_public on public.materials for select using (true);
   end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='collections' and policyname='collections_select_public') then
+    create policy collections_select_public on public.collections for select using (true);
+  end if;
   if not exists (select 1 from pg_policies where schemaname='public' and tablename='product_types' and policyname='pt_select_public') then
     create policy pt_select_public on public.product_types for select using (true);
   end if;
   if not exists (select 1 from pg_policies where schemaname='public' and tablename='finish_types' and policyname='ft_select_public') then
     create policy ft_select_public on public.finish_types for select using (true);
   end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='price_tiers' and policyname='tiers_select_public') then
+    create policy tiers_select_public on public.price_tiers for select using (true);
+  end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='overhead_pools' and policyname='overhead_select_public') then
+    create policy overhead_select_public on public.overhead_pools for select using (true);
+  end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='tax_profiles' and policyname='tax_select_public') then
+    create policy tax_select_public on public.tax_profiles for select using (true);
+  end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='material_prices' and policyname='mp_select_public') then
+    create policy mp_select_public on public.material_prices for select using (true);
+  end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='assemblies' and policyname='assemblies_select_public') then
+    create policy assemblies_select_public on public.assemblies for select using (true);
+  end if;
   if not exists (select 1 from pg_policies where schemaname='public' and tablename='products' and policyname='products_select_public') then
     create policy products_select_public on public.products for select using (true);
   end if;
@@ -458,6 +725,12 @@ begin
       using (auth.role() = 'authenticated')
       with check (auth.role() = 'authenticated');
   end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='collections' and policyname='collections_write_auth') then
+    create policy collections_write_auth on public.collections
+      for all
+      using (auth.role() = 'authenticated')
+      with check (auth.role() = 'authenticated');
+  end if;
   if not exists (select 1 from pg_policies where schemaname='public' and tablename='product_types' and policyname='pt_write_auth') then
     create policy pt_write_auth on public.product_types
       for all
@@ -470,12 +743,48 @@ begin
       using (auth.role() = 'authenticated')
       with check (auth.role() = 'authenticated');
   end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='price_tiers' and policyname='tiers_write_auth') then
+    create policy tiers_write_auth on public.price_tiers
+      for all
+      using (auth.role() = 'authenticated')
+      with check (auth.role() = 'authenticated');
+  end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='overhead_pools' and policyname='overhead_write_auth') then
+    create policy overhead_write_auth on public.overhead_pools
+      for all
+      using (auth.role() = 'authenticated')
+      with check (auth.role() = 'authenticated');
+  end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='tax_profiles' and policyname='tax_write_auth') then
+    create policy tax_write_auth on public.tax_profiles
+      for all
+      using (auth.role() = 'authenticated')
+      with check (auth.role() = 'authenticated');
+  end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='material_prices' and policyname='mp_write_auth') then
+    create policy mp_write_auth on public.material_prices
+      for all
+      using (auth.role() = 'authenticated')
+      with check (auth.role() = 'authenticated');
+  end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='assemblies' and policyname='assemblies_write_auth') then
+    create policy assemblies_write_auth on public.assemblies
+      for all
+      using (auth.role() = 'authenticated')
+      with check (auth.role() = 'authenticated');
+  end if;
   if not exists (select 1 from pg_policies where schemaname='public' and tablename='products' and policyname='products_write_auth') then
     create policy products_write_auth on public.products
       for all
       using (auth.role() = 'authenticated')
       with check (auth.role() = 'authenticated');
   end if;
+  if not exists (select 1 from pg_policies where schemaname='public' and tablename='audit_log' and policyname='audit_log_write_auth') then
+    create policy audit_log_write_auth on public.audit_log
+      for all
+      using (auth.role() = 'authenticated')
+      with check (auth.role() = 'authenticated');
+  end if;
   if not exists (select 1 from pg_policies where schemaname='public' and tablename='tech_card_items' and policyname='tci_write_auth') then
     create policy tci_write_auth on public.tech_card_items
       for all
@@ -485,8 +794,9 @@ begin
 end$$;
 
 -- Доп. права на таблицы (для PostgREST)
-grant select on public.materials, public.product_types, public.finish_types, public.products, public.tech_card_items to anon, authenticated;
-grant insert, update, delete on public.materials, public.product_types, public.finish_types, public.products, public.tech_card_items to authenticated;
+grant select on public.materials, public.product_types, public.finish_types, public.price_tiers, public.overhead_pools, public.tax_profiles, public.material_prices, public.assemblies, public.collections, public.products, public.tech_card_items to anon, authenticated;
+grant insert, update, delete on public.materials, public.product_types, public.finish_types, public.price_tiers, public.overhead_pools, public.tax_profiles, public.material_prices, public.assemblies, public.collections, public.products, public.tech_card_items to authenticated;
+grant select, insert on public.audit_log to authenticated;
 
 -- ============================================
 -- Необязательная быстрая проверка (закомментировано)